@@ -2,7 +2,7 @@
  * Pure calculation functions for homepage visibility and animations
  */
 
-import { SCROLL_ZONES, RESTING_POINTS, SECTION_THRESHOLDS, WHEEL_RADIUS, ANGLE_PER_SECTION } from './constants';
+import { SCROLL_ZONES, RESTING_POINTS, SECTION_THRESHOLDS, WHEEL_RADIUS, ANGLE_PER_SECTION, CROSSFADE_WIDTH } from './constants';
 import type { SectionVisibility, GreetingVisibility, WelcomeVisibility, AllSectionVisibility, WheelTransform } from './types';
 
 /**
@@ -177,6 +177,28 @@ export function calculateWheelTransform(
 	};
 }
 
+/**
+ * Calculate crossfade visibility for reduced motion
+ * Cards stay in place and only fade with distance from their resting point
+ */
+export function calculateCrossfadeVisibility(
+	scrollProgress: number,
+	restingPoint: number
+): SectionVisibility {
+	const opacity = clamp(1 - Math.abs(scrollProgress - restingPoint) / CROSSFADE_WIDTH, 0, 1);
+
+	return {
+		opacity,
+		entryProgress: 1,
+		exitProgress: 0,
+		mobileOffset: 0,
+		mobileScale: 1,
+		wheelRotateY: 0,
+		wheelTranslateX: 0,
+		wheelTranslateZ: 0,
+	};
+}
+
 /**
  * Calculate about card visibility
  */
@@ -298,14 +320,21 @@ export function calculateAllVisibility(
 	scrollProgress: number,
 	hasPassedGreeting: boolean,
 	isJumping: boolean,
-	isMobile: boolean
+	isMobile: boolean,
+	reducedMotion: boolean = false
 ): AllSectionVisibility {
 	const greeting = calculateGreetingVisibility(scrollProgress, hasPassedGreeting);
 	const welcome = calculateWelcomeVisibility(scrollProgress, hasPassedGreeting);
 
-	const aboutBase = calculateAboutVisibility(scrollProgress, isMobile);
-	const linksBase = calculateLinksVisibility(scrollProgress, isMobile);
-	const contactBase = calculateContactVisibility(scrollProgress, isMobile);
+	const aboutBase = reducedMotion
+		? calculateCrossfadeVisibility(scrollProgress, RESTING_POINTS[0])
+		: calculateAboutVisibility(scrollProgress, isMobile);
+	const linksBase = reducedMotion
+		? calculateCrossfadeVisibility(scrollProgress, RESTING_POINTS[1])
+		: calculateLinksVisibility(scrollProgress, isMobile);
+	const contactBase = reducedMotion
+		? calculateCrossfadeVisibility(scrollProgress, RESTING_POINTS[2])
+		: calculateContactVisibility(scrollProgress, isMobile);
 
 	// Apply jumping fade out
 	const jumpMultiplier = isJumping ? 0 : 1;
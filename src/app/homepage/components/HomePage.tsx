@@ -1,7 +1,9 @@
 "use client";
 
 import { useState, useCallback } from "react";
-import { useTheme } from "@/components/providers";
+import { useTheme, useMotionPreference } from "@/components/providers";
+import { MotionToggle } from "@/components/ui/MotionToggle";
+import { ThemeToggle } from "@/components/ui/ThemeToggle";
 import { ScrollDotIndicator } from "@/components/ui/ScrollDotIndicator";
 import { Attribution } from "@/components/ui/Attribution";
 import { GridView } from "@/components/orb-field";
@@ -31,6 +33,7 @@ interface HomePageProps {
  */
 export function HomePage({ initialSection }: HomePageProps) {
 	const { theme } = useTheme();
+	const { reducedMotion } = useMotionPreference();
 
 	// Skip animation when starting from a specific section (set before useAnimationStages)
 	const skipAnimation = initialSection !== undefined;
@@ -45,7 +48,7 @@ export function HomePage({ initialSection }: HomePageProps) {
 	const { rawTiltX, rawTiltY } = useDeviceOrientation();
 
 	// Animation stage management (intro sequence)
-	const { stage, isReady, wasSkippedFromStorage, hasCheckedStorage } = useAnimationStages({ skipAnimation });
+	const { stage, isReady, wasSkippedFromStorage, hasCheckedStorage } = useAnimationStages({ skipAnimation, reducedMotion });
 
 	// Unified card transition system - handles scroll, keyboard, dots, touch
 	// When animation was skipped from storage (cookie), skip the greeting and go to first card
@@ -54,11 +57,13 @@ export function HomePage({ initialSection }: HomePageProps) {
 		activeSection,
 		hasPassedGreeting,
 		isMobile,
+		scrollDelta,
 		handleDotClick,
 	} = useCardTransition({
 		enabled: isReady,
 		initialSection,
 		skipGreeting: wasSkippedFromStorage,
+		reducedMotion,
 	});
 
 	// Calculate all section visibilities (isJumping no longer used - animations are unified)
@@ -67,11 +72,15 @@ export function HomePage({ initialSection }: HomePageProps) {
 		hasPassedGreeting,
 		isJumping: false, // No longer used - unified animations handle transitions
 		isMobile,
+		reducedMotion,
 	});
 
-	// Dynamic background based on theme
+	// Under reduced motion the contact card fades in place, so follow its opacity
+	const contactEntry = reducedMotion ? visibility.contact.opacity : visibility.contact.entryProgress;
+
+	// Theme background until the burst
 	// When stage >= 2, background is transparent (via CSS) to show orbs through
-	const homepageBackground = stage >= 2 ? "transparent" : "#000000";
+	const homepageBackground = stage >= 2 ? "transparent" : "var(--bg-base)";
 
 	return (
 		<>
@@ -79,7 +88,7 @@ export function HomePage({ initialSection }: HomePageProps) {
 			<style jsx global>{`
                 html,
                 body {
-                    background: #000000 !important;
+                    background: var(--bg-base) !important;
                     overflow-x: hidden;
                 }
 
@@ -98,9 +107,13 @@ export function HomePage({ initialSection }: HomePageProps) {
 				triggerBurst={stage >= 2 || (skipAnimation && gridAnimationComplete)}
 				onAnimationComplete={handleGridAnimationComplete}
 				scrollProgress={scrollProgress}
+				focus="scroll"
 				isMobile={isMobile}
-				deviceTiltX={rawTiltX}
-				deviceTiltY={rawTiltY}
+				scrollDelta={scrollDelta}
+				deviceTiltX={reducedMotion ? 0.5 : rawTiltX}
+				deviceTiltY={reducedMotion ? 0.5 : rawTiltY}
+				reducedMotion={reducedMotion}
+				theme={theme}
 			/>
 
 			<main
@@ -137,18 +150,24 @@ export function HomePage({ initialSection }: HomePageProps) {
 
 			{/* Glass slider - OUTSIDE main to avoid stacking context issues */}
 			<GlassSlider
-				visible={visibility.contact.entryProgress > 0}
+				visible={contactEntry > 0}
 				opacity={
-					visibility.contact.entryProgress === 1
+					contactEntry === 1
 						? 1  // Always full opacity when fully entered
-						: visibility.contact.entryProgress > 0
-							? visibility.contact.entryProgress  // Fade in with entry progress
+						: contactEntry > 0
+							? contactEntry  // Fade in with entry progress
 							: 0
 				}
 			/>
 
 			{/* Attribution - Only visible on last card (contact) */}
 			<Attribution visible={activeSection === cardsConfig.length - 1} />
+
+			{/* Light/dark - visitor override for prefers-color-scheme */}
+			<ThemeToggle />
+
+			{/* Calm mode - visitor override for prefers-reduced-motion */}
+			<MotionToggle />
 		</>
 	);
 }
@@ -25,6 +25,7 @@ export interface TransitionConfig {
 		max: number; // ms
 	};
 	dotClickDuration: number; // ms - duration for dot navigation
+	reducedMotionFadeDuration: number; // ms - crossfade used for every snap under reduced motion
 	
 	// Touch/swipe thresholds (duplicated from constants for centralization)
 	swipeVelocityThreshold: number; // pixels per ms
@@ -63,6 +64,7 @@ export const defaultTransitionConfig: TransitionConfig = {
 		max: 800,
 	},
 	dotClickDuration: 400,
+	reducedMotionFadeDuration: 250,
 	
 	// Touch/swipe thresholds
 	swipeVelocityThreshold: 5.0,
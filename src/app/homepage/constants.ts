@@ -10,6 +10,10 @@ export const TOTAL_SECTIONS = 4;
 export const WHEEL_RADIUS = 600; // px - larger = flatter curve
 export const ANGLE_PER_SECTION = 55; // degrees between cards
 
+// Reduced motion: cards crossfade in place instead of sliding or rotating
+// A card is fully hidden this far (in viewport units) from its resting point
+export const CROSSFADE_WIDTH = 0.5;
+
 // Resting points for scroll snap (in viewport units)
 // These are the "bottom" points where cards are fully visible
 // Index 0 = About, 1 = Links, 2 = Contact (no Hi! since it's one-time)
@@ -1,6 +1,7 @@
 /**
  * Hook for managing snap animation to resting points
- * Provides parabolic easing for desktop and cubic easing for mobile
+ * Provides parabolic easing for desktop and cubic easing for mobile,
+ * and a short linear crossfade under reduced motion
  */
 
 import { useCallback } from "react";
@@ -8,6 +9,8 @@ import { transitionConfig } from "../../config";
 
 export interface UseSnapAnimationOptions {
 	isMobile: boolean;
+	/** Replace eased snaps with a short linear crossfade */
+	reducedMotion?: boolean;
 	scrollProgress: number;
 	updateActiveSection: (progress: number) => void;
 	setScrollProgress: (progress: number) => void;
@@ -33,6 +36,7 @@ export interface UseSnapAnimationState {
  */
 export function useSnapAnimation({
 	isMobile,
+	reducedMotion = false,
 	scrollProgress,
 	updateActiveSection,
 	setScrollProgress,
@@ -96,7 +100,9 @@ export function useSnapAnimation({
 
 			const minDuration = isMobile ? config.mobileSnapDuration.min : config.desktopSnapDuration.min;
 			const maxDuration = isMobile ? config.mobileSnapDuration.max : config.desktopSnapDuration.max;
-			const animDuration = Math.min(maxDuration, Math.max(minDuration, effectiveDuration, Math.abs(distance) * 500));
+			const animDuration = reducedMotion
+				? config.reducedMotionFadeDuration
+				: Math.min(maxDuration, Math.max(minDuration, effectiveDuration, Math.abs(distance) * 500));
 
 			const startTime = performance.now();
 
@@ -110,7 +116,10 @@ export function useSnapAnimation({
 				const progress = Math.min(elapsed / animDuration, 1);
 
 				let eased: number;
-				if (isMobile || useEaseOut) {
+				if (reducedMotion) {
+					// Linear - cards crossfade in place, so no easing is needed
+					eased = progress;
+				} else if (isMobile || useEaseOut) {
 					// Ease-out cubic - starts fast, slows at end
 					eased = 1 - Math.pow(1 - progress, 3);
 				} else {
@@ -152,6 +161,7 @@ export function useSnapAnimation({
 		},
 		[
 			isMobile,
+			reducedMotion,
 			scrollProgress,
 			parabolicBallEase,
 			cancelSnap,
@@ -19,6 +19,7 @@ import type { AnimationStagesState, AnimationStagesOptions } from "../types";
  * Refactored to use IntroStorageService abstraction for persistence
  * 
  * @param options.skipAnimation - If true, skip directly to stage 7 (ready state)
+ * @param options.reducedMotion - If true, skip the intro like a returning visitor
  */
 export function useAnimationStages(options?: AnimationStagesOptions): AnimationStagesState {
 	// Check if we should skip based on explicit option
@@ -29,7 +30,7 @@ export function useAnimationStages(options?: AnimationStagesOptions): AnimationS
 		return options?.skipAnimation ?? false;
 	});
 
-	// Track if skip was triggered by storage (cookie/localStorage)
+	// Track if skip was triggered by storage (intro cookie/localStorage or stored motion preference)
 	const [wasSkippedFromStorage, setWasSkippedFromStorage] = useState(false);
 
 	// Track if we've checked storage yet (to delay animation start)
@@ -48,14 +49,14 @@ export function useAnimationStages(options?: AnimationStagesOptions): AnimationS
 				return;
 			}
 
-			if (introStorage.hasIntroBeenPlayed()) {
+			if (options?.reducedMotion || introStorage.hasIntroBeenPlayed()) {
 				setShouldSkip(true);
 				setWasSkippedFromStorage(true);
 				setStage(7);
 			}
 			setHasCheckedStorage(true);
 		});
-	}, [options?.skipAnimation]);
+	}, [options?.skipAnimation, options?.reducedMotion]);
 
 	useEffect(() => {
 		// Wait for storage check to complete before starting animations
@@ -20,6 +20,8 @@ export interface CardTransitionOptions {
 	initialSection?: number;
 	/** When true, skip the greeting and go directly to first card (used when animation was previously played) */
 	skipGreeting?: boolean;
+	/** When true, snaps become short crossfades (prefers-reduced-motion or calm mode) */
+	reducedMotion?: boolean;
 }
 
 export interface CardTransitionState {
@@ -41,6 +43,7 @@ export function useCardTransition({
 	enabled,
 	initialSection,
 	skipGreeting = false,
+	reducedMotion = false,
 }: CardTransitionOptions): CardTransitionState {
 	// Calculate initial values based on initialSection
 	const hasInitialSection = initialSection !== undefined && initialSection >= 0 && initialSection <= 2;
@@ -147,6 +150,7 @@ export function useCardTransition({
 	// Use snap animation hook
 	const { animateToProgress, cancelSnap } = useSnapAnimation({
 		isMobile,
+		reducedMotion,
 		scrollProgress,
 		updateActiveSection,
 		setScrollProgress,
@@ -9,6 +9,8 @@ interface UseSectionVisibilityOptions {
     hasPassedGreeting: boolean;
     isJumping: boolean;
     isMobile: boolean;
+    /** Crossfade cards in place instead of sliding or rotating them */
+    reducedMotion?: boolean;
 }
 
 /**
@@ -20,10 +22,11 @@ export function useSectionVisibility({
     hasPassedGreeting,
     isJumping,
     isMobile,
+    reducedMotion = false,
 }: UseSectionVisibilityOptions): AllSectionVisibility {
     return useMemo(
-        () => calculateAllVisibility(scrollProgress, hasPassedGreeting, isJumping, isMobile),
-        [scrollProgress, hasPassedGreeting, isJumping, isMobile]
+        () => calculateAllVisibility(scrollProgress, hasPassedGreeting, isJumping, isMobile, reducedMotion),
+        [scrollProgress, hasPassedGreeting, isJumping, isMobile, reducedMotion]
     );
 }
 
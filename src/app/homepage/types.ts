@@ -60,6 +60,8 @@ export interface AnimationStagesState {
 
 export interface AnimationStagesOptions {
 	skipAnimation?: boolean;
+	/** Skip the intro for visitors who prefer reduced motion */
+	reducedMotion?: boolean;
 }
 
 export interface ScrollNavigationOptions {
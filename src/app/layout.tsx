@@ -1,7 +1,7 @@
 import type { Metadata, Viewport } from "next";
 import { JetBrains_Mono } from "next/font/google";
 import "./globals.css";
-import { Providers } from "@/components";
+import { Providers, THEME_INIT_SCRIPT } from "@/components";
 
 const jetbrainsMono = JetBrains_Mono({
 	subsets: ["latin"],
@@ -28,6 +28,10 @@ export default function RootLayout({
 }>) {
 	return (
 		<html lang="en" suppressHydrationWarning>
+			<head>
+				{/* Applies the stored or OS theme before first paint (no flash of the wrong theme) */}
+				<script dangerouslySetInnerHTML={{ __html: THEME_INIT_SCRIPT }} />
+			</head>
 			<body className={jetbrainsMono.className}>
 				<Providers>{children}</Providers>
 				{/* Landscape orientation overlay - shown on mobile when in landscape */}
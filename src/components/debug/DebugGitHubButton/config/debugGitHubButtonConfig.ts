@@ -19,7 +19,7 @@ export const debugGitHubButtonConfig = {
 	},
 	colors: {
 		iconDefault: "rgba(255, 255, 255, 0.8)",
-		iconHover: "var(--color-maroon)", // Maroon color on hover (fallback for SSR)
+		iconHover: "var(--color-accent, var(--color-maroon))", // Palette accent on hover (fallback for SSR)
 	},
 	transitions: {
 		scale: "transform 0.2s",
@@ -9,7 +9,16 @@ import { ToggleRow } from "./components/ToggleRow";
 import { SectionHeader } from "./components/SectionHeader";
 import { OrbDebugSection } from "./components/OrbDebugSection";
 import { GridDebugSection } from "./components/GridDebugSection";
-import type { GlassDebugMenuProps, ToggleItem, MenuComponentProps } from "./types";
+import { PhysicsPhaseSection } from "./components/PhysicsPhaseSection";
+import { ForceFieldSection } from "./components/ForceFieldSection";
+import { FormationSection } from "./components/FormationSection";
+import { BoundarySection } from "./components/BoundarySection";
+import { SnapshotSection } from "./components/SnapshotSection";
+import { ReplaySection } from "./components/ReplaySection";
+import { QualitySection } from "./components/QualitySection";
+import { FocusSection } from "./components/FocusSection";
+import { PaletteSection } from "./components/PaletteSection";
+import type { GlassDebugMenuProps, PhysicsDebugProps, ForceFieldDebugProps, FormationDebugProps, BoundaryDebugProps, SnapshotDebugProps, ReplayDebugProps, QualityDebugProps, FocusDebugProps, PaletteDebugProps, ToggleItem, MenuComponentProps } from "./types";
 
 const toggleItems: ToggleItem[] = [
 	{ key: "showGrid", label: "Grid Lines", description: "Spatial grid visualization" },
@@ -87,6 +96,33 @@ export function GlassDebugMenu(props: GlassDebugMenuProps) {
 			handleToggle={handleToggle}
 			toggleItems={toggleItems}
 			glassStyles={baseGlassStyles}
+			phases={props.phases}
+			onTogglePhase={props.onTogglePhase}
+			forceFields={props.forceFields}
+			placingForceField={props.placingForceField}
+			onPlaceForceField={props.onPlaceForceField}
+			onRemoveForceField={props.onRemoveForceField}
+			formation={props.formation}
+			onFormShape={props.onFormShape}
+			onReleaseFormation={props.onReleaseFormation}
+			boundaries={props.boundaries}
+			onBoundariesChange={props.onBoundariesChange}
+			onExportSnapshot={props.onExportSnapshot}
+			onImportSnapshot={props.onImportSnapshot}
+			replay={props.replay}
+			onToggleRecording={props.onToggleRecording}
+			onStartReplay={props.onStartReplay}
+			onExitReplay={props.onExitReplay}
+			onSeekReplay={props.onSeekReplay}
+			onToggleReplayPlayback={props.onToggleReplayPlayback}
+			onExportRecording={props.onExportRecording}
+			onImportRecording={props.onImportRecording}
+			quality={props.quality}
+			onQualityOverride={props.onQualityOverride}
+			focusSource={props.focusSource}
+			onFocusSourceChange={props.onFocusSourceChange}
+			palette={props.palette}
+			onPaletteChange={props.onPaletteChange}
 		/>
 	);
 }
@@ -101,7 +137,34 @@ function DesktopMenu({
 	handleToggle,
 	toggleItems,
 	glassStyles: baseGlassStyles,
-}: MenuComponentProps) {
+	phases,
+	onTogglePhase,
+	forceFields,
+	placingForceField,
+	onPlaceForceField,
+	onRemoveForceField,
+	formation,
+	onFormShape,
+	onReleaseFormation,
+	boundaries,
+	onBoundariesChange,
+	onExportSnapshot,
+	onImportSnapshot,
+	replay,
+	onToggleRecording,
+	onStartReplay,
+	onExitReplay,
+	onSeekReplay,
+	onToggleReplayPlayback,
+	onExportRecording,
+	onImportRecording,
+	quality,
+	onQualityOverride,
+	focusSource,
+	onFocusSourceChange,
+	palette,
+	onPaletteChange,
+}: MenuComponentProps & PhysicsDebugProps & ForceFieldDebugProps & FormationDebugProps & BoundaryDebugProps & SnapshotDebugProps & ReplayDebugProps & QualityDebugProps & FocusDebugProps & PaletteDebugProps) {
 	const { dimensions, zIndex, spacing, colors } = debugMenuConfig;
 	const [isHovered, setIsHovered] = useState(false);
 
@@ -188,6 +251,47 @@ function DesktopMenu({
 							/>
 						))}
 					</div>
+
+					<PhysicsPhaseSection phases={phases} onTogglePhase={onTogglePhase} />
+
+					<QualitySection quality={quality} onQualityOverride={onQualityOverride} />
+
+					<FocusSection focusSource={focusSource} onFocusSourceChange={onFocusSourceChange} />
+
+					<PaletteSection palette={palette} onPaletteChange={onPaletteChange} />
+
+					<ForceFieldSection
+						forceFields={forceFields}
+						placingForceField={placingForceField}
+						onPlaceForceField={onPlaceForceField}
+						onRemoveForceField={onRemoveForceField}
+					/>
+
+					<FormationSection
+						formation={formation}
+						onFormShape={onFormShape}
+						onReleaseFormation={onReleaseFormation}
+					/>
+
+					<BoundarySection boundaries={boundaries} onBoundariesChange={onBoundariesChange} />
+
+					<SnapshotSection
+						state={state}
+						onToggle={handleToggle}
+						onExportSnapshot={onExportSnapshot}
+						onImportSnapshot={onImportSnapshot}
+					/>
+
+					<ReplaySection
+						replay={replay}
+						onToggleRecording={onToggleRecording}
+						onStartReplay={onStartReplay}
+						onExitReplay={onExitReplay}
+						onSeekReplay={onSeekReplay}
+						onToggleReplayPlayback={onToggleReplayPlayback}
+						onExportRecording={onExportRecording}
+						onImportRecording={onImportRecording}
+					/>
 				</div>
 			)}
 		</div>
@@ -217,6 +321,33 @@ function MobileMenu({
 	currentLayer,
 	onLayerChange,
 	hoveredCell,
+	phases,
+	onTogglePhase,
+	forceFields,
+	placingForceField,
+	onPlaceForceField,
+	onRemoveForceField,
+	formation,
+	onFormShape,
+	onReleaseFormation,
+	boundaries,
+	onBoundariesChange,
+	onExportSnapshot,
+	onImportSnapshot,
+	replay,
+	onToggleRecording,
+	onStartReplay,
+	onExitReplay,
+	onSeekReplay,
+	onToggleReplayPlayback,
+	onExportRecording,
+	onImportRecording,
+	quality,
+	onQualityOverride,
+	focusSource,
+	onFocusSourceChange,
+	palette,
+	onPaletteChange,
 }: MenuComponentProps & GlassDebugMenuProps) {
 	const { dimensions, zIndex, spacing, colors } = debugMenuConfig;
 	const [isHovered, setIsHovered] = useState(false);
@@ -336,6 +467,47 @@ function MobileMenu({
 					onDeleteOrb={onDeleteOrb}
 					onSizeChange={onSizeChange}
 				/>
+
+				<PhysicsPhaseSection phases={phases} onTogglePhase={onTogglePhase} />
+
+				<QualitySection quality={quality} onQualityOverride={onQualityOverride} />
+
+				<FocusSection focusSource={focusSource} onFocusSourceChange={onFocusSourceChange} />
+
+				<PaletteSection palette={palette} onPaletteChange={onPaletteChange} />
+
+				<ForceFieldSection
+					forceFields={forceFields}
+					placingForceField={placingForceField}
+					onPlaceForceField={onPlaceForceField}
+					onRemoveForceField={onRemoveForceField}
+				/>
+
+				<FormationSection
+					formation={formation}
+					onFormShape={onFormShape}
+					onReleaseFormation={onReleaseFormation}
+				/>
+
+				<BoundarySection boundaries={boundaries} onBoundariesChange={onBoundariesChange} />
+
+				<SnapshotSection
+					state={state}
+					onToggle={handleToggle}
+					onExportSnapshot={onExportSnapshot}
+					onImportSnapshot={onImportSnapshot}
+				/>
+
+				<ReplaySection
+					replay={replay}
+					onToggleRecording={onToggleRecording}
+					onStartReplay={onStartReplay}
+					onExitReplay={onExitReplay}
+					onSeekReplay={onSeekReplay}
+					onToggleReplayPlayback={onToggleReplayPlayback}
+					onExportRecording={onExportRecording}
+					onImportRecording={onImportRecording}
+				/>
 			</div>
 		</>
 	);
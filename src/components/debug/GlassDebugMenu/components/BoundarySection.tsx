@@ -0,0 +1,122 @@
+"use client";
+
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import type { BoundaryMode } from "@/components/orb-field/boundary";
+import type { BoundaryDebugProps } from "../types";
+
+const modes: { mode: BoundaryMode; label: string }[] = [
+	{ mode: "bounce", label: "Bounce" },
+	{ mode: "wrap", label: "Wrap" },
+	{ mode: "absorb", label: "Absorb" },
+	{ mode: "soft", label: "Soft" },
+];
+
+const axes = ["x", "y", "z"] as const;
+
+/** Depth range applied when limiting Z from the menu */
+const defaultDepthRange = { min: 20, max: 80 };
+
+/**
+ * BoundarySection - Picks what happens to orbs at the field edges, per axis
+ * Follows Single Responsibility Principle - only handles boundary UI
+ */
+export function BoundarySection({
+	boundaries,
+	onBoundariesChange,
+}: BoundaryDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!boundaries || !onBoundariesChange) return null;
+
+	const { depthRange } = boundaries;
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	const inputStyle: React.CSSProperties = {
+		width: 56,
+		background: colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapSm}px ${spacing.gapMd}px`,
+		fontSize: typography.fontSizeSm,
+	};
+
+	const setDepth = (key: "min" | "max", value: string) => {
+		const layer = parseInt(value, 10);
+		if (!depthRange || Number.isNaN(layer)) return;
+		onBoundariesChange({ depthRange: { ...depthRange, [key]: layer } });
+	};
+
+	return (
+		<>
+			<SectionHeader title="Boundaries" />
+
+			{/* Mode Buttons per Axis */}
+			{axes.map((axis) => (
+				<div key={axis} style={{ display: "flex", alignItems: "center", gap: spacing.gapSm, marginBottom: spacing.gapSm }}>
+					<span style={{ width: 16, fontSize: typography.fontSizeSm, color: colors.textSecondary }}>
+						{axis.toUpperCase()}
+					</span>
+					{modes.map(({ mode, label }) => (
+						<button
+							key={mode}
+							onClick={() => onBoundariesChange({ [axis]: mode })}
+							aria-pressed={boundaries[axis] === mode}
+							aria-label={`${axis.toUpperCase()} ${label}`}
+							style={{
+								...buttonStyle,
+								background: boundaries[axis] === mode ? colors.maroonAccent : colors.inputBg,
+							}}
+						>
+							{label}
+						</button>
+					))}
+				</div>
+			))}
+
+			{/* Depth Range */}
+			<div style={{ display: "flex", alignItems: "center", gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
+				<button
+					onClick={() => onBoundariesChange({ depthRange: depthRange ? null : defaultDepthRange })}
+					aria-pressed={depthRange !== null}
+					style={{
+						...buttonStyle,
+						background: depthRange ? colors.maroonAccent : colors.inputBg,
+					}}
+				>
+					{depthRange ? "Depth Limited" : "All Layers"}
+				</button>
+				{depthRange && (
+					<>
+						<input
+							type="number"
+							min={0}
+							value={depthRange.min}
+							onChange={(e) => setDepth("min", e.target.value)}
+							aria-label="Nearest layer"
+							style={inputStyle}
+						/>
+						<input
+							type="number"
+							min={0}
+							value={depthRange.max}
+							onChange={(e) => setDepth("max", e.target.value)}
+							aria-label="Farthest layer"
+							style={inputStyle}
+						/>
+					</>
+				)}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import type { FocusSource } from "@/components/orb-field/focus";
+import type { FocusDebugProps } from "../types";
+
+const sources: { source: FocusSource | null; label: string }[] = [
+	{ source: null, label: "Off" },
+	{ source: "fixed", label: "Fixed" },
+	{ source: "scroll", label: "Scroll" },
+	{ source: "layer", label: "Layer" },
+];
+
+/**
+ * FocusSection - Picks what places the depth-of-field focal plane
+ * Follows Single Responsibility Principle - only handles focus UI
+ */
+export function FocusSection({
+	focusSource = null,
+	onFocusSourceChange,
+}: FocusDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!onFocusSourceChange) return null;
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	return (
+		<>
+			<SectionHeader title="Focus" />
+
+			{/* Source Buttons */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapSm }}>
+				{sources.map(({ source, label }) => (
+					<button
+						key={label}
+						onClick={() => onFocusSourceChange(source)}
+						aria-pressed={focusSource === source}
+						style={{
+							...buttonStyle,
+							background: focusSource === source ? colors.maroonAccent : colors.inputBg,
+						}}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+			<div style={{ fontSize: typography.fontSizeSm, color: colors.textMuted, fontStyle: "italic", marginBottom: spacing.gapLg }}>
+				{focusSource === "layer" ? "Focused on the Z layer selected under Grid" : "Orbs away from the focal plane blur"}
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,91 @@
+"use client";
+
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import type { ForceFieldKind } from "@/components/orb-field/force-field";
+import type { ForceFieldDebugProps } from "../types";
+
+const fieldKinds: { kind: ForceFieldKind; label: string }[] = [
+	{ kind: "attractor", label: "Attract" },
+	{ kind: "repulsor", label: "Repel" },
+	{ kind: "line", label: "Line" },
+	{ kind: "vortex", label: "Vortex" },
+];
+
+/**
+ * ForceFieldSection - Places, lists and removes force fields
+ * Follows Single Responsibility Principle - only handles force field UI
+ */
+export function ForceFieldSection({
+	forceFields = [],
+	placingForceField = null,
+	onPlaceForceField,
+	onRemoveForceField,
+}: ForceFieldDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!onPlaceForceField) return null;
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	return (
+		<>
+			<SectionHeader title={`Force Fields (${forceFields.length})`} />
+
+			{/* Kind Buttons - click again to cancel placement */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
+				{fieldKinds.map(({ kind, label }) => (
+					<button
+						key={kind}
+						onClick={() => onPlaceForceField(placingForceField === kind ? null : kind)}
+						aria-pressed={placingForceField === kind}
+						style={{
+							...buttonStyle,
+							background: placingForceField === kind ? colors.maroonAccent : colors.inputBg,
+						}}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+
+			<div style={{ fontSize: typography.fontSizeSm, color: colors.textMuted, fontStyle: "italic", marginBottom: spacing.gapLg }}>
+				{placingForceField ? "* Tap grid to place field" : "* Drag handles on the grid to move"}
+			</div>
+
+			{/* Field List */}
+			<div style={{ display: "flex", flexDirection: "column", gap: spacing.gapSm }}>
+				{forceFields.map((field) => (
+					<div
+						key={field.id}
+						style={{ display: "flex", justifyContent: "space-between", alignItems: "center", fontSize: typography.fontSizeSm }}
+					>
+						<span style={{ color: colors.textSecondary }}>
+							{field.kind} @ {field.x.toFixed(0)}, {field.y.toFixed(0)}
+						</span>
+						<button
+							onClick={() => onRemoveForceField?.(field.id)}
+							aria-label={`Remove ${field.kind} ${field.id}`}
+							style={{
+								...buttonStyle,
+								flex: "none",
+								background: colors.maroonButton,
+								padding: `${spacing.gapXs}px ${spacing.gapMd}px`,
+							}}
+						>
+							Remove
+						</button>
+					</div>
+				))}
+			</div>
+		</>
+	);
+}
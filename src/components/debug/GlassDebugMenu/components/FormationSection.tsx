@@ -0,0 +1,90 @@
+"use client";
+
+import { useState } from "react";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import type { FormationDebugProps } from "../types";
+
+/**
+ * FormationSection - Assembles orbs into text or the UiO sigil and releases them
+ * Follows Single Responsibility Principle - only handles formation UI
+ */
+export function FormationSection({
+	formation = null,
+	onFormShape,
+	onReleaseFormation,
+}: FormationDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+	const [text, setText] = useState("Hi!");
+
+	if (!onFormShape) return null;
+
+	const activeKind = formation?.shape.kind ?? null;
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	return (
+		<>
+			<SectionHeader title="Formation" />
+
+			{/* Text Input */}
+			<input
+				id="debug-formation-text"
+				name="debug-formation-text"
+				type="text"
+				value={text}
+				onChange={(e) => setText(e.target.value)}
+				aria-label="Formation text"
+				style={{
+					width: "100%",
+					boxSizing: "border-box",
+					background: colors.inputBg,
+					color: colors.textPrimary,
+					border: `1px solid ${colors.inputBorder}`,
+					borderRadius: dimensions.borderRadiusSm,
+					padding: `${spacing.gapSm}px ${spacing.gapMd}px`,
+					fontSize: typography.fontSizeSm,
+					marginBottom: spacing.gapSm,
+				}}
+			/>
+
+			{/* Shape Buttons */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
+				<button
+					onClick={() => text.trim() && onFormShape({ shape: { kind: "text", text: text.trim() } })}
+					aria-pressed={activeKind === "text"}
+					style={{ ...buttonStyle, background: activeKind === "text" ? colors.maroonAccent : colors.inputBg }}
+				>
+					Text
+				</button>
+				<button
+					onClick={() => onFormShape({ shape: { kind: "image", src: "/uio_sigil.svg" } })}
+					aria-pressed={activeKind === "image"}
+					style={{ ...buttonStyle, background: activeKind === "image" ? colors.maroonAccent : colors.inputBg }}
+				>
+					Sigil
+				</button>
+				<button
+					onClick={() => onReleaseFormation?.()}
+					disabled={!formation}
+					style={{
+						...buttonStyle,
+						background: colors.maroonButton,
+						cursor: formation ? "pointer" : "not-allowed",
+						opacity: formation ? 1 : 0.5,
+					}}
+				>
+					Release
+				</button>
+			</div>
+		</>
+	);
+}
@@ -0,0 +1,60 @@
+"use client";
+
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import { ORB_PALETTES, type OrbPaletteChoice, type OrbPaletteName } from "@/components/orb-field/palette";
+import type { PaletteDebugProps } from "../types";
+
+const choices: { palette: OrbPaletteChoice; label: string }[] = [
+	{ palette: null, label: "Species" },
+	...(Object.keys(ORB_PALETTES) as OrbPaletteName[]).map((name) => ({ palette: name, label: ORB_PALETTES[name].label })),
+];
+
+/**
+ * PaletteSection - Picks the colour palette for orbs, grid and accents
+ * Follows Single Responsibility Principle - only handles palette UI
+ */
+export function PaletteSection({
+	palette = null,
+	onPaletteChange,
+}: PaletteDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!onPaletteChange) return null;
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	return (
+		<>
+			<SectionHeader title="Palette" />
+
+			{/* Palette Buttons */}
+			<div style={{ display: "flex", flexWrap: "wrap", gap: spacing.gapSm, marginBottom: spacing.gapSm }}>
+				{choices.map(({ palette: choice, label }) => (
+					<button
+						key={label}
+						onClick={() => onPaletteChange(choice)}
+						aria-pressed={palette === choice}
+						style={{
+							...buttonStyle,
+							background: palette === choice ? colors.maroonAccent : colors.inputBg,
+						}}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+			<div style={{ fontSize: typography.fontSizeSm, color: colors.textMuted, fontStyle: "italic", marginBottom: spacing.gapLg }}>
+				{palette === null ? "Orbs keep their species colours" : "Orbs crossfade to the new colours"}
+			</div>
+		</>
+	);
+}
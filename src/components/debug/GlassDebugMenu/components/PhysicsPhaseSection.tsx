@@ -0,0 +1,30 @@
+"use client";
+
+import { SectionHeader } from "./SectionHeader";
+import { ToggleRow } from "./ToggleRow";
+import type { PhysicsDebugProps } from "../types";
+
+/**
+ * PhysicsPhaseSection - Lists physics pipeline phases with enable toggles
+ * Follows Single Responsibility Principle - only handles phase toggle UI
+ */
+export function PhysicsPhaseSection({ phases = [], onTogglePhase }: PhysicsDebugProps) {
+	if (phases.length === 0) return null;
+
+	return (
+		<>
+			<SectionHeader title="Physics Phases" />
+
+			<div style={{ display: "flex", flexDirection: "column" }}>
+				{phases.map((phase) => (
+					<ToggleRow
+						key={phase.name}
+						item={phase}
+						checked={phase.enabled}
+						onToggle={() => onTogglePhase?.(phase.name)}
+					/>
+				))}
+			</div>
+		</>
+	);
+}
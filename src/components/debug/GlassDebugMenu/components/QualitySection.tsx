@@ -0,0 +1,70 @@
+"use client";
+
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import type { QualityOverride } from "@/components/orb-field/quality";
+import type { QualityDebugProps } from "../types";
+
+const overrides: { override: QualityOverride; label: string }[] = [
+	{ override: "auto", label: "Auto" },
+	{ override: "low", label: "Low" },
+	{ override: "medium", label: "Medium" },
+	{ override: "high", label: "High" },
+];
+
+/**
+ * QualitySection - Shows the adaptive quality tier and lets it be pinned
+ * Follows Single Responsibility Principle - only handles quality UI
+ */
+export function QualitySection({
+	quality,
+	onQualityOverride,
+}: QualityDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+
+	if (!quality || !onQualityOverride) return null;
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	const average = quality.averageFrameMs === null ? "–" : `${quality.averageFrameMs.toFixed(1)} ms`;
+
+	return (
+		<>
+			<SectionHeader title="Quality" />
+
+			{/* Current Tier */}
+			<div style={{ display: "flex", justifyContent: "space-between", fontSize: typography.fontSizeSm, color: colors.textPrimary, marginBottom: spacing.gapSm }}>
+				<span style={{ textTransform: "capitalize" }}>{quality.tier}</span>
+				<span style={{ color: colors.textSecondary }}>{average}</span>
+			</div>
+			<div style={{ fontSize: typography.fontSizeSm, color: colors.textMuted, fontStyle: "italic", marginBottom: spacing.gapSm, wordBreak: "break-word" }}>
+				{quality.reason}
+			</div>
+
+			{/* Override Buttons */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
+				{overrides.map(({ override, label }) => (
+					<button
+						key={override}
+						onClick={() => onQualityOverride(override)}
+						aria-pressed={quality.override === override}
+						style={{
+							...buttonStyle,
+							background: quality.override === override ? colors.maroonAccent : colors.inputBg,
+						}}
+					>
+						{label}
+					</button>
+				))}
+			</div>
+		</>
+	);
+}
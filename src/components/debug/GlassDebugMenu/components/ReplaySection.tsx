@@ -0,0 +1,161 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import type { ReplayDebugProps } from "../types";
+
+/**
+ * ReplaySection - Records the orb field and replays it on a scrubbable timeline
+ * Follows Single Responsibility Principle - only handles replay UI
+ */
+export function ReplaySection({
+	replay,
+	onToggleRecording,
+	onStartReplay,
+	onExitReplay,
+	onSeekReplay,
+	onToggleReplayPlayback,
+	onExportRecording,
+	onImportRecording,
+}: ReplayDebugProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+	const [status, setStatus] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	if (!replay || !onToggleRecording || !onStartReplay) return null;
+
+	const isRecording = replay.mode === "recording";
+	const isReplaying = replay.mode === "replaying";
+	const hasRecording = replay.mode === "idle" ? replay.hasRecording : isReplaying;
+
+	const report = (error: string | null, success: string | null = null) => {
+		setStatus(error ?? success);
+	};
+
+	const handleDownload = () => {
+		const json = onExportRecording?.();
+		if (!json) {
+			setStatus("Nothing recorded yet");
+			return;
+		}
+		const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `orb-recording-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+		setStatus("Recording downloaded");
+	};
+
+	const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file || !onImportRecording) return;
+		file.text().then(
+			(json) => report(onImportRecording(json), "Recording loaded"),
+			() => setStatus("Could not read file")
+		);
+	};
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		background: colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	const disabledStyle = (disabled: boolean): React.CSSProperties => ({
+		cursor: disabled ? "not-allowed" : "pointer",
+		opacity: disabled ? 0.5 : 1,
+	});
+
+	return (
+		<>
+			<SectionHeader title="Replay" />
+
+			{/* Record / Replay */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapSm }}>
+				<button
+					onClick={() => report(onToggleRecording())}
+					disabled={isReplaying}
+					aria-pressed={isRecording}
+					style={{
+						...buttonStyle,
+						background: isRecording ? colors.maroonAccent : colors.inputBg,
+						...disabledStyle(isReplaying),
+					}}
+				>
+					{isRecording ? `Stop (${replay.steps})` : "Record"}
+				</button>
+				<button
+					onClick={() => report(onStartReplay())}
+					disabled={!hasRecording && !isRecording}
+					style={{ ...buttonStyle, ...disabledStyle(!hasRecording && !isRecording) }}
+				>
+					{isReplaying ? "Restart" : "Replay"}
+				</button>
+			</div>
+
+			{/* Files */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
+				<button onClick={handleDownload} style={buttonStyle}>Download</button>
+				<button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>Open File</button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept="application/json,.json"
+					onChange={handleFile}
+					aria-label="Recording file"
+					style={{ display: "none" }}
+				/>
+			</div>
+
+			{/* Timeline */}
+			{isReplaying && (
+				<>
+					<div style={{ display: "flex", alignItems: "center", gap: spacing.gapMd, marginBottom: spacing.gapSm }}>
+						<input
+							type="range"
+							min={0}
+							max={replay.stepCount}
+							step={1}
+							value={replay.step}
+							onChange={(e) => onSeekReplay?.(parseInt(e.target.value, 10))}
+							aria-label={`Replay step: ${replay.step}`}
+							style={{
+								flex: 1,
+								cursor: "pointer",
+								accentColor: colors.maroonAccent,
+							}}
+						/>
+						<span style={{ fontSize: typography.fontSizeSm, color: colors.textPrimary, whiteSpace: "nowrap" }}>
+							{replay.step} / {replay.stepCount}
+						</span>
+					</div>
+					<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
+						<button onClick={() => onToggleReplayPlayback?.()} style={buttonStyle}>
+							{replay.playing ? "Pause" : "Play"}
+						</button>
+						<button
+							onClick={() => onExitReplay?.()}
+							style={{ ...buttonStyle, background: colors.maroonButton }}
+						>
+							Exit
+						</button>
+					</div>
+				</>
+			)}
+
+			{status && (
+				<div style={{ fontSize: typography.fontSizeSm, color: colors.textMuted, fontStyle: "italic", marginBottom: spacing.gapLg, wordBreak: "break-word" }}>
+					{status}
+				</div>
+			)}
+		</>
+	);
+}
@@ -0,0 +1,128 @@
+"use client";
+
+import { useRef, useState } from "react";
+import { debugMenuConfig } from "../config/debugMenuConfig";
+import { SectionHeader } from "./SectionHeader";
+import type { DebugState } from "../../DebugContext";
+import type { SnapshotDebugProps } from "../types";
+
+type ToggleKey = keyof Omit<DebugState, "enabled">;
+
+interface SnapshotSectionProps extends SnapshotDebugProps {
+	/** Current debug toggles (captured on export) */
+	state: DebugState;
+	/** Flips a toggle (used to apply imported toggles) */
+	onToggle: (key: ToggleKey) => void;
+}
+
+/**
+ * SnapshotSection - Exports the orb field to a file or the clipboard and imports it back
+ * Follows Single Responsibility Principle - only handles snapshot UI
+ */
+export function SnapshotSection({
+	state,
+	onToggle,
+	onExportSnapshot,
+	onImportSnapshot,
+}: SnapshotSectionProps) {
+	const { spacing, typography, colors, dimensions } = debugMenuConfig;
+	const [status, setStatus] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	if (!onExportSnapshot || !onImportSnapshot) return null;
+
+	const exportJson = (): string | null => {
+		const { enabled: _enabled, ...toggles } = state;
+		const json = onExportSnapshot(toggles);
+		if (!json) setStatus("Orb field is not ready yet");
+		return json;
+	};
+
+	const importJson = (json: string) => {
+		const result = onImportSnapshot(json);
+		if (!result.ok) {
+			setStatus(`Import failed: ${result.error}`);
+			return;
+		}
+
+		for (const key of Object.keys(result.debugToggles) as ToggleKey[]) {
+			if (state[key] !== result.debugToggles[key]) onToggle(key);
+		}
+		setStatus([`Imported ${result.orbCount} orbs`, ...result.warnings].join(". "));
+	};
+
+	const handleCopy = () => {
+		const json = exportJson();
+		if (!json) return;
+		navigator.clipboard.writeText(json).then(
+			() => setStatus("Snapshot copied"),
+			() => setStatus("Clipboard unavailable")
+		);
+	};
+
+	const handleDownload = () => {
+		const json = exportJson();
+		if (!json) return;
+		const url = URL.createObjectURL(new Blob([json], { type: "application/json" }));
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = `orb-snapshot-${new Date().toISOString().replace(/[:.]/g, "-")}.json`;
+		link.click();
+		URL.revokeObjectURL(url);
+		setStatus("Snapshot downloaded");
+	};
+
+	const handlePaste = () => {
+		navigator.clipboard.readText().then(importJson, () => setStatus("Clipboard unavailable"));
+	};
+
+	const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		file.text().then(importJson, () => setStatus("Could not read file"));
+	};
+
+	const buttonStyle: React.CSSProperties = {
+		flex: 1,
+		background: colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		padding: `${spacing.gapMd}px ${spacing.gapSm}px`,
+		fontSize: typography.fontSizeSm,
+		cursor: "pointer",
+	};
+
+	return (
+		<>
+			<SectionHeader title="Snapshot" />
+
+			{/* Export */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapSm }}>
+				<button onClick={handleCopy} style={buttonStyle}>Copy</button>
+				<button onClick={handleDownload} style={buttonStyle}>Download</button>
+			</div>
+
+			{/* Import */}
+			<div style={{ display: "flex", gap: spacing.gapSm, marginBottom: spacing.gapLg }}>
+				<button onClick={handlePaste} style={buttonStyle}>Paste</button>
+				<button onClick={() => fileInputRef.current?.click()} style={buttonStyle}>Open File</button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept="application/json,.json"
+					onChange={handleFile}
+					aria-label="Snapshot file"
+					style={{ display: "none" }}
+				/>
+			</div>
+
+			{status && (
+				<div style={{ fontSize: typography.fontSizeSm, color: colors.textMuted, fontStyle: "italic", marginBottom: spacing.gapLg, wordBreak: "break-word" }}>
+					{status}
+				</div>
+			)}
+		</>
+	);
+}
@@ -64,8 +64,8 @@ export const debugMenuConfig = {
 		slider: "left 0.3s ease, background 0.3s ease",
 	},
 	colors: {
-		maroon: "rgba(78, 5, 6, 0.4)", // Active state
-		maroonAccent: "rgba(78, 5, 6, 0.8)", // Slider accent
+		maroon: "rgba(var(--color-accent-rgb, 78, 5, 6), 0.4)", // Active state (follows the orb palette)
+		maroonAccent: "rgba(var(--color-accent-rgb, 78, 5, 6), 0.8)", // Slider accent (follows the orb palette)
 		maroonButton: "rgba(170, 17, 17, 0.6)", // Delete button
 		textPrimary: "rgba(255, 255, 255, 0.9)",
 		textSecondary: "rgba(255, 255, 255, 0.7)",
@@ -73,7 +73,7 @@ export const debugMenuConfig = {
 		textDisabled: "rgba(255, 255, 255, 0.4)",
 		textSuccess: "rgba(136, 255, 136, 0.9)",
 		iconDefault: "rgba(255, 255, 255, 0.8)",
-		iconHover: "var(--color-maroon)", // Maroon color on hover (fallback for SSR)
+		iconHover: "var(--color-accent, var(--color-maroon))", // Palette accent on hover (fallback for SSR)
 		iconMuted: "rgba(255, 255, 255, 0.7)",
 		handleActive: "rgba(255, 255, 255, 0.9)",
 		handleInactive: "rgba(255, 255, 255, 0.6)",
@@ -10,4 +10,4 @@
  */
 
 export { GlassDebugMenu } from "./GlassDebugMenu";
-export type { GlassDebugMenuProps, OrbDebugProps, GridDebugProps, ToggleItem } from "./types";
+export type { GlassDebugMenuProps, OrbDebugProps, GridDebugProps, PhysicsDebugProps, ToggleItem } from "./types";
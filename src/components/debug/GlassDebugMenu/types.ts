@@ -5,6 +5,15 @@
 
 import { type Orb } from "@/components/orb-field/orb/types";
 import { type GridConfig, type ViewportCells } from "@/components/orb-field/grid/types";
+import { type PhysicsPhaseInfo } from "@/components/orb-field/physics";
+import { type ForceField, type ForceFieldKind } from "@/components/orb-field/force-field";
+import { type FormationRequest } from "@/components/orb-field/formation";
+import { type OrbBoundaries } from "@/components/orb-field/boundary";
+import { type SnapshotDebugToggles, type SnapshotImportResult } from "@/components/orb-field/snapshot";
+import { type ReplayStatus } from "@/components/orb-field/replay";
+import { type QualityOverride, type QualityStatus } from "@/components/orb-field/quality";
+import { type FocusSource } from "@/components/orb-field/focus";
+import { type OrbPaletteChoice } from "@/components/orb-field/palette";
 import { type DebugState } from "../DebugContext";
 
 /**
@@ -62,9 +71,117 @@ export interface GridDebugProps {
 }
 
 /**
- * Combined props for GlassDebugMenu (union of orb and grid debug props)
+ * Props for physics pipeline debugging functionality
  */
-export type GlassDebugMenuProps = OrbDebugProps & GridDebugProps;
+export interface PhysicsDebugProps {
+	/** Registered physics phases in run order */
+	phases?: readonly PhysicsPhaseInfo[];
+	/** Callback when a phase is toggled */
+	onTogglePhase?: (name: string) => void;
+}
+
+/**
+ * Props for force field debugging functionality
+ */
+export interface ForceFieldDebugProps {
+	/** Current force fields */
+	forceFields?: readonly ForceField[];
+	/** Kind of field the next canvas click places, or null */
+	placingForceField?: ForceFieldKind | null;
+	/** Callback to arm (or with null, disarm) placement of a field kind */
+	onPlaceForceField?: (kind: ForceFieldKind | null) => void;
+	/** Callback when a field is removed */
+	onRemoveForceField?: (id: string) => void;
+}
+
+/**
+ * Props for shape formation debugging functionality
+ */
+export interface FormationDebugProps {
+	/** Formation most recently requested, or null */
+	formation?: FormationRequest | null;
+	/** Callback to start a formation */
+	onFormShape?: (request: FormationRequest) => void;
+	/** Callback to release orbs from the formation */
+	onReleaseFormation?: () => void;
+}
+
+/**
+ * Props for field edge (boundary mode) functionality
+ */
+export interface BoundaryDebugProps {
+	/** Current boundary policy per axis */
+	boundaries?: OrbBoundaries;
+	/** Callback to change some axes of the policy */
+	onBoundariesChange?: (boundaries: Partial<OrbBoundaries>) => void;
+}
+
+/**
+ * Props for snapshot export/import functionality
+ */
+export interface SnapshotDebugProps {
+	/** Callback returning snapshot JSON for the given toggles, or null when not ready */
+	onExportSnapshot?: (debugToggles: SnapshotDebugToggles) => string | null;
+	/** Callback restoring snapshot JSON; returns the toggles to apply or an error */
+	onImportSnapshot?: (json: string) => SnapshotImportResult;
+}
+
+/**
+ * Props for session recording and replay functionality
+ */
+export interface ReplayDebugProps {
+	/** Current recording or replay state */
+	replay?: ReplayStatus;
+	/** Callback to start or stop recording; returns an error message or null */
+	onToggleRecording?: () => string | null;
+	/** Callback to replay the last recording; returns an error message or null */
+	onStartReplay?: () => string | null;
+	/** Callback to leave the replay */
+	onExitReplay?: () => void;
+	/** Callback to move the replay to a step */
+	onSeekReplay?: (step: number) => void;
+	/** Callback to play or pause the replay */
+	onToggleReplayPlayback?: () => void;
+	/** Callback returning recording JSON, or null when nothing was recorded */
+	onExportRecording?: () => string | null;
+	/** Callback loading recording JSON; returns an error message or null */
+	onImportRecording?: (json: string) => string | null;
+}
+
+/**
+ * Props for adaptive quality functionality
+ */
+export interface QualityDebugProps {
+	/** Current quality tier, override and reason for the last change */
+	quality?: QualityStatus;
+	/** Callback to pin a tier or return to automatic selection */
+	onQualityOverride?: (override: QualityOverride) => void;
+}
+
+/**
+ * Props for depth-of-field functionality
+ */
+export interface FocusDebugProps {
+	/** What places the focal plane (null = off) */
+	focusSource?: FocusSource | null;
+	/** Callback to pick another source */
+	onFocusSourceChange?: (source: FocusSource | null) => void;
+}
+
+/**
+ * Props for palette functionality
+ */
+export interface PaletteDebugProps {
+	/** Active palette (null = species colours) */
+	palette?: OrbPaletteChoice;
+	/** Callback to pick another palette */
+	onPaletteChange?: (palette: OrbPaletteChoice) => void;
+}
+
+/**
+ * Combined props for GlassDebugMenu (union of orb, grid, physics, force field, formation, boundary, snapshot, replay, quality, focus and palette debug props)
+ */
+export type GlassDebugMenuProps = OrbDebugProps & GridDebugProps & PhysicsDebugProps & ForceFieldDebugProps & FormationDebugProps & BoundaryDebugProps & SnapshotDebugProps & ReplayDebugProps & QualityDebugProps & FocusDebugProps & PaletteDebugProps;
 
 /**
  * Toggle item configuration
@@ -79,7 +196,7 @@ export interface ToggleItem {
  * Props for ToggleRow component
  */
 export interface ToggleRowProps {
-	item: ToggleItem;
+	item: Pick<ToggleItem, "label" | "description">;
 	checked: boolean;
 	onToggle: () => void;
 }
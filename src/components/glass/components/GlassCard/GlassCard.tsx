@@ -2,6 +2,7 @@
 
 import { useRef, useId } from "react";
 import { useDeviceOrientation, useTouchDevice } from "@/hooks";
+import { useMotionPreference } from "@/components/providers";
 import { useCardTilt } from "../../hooks/tilt";
 import { useEntryExitAnimation, buildEntryExitTransform, buildWheelTransform, buildMobilePaddingValue, buildGlassCardCssVars } from "../../hooks/animation";
 import { useOpacityVisibility } from "../../hooks/visibility";
@@ -36,6 +37,7 @@ export function GlassCard({
 	wheelTranslateX = 0,
 	wheelTranslateZ = 0,
 	ariaLabel,
+	orbObstacle = true,
 }: GlassCardProps) {
 	const cardRef = useRef<HTMLDivElement>(null);
 	const cardId = useId();
@@ -43,6 +45,7 @@ export function GlassCard({
 	// Device detection
 	const isTouchDevice = useTouchDevice();
 	const { tiltX, tiltY, hasPermission } = useDeviceOrientation();
+	const { reducedMotion } = useMotionPreference();
 
 	// 3D tilt effect
 	const { transform, transitionStyle } = useCardTilt({
@@ -52,6 +55,7 @@ export function GlassCard({
 		tiltX,
 		tiltY,
 		hasPermission,
+		disabled: reducedMotion,
 	});
 
 	// Entry/exit animation
@@ -112,6 +116,7 @@ export function GlassCard({
 		<div
 			ref={cardRef}
 			data-glass-card-id={cardId}
+			data-orb-obstacle={orbObstacle && isVisible && opacity > 0.01 ? "" : undefined}
 			className={`${hasMobileOverrides ? styles.mobile : ''} ${className || ''}`.trim() || undefined}
 			role="region"
 			aria-roledescription="slide"
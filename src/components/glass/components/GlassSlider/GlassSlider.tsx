@@ -17,6 +17,8 @@ interface GlassSliderProps {
 	opacity?: number;
 	onSlideComplete?: (side: 'left' | 'right') => void;
 	config?: Partial<SliderConfig>;
+	/** Whether orbs in the orb field flow around the slider while it is visible (default: false) */
+	orbObstacle?: boolean;
 }
 
 /**
@@ -28,7 +30,7 @@ interface GlassSliderProps {
  * - Dependency Inversion: Uses abstractions (hooks, storage)
  * - Extracted: Debug logic, drag handling, spring physics, sub-components
  */
-export function GlassSlider({ opacity = 1, onSlideComplete, config: configOverride }: GlassSliderProps) {
+export function GlassSlider({ opacity = 1, onSlideComplete, config: configOverride, orbObstacle = false }: GlassSliderProps) {
 	const trackRef = useRef<HTMLDivElement>(null);
 
 	// Client-side only rendering to avoid hydration mismatch
@@ -111,6 +113,7 @@ export function GlassSlider({ opacity = 1, onSlideComplete, config: configOverri
 			onTouchStart={(e) => e.stopPropagation()}
 			onTouchMove={(e) => e.stopPropagation()}
 			onTouchEnd={(e) => e.stopPropagation()}
+			data-orb-obstacle={orbObstacle && isInteractive ? "" : undefined}
 			style={{
 				position: "fixed",
 				bottom: isMobile ? sliderPositionDefaults.bottomMobile : sliderPositionDefaults.bottomDesktop,
@@ -6,6 +6,9 @@ import { useTiltAnimation } from "../animation/useTiltAnimation";
 import { calculateOrientationTilt } from "./orientationTilt";
 import { animationTimings, tiltDefaults } from "../../styles";
 
+/** Transform used while tilt is disabled */
+const FLAT_TRANSFORM = "rotateX(0deg) rotateY(0deg) scale3d(1, 1, 1)";
+
 export interface UseCardTiltOptions {
 	/** Reference to the card element */
 	cardRef: RefObject<HTMLElement | null>;
@@ -19,6 +22,8 @@ export interface UseCardTiltOptions {
 	tiltY: number;
 	/** Whether device orientation permission is granted */
 	hasPermission: boolean;
+	/** Keep the card flat (reduced motion) */
+	disabled?: boolean;
 }
 
 export interface UseCardTiltResult {
@@ -40,7 +45,7 @@ export interface UseCardTiltResult {
  * Follows Single Responsibility Principle by delegating to focused sub-hooks
  */
 export function useCardTilt(options: UseCardTiltOptions): UseCardTiltResult {
-	const { cardRef, cardId, isTouchDevice, tiltX, tiltY, hasPermission } = options;
+	const { cardRef, cardId, isTouchDevice, tiltX, tiltY, hasPermission, disabled = false } = options;
 
 	const [isHovering, setIsHovering] = useState(false);
 
@@ -53,7 +58,7 @@ export function useCardTilt(options: UseCardTiltOptions): UseCardTiltResult {
 	// Use tilt animation for smooth transforms
 	const { transform, setTargetFromMouse, resetTilt, startAnimation } = useTiltAnimation({
 		elementRef: cardRef,
-		enabled: !isTouchDevice,
+		enabled: !isTouchDevice && !disabled,
 	});
 
 	// Mobile: Device orientation tilt
@@ -61,14 +66,14 @@ export function useCardTilt(options: UseCardTiltOptions): UseCardTiltResult {
 	// This fallback ensures tilt works even if hasPermission is momentarily false
 	const hasOrientationData = hasPermission || (tiltX !== 0.5 || tiltY !== 0.5);
 
-	const mobileTiltTransform = (isTouchDevice && hasOrientationData)
+	const mobileTiltTransform = (isTouchDevice && hasOrientationData && !disabled)
 		? calculateOrientationTilt(tiltX, tiltY, tiltDefaults.mobileTiltMaxAngle)
 		: null;
 
 	// Desktop: Mouse-based tilt on hover
 	useEffect(() => {
-		// Skip mouse handling on touch devices
-		if (isTouchDevice) return;
+		// Skip mouse handling on touch devices and when tilt is disabled
+		if (isTouchDevice || disabled) return;
 
 		const card = cardRef.current;
 		if (!card) return;
@@ -135,7 +140,7 @@ export function useCardTilt(options: UseCardTiltOptions): UseCardTiltResult {
 			document.removeEventListener("focusin", handleFocusIn);
 			document.removeEventListener("focusout", handleFocusOut);
 		};
-	}, [isTouchDevice, cardRef, isHovering, getMouseInfluence, isElementInside, setTargetFromMouse, resetTilt, startAnimation]);
+	}, [isTouchDevice, disabled, cardRef, isHovering, getMouseInfluence, isElementInside, setTargetFromMouse, resetTilt, startAnimation]);
 
 	// Determine transition timing
 	const transitionStyle = isTouchDevice
@@ -145,7 +150,7 @@ export function useCardTilt(options: UseCardTiltOptions): UseCardTiltResult {
 			: `transform ${animationTimings.duration.slow} ${animationTimings.easing.smooth}`;
 
 	return {
-		transform: mobileTiltTransform ?? transform,
+		transform: disabled ? FLAT_TRANSFORM : mobileTiltTransform ?? transform,
 		isHovering,
 		transitionStyle,
 	};
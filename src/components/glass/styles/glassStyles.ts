@@ -1,5 +1,6 @@
 /**
  * Glassmorphism style constants
+ * Colours read the --glass-* variables so they follow the theme; the fallbacks are the dark theme
  * Follows Open/Closed Principle - extend by adding new variants, don't modify existing
  */
 
@@ -8,13 +9,13 @@ import { CSSProperties } from 'react';
 export const glassStyles = {
 	background: {
 		default: {
-			background: 'rgba(255, 255, 255, 0.08)',
+			background: 'var(--glass-bg, rgba(255, 255, 255, 0.08))',
 		},
 		hover: {
-			background: 'rgba(255, 255, 255, 0.2)',
+			background: 'var(--glass-bg-hover, rgba(255, 255, 255, 0.2))',
 		},
 		subtle: {
-			background: 'rgba(255, 255, 255, 0.04)',
+			background: 'var(--glass-bg-subtle, rgba(255, 255, 255, 0.04))',
 		},
 	},
 	backdrop: {
@@ -29,13 +30,13 @@ export const glassStyles = {
 	},
 	border: {
 		default: {
-			border: '1px solid rgba(255, 255, 255, 0.15)',
+			border: '1px solid var(--glass-border, rgba(255, 255, 255, 0.15))',
 		},
 		subtle: {
-			border: '1px solid rgba(255, 255, 255, 0.08)',
+			border: '1px solid var(--glass-border-subtle, rgba(255, 255, 255, 0.08))',
 		},
 		hover: {
-			border: '1px solid rgba(255, 255, 255, 0.3)',
+			border: '1px solid var(--glass-border-hover, rgba(255, 255, 255, 0.3))',
 		},
 	},
 	shadow: {
@@ -95,8 +96,8 @@ export const topEdgeHighlight = {
  * Handle and arrow color constants
  */
 export const handleColors = {
-	arrowDefault: 'var(--color-white, #ffffff)',
-	arrowActive: 'var(--color-maroon, #4E0506)',
+	arrowDefault: 'var(--glass-text, #ffffff)',
+	arrowActive: 'var(--color-accent, #4E0506)',
 } as const;
 
 /**
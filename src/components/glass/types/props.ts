@@ -48,6 +48,8 @@ export interface GlassCardProps extends GlassStyleProps, AnimationProps, MobileP
 	children?: ReactNode;
 	/** Optional aria-label for the card */
 	ariaLabel?: string;
+	/** Whether orbs in the orb field flow around the card while it is visible (default: true) */
+	orbObstacle?: boolean;
 }
 
 export interface GlassButtonProps {
@@ -1,3 +1,4 @@
 export * from "./ui/ThemeToggle";
+export * from "./ui/MotionToggle";
 export * from "./ui/LinkIcon";
 export * from "./providers";
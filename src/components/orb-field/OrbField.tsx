@@ -10,26 +10,59 @@ import {
 	DEFAULT_REVEAL_CONFIG,
 	DEFAULT_STYLE_CONFIG,
 	DEFAULT_ORBFIELD_CONFIG,
+	DEFAULT_OBSTACLE_CONFIG,
+	THEME_STYLE_CONFIG,
+	THEME_BLEND_MODES,
 	type GridRevealConfig,
 	type GridStyleConfig,
+	type ParallaxConfig,
 } from './shared/config';
+import { type OrbFieldTheme } from './shared/types';
 import { DEFAULT_CONTINUOUS_SPAWN_CONFIG } from './orb/config';
 import { OrbDebugPanel, GridDebugPanel } from './debug-info';
 import { GlassDebugMenu, DebugGitHubButton } from '@/components/debug';
 import {
 	useParallaxOffset,
+	useScrollWind,
+	useTimeScale,
 	useAnimationLoop,
 	useDebugStateSync,
 	useEventHandlers,
 	usePhysicsLoop,
+	usePhysicsPhases,
+	useForceFields,
+	useBoundaries,
+	useFlocking,
+	useSpecies,
+	useQualityGovernor,
+	useFocalPlane,
+	useOrbPalette,
+	useObstacleTracking,
 	useGridInitialization,
 	useOrbFieldInteractions,
 	useCanvasSync,
 	useOpacityFade,
 	useOpacityRef,
 	useOrbBurst,
+	useOrbFormation,
+	useSimulationSnapshot,
+	useSessionReplay,
+	useOrbEvents,
+	useOrbWorker,
 	useRenderLoop,
+	useOrbRenderer,
 } from './hooks';
+import { type OrbWorkerHost } from './worker';
+import { type ForceField } from './force-field';
+import { type FormationRequest } from './formation';
+import { type OrbBoundaries } from './boundary';
+import { type FlockingConfig } from './flocking';
+import { type OrbSpeciesConfig } from './species';
+import { QualityGovernor, type QualityOverride } from './quality';
+import { type OrbRendererBackend } from './orb/renderers';
+import { DEFAULT_DEPTH_OF_FIELD_CONFIG, type DepthOfFieldConfig, type FocusSource } from './focus';
+import { type OrbPaletteChoice } from './palette';
+import { type OrbFieldEventHandlers } from './events';
 import styles from './OrbField.module.css';
 
 /**
@@ -54,10 +87,101 @@ interface OrbFieldProps {
 	scrollProgress?: number;
 	/** Whether device is mobile (affects scroll direction: horizontal vs vertical). */
 	isMobile?: boolean;
+	/** Decaying scroll/swipe velocity (-1 to 1). Pushes orbs as wind, near layers most. */
+	scrollDelta?: number;
 	/** Device tilt X (0-1, 0.5 = center) for parallax offset */
 	deviceTiltX?: number;
 	/** Device tilt Y (0-1, 0.5 = center) for parallax offset */
 	deviceTiltY?: number;
+	/**
+	 * Parallax overrides, including the near/far depth curve that moves
+	 * near layers further than far ones. Memoize the object.
+	 */
+	parallax?: Partial<ParallaxConfig>;
+	/**
+	 * Runs physics and orb rendering in a Web Worker via OffscreenCanvas.
+	 * Falls back to the main thread automatically when unsupported.
+	 */
+	workerMode?: boolean;
+	/**
+	 * Attractors, repulsors, lines and vortices acting on orbs.
+	 * Memoize the array: a new one replaces fields edited in the debug menu.
+	 */
+	forceFields?: readonly ForceField[];
+	/**
+	 * CSS selector of elements orbs flow around (default: elements with a
+	 * data-orb-obstacle attribute). Null disables obstacles.
+	 */
+	obstacleSelector?: string | null;
+	/**
+	 * Text, SVG path or image for orbs to assemble into; null releases them.
+	 * Memoize the object: a new one restarts the formation.
+	 */
+	formation?: FormationRequest | null;
+	/**
+	 * What happens at the field edges per axis: bounce (default), wrap,
+	 * absorb or soft, plus an optional Z depth range. Memoize the object:
+	 * a new one replaces changes made in the debug menu.
+	 */
+	boundaries?: Partial<OrbBoundaries>;
+	/**
+	 * Boids-style schooling between orbs on nearby layers (off by default).
+	 * True or a config turns it on, false off. Memoize a config object.
+	 */
+	flocking?: boolean | Partial<FlockingConfig>;
+	/**
+	 * Orb species (colour, glow, motion, depth band and lifetime) and their
+	 * burst and continuous spawn weights. Added profiles join the defaults.
+	 * Memoize the object.
+	 */
+	species?: Partial<OrbSpeciesConfig>;
+	/**
+	 * Rendering quality: 'auto' (default) steps between tiers from measured
+	 * frame times; 'low', 'medium' or 'high' pins a tier. Tiers set the orb
+	 * count, gradient detail, glow, canvas resolution and physics substeps.
+	 */
+	quality?: QualityOverride;
+	/**
+	 * Orb drawing backend: 'canvas2d' (default) or 'webgl' (instanced
+	 * quads with a glow shader and additive blending, for very large
+	 * fields). Falls back to Canvas2D when WebGL cannot start. Worker mode
+	 * always draws with Canvas2D.
+	 */
+	renderer?: OrbRendererBackend;
+	/**
+	 * Depth-of-field focal plane: 'scroll' focuses a different depth per
+	 * card, 'layer' follows the selected layer, 'fixed' holds
+	 * depthOfField.focalDepth. Orbs away from it blur. Null (default)
+	 * keeps blur growing with depth, the front layer sharpest.
+	 */
+	focus?: FocusSource | null;
+	/** Aperture, scroll mapping and intro pull-focus. Memoize the object. */
+	depthOfField?: Partial<DepthOfFieldConfig>;
+	/**
+	 * Colour palette for orbs, grid lines and glass/debug accents: a
+	 * built-in name ('maroon', 'aurora', 'monochrome', 'highContrast') or a
+	 * custom OrbPalette (memoize it). Orbs pick their colour from the range
+	 * at spawn and crossfade when the palette changes. Null (default) keeps
+	 * each species' own colour.
+	 */
+	palette?: OrbPaletteChoice;
+	/**
+	 * Page theme the field is drawn over. 'light' darkens the page with
+	 * multiplied orbs and near-black reveal lines; 'dark' (default)
+	 * lightens it with screened orbs and white reveal lines.
+	 */
+	theme?: OrbFieldTheme;
+	/**
+	 * Reduced motion: skips the grid reveal and runs the field in slow
+	 * motion (DEFAULT_ORBFIELD_CONFIG.reducedMotionTimeScale).
+	 */
+	reducedMotion?: boolean;
+	/**
+	 * Listeners for orb lifecycle events (spawn, expire, collide, wallHit,
+	 * burst, select), e.g. for sound or analytics. Forwarded from the worker
+	 * in worker mode.
+	 */
+	eventHandlers?: OrbFieldEventHandlers;
 }
 
 /**
@@ -80,8 +204,25 @@ export function OrbField({
 	onAnimationComplete,
 	scrollProgress = 0.75,
 	isMobile = false,
+	scrollDelta = 0,
 	deviceTiltX = 0.5,
 	deviceTiltY = 0.5,
+	parallax,
+	workerMode = false,
+	forceFields: declaredForceFields,
+	obstacleSelector = DEFAULT_OBSTACLE_CONFIG.selector,
+	formation: declaredFormation,
+	boundaries: declaredBoundaries,
+	flocking,
+	species: declaredSpecies,
+	quality: qualityOverride = 'auto',
+	renderer = 'canvas2d',
+	focus: focusSource = null,
+	depthOfField,
+	palette = null,
+	theme = 'dark',
+	reducedMotion = false,
+	eventHandlers,
 }: OrbFieldProps) {
 	// =========================================================================
 	// Refs
@@ -90,6 +231,8 @@ export function OrbField({
 	const visualCanvasRef = useRef<HTMLCanvasElement>(null);
 	const currentLayerRef = useRef(initialLayer);
 	const windowSizeRef = useRef({ width: 0, height: 0 });
+	const workerRef = useRef<OrbWorkerHost | null>(null);
+	const blendModeRef = useRef(THEME_BLEND_MODES[theme]);
 
 	// =========================================================================
 	// State
@@ -100,17 +243,79 @@ export function OrbField({
 	// =========================================================================
 	// Hooks
 	// =========================================================================
-	const { windowSize, mousePosRef, isPageVisibleRef, isMounted } = useEventHandlers();
-	const { gridConfig, viewportCells, gridRef, viewportCellsRef } = useGridInitialization({ windowSize, isMobile });
 	const debugState = useDebugStateSync();
-	const { currentScrollOffsetRef, updateParallaxOffset } = useParallaxOffset(scrollProgress, isMobile, deviceTiltX, deviceTiltY);
+	const { currentScrollOffsetRef, parallaxDepthRef, updateParallaxOffset } = useParallaxOffset(
+		scrollProgress,
+		isMobile,
+		deviceTiltX,
+		deviceTiltY,
+		parallax
+	);
+	const { windRef } = useScrollWind(scrollDelta, isMobile);
 
-	const orbManager = useOrbManager();
+	// Simulation clock follows effective time so pausing freezes lifetimes and spawning,
+	// slowed as a whole under reduced motion
+	const timeScale = reducedMotion ? DEFAULT_ORBFIELD_CONFIG.reducedMotionTimeScale : 1;
+	const { getScaledTime } = useTimeScale({ getTime: debugState.getEffectiveTime, timeScale });
+	const { windowSize, mousePosRef, pointerTracker, isPageVisibleRef, isMounted } = useEventHandlers({ getTime: getScaledTime });
+	const orbManager = useOrbManager({ getTime: getScaledTime, workerRef });
+	useOrbEvents({ events: orbManager.events, handlers: eventHandlers });
+	const orbWorker = useOrbWorker({
+		enabled: workerMode && visible && isMounted,
+		visualCanvasRef,
+		simulation: orbManager.simulation,
+		workerRef,
+	});
+	const { gridConfig, viewportCells, gridRef, viewportCellsRef } = useGridInitialization({
+		windowSize,
+		isMobile,
+		simulation: orbManager.simulation,
+	});
+	const forceFields = useForceFields({
+		simulation: orbManager.simulation,
+		workerRef,
+		fields: declaredForceFields,
+	});
+	const boundaries = useBoundaries({
+		simulation: orbManager.simulation,
+		workerRef,
+		boundaries: declaredBoundaries,
+	});
+	useFlocking({
+		simulation: orbManager.simulation,
+		workerRef,
+		flocking,
+	});
+	const species = useSpecies({
+		simulation: orbManager.simulation,
+		workerRef,
+		species: declaredSpecies,
+	});
+	const quality = useQualityGovernor({
+		override: qualityOverride,
+		isDebugMode: debugState.isDebugMode,
+	});
+	const qualityTier = QualityGovernor.tierOf(quality.status.tier);
+	const depthOfFieldConfig = useMemo(
+		() => ({ ...DEFAULT_DEPTH_OF_FIELD_CONFIG, ...depthOfField }),
+		[depthOfField]
+	);
+	const focalPlane = useFocalPlane({
+		source: focusSource,
+		scrollProgress,
+		currentLayerRef,
+		layers: gridConfig?.layers ?? 0,
+		config: depthOfFieldConfig,
+		reducedMotion,
+	});
+	const orbPalette = useOrbPalette({ palette, reducedMotion });
 	const {
 		hoveredCell,
 		hoveredCellRef,
 		handleMouseMove,
 		handleClick,
+		handleMouseDown,
+		handleMouseUp,
 		handleMouseLeave,
 		handleTouchStart,
 		handleTouchMove,
@@ -124,28 +329,63 @@ export function OrbField({
 		orbSize,
 		isDebugMode: debugState.isDebugMode,
 		currentScrollOffsetRef,
+		parallaxDepthRef,
 		enableSpawnOnClickRef: debugState.enableSpawnOnClickRef,
 		createOrb: orbManager.createOrb,
 		deleteOrb: orbManager.deleteOrb,
+		forceFieldsRef: forceFields.forceFieldsRef,
+		placingForceFieldRef: forceFields.placingKindRef,
+		placeForceField: forceFields.placeForceField,
+		moveForceField: forceFields.moveForceField,
 	});
 
-	const { burstTimeRef } = useOrbBurst({
+	useOrbBurst({
 		triggerBurst,
-		spawnOrbBurst: orbManager.spawnOrbBurst,
-		windowSize,
+		simulation: orbManager.simulation,
 		currentScrollOffsetRef,
-		gridRef,
-		viewportCellsRef,
+		workerRef,
+	});
+	const formation = useOrbFormation({
+		simulation: orbManager.simulation,
+		workerRef,
+		currentScrollOffsetRef,
+		parallaxDepthRef,
+		request: declaredFormation,
+	});
+	const { exportSnapshot, importSnapshot } = useSimulationSnapshot({
+		simulation: orbManager.simulation,
+		workerRef,
+		currentScrollOffsetRef,
+		getEffectiveTime: getScaledTime,
+	});
+	const replay = useSessionReplay({
+		simulation: orbManager.simulation,
+		workerRef,
+		getEffectiveTime: getScaledTime,
 	});
 
 	const { syncCanvasDimensions } = useCanvasSync();
+	const { getRenderer } = useOrbRenderer({ backend: renderer });
 	const { calculateOpacity, updateOpacity } = useOpacityFade();
 	const opacityRef = useOpacityRef(opacity);
 
+	const { measureObstacles } = useObstacleTracking({ selector: obstacleSelector });
 	const { runPhysics } = usePhysicsLoop({
-		getEffectiveTime: debugState.getEffectiveTime,
-		spawnRandomOrbs: orbManager.spawnRandomOrbs,
-		syncOrbsState: orbManager.syncOrbsState,
+		simulation: orbManager.simulation,
+		workerRef,
+		getEffectiveTime: getScaledTime,
+		pointerTracker,
+		measureObstacles,
+		replayingRef: replay.replayingRef,
+		windRef,
+		qualityTierRef: quality.tierRef,
+		resolveFocus: focalPlane.resolveFocus,
+		resolvePalette: orbPalette.resolvePalette,
+		blendModeRef,
+	});
+	const { phases, togglePhase } = usePhysicsPhases({
+		simulation: orbManager.simulation,
+		workerRef,
 	});
 
 	// =========================================================================
@@ -155,9 +395,15 @@ export function OrbField({
 		() => ({ ...DEFAULT_REVEAL_CONFIG, ...revealOverrides }),
 		[revealOverrides]
 	);
+	// Grid lines follow the palette and theme unless overridden
 	const styleConfig = useMemo(
-		() => ({ ...DEFAULT_STYLE_CONFIG, ...styleOverrides }),
-		[styleOverrides]
+		() => ({
+			...DEFAULT_STYLE_CONFIG,
+			lineColorGrey: orbPalette.themePalette.gridLineColor,
+			...THEME_STYLE_CONFIG[theme],
+			...styleOverrides,
+		}),
+		[styleOverrides, orbPalette.themePalette, theme]
 	);
 
 	// Refs for configs - read inside render loop for stable callback
@@ -165,6 +411,7 @@ export function OrbField({
 	const styleConfigRef = useRef(styleConfig);
 	useEffect(() => { revealConfigRef.current = revealConfig; }, [revealConfig]);
 	useEffect(() => { styleConfigRef.current = styleConfig; }, [styleConfig]);
+	useEffect(() => { blendModeRef.current = THEME_BLEND_MODES[theme]; }, [theme]);
 
 	// Sync windowSize to ref for stable render loop access
 	useEffect(() => { windowSizeRef.current = windowSize; }, [windowSize]);
@@ -174,8 +421,8 @@ export function OrbField({
 		const screenArea = windowSize.width * windowSize.height;
 		const areaScale = screenArea / referenceScreenArea;
 		const scaledCount = Math.round(targetOrbCountAt4K * areaScale);
-		return Math.max(minOrbCount, scaledCount);
-	}, [windowSize]);
+		return Math.round(Math.max(minOrbCount, scaledCount) * qualityTier.orbCountScale);
+	}, [windowSize, qualityTier]);
 
 	useEffect(() => { currentLayerRef.current = currentLayer; }, [currentLayer]);
 
@@ -193,11 +440,14 @@ export function OrbField({
 			windowSizeRef,
 			orbsRef: orbManager.orbsRef,
 			selectedOrbIdRef: orbManager.selectedOrbIdRef,
+			forceFieldsRef: forceFields.forceFieldsRef,
+			speciesProfilesRef: species.profilesRef,
+			qualityTierRef: quality.tierRef,
 			currentLayerRef,
 			currentScrollOffsetRef,
+			parallaxDepthRef,
 			mousePosRef,
 			isPageVisibleRef,
-			burstTimeRef,
 			showGridRef: debugState.showGridRef,
 			showCollisionAreaRef: debugState.showCollisionAreaRef,
 			showAvoidanceAreaRef: debugState.showAvoidanceAreaRef,
@@ -214,25 +464,34 @@ export function OrbField({
 			opacityRef,
 			revealConfigRef,
 			styleConfigRef,
+			blendModeRef,
+			workerRef,
+			workerPendingRef: orbWorker.workerPendingRef,
 		},
 		// Callbacks - must be stable (wrapped in useCallback)
 		{
 			runPhysics,
 			syncCanvasDimensions,
+			getRenderer,
 			calculateOpacity,
 			updateOpacity,
-			getEffectiveTime: debugState.getEffectiveTime,
+			getEffectiveTime: getScaledTime,
 			updateSelectedOrbData: orbManager.updateSelectedOrbData,
 			updateParallaxOffset,
+			sampleFrame: quality.sampleFrame,
+			resolveFocus: focalPlane.resolveFocus,
+			resolvePalette: orbPalette.resolvePalette,
 		}
 	);
 
 	useAnimationLoop({
 		visible,
 		gridConfig,
-		revealDuration: revealConfig.duration,
+		revealDuration: reducedMotion ? 0 : revealConfig.duration,
 		onLoop: runLoop,
 		onAnimationComplete,
+		maxSubsteps: qualityTier.maxSubsteps,
+		timeScale,
 	});
 
 	// =========================================================================
@@ -242,12 +501,15 @@ export function OrbField({
 
 	return (
 		<>
-			<canvas ref={visualCanvasRef} className={styles.visualCanvas} />
+			{/* Keyed by mode and backend: a canvas transferred to a worker, or given a context, can never switch */}
+			<canvas key={workerMode && !orbWorker.failed ? 'worker' : renderer} ref={visualCanvasRef} className={`${styles.visualCanvas} ${theme === 'light' ? styles.visualCanvasLight : ''}`} />
 			<canvas
 				ref={canvasRef}
 				onMouseMove={handleMouseMove}
 				onMouseLeave={handleMouseLeave}
 				onClick={handleClick}
+				onMouseDown={handleMouseDown}
+				onMouseUp={handleMouseUp}
 				onTouchStart={handleTouchStart}
 				onTouchMove={handleTouchMove}
 				onTouchEnd={handleTouchEnd}
@@ -273,6 +535,33 @@ export function OrbField({
 				currentLayer={currentLayer}
 				onLayerChange={setCurrentLayer}
 				hoveredCell={hoveredCell}
+				phases={phases}
+				onTogglePhase={togglePhase}
+				forceFields={forceFields.forceFields}
+				placingForceField={forceFields.placingKind}
+				onPlaceForceField={forceFields.setPlacingKind}
+				onRemoveForceField={forceFields.removeForceField}
+				formation={formation.formation}
+				onFormShape={formation.formShape}
+				onReleaseFormation={formation.releaseFormation}
+				boundaries={boundaries.boundaries}
+				onBoundariesChange={boundaries.setBoundaries}
+				onExportSnapshot={exportSnapshot}
+				onImportSnapshot={importSnapshot}
+				replay={replay.status}
+				onToggleRecording={replay.toggleRecording}
+				onStartReplay={replay.startReplay}
+				onExitReplay={replay.exitReplay}
+				onSeekReplay={replay.seekReplay}
+				onToggleReplayPlayback={replay.toggleReplayPlayback}
+				onExportRecording={replay.exportRecording}
+				onImportRecording={replay.importRecording}
+				quality={quality.status}
+				onQualityOverride={quality.setOverride}
+				focusSource={focalPlane.source}
+				onFocusSourceChange={focalPlane.setSource}
+				palette={orbPalette.palette}
+				onPaletteChange={orbPalette.setPalette}
 			/>
 
 			<DebugGitHubButton />
@@ -282,6 +571,7 @@ export function OrbField({
 					<OrbDebugPanel
 						orbs={orbManager.orbs}
 						targetOrbCount={targetOrbCount}
+						species={species.species.profiles}
 						selectedOrbId={orbManager.selectedOrbId}
 						selectedOrb={orbManager.selectedOrbData}
 						orbSize={orbSize}
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { BoundaryPhysics } from './BoundaryPhysics';
+import { DEFAULT_ORB_BOUNDARIES } from './config';
+import { type OrbBoundaries } from './types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { GridConfigFactory } from '../grid/core/GridConfigFactory';
+import { ViewportCellsFactory } from '../grid/core/ViewportCellsFactory';
+import { OrbFactory } from '../orb/utils/OrbFactory';
+import { type Orb } from '../orb/types';
+
+const CONFIG = GridConfigFactory.createFromSize(640, 360, 1);
+const GRID = new SpatialGrid(CONFIG);
+const VPC = ViewportCellsFactory.create(CONFIG);
+
+/** Field extent in pixels, matching the grid edges. */
+const MIN_X = -VPC.startCellX * VPC.cellSizeXPx;
+const MAX_X = (CONFIG.cellsX - VPC.startCellX) * VPC.cellSizeXPx;
+
+/**
+ * Creates a long-lived orb created at time 0.
+ */
+function createOrb(pxX: number, pxY: number, z: number): Orb {
+	return OrbFactory.create(
+		{ pxX, pxY, z, vx: 0, vy: 0, vz: 0, speed: 0, angle: 0, size: 1, lifetimeMs: 60000 },
+		() => 0.5,
+		0
+	);
+}
+
+/**
+ * Boundaries with one axis changed from bounce.
+ */
+function boundaries(overrides: Partial<OrbBoundaries>): OrbBoundaries {
+	return { ...DEFAULT_ORB_BOUNDARIES, ...overrides };
+}
+
+describe('BoundaryPhysics', () => {
+	it('closes only the walls of bouncing axes', () => {
+		expect(BoundaryPhysics.gridWalls(boundaries({ x: 'wrap', z: 'absorb' }))).toEqual({ x: false, y: true, z: false });
+	});
+
+	it('wraps an orb past one edge to the opposite edge with its previous position', () => {
+		const orb = createOrb(MAX_X + 4, 100, 3);
+		orb.prevPxX = MAX_X - 2;
+
+		BoundaryPhysics.apply([orb], boundaries({ x: 'wrap' }), GRID, VPC, 1000, 1 / 60);
+
+		expect(orb.pxX).toBeCloseTo(MIN_X + 4);
+		expect(orb.prevPxX).toBeCloseTo(MIN_X - 2);
+		expect(orb.pxY).toBe(100);
+	});
+
+	it('wraps depth across the layer range', () => {
+		const orb = createOrb(100, 100, -0.75);
+
+		BoundaryPhysics.apply([orb], boundaries({ z: 'wrap' }), GRID, VPC, 1000, 1 / 60);
+
+		expect(orb.z).toBeCloseTo(CONFIG.layers - 0.75);
+	});
+
+	it('starts the despawn fade of an orb past an absorbing edge', () => {
+		const inside = createOrb(100, 100, 3);
+		const outside = createOrb(MIN_X - 1, 100, 3);
+
+		BoundaryPhysics.apply([inside, outside], boundaries({ x: 'absorb' }), GRID, VPC, 1000, 1 / 60);
+
+		expect(inside.lifetimeMs).toBe(60000);
+		expect(outside.lifetimeMs).toBe(1000 + outside.despawnAnimDurationMs);
+	});
+
+	it('removes an absorbed orb once its fade has ended', () => {
+		const inside = createOrb(100, 100, 3);
+		const outside = createOrb(MIN_X - 1, 100, 3);
+		const orbs = [outside, inside];
+		const absorbX = boundaries({ x: 'absorb' });
+
+		expect(BoundaryPhysics.apply(orbs, absorbX, GRID, VPC, 1000, 1 / 60)).toBe(0);
+		const fadeEnd = 1000 + outside.despawnAnimDurationMs;
+		expect(BoundaryPhysics.apply(orbs, absorbX, GRID, VPC, fadeEnd, 1 / 60)).toBe(0);
+		expect(BoundaryPhysics.apply(orbs, absorbX, GRID, VPC, fadeEnd + 1, 1 / 60)).toBe(1);
+
+		expect(orbs).toEqual([inside]);
+	});
+
+	it('keeps orbs within a depth range by bouncing', () => {
+		const orb = createOrb(100, 100, 9);
+		orb.vz = 2;
+
+		BoundaryPhysics.apply([orb], boundaries({ depthRange: { min: 2, max: 6 } }), GRID, VPC, 1000, 1 / 60);
+
+		expect(orb.z).toBe(6);
+		expect(orb.vz).toBe(-2);
+	});
+});
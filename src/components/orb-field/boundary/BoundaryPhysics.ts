@@ -0,0 +1,179 @@
+// =============================================================================
+// BoundaryPhysics - Wraps, absorbs or softly contains orbs at the field edges
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type GridWalls, type ViewportCells } from '../grid/types';
+import { type OrbEventBus } from '../events';
+import { DEFAULT_BOUNDARY_CONFIG, type BoundaryConfig } from './config';
+import { type OrbBoundaries } from './types';
+
+/**
+ * Applies the boundary policy of each axis after orbs have moved.
+ *
+ * Bouncing off the grid edges is left to the grid's border walls and
+ * WallCollision; the other modes open those walls (see gridWalls()) and
+ * are handled here. A depth range narrower than the grid is enforced here
+ * for every mode, including bounce. Absorbed orbs fade out and are removed
+ * here, so they leave even while despawning is disabled.
+ *
+ * Single Responsibility: Edge policies other than wall reflection only.
+ */
+export class BoundaryPhysics {
+	/**
+	 * Grid edges that must stay closed for a boundary policy.
+	 *
+	 * @param boundaries - Boundary policy per axis.
+	 * @returns Walls to pass to SpatialGrid.setWalls().
+	 */
+	static gridWalls(boundaries: OrbBoundaries): GridWalls {
+		return {
+			x: boundaries.x === 'bounce',
+			y: boundaries.y === 'bounce',
+			z: boundaries.z === 'bounce',
+		};
+	}
+
+	/**
+	 * Wraps, absorbs or springs back orbs at the edges. Orbs past an
+	 * absorbing edge start their despawn fade and are removed once it ends;
+	 * the array is compacted in place like in the expiration phase.
+	 *
+	 * @param orbs - Array of all orbs (mutated in place).
+	 * @param boundaries - Boundary policy per axis.
+	 * @param grid - Spatial grid whose extent bounds X, Y and Z.
+	 * @param vpc - Viewport cells for converting the grid extent to pixels.
+	 * @param now - Current clock time in milliseconds (starts absorb fades).
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param config - Soft boundary tuning.
+	 * @param events - Event bus notified of depth range bounces and absorbed orbs (optional).
+	 * @returns Number of absorbed orbs removed.
+	 */
+	static apply(
+		orbs: Orb[],
+		boundaries: OrbBoundaries,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		now: number,
+		deltaTime: number,
+		config: BoundaryConfig = DEFAULT_BOUNDARY_CONFIG,
+		events?: OrbEventBus
+	): number {
+		const { x: modeX, y: modeY, z: modeZ, depthRange } = boundaries;
+		const bounceZ = modeZ === 'bounce' && depthRange !== null;
+		if (modeX === 'bounce' && modeY === 'bounce' && modeZ === 'bounce' && !bounceZ) return 0;
+
+		const { cellsX, cellsY, layers } = grid.config;
+		const minX = -vpc.startCellX * vpc.cellSizeXPx;
+		const maxX = (cellsX - vpc.startCellX) * vpc.cellSizeXPx;
+		const minY = -vpc.startCellY * vpc.cellSizeYPx;
+		const maxY = (cellsY - vpc.startCellY) * vpc.cellSizeYPx;
+		const minZ = depthRange ? Math.max(0, Math.min(depthRange.min, depthRange.max)) : 0;
+		const maxZ = depthRange ? Math.min(layers - 1, Math.max(depthRange.min, depthRange.max)) : layers - 1;
+
+		const { softMarginPx, softMarginLayers, softStiffness } = config;
+		const emitWallHit = bounceZ && (events?.has('wallHit') ?? false);
+		const emitExpire = events?.has('expire') ?? false;
+
+		let writeIndex = 0;
+		for (let readIndex = 0; readIndex < orbs.length; readIndex++) {
+			const orb = orbs[readIndex];
+			let absorbed = false;
+
+			// X axis
+			if (modeX === 'wrap') {
+				const shift = this.wrapShift(orb.pxX, minX, maxX);
+				orb.pxX += shift;
+				orb.prevPxX += shift;
+			} else if (modeX === 'absorb') {
+				absorbed = orb.pxX < minX || orb.pxX >= maxX;
+			} else if (modeX === 'soft') {
+				orb.vx += this.springAcceleration(orb.pxX, minX, maxX, softMarginPx, softStiffness) * deltaTime;
+			}
+
+			// Y axis
+			if (modeY === 'wrap') {
+				const shift = this.wrapShift(orb.pxY, minY, maxY);
+				orb.pxY += shift;
+				orb.prevPxY += shift;
+			} else if (modeY === 'absorb') {
+				absorbed ||= orb.pxY < minY || orb.pxY >= maxY;
+			} else if (modeY === 'soft') {
+				orb.vy += this.springAcceleration(orb.pxY, minY, maxY, softMarginPx, softStiffness) * deltaTime;
+			}
+
+			// Z axis (layers are centers, so the range is inclusive)
+			if (modeZ === 'wrap') {
+				const shift = this.wrapShift(orb.z, minZ - 0.5, maxZ + 0.5);
+				orb.z += shift;
+				orb.prevZ += shift;
+			} else if (modeZ === 'absorb') {
+				absorbed ||= orb.z < minZ - 0.5 || orb.z >= maxZ + 0.5;
+			} else if (modeZ === 'soft') {
+				orb.vz += this.springAcceleration(orb.z, minZ, maxZ, softMarginLayers, softStiffness) * deltaTime;
+			} else if (bounceZ && (orb.z < minZ || orb.z > maxZ)) {
+				orb.z = orb.z < minZ ? minZ : maxZ;
+				orb.vz = orb.z === minZ ? Math.abs(orb.vz) : -Math.abs(orb.vz);
+				if (emitWallHit) {
+					events!.emit('wallHit', {
+						id: orb.id,
+						reflectX: false,
+						reflectY: false,
+						reflectZ: true,
+						speed: Math.sqrt(orb.vx * orb.vx + orb.vy * orb.vy),
+					});
+				}
+			}
+
+			if (absorbed && this.absorb(orb, now)) {
+				if (emitExpire) events!.emit('expire', { orb });
+			} else {
+				orbs[writeIndex++] = orb;
+			}
+		}
+
+		const removed = orbs.length - writeIndex;
+		orbs.length = writeIndex;
+		return removed;
+	}
+
+	/**
+	 * Offset that moves a position past one edge to the opposite edge.
+	 * Orbs move far less than the span per step, so one wrap is enough.
+	 */
+	private static wrapShift(position: number, min: number, max: number): number {
+		const span = max - min;
+		if (position < min) return span;
+		if (position >= max) return -span;
+		return 0;
+	}
+
+	/**
+	 * Spring acceleration pushing a position out of the margin at either
+	 * edge, proportional to how deep it is. Zero between the margins.
+	 */
+	private static springAcceleration(position: number, min: number, max: number, margin: number, stiffness: number): number {
+		const inset = Math.min(margin, (max - min) / 2);
+		const belowStart = min + inset - position;
+		if (belowStart > 0) return stiffness * belowStart;
+		const pastEnd = position - (max - inset);
+		if (pastEnd > 0) return -stiffness * pastEnd;
+		return 0;
+	}
+
+	/**
+	 * Shortens an orb's lifetime so its despawn fade starts now,
+	 * unless it is already fading.
+	 *
+	 * @returns True once the fade has ended and the orb must be removed.
+	 */
+	private static absorb(orb: Orb, now: number): boolean {
+		const age = now - orb.createdAt;
+		if (age > orb.lifetimeMs) return true;
+		if (orb.lifetimeMs - age > orb.despawnAnimDurationMs) {
+			orb.lifetimeMs = age + orb.despawnAnimDurationMs;
+		}
+		return false;
+	}
+}
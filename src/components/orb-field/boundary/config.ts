@@ -0,0 +1,36 @@
+// =============================================================================
+// Boundary Configuration - Default edge policy and soft edge tuning
+// =============================================================================
+
+import { type OrbBoundaries } from './types';
+
+/**
+ * Tuning for the soft boundary spring.
+ */
+export interface BoundaryConfig {
+	/** Distance from an X or Y edge in pixels where the spring starts. */
+	softMarginPx: number;
+	/** Distance from a Z edge in layers where the spring starts. */
+	softMarginLayers: number;
+	/** Spring stiffness per second squared (acceleration per unit of depth into the margin). */
+	softStiffness: number;
+}
+
+/**
+ * Default edges: bounce on every axis across the whole grid.
+ */
+export const DEFAULT_ORB_BOUNDARIES: OrbBoundaries = {
+	x: 'bounce',
+	y: 'bounce',
+	z: 'bounce',
+	depthRange: null,
+};
+
+/**
+ * Default soft boundary tuning.
+ */
+export const DEFAULT_BOUNDARY_CONFIG: BoundaryConfig = {
+	softMarginPx: 160,
+	softMarginLayers: 12,
+	softStiffness: 18,
+};
@@ -0,0 +1,15 @@
+// =============================================================================
+// Boundary - Exports for field edge policy modules
+// =============================================================================
+
+export { BoundaryPhysics } from './BoundaryPhysics';
+export {
+	DEFAULT_ORB_BOUNDARIES,
+	DEFAULT_BOUNDARY_CONFIG,
+	type BoundaryConfig,
+} from './config';
+export type {
+	BoundaryMode,
+	BoundaryDepthRange,
+	OrbBoundaries,
+} from './types';
@@ -0,0 +1,40 @@
+// =============================================================================
+// Boundary Types - Type definitions for what happens at the field's edges
+// =============================================================================
+
+/**
+ * Behaviour of orbs reaching the edge of the field on one axis.
+ * - bounce: reflect off the grid border wall (default)
+ * - wrap: leave one edge and re-enter at the opposite one (toroidal)
+ * - absorb: pass the edge and despawn with the usual fade
+ * - soft: no wall; a spring near the edge pushes orbs back inside
+ */
+export type BoundaryMode = 'bounce' | 'wrap' | 'absorb' | 'soft';
+
+/**
+ * Inclusive range of Z layers orbs are kept within.
+ */
+export interface BoundaryDepthRange {
+	/** Nearest allowed layer. */
+	min: number;
+	/** Farthest allowed layer. */
+	max: number;
+}
+
+/**
+ * Boundary policy per axis.
+ *
+ * X and Y edges are the edges of the grid, which extends beyond the
+ * viewport (see GridSystemConfig.extensionMultiplier), so orbs usually
+ * turn around off screen.
+ */
+export interface OrbBoundaries {
+	/** Left and right edges. */
+	x: BoundaryMode;
+	/** Top and bottom edges. */
+	y: BoundaryMode;
+	/** Front and back, at the depth range or the grid's first and last layer. */
+	z: BoundaryMode;
+	/** Z layers to keep orbs within, or null for the whole grid. */
+	depthRange: BoundaryDepthRange | null;
+}
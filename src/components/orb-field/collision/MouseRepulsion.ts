@@ -3,6 +3,7 @@
 // =============================================================================
 
 import { type Orb } from '../orb/types';
+import { ParallaxDepth, NO_PARALLAX, type LayerParallax } from '../shared/parallax';
 
 /**
  * Handles mouse interaction repulsion for orbs.
@@ -15,12 +16,14 @@ export class MouseRepulsion {
 	 * 
 	 * The mouse acts as a repulsion point that pushes orbs away in the XY plane.
 	 * Z-axis is not affected - this is purely 2D interaction.
-	 * Each orb reacts to the mouse exactly once per frame (z-layer independent).
+	 * Each orb reacts to the mouse exactly once per frame, measured from
+	 * where its layer's parallax draws it on screen.
 	 * 
 	 * @param orbs - Array of all orbs to affect.
-	 * @param mouseX - Mouse X position in pixels.
-	 * @param mouseY - Mouse Y position in pixels.
+	 * @param mouseX - Mouse X position in screen pixels.
+	 * @param mouseY - Mouse Y position in screen pixels.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param parallax - Offset shifting each layer on screen (default none).
 	 * @param repulsionRadius - Radius in pixels within which orbs are affected.
 	 * @param repulsionStrength - Base strength of the repulsion acceleration.
 	 */
@@ -29,6 +32,7 @@ export class MouseRepulsion {
 		mouseX: number,
 		mouseY: number,
 		deltaTime: number,
+		parallax: LayerParallax = NO_PARALLAX,
 		repulsionRadius: number = 150,
 		repulsionStrength: number = 80
 	): void {
@@ -36,9 +40,10 @@ export class MouseRepulsion {
 		if (!isFinite(mouseX) || !isFinite(mouseY)) return;
 
 		for (const orb of orbs) {
-			// Calculate 2D distance from mouse to orb center (XY only)
-			const dx = orb.pxX - mouseX;
-			const dy = orb.pxY - mouseY;
+			// Calculate 2D distance from mouse to orb center on screen (XY only)
+			const scale = ParallaxDepth.scaleOf(parallax, orb.z);
+			const dx = orb.pxX + parallax.offset.x * scale - mouseX;
+			const dy = orb.pxY + parallax.offset.y * scale - mouseY;
 			const distSq = dx * dx + dy * dy;
 
 			// Skip if too far or at same position
@@ -69,4 +74,56 @@ export class MouseRepulsion {
 			}
 		}
 	}
+
+	/**
+	 * Applies a velocity wake behind a moving pointer.
+	 * 
+	 * Orbs near the pointer are accelerated along the pointer's velocity,
+	 * so a flick drags them along instead of only pushing them apart.
+	 * XY only and per-layer parallax aware, like repulsion.
+	 * 
+	 * @param orbs - Array of all orbs to affect.
+	 * @param pointerX - Pointer X position in screen pixels.
+	 * @param pointerY - Pointer Y position in screen pixels.
+	 * @param pointerVx - Pointer X velocity in pixels per second.
+	 * @param pointerVy - Pointer Y velocity in pixels per second.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param parallax - Offset shifting each layer on screen (default none).
+	 * @param wakeRadius - Radius in pixels within which orbs are affected.
+	 * @param wakeStrength - Fraction of pointer velocity transferred per second at the pointer.
+	 */
+	static applyWake(
+		orbs: Orb[],
+		pointerX: number,
+		pointerY: number,
+		pointerVx: number,
+		pointerVy: number,
+		deltaTime: number,
+		parallax: LayerParallax = NO_PARALLAX,
+		wakeRadius: number = 180,
+		wakeStrength: number = 2
+	): void {
+		// Skip if pointer is invalid or not moving
+		if (!isFinite(pointerX) || !isFinite(pointerY) || !isFinite(pointerVx) || !isFinite(pointerVy)) return;
+		if (pointerVx === 0 && pointerVy === 0) return;
+
+		for (const orb of orbs) {
+			const scale = ParallaxDepth.scaleOf(parallax, orb.z);
+			const dx = orb.pxX + parallax.offset.x * scale - pointerX;
+			const dy = orb.pxY + parallax.offset.y * scale - pointerY;
+			const distSq = dx * dx + dy * dy;
+
+			if (distSq >= wakeRadius * wakeRadius) continue;
+
+			// Quadratic falloff, 1 at the pointer and 0 at the edge
+			const falloff = 1 - Math.sqrt(distSq) / wakeRadius;
+			const transfer = falloff * falloff * wakeStrength * deltaTime;
+
+			orb.vx += pointerVx * transfer;
+			orb.vy += pointerVy * transfer;
+
+			// Update angle to match new velocity direction
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
 }
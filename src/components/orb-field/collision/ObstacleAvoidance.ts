@@ -0,0 +1,119 @@
+// =============================================================================
+// ObstacleAvoidance - Soft repulsion from content obstacles
+// =============================================================================
+
+import { type ViewportCells } from '../grid/types';
+import { type Orb } from '../orb/types';
+import { type OrbObstacle } from '../shared/types';
+import { ParallaxDepth, NO_PARALLAX, type LayerParallax } from '../shared/parallax';
+
+/**
+ * Handles soft avoidance of rectangular obstacles such as cards.
+ * 
+ * Hard blocking comes from CELL_OBSTACLE cells via WallCollision; this adds
+ * a gradual push near the edges so orbs stream around obstacles instead of
+ * bouncing off them, and ejects orbs an obstacle has moved on top of.
+ * 
+ * Single Responsibility: Obstacle soft repulsion only.
+ */
+export class ObstacleAvoidance {
+	/**
+	 * Applies obstacle avoidance to all orbs (XY only).
+	 * 
+	 * Obstacles are on screen, so each one is shifted into physics space
+	 * by the parallax of the orb's own layer before testing it.
+	 * 
+	 * @param orbs - Array of all orbs to affect.
+	 * @param obstacles - Obstacles in screen pixels.
+	 * @param layerCount - Number of Z layers (range for obstacles without one).
+	 * @param vpc - Viewport cell metrics for orb radius conversion.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param parallax - Offset shifting each layer on screen (default none).
+	 * @param avoidanceMargin - Distance outside an obstacle where the push starts.
+	 * @param avoidanceStrength - Push acceleration at the obstacle edge.
+	 */
+	static applyRepulsion(
+		orbs: Orb[],
+		obstacles: readonly OrbObstacle[],
+		layerCount: number,
+		vpc: ViewportCells,
+		deltaTime: number,
+		parallax: LayerParallax = NO_PARALLAX,
+		avoidanceMargin: number = 60,
+		avoidanceStrength: number = 250
+	): void {
+		if (obstacles.length === 0) return;
+
+		const cellPx = Math.max(vpc.cellSizeXPx, vpc.cellSizeYPx);
+
+		for (const orb of orbs) {
+			// Orb footprint plus one cell, so an ejected orb clears the obstacle's cells
+			const clearance = (orb.size + 0.5) * cellPx;
+			const scale = ParallaxDepth.scaleOf(parallax, orb.z);
+			const shiftX = parallax.offset.x * scale;
+			const shiftY = parallax.offset.y * scale;
+			let changed = false;
+
+			for (const obstacle of obstacles) {
+				const minLayer = obstacle.layers?.min ?? 0;
+				const maxLayer = obstacle.layers?.max ?? layerCount - 1;
+				if (orb.z < minLayer - orb.size || orb.z > maxLayer + orb.size) continue;
+
+				// Obstacle in the orb's physics space, expanded by its clearance
+				const left = obstacle.x - shiftX - clearance;
+				const right = obstacle.x - shiftX + obstacle.width + clearance;
+				const top = obstacle.y - shiftY - clearance;
+				const bottom = obstacle.y - shiftY + obstacle.height + clearance;
+
+				if (orb.pxX > left && orb.pxX < right && orb.pxY > top && orb.pxY < bottom) {
+					this.eject(orb, left, right, top, bottom);
+					changed = true;
+					continue;
+				}
+
+				// Distance to the expanded rectangle
+				const dx = orb.pxX - Math.max(left, Math.min(orb.pxX, right));
+				const dy = orb.pxY - Math.max(top, Math.min(orb.pxY, bottom));
+				const distSq = dx * dx + dy * dy;
+				if (distSq >= avoidanceMargin * avoidanceMargin || distSq < 1e-6) continue;
+
+				const dist = Math.sqrt(distSq);
+				const falloff = 1 - dist / avoidanceMargin;
+				const acceleration = falloff * falloff * avoidanceStrength;
+
+				orb.vx += acceleration * (dx / dist) * deltaTime;
+				orb.vy += acceleration * (dy / dist) * deltaTime;
+				changed = true;
+			}
+
+			// Update angle to match new velocity direction
+			if (changed) orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+
+	/**
+	 * Moves an orb inside a rectangle out through the nearest edge and
+	 * points its velocity outward on that axis.
+	 */
+	private static eject(orb: Orb, left: number, right: number, top: number, bottom: number): void {
+		const toLeft = orb.pxX - left;
+		const toRight = right - orb.pxX;
+		const toTop = orb.pxY - top;
+		const toBottom = bottom - orb.pxY;
+		const nearest = Math.min(toLeft, toRight, toTop, toBottom);
+
+		if (nearest === toLeft) {
+			orb.pxX = left;
+			orb.vx = -Math.abs(orb.vx);
+		} else if (nearest === toRight) {
+			orb.pxX = right;
+			orb.vx = Math.abs(orb.vx);
+		} else if (nearest === toTop) {
+			orb.pxY = top;
+			orb.vy = -Math.abs(orb.vy);
+		} else {
+			orb.pxY = bottom;
+			orb.vy = Math.abs(orb.vy);
+		}
+	}
+}
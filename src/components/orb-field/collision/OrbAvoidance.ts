@@ -4,6 +4,9 @@
 
 import { type ViewportCells } from '../grid/types';
 import { type Orb } from '../orb/types';
+import { OrbSpatialHash } from './OrbSpatialHash';
+import { type RandomSource } from '../shared/random';
+import { OrbSpecies, DEFAULT_ORB_SPECIES, type OrbSpeciesTable } from '../species';
 
 /**
  * Handles soft avoidance repulsion between orbs.
@@ -19,19 +22,28 @@ export class OrbAvoidance {
 	 * Force is mass-weighted so larger orbs push smaller orbs more.
 	 * Uses deltaTime for frame-rate independent, gradual velocity changes.
 	 * 
+	 * Candidate pairs come from the spatial hash broad phase, which must
+	 * have been rebuilt from the same orbs array this frame.
+	 * 
 	 * @param orbs - Array of all orbs to check.
 	 * @param vpc - Viewport cell metrics for coordinate conversion.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param spatialHash - Broad-phase hash rebuilt from `orbs` this frame.
 	 * @param repulsionStrength - Base strength of the repulsion acceleration (default 200).
+	 * @param random - Random source for separating coincident orbs (default Math.random).
+	 * @param species - Species profiles by kind (mass multipliers).
 	 */
 	static applyRepulsion(
 		orbs: Orb[],
 		vpc: ViewportCells,
 		deltaTime: number,
-		repulsionStrength: number = 200
+		spatialHash: OrbSpatialHash,
+		repulsionStrength: number = 200,
+		random: RandomSource = Math.random,
+		species: OrbSpeciesTable = DEFAULT_ORB_SPECIES
 	): void {
 		for (let i = 0; i < orbs.length; i++) {
-			for (let j = i + 1; j < orbs.length; j++) {
+			for (const j of spatialHash.getCandidates(i, orbs[i].size)) {
 				const orbA = orbs[i];
 				const orbB = orbs[j];
 
@@ -67,8 +79,8 @@ export class OrbAvoidance {
 
 				if (distSq < 0.001) {
 					// Generate random separation direction to unstick orbs
-					const randomAngle = Math.random() * Math.PI * 2;
-					const randomPhi = (Math.random() - 0.5) * Math.PI;
+					const randomAngle = random() * Math.PI * 2;
+					const randomPhi = (random() - 0.5) * Math.PI;
 					nxCell = Math.cos(randomAngle) * Math.cos(randomPhi);
 					nyCell = Math.sin(randomAngle) * Math.cos(randomPhi);
 					nzCell = Math.sin(randomPhi);
@@ -120,8 +132,8 @@ export class OrbAvoidance {
 					const acceleration = overlap * overlap * repulsionStrength * forceMultiplier;
 
 					// Mass-weighted repulsion (smaller orbs get pushed more)
-					const massA = orbA.size;
-					const massB = orbB.size;
+					const massA = OrbSpecies.massOf(orbA, species);
+					const massB = OrbSpecies.massOf(orbB, species);
 					const totalMass = massA + massB;
 
 					const accelA = acceleration * (massB / totalMass);
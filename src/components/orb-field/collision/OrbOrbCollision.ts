@@ -4,6 +4,10 @@
 
 import { type ViewportCells } from '../grid/types';
 import { type Orb } from '../orb/types';
+import { OrbSpatialHash } from './OrbSpatialHash';
+import { type RandomSource } from '../shared/random';
+import { type OrbEventBus } from '../events';
+import { OrbSpecies, DEFAULT_ORB_SPECIES, type OrbSpeciesTable } from '../species';
 
 /**
  * Handles hard collision resolution between orbs.
@@ -14,8 +18,10 @@ export class OrbOrbCollision {
 	/**
 	 * Resolves 3D orb-orb collisions with mass-weighted elastic bounce.
 	 * 
-	 * Checks all pairs of orbs for overlap and applies impulses based on
-	 * their relative masses (size). Larger orbs affect smaller orbs more.
+	 * Checks nearby pairs of orbs for overlap and applies impulses based on
+	 * their relative masses (size times the species mass multiplier).
+	 * Larger orbs affect smaller orbs more.
+	 * Candidate pairs come from the spatial hash broad phase.
 	 * 
 	 * Uses the elastic collision formula in 3D:
 	 * v1' = v1 - (2*m2/(m1+m2)) * dot(v1-v2, n) * n
@@ -25,13 +31,23 @@ export class OrbOrbCollision {
 	 * 
 	 * @param orbs - Array of all orbs to check.
 	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 * @param spatialHash - Broad-phase hash rebuilt from `orbs` this frame.
+	 * @param random - Random source for separating coincident orbs (default Math.random).
+	 * @param events - Event bus notified of each bounce (optional).
+	 * @param species - Species profiles by kind (mass multipliers).
 	 */
 	static resolveCollisions(
 		orbs: Orb[],
-		vpc: ViewportCells
+		vpc: ViewportCells,
+		spatialHash: OrbSpatialHash,
+		random: RandomSource = Math.random,
+		events?: OrbEventBus,
+		species: OrbSpeciesTable = DEFAULT_ORB_SPECIES
 	): void {
+		const emitCollide = events?.has('collide') ?? false;
+
 		for (let i = 0; i < orbs.length; i++) {
-			for (let j = i + 1; j < orbs.length; j++) {
+			for (const j of spatialHash.getCandidates(i, orbs[i].size)) {
 				const orbA = orbs[i];
 				const orbB = orbs[j];
 
@@ -60,8 +76,8 @@ export class OrbOrbCollision {
 					// Handle zero-distance case (orbs at same position)
 					if (distSq < 0.001) {
 						// Generate random separation direction to unstick orbs
-						const randomAngle = Math.random() * Math.PI * 2;
-						const randomPhi = (Math.random() - 0.5) * Math.PI;
+						const randomAngle = random() * Math.PI * 2;
+						const randomPhi = (random() - 0.5) * Math.PI;
 						nxCell = Math.cos(randomAngle) * Math.cos(randomPhi);
 						nyCell = Math.sin(randomAngle) * Math.cos(randomPhi);
 						nzCell = Math.sin(randomPhi);
@@ -88,9 +104,9 @@ export class OrbOrbCollision {
 					const ny = lenPx > 0.001 ? nyPx / lenPx : 0;
 					const nz = lenPx > 0.001 ? nzPx / lenPx : 0;
 
-					// Use size as mass (larger orbs have more momentum)
-					const massA = orbA.size;
-					const massB = orbB.size;
+					// Use species-weighted size as mass (larger orbs have more momentum)
+					const massA = OrbSpecies.massOf(orbA, species);
+					const massB = OrbSpecies.massOf(orbB, species);
 					const totalMass = massA + massB;
 
 					// Position correction: ALWAYS push orbs apart if overlapping
@@ -148,6 +164,9 @@ export class OrbOrbCollision {
 							orbB.vx += impulseB * nx;
 							orbB.vy += impulseB * ny;
 							orbB.vz += impulseB * nz;
+
+							// Equal and opposite momentum change: massA * impulseA
+							if (emitCollide) events!.emit('collide', { a: orbA.id, b: orbB.id, impulse: massA * impulseA });
 						}
 					} else if (overlapRatio > 0.3) {
 						// Objects are stuck (significant overlap but not approaching)
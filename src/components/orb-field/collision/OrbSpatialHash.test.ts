@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { OrbSpatialHash } from './OrbSpatialHash';
+import { type ViewportCells } from '../grid/types';
+import { type Orb } from '../orb/types';
+
+/** 10px cells; only the inverse sizes are read. */
+const VPC = { invCellSizeXPx: 0.1, invCellSizeYPx: 0.1 } as ViewportCells;
+
+/**
+ * Creates orbs scattered over 600x400px and 12 layers from a fixed sequence.
+ */
+function scatterOrbs(count: number): Orb[] {
+	let state = 12345;
+	const next = () => {
+		state = (state * 1103515245 + 12345) % 2147483648;
+		return state / 2147483648;
+	};
+
+	const orbs: Orb[] = [];
+	for (let i = 0; i < count; i++) {
+		orbs.push({ pxX: next() * 600, pxY: next() * 400, z: next() * 12, size: 1 + Math.floor(next() * 3) } as Orb);
+	}
+	return orbs;
+}
+
+/**
+ * Whether two orbs are close enough to collide or avoid each other.
+ */
+function canInteract(a: Orb, b: Orb): boolean {
+	const dx = (b.pxX - a.pxX) * VPC.invCellSizeXPx;
+	const dy = (b.pxY - a.pxY) * VPC.invCellSizeYPx;
+	const dz = b.z - a.z;
+	return Math.sqrt(dx * dx + dy * dy + dz * dz) < a.size + b.size;
+}
+
+describe('OrbSpatialHash', () => {
+	it('returns every interacting pair the O(n²) loop would find', () => {
+		const orbs = scatterOrbs(300);
+		const hash = new OrbSpatialHash();
+		hash.rebuild(orbs, VPC);
+
+		for (let i = 0; i < orbs.length; i++) {
+			const candidates = new Set(hash.getCandidates(i, orbs[i].size));
+			for (let j = i + 1; j < orbs.length; j++) {
+				if (canInteract(orbs[i], orbs[j])) expect(candidates.has(j), `pair ${i},${j}`).toBe(true);
+			}
+		}
+	});
+
+	it('returns only higher indices, in ascending order', () => {
+		const orbs = scatterOrbs(300);
+		const hash = new OrbSpatialHash();
+		hash.rebuild(orbs, VPC);
+
+		for (let i = 0; i < orbs.length; i++) {
+			const candidates = hash.getCandidates(i, orbs[i].size);
+			for (let k = 0; k < candidates.length; k++) {
+				expect(candidates[k]).toBeGreaterThan(k === 0 ? i : candidates[k - 1]);
+			}
+		}
+	});
+
+	it('skips orbs with non-finite positions', () => {
+		const orbs = [
+			{ pxX: 100, pxY: 100, z: 0, size: 1 },
+			{ pxX: NaN, pxY: 100, z: 0, size: 1 },
+			{ pxX: 105, pxY: 100, z: 0, size: 1 },
+		] as Orb[];
+		const hash = new OrbSpatialHash();
+		hash.rebuild(orbs, VPC);
+
+		expect(hash.getCandidates(0, 1)).toEqual([2]);
+		expect(hash.getCandidates(1, 1)).toEqual([]);
+	});
+
+	it('forgets orbs from the previous rebuild', () => {
+		const hash = new OrbSpatialHash();
+		hash.rebuild([{ pxX: 0, pxY: 0, z: 0, size: 1 }, { pxX: 5, pxY: 0, z: 0, size: 1 }] as Orb[], VPC);
+		hash.rebuild([{ pxX: 0, pxY: 0, z: 0, size: 1 }, { pxX: 500, pxY: 0, z: 0, size: 1 }] as Orb[], VPC);
+
+		expect(hash.getCandidates(0, 1)).toEqual([]);
+	});
+});
@@ -0,0 +1,236 @@
+// =============================================================================
+// OrbSpatialHash - Uniform bucket grid broad phase for orb-orb queries
+// =============================================================================
+
+import { type ViewportCells } from '../grid/types';
+import { type Orb } from '../orb/types';
+
+/** Bucket coordinate offset so negative coordinates pack into a positive key. */
+const KEY_OFFSET = 2048;
+
+/** Number of distinct bucket coordinates per axis in a packed key. */
+const KEY_RANGE = 4096;
+
+/**
+ * Uniform bucket grid for finding nearby orbs without an O(n²) pair loop.
+ *
+ * Buckets are keyed by cell coordinates (X, Y) and layer (Z), each divided
+ * by the bucket size. The hash is rebuilt once per frame from the current
+ * orb positions, then queried by the orb-orb interaction phases.
+ *
+ * Single Responsibility: Broad-phase neighbour lookup only.
+ * Narrow-phase math stays in OrbOrbCollision, OrbAvoidance and FlockingPhysics.
+ */
+export class OrbSpatialHash {
+	/** Bucket size in cells (applies to X, Y and layers alike). */
+	readonly bucketSizeCells: number;
+
+	/**
+	 * Extra query distance in cells beyond the interaction range.
+	 * Covers orbs moved by position correction after the hash was built.
+	 */
+	readonly queryMarginCells: number;
+
+	/** Orb indices per packed bucket key. Arrays are reused between frames. */
+	private buckets = new Map<number, number[]>();
+
+	/** Keys of buckets that received orbs during the last rebuild. */
+	private activeKeys: number[] = [];
+
+	/** Cell-space center of each orb at rebuild time (x, y, z triplets). */
+	private centers = new Float64Array(0);
+
+	/** Largest orb size present at rebuild time. */
+	private maxOrbSize = 1;
+
+	/** Number of orbs indexed by the last rebuild. */
+	private orbCount = 0;
+
+	/** Scratch array returned by getCandidates() to avoid per-query allocation. */
+	private candidates: number[] = [];
+
+	/**
+	 * Creates a new spatial hash.
+	 *
+	 * @param bucketSizeCells - Bucket edge length in cells (default 8).
+	 * @param queryMarginCells - Extra query distance in cells (default 2).
+	 */
+	constructor(bucketSizeCells: number = 8, queryMarginCells: number = 2) {
+		this.bucketSizeCells = bucketSizeCells;
+		this.queryMarginCells = queryMarginCells;
+	}
+
+	/**
+	 * Rebuilds the bucket grid from the current orb positions.
+	 * Call once per frame before running any neighbour queries.
+	 *
+	 * Orbs with non-finite positions are skipped, matching the narrow phase
+	 * where NaN distances never produce an interaction.
+	 *
+	 * @param orbs - Array of all orbs to index.
+	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 */
+	rebuild(orbs: Orb[], vpc: ViewportCells): void {
+		// Empty previously used buckets but keep their arrays for reuse
+		for (const key of this.activeKeys) {
+			const bucket = this.buckets.get(key);
+			if (bucket) bucket.length = 0;
+		}
+		this.activeKeys.length = 0;
+
+		if (this.centers.length < orbs.length * 3) {
+			this.centers = new Float64Array(orbs.length * 3);
+		}
+
+		this.orbCount = orbs.length;
+		this.maxOrbSize = 1;
+
+		const invBucket = 1 / this.bucketSizeCells;
+
+		for (let i = 0; i < orbs.length; i++) {
+			const orb = orbs[i];
+			const cx = orb.pxX * vpc.invCellSizeXPx;
+			const cy = orb.pxY * vpc.invCellSizeYPx;
+			const cz = orb.z;
+
+			this.centers[i * 3] = cx;
+			this.centers[i * 3 + 1] = cy;
+			this.centers[i * 3 + 2] = cz;
+
+			if (!isFinite(cx) || !isFinite(cy) || !isFinite(cz)) continue;
+
+			if (orb.size > this.maxOrbSize) this.maxOrbSize = orb.size;
+
+			const key = this.packKey(
+				Math.floor(cx * invBucket),
+				Math.floor(cy * invBucket),
+				Math.floor(cz * invBucket)
+			);
+
+			let bucket = this.buckets.get(key);
+			if (!bucket) {
+				bucket = [];
+				this.buckets.set(key, bucket);
+			}
+			if (bucket.length === 0) this.activeKeys.push(key);
+			bucket.push(i);
+		}
+	}
+
+	/**
+	 * Returns indices of orbs that may interact with the orb at `index`.
+	 *
+	 * Only indices greater than `index` are returned, in ascending order, so
+	 * iterating i over all orbs and j over candidates visits each pair once
+	 * in the same order as the original nested loop.
+	 *
+	 * The query range is the orb's size plus the largest orb size, which
+	 * covers the combined avoidance radius (sizeA + sizeB cells), plus margin.
+	 *
+	 * The returned array is reused by the next call - copy it if needed.
+	 *
+	 * @param index - Index of the orb in the array passed to rebuild().
+	 * @param size - Current size of that orb in cells.
+	 * @returns Ascending candidate indices greater than `index`.
+	 */
+	getCandidates(index: number, size: number): number[] {
+		const out = this.candidates;
+		out.length = 0;
+
+		if (index < 0 || index >= this.orbCount) return out;
+
+		const cx = this.centers[index * 3];
+		const cy = this.centers[index * 3 + 1];
+		const cz = this.centers[index * 3 + 2];
+		if (!isFinite(cx) || !isFinite(cy) || !isFinite(cz)) return out;
+
+		const range = size + this.maxOrbSize + this.queryMarginCells;
+		const invBucket = 1 / this.bucketSizeCells;
+
+		const minBX = Math.floor((cx - range) * invBucket);
+		const maxBX = Math.floor((cx + range) * invBucket);
+		const minBY = Math.floor((cy - range) * invBucket);
+		const maxBY = Math.floor((cy + range) * invBucket);
+		const minBZ = Math.floor((cz - range) * invBucket);
+		const maxBZ = Math.floor((cz + range) * invBucket);
+
+		for (let bx = minBX; bx <= maxBX; bx++) {
+			for (let by = minBY; by <= maxBY; by++) {
+				for (let bz = minBZ; bz <= maxBZ; bz++) {
+					const bucket = this.buckets.get(this.packKey(bx, by, bz));
+					if (!bucket) continue;
+					for (let k = 0; k < bucket.length; k++) {
+						const j = bucket[k];
+						if (j > index) out.push(j);
+					}
+				}
+			}
+		}
+
+		// Preserve the pair order of the original O(n²) loop
+		if (out.length > 1) out.sort((a, b) => a - b);
+
+		return out;
+	}
+
+	/**
+	 * Returns indices of all other orbs in buckets overlapping a box around
+	 * the orb at `index`, for neighbourhoods wider than the interaction range
+	 * (e.g. flocking). Unlike getCandidates(), lower indices are included, so
+	 * each pair is seen from both sides.
+	 *
+	 * Results are a superset of the orbs inside the box; filter by distance.
+	 * The returned array is reused by the next call - copy it if needed.
+	 *
+	 * @param index - Index of the orb in the array passed to rebuild().
+	 * @param rangeX - Half width of the box in cells.
+	 * @param rangeY - Half height of the box in cells.
+	 * @param rangeZ - Half depth of the box in layers.
+	 * @returns Ascending indices of nearby orbs, excluding `index`.
+	 */
+	getNeighbours(index: number, rangeX: number, rangeY: number, rangeZ: number): number[] {
+		const out = this.candidates;
+		out.length = 0;
+
+		if (index < 0 || index >= this.orbCount) return out;
+
+		const cx = this.centers[index * 3];
+		const cy = this.centers[index * 3 + 1];
+		const cz = this.centers[index * 3 + 2];
+		if (!isFinite(cx) || !isFinite(cy) || !isFinite(cz)) return out;
+
+		const invBucket = 1 / this.bucketSizeCells;
+
+		const minBX = Math.floor((cx - rangeX) * invBucket);
+		const maxBX = Math.floor((cx + rangeX) * invBucket);
+		const minBY = Math.floor((cy - rangeY) * invBucket);
+		const maxBY = Math.floor((cy + rangeY) * invBucket);
+		const minBZ = Math.floor((cz - rangeZ) * invBucket);
+		const maxBZ = Math.floor((cz + rangeZ) * invBucket);
+
+		for (let bx = minBX; bx <= maxBX; bx++) {
+			for (let by = minBY; by <= maxBY; by++) {
+				for (let bz = minBZ; bz <= maxBZ; bz++) {
+					const bucket = this.buckets.get(this.packKey(bx, by, bz));
+					if (!bucket) continue;
+					for (let k = 0; k < bucket.length; k++) {
+						const j = bucket[k];
+						if (j !== index) out.push(j);
+					}
+				}
+			}
+		}
+
+		// Bucket order depends on the box, so sort for a deterministic sum order
+		if (out.length > 1) out.sort((a, b) => a - b);
+
+		return out;
+	}
+
+	/**
+	 * Packs bucket coordinates into a single numeric map key.
+	 */
+	private packKey(bx: number, by: number, bz: number): number {
+		return ((bx + KEY_OFFSET) * KEY_RANGE + (by + KEY_OFFSET)) * KEY_RANGE + (bz + KEY_OFFSET);
+	}
+}
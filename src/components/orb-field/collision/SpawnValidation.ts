@@ -2,7 +2,7 @@
 // SpawnValidation - Validates safe spawn locations for orbs
 // =============================================================================
 
-import { hasCellFlag, CELL_FILLED, CELL_BORDER } from '../shared/types';
+import { hasCellFlag, CELL_FILLED, CELL_BORDER, CELL_OBSTACLE } from '../shared/types';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
 
@@ -38,10 +38,10 @@ export class SpawnValidation {
 		const centerCellY = ((pxY * vpc.invCellSizeYPx) | 0) + vpc.startCellY;
 		const centerLayer = Math.round(z);
 
-		// For size 1 orbs, check single cell - only block on FILLED or BORDER
+		// For size 1 orbs, check single cell - only block on FILLED, BORDER or OBSTACLE
 		if (size === 1) {
 			const state = grid.getCell(centerCellX, centerCellY, centerLayer);
-			return !hasCellFlag(state, CELL_FILLED) && !hasCellFlag(state, CELL_BORDER);
+			return !hasCellFlag(state, CELL_FILLED) && !hasCellFlag(state, CELL_BORDER) && !hasCellFlag(state, CELL_OBSTACLE);
 		}
 
 		// For multi-cell orbs, check 3D spherical footprint
@@ -53,8 +53,8 @@ export class SpawnValidation {
 				for (let dx = -radius; dx <= radius; dx++) {
 					if (dx * dx + dy * dy + dz * dz <= radius * radius) {
 						const state = grid.getCell(centerCellX + dx, centerCellY + dy, centerLayer + dz);
-						// Check if cell has blocking flags (FILLED or BORDER)
-						if (hasCellFlag(state, CELL_FILLED) || hasCellFlag(state, CELL_BORDER)) {
+						// Check if cell has blocking flags (FILLED, BORDER or OBSTACLE)
+						if (hasCellFlag(state, CELL_FILLED) || hasCellFlag(state, CELL_BORDER) || hasCellFlag(state, CELL_OBSTACLE)) {
 							return false;
 						}
 					}
@@ -6,6 +6,8 @@ export { type CollisionResult } from './types';
 export { WallCollision } from './WallCollision';
 export { OrbOrbCollision } from './OrbOrbCollision';
 export { OrbAvoidance } from './OrbAvoidance';
+export { OrbSpatialHash } from './OrbSpatialHash';
 export { MouseRepulsion } from './MouseRepulsion';
 export { SpawnValidation } from './SpawnValidation';
 
+export { ObstacleAvoidance } from './ObstacleAvoidance';
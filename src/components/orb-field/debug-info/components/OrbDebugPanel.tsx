@@ -7,6 +7,7 @@
 import { useState } from 'react';
 import { type Orb } from '../../orb/types';
 import { DEFAULT_ORB_SPAWN_CONFIG } from '../../orb/config';
+import { OrbSpecies, DEFAULT_ORB_SPECIES, type OrbKind, type OrbSpeciesTable } from '../../species';
 import { glassStyles, combineGlassStyles } from '@/components/glass/styles';
 import { debugMenuConfig } from '@/components/debug/GlassDebugMenu/config/debugMenuConfig';
 
@@ -18,6 +19,8 @@ interface OrbDebugPanelProps {
 	orbs?: Orb[];
 	/** Target orb count (scales with screen size). */
 	targetOrbCount?: number;
+	/** Species profiles, for labels and colours. */
+	species?: OrbSpeciesTable;
 	/** Currently selected orb ID. */
 	selectedOrbId?: string | null;
 	/** Real-time data for the selected orb. */
@@ -38,6 +41,7 @@ interface OrbDebugPanelProps {
  * Debug panel for managing orbs.
  *
  * Features:
+ * - Species filter with per-species counts
  * - Orb selector dropdown
  * - Real-time position and velocity display
  * - Delete button for selected orb
@@ -49,6 +53,7 @@ interface OrbDebugPanelProps {
 export function OrbDebugPanel({
 	orbs = [],
 	targetOrbCount,
+	species = DEFAULT_ORB_SPECIES,
 	selectedOrbId,
 	selectedOrb: selectedOrbProp,
 	orbSize = DEFAULT_ORB_SPAWN_CONFIG.defaultSize,
@@ -61,9 +66,17 @@ export function OrbDebugPanel({
 	// When open, freeze the orbs list to prevent updates making selection impossible
 	const [isOrbSelectorOpen, setIsOrbSelectorOpen] = useState(false);
 	const [frozenOrbs, setFrozenOrbs] = useState<Orb[]>([]);
+	const [kindFilter, setKindFilter] = useState<OrbKind | null>(null);
 
 	// Use frozen orbs list when dropdown is open, otherwise use real-time orbs
-	const displayOrbs = isOrbSelectorOpen ? frozenOrbs : orbs;
+	const displayOrbs = (isOrbSelectorOpen ? frozenOrbs : orbs)
+		.filter((orb) => kindFilter === null || orb.kind === kindFilter);
+
+	// Count orbs per species, listing every known species even at zero
+	const kindCounts = new Map<OrbKind, number>(Object.keys(species).map((kind) => [kind, 0]));
+	for (const orb of orbs) {
+		kindCounts.set(orb.kind, (kindCounts.get(orb.kind) ?? 0) + 1);
+	}
 
 	const handleSizeChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		const newSize = parseInt(e.target.value, 10);
@@ -76,6 +89,24 @@ export function OrbDebugPanel({
 	const { minSize, maxSize } = DEFAULT_ORB_SPAWN_CONFIG;
 	const { dimensions, spacing, typography, colors } = debugMenuConfig;
 
+	const selectStyle: React.CSSProperties = {
+		background: colors.inputBg,
+		color: colors.textPrimary,
+		border: `1px solid ${colors.inputBorder}`,
+		borderRadius: dimensions.borderRadiusSm,
+		fontSize: typography.fontSizeSm,
+		padding: `${spacing.gapSm}px ${spacing.gapMd}px`,
+		maxWidth: dimensions.selectMaxWidth,
+		cursor: 'pointer',
+	};
+
+	const speciesLabel = (kind: OrbKind) => species[kind]?.label ?? kind;
+	const speciesColor = (kind: OrbKind) => {
+		const { hue, saturation, lightness } = OrbSpecies.profileOf(kind, species).color;
+		// Lift the lightness so dark species stay visible on the panel
+		return `hsl(${hue}, ${saturation}%, ${Math.max(lightness, 45)}%)`;
+	};
+
 	// Combine glass styles from central source
 	const panelStyles = combineGlassStyles(
 		glassStyles.background.default,
@@ -112,6 +143,35 @@ export function OrbDebugPanel({
 				Orb Debug ({orbs.length}{targetOrbCount ? ` / ${targetOrbCount}` : ''})
 			</div>
 
+			{/* Species Filter */}
+			<div style={{ display: 'flex', flexDirection: 'column', gap: spacing.gapSm }}>
+				<label htmlFor="debug-panel-species-filter" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
+					<span style={{ color: colors.textSecondary }}>Species:</span>
+					<select
+						id="debug-panel-species-filter"
+						name="debug-panel-species-filter"
+						value={kindFilter ?? ''}
+						onChange={(e) => setKindFilter(e.target.value || null)}
+						style={selectStyle}
+					>
+						<option value="">All ({orbs.length})</option>
+						{[...kindCounts].map(([kind, count]) => (
+							<option key={kind} value={kind}>
+								{speciesLabel(kind)} ({count})
+							</option>
+						))}
+					</select>
+				</label>
+				<div style={{ display: 'flex', flexWrap: 'wrap', gap: spacing.gapMd, fontSize: typography.fontSizeSm, color: colors.textMuted }}>
+					{[...kindCounts].map(([kind, count]) => (
+						<span key={kind} style={{ display: 'flex', alignItems: 'center', gap: spacing.gapSm }}>
+							<span style={{ width: 8, height: 8, borderRadius: '50%', background: speciesColor(kind) }} />
+							{count}
+						</span>
+					))}
+				</div>
+			</div>
+
 			{/* Orb Selector */}
 			<div style={{ display: 'flex', flexDirection: 'column', gap: spacing.gapSm }}>
 				<label htmlFor="debug-panel-orb-select" style={{ display: 'flex', justifyContent: 'space-between', alignItems: 'center' }}>
@@ -133,21 +193,12 @@ export function OrbDebugPanel({
 							// Unfreeze when dropdown closes
 							setIsOrbSelectorOpen(false);
 						}}
-						style={{
-							background: colors.inputBg,
-							color: colors.textPrimary,
-							border: `1px solid ${colors.inputBorder}`,
-							borderRadius: dimensions.borderRadiusSm,
-							fontSize: typography.fontSizeSm,
-							padding: `${spacing.gapSm}px ${spacing.gapMd}px`,
-							maxWidth: dimensions.selectMaxWidth,
-							cursor: 'pointer',
-						}}
+						style={selectStyle}
 					>
 						<option value="">None</option>
 						{displayOrbs.map((orb, i) => (
 							<option key={orb.id} value={orb.id}>
-								Orb {i + 1} ({orb.size})
+								Orb {i + 1} ({orb.size}, {speciesLabel(orb.kind)})
 							</option>
 						))}
 					</select>
@@ -166,7 +217,9 @@ export function OrbDebugPanel({
 				>
 					Pos: {selectedOrb.pxX.toFixed(0)}, {selectedOrb.pxY.toFixed(0)}, z={selectedOrb.z.toFixed(1)}
 					<br />
-					Size: {selectedOrb.size} | Speed: {selectedOrb.speed.toFixed(1)} px/s
+					Species: {speciesLabel(selectedOrb.kind)} | Size: {selectedOrb.size}
+					<br />
+					Speed: {selectedOrb.speed.toFixed(1)} px/s
 					<br />
 					Vel: vx={selectedOrb.vx.toFixed(1)}, vy={selectedOrb.vy.toFixed(1)}, vz={selectedOrb.vz.toFixed(2)}
 				</div>
@@ -0,0 +1,105 @@
+// =============================================================================
+// OrbEventBus - Typed emitter for orb lifecycle events
+// =============================================================================
+
+import {
+	type OrbFieldEvent,
+	type OrbFieldEventListener,
+	type OrbFieldEventMap,
+	type OrbFieldEventType,
+} from './types';
+
+/**
+ * Listener notified when the set of event types with listeners changes.
+ */
+export type OrbEventBusListener = () => void;
+
+/**
+ * Typed event emitter owned by each OrbSimulation.
+ *
+ * Phases check has() before building a payload, so events nobody listens
+ * to cost one lookup per step rather than one allocation per orb.
+ *
+ * Single Responsibility: Event listener registry and dispatch only.
+ */
+export class OrbEventBus {
+	private readonly listeners = new Map<OrbFieldEventType, Set<OrbFieldEventListener<never>>>();
+	private readonly typeListeners = new Set<OrbEventBusListener>();
+
+	/**
+	 * Registers a listener for one event type.
+	 *
+	 * @param type - Event type.
+	 * @param listener - Callback to invoke with each event.
+	 * @returns Function that unregisters the listener.
+	 */
+	on<K extends OrbFieldEventType>(type: K, listener: OrbFieldEventListener<K>): () => void {
+		let set = this.listeners.get(type);
+		if (!set) {
+			set = new Set();
+			this.listeners.set(type, set);
+		}
+		const entry = listener as OrbFieldEventListener<never>;
+		set.add(entry);
+		if (set.size === 1) this.typesChanged();
+
+		return () => {
+			if (set.delete(entry) && set.size === 0) this.typesChanged();
+		};
+	}
+
+	/**
+	 * Whether any listener is registered for an event type.
+	 */
+	has(type: OrbFieldEventType): boolean {
+		return (this.listeners.get(type)?.size ?? 0) > 0;
+	}
+
+	/**
+	 * Returns every event type that has at least one listener.
+	 */
+	getListenedTypes(): OrbFieldEventType[] {
+		return [...this.listeners].filter(([, set]) => set.size > 0).map(([type]) => type);
+	}
+
+	/**
+	 * Calls every listener of an event type.
+	 *
+	 * @param type - Event type.
+	 * @param event - Event payload.
+	 */
+	emit<K extends OrbFieldEventType>(type: K, event: OrbFieldEventMap[K]): void {
+		const set = this.listeners.get(type);
+		if (!set) return;
+		for (const listener of set) {
+			(listener as OrbFieldEventListener<K>)(event);
+		}
+	}
+
+	/**
+	 * Emits an event given with its type, e.g. one forwarded from a worker.
+	 */
+	dispatch(event: OrbFieldEvent): void {
+		this.emit(event.type, event.event as never);
+	}
+
+	/**
+	 * Registers a listener called whenever an event type gains its first
+	 * listener or loses its last one.
+	 *
+	 * @param listener - Callback to invoke.
+	 * @returns Function that unregisters the listener.
+	 */
+	subscribe(listener: OrbEventBusListener): () => void {
+		this.typeListeners.add(listener);
+		return () => {
+			this.typeListeners.delete(listener);
+		};
+	}
+
+	private typesChanged(): void {
+		for (const listener of this.typeListeners) {
+			listener();
+		}
+	}
+}
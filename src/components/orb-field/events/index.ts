@@ -0,0 +1,13 @@
+// =============================================================================
+// Events - Exports for orb lifecycle event modules
+// =============================================================================
+
+export { OrbEventBus, type OrbEventBusListener } from './OrbEventBus';
+export type {
+	OrbSpawnSource,
+	OrbFieldEventMap,
+	OrbFieldEventType,
+	OrbFieldEventListener,
+	OrbFieldEvent,
+	OrbFieldEventHandlers,
+} from './types';
@@ -0,0 +1,77 @@
+// =============================================================================
+// Event Types - Type definitions for orb lifecycle events
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+
+/**
+ * What created an orb.
+ * - burst: the initial burst
+ * - random: continuous spawning (or spawnRandomOrbs)
+ * - manual: createOrb, e.g. click to create
+ */
+export type OrbSpawnSource = 'burst' | 'random' | 'manual';
+
+/**
+ * Payload of every orb field event, keyed by event type.
+ *
+ * Orbs in payloads are live references on the thread that emitted them;
+ * copy them to keep values past the current step. Events forwarded from a
+ * worker carry copies.
+ */
+export interface OrbFieldEventMap {
+	/** An orb was added to the field. */
+	spawn: { orb: Orb; source: OrbSpawnSource };
+	/** An orb reached the end of its lifetime and was removed. */
+	expire: { orb: Orb };
+	/** Two orbs bounced off each other. */
+	collide: {
+		/** ID of the first orb. */
+		a: string;
+		/** ID of the second orb. */
+		b: string;
+		/** Momentum exchanged along the contact normal (size × px/s). */
+		impulse: number;
+	};
+	/** An orb bounced off a wall or grid border. */
+	wallHit: {
+		/** ID of the orb. */
+		id: string;
+		/** Whether X velocity was reflected. */
+		reflectX: boolean;
+		/** Whether Y velocity was reflected. */
+		reflectY: boolean;
+		/** Whether Z velocity was reflected. */
+		reflectZ: boolean;
+		/** Speed in the XY plane before the bounce in px/s. */
+		speed: number;
+	};
+	/** The initial burst was spawned (its orbs also emit spawn). */
+	burst: { x: number; y: number; count: number };
+	/** The selected orb changed (null when deselected). */
+	select: { id: string | null };
+}
+
+/**
+ * Name of an orb field event.
+ */
+export type OrbFieldEventType = keyof OrbFieldEventMap;
+
+/**
+ * Listener for one event type.
+ */
+export type OrbFieldEventListener<K extends OrbFieldEventType> = (event: OrbFieldEventMap[K]) => void;
+
+/**
+ * Any event together with its type, e.g. for forwarding between threads.
+ */
+export type OrbFieldEvent = {
+	[K in OrbFieldEventType]: { type: K; event: OrbFieldEventMap[K] };
+}[OrbFieldEventType];
+
+/**
+ * Optional listener per event type, as accepted by OrbField.
+ */
+export type OrbFieldEventHandlers = {
+	[K in OrbFieldEventType]?: OrbFieldEventListener<K>;
+};
@@ -0,0 +1,122 @@
+// =============================================================================
+// FlockingPhysics - Alignment, cohesion and separation between nearby orbs
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type ViewportCells } from '../grid/types';
+import { OrbSpatialHash } from '../collision';
+import { DEFAULT_FLOCKING_CONFIG, type FlockingConfig } from './config';
+
+/** Per-orb steering (ax, ay pairs), reused between steps. */
+let steering = new Float64Array(0);
+
+/**
+ * Handles boids-style flocking in the XY plane.
+ *
+ * Neighbours are orbs within neighbourRadiusPx on layers no more than
+ * layerRadius apart, found through the shared spatial hash. Steering is
+ * computed for every orb before any velocity changes, so the result does
+ * not depend on orb order.
+ *
+ * Single Responsibility: Flocking forces only.
+ */
+export class FlockingPhysics {
+	/**
+	 * Steers every orb toward its neighbours' heading and center and away
+	 * from neighbours that are too close.
+	 *
+	 * Rebuilds the spatial hash from the current positions.
+	 *
+	 * @param orbs - Array of all orbs.
+	 * @param vpc - Viewport cell metrics for coordinate conversion.
+	 * @param spatialHash - Broad-phase hash (rebuilt here).
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param config - Weights and ranges.
+	 */
+	static apply(
+		orbs: Orb[],
+		vpc: ViewportCells,
+		spatialHash: OrbSpatialHash,
+		deltaTime: number,
+		config: FlockingConfig = DEFAULT_FLOCKING_CONFIG
+	): void {
+		if (orbs.length < 2) return;
+
+		const {
+			neighbourRadiusPx,
+			layerRadius,
+			alignmentWeight,
+			cohesionWeight,
+			separationWeight,
+			separationRadiusPx,
+		} = config;
+
+		if (steering.length < orbs.length * 2) {
+			steering = new Float64Array(orbs.length * 2);
+		}
+
+		spatialHash.rebuild(orbs, vpc);
+
+		const rangeX = neighbourRadiusPx * vpc.invCellSizeXPx;
+		const rangeY = neighbourRadiusPx * vpc.invCellSizeYPx;
+		const neighbourRadiusSq = neighbourRadiusPx * neighbourRadiusPx;
+		const separationRadiusSq = separationRadiusPx * separationRadiusPx;
+
+		for (let i = 0; i < orbs.length; i++) {
+			const orb = orbs[i];
+			let count = 0;
+			let sumVx = 0, sumVy = 0;
+			let sumX = 0, sumY = 0;
+			let pushX = 0, pushY = 0;
+
+			for (const j of spatialHash.getNeighbours(i, rangeX, rangeY, layerRadius)) {
+				const other = orbs[j];
+				if (Math.abs(other.z - orb.z) > layerRadius) continue;
+
+				const dx = other.pxX - orb.pxX;
+				const dy = other.pxY - orb.pxY;
+				const distSq = dx * dx + dy * dy;
+				if (distSq > neighbourRadiusSq) continue;
+
+				count++;
+				sumVx += other.vx;
+				sumVy += other.vy;
+				sumX += other.pxX;
+				sumY += other.pxY;
+
+				// Push away along the unit direction, fading out at the separation radius
+				if (distSq < separationRadiusSq && distSq > 0) {
+					const dist = Math.sqrt(distSq);
+					const falloff = (1 - dist / separationRadiusPx) / dist;
+					pushX -= dx * falloff;
+					pushY -= dy * falloff;
+				}
+			}
+
+			if (count === 0) {
+				steering[i * 2] = 0;
+				steering[i * 2 + 1] = 0;
+				continue;
+			}
+
+			const invCount = 1 / count;
+			steering[i * 2] = alignmentWeight * (sumVx * invCount - orb.vx)
+				+ cohesionWeight * (sumX * invCount - orb.pxX)
+				+ separationWeight * pushX;
+			steering[i * 2 + 1] = alignmentWeight * (sumVy * invCount - orb.vy)
+				+ cohesionWeight * (sumY * invCount - orb.pxY)
+				+ separationWeight * pushY;
+		}
+
+		for (let i = 0; i < orbs.length; i++) {
+			const ax = steering[i * 2];
+			const ay = steering[i * 2 + 1];
+			if (ax === 0 && ay === 0) continue;
+
+			const orb = orbs[i];
+			orb.vx += ax * deltaTime;
+			orb.vy += ay * deltaTime;
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+}
@@ -0,0 +1,35 @@
+// =============================================================================
+// Flocking Configuration - Weights and ranges for boids-style schooling
+// =============================================================================
+
+/**
+ * Configuration for flocking.
+ */
+export interface FlockingConfig {
+	/** Distance in pixels within which orbs count as neighbours. */
+	neighbourRadiusPx: number;
+	/** Largest layer difference between neighbours. */
+	layerRadius: number;
+	/** Rate at which orbs match the mean velocity of their neighbours (1/s). */
+	alignmentWeight: number;
+	/** Spring constant pulling orbs toward their neighbours' center (1/s²). */
+	cohesionWeight: number;
+	/** Push away from a touching neighbour in pixels per second squared, fading to zero at separationRadiusPx. */
+	separationWeight: number;
+	/** Distance in pixels below which neighbours push each other apart. */
+	separationRadiusPx: number;
+}
+
+/**
+ * Default flocking configuration.
+ * Alignment dominates so schools form quickly, while separation and the
+ * existing avoidance keep them loose.
+ */
+export const DEFAULT_FLOCKING_CONFIG: FlockingConfig = {
+	neighbourRadiusPx: 140,
+	layerRadius: 8,
+	alignmentWeight: 1.5,
+	cohesionWeight: 0.6,
+	separationWeight: 400,
+	separationRadiusPx: 50,
+};
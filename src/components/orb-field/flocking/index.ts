@@ -0,0 +1,6 @@
+// =============================================================================
+// Flocking - Exports for boids-style schooling modules
+// =============================================================================
+
+export { FlockingPhysics } from './FlockingPhysics';
+export { DEFAULT_FLOCKING_CONFIG, type FlockingConfig } from './config';
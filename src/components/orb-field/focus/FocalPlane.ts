@@ -0,0 +1,94 @@
+// =============================================================================
+// FocalPlane - Places the focal plane and measures blur around it
+// =============================================================================
+
+import { DEFAULT_DEPTH_OF_FIELD_CONFIG, type DepthOfFieldConfig } from './config';
+import { type FocusSource, type OrbFocus } from './types';
+
+/**
+ * Inputs the focal plane can follow.
+ */
+export interface FocusInputs {
+	/** Current scroll/swipe progress. */
+	scrollProgress: number;
+	/** Selected layer. */
+	layer: number;
+	/** Total number of z-layers. */
+	layers: number;
+}
+
+/**
+ * Camera-style depth of field.
+ *
+ * Without a focal plane, blur grows with depth so the front layer is the
+ * sharpest. With one, blur grows with distance from the focal plane in
+ * either direction and is full one aperture away.
+ *
+ * Single Responsibility: Focal depth and blur amount only.
+ */
+export class FocalPlane {
+	/**
+	 * Focal depth for a source.
+	 *
+	 * @param source - What places the focal plane.
+	 * @param inputs - Scroll progress and selected layer.
+	 * @param config - Depth-of-field configuration.
+	 * @returns Depth in focus (0 = front, 1 = back).
+	 */
+	static depthOf(
+		source: FocusSource,
+		inputs: FocusInputs,
+		config: DepthOfFieldConfig = DEFAULT_DEPTH_OF_FIELD_CONFIG
+	): number {
+		switch (source) {
+			case 'fixed':
+				return this.clamp(config.focalDepth);
+			case 'layer':
+				return inputs.layers > 1 ? this.clamp(inputs.layer / (inputs.layers - 1)) : 0;
+			case 'scroll': {
+				const span = config.scrollProgressEnd - config.scrollProgressStart;
+				const t = span === 0 ? 0 : this.clamp((inputs.scrollProgress - config.scrollProgressStart) / span);
+				return config.scrollNearDepth + (config.scrollFarDepth - config.scrollNearDepth) * t;
+			}
+		}
+	}
+
+	/**
+	 * Focal depth during the intro pull-focus, eased from the intro depth
+	 * to the target.
+	 *
+	 * @param target - Focal depth to arrive at.
+	 * @param elapsedMs - Time since the intro started.
+	 * @param config - Depth-of-field configuration.
+	 */
+	static pullFocus(
+		target: number,
+		elapsedMs: number,
+		config: DepthOfFieldConfig = DEFAULT_DEPTH_OF_FIELD_CONFIG
+	): number {
+		if (config.introDurationMs <= 0 || elapsedMs >= config.introDurationMs) return target;
+		const t = Math.max(0, elapsedMs) / config.introDurationMs;
+		// Ease-in-out: slow start and settle, like a focus ring
+		const eased = t * t * (3 - 2 * t);
+		return config.introFromDepth + (target - config.introFromDepth) * eased;
+	}
+
+	/**
+	 * How blurred an orb at a depth is (0 = sharp, 1 = fully blurred).
+	 *
+	 * @param depthFactor - Orb depth (0 = front, 1 = back).
+	 * @param focus - Focal plane, or null to blur with depth.
+	 */
+	static blurOf(depthFactor: number, focus: OrbFocus | null): number {
+		if (!focus) return depthFactor;
+		if (focus.aperture <= 0) return depthFactor === focus.depth ? 0 : 1;
+		return Math.min(1, Math.abs(depthFactor - focus.depth) / focus.aperture);
+	}
+
+	/**
+	 * Clamps a value to 0-1.
+	 */
+	private static clamp(value: number): number {
+		return Math.max(0, Math.min(1, value));
+	}
+}
@@ -0,0 +1,47 @@
+// =============================================================================
+// Focus Configuration - Aperture, scroll mapping and intro sweep
+// =============================================================================
+
+/**
+ * Configuration for the depth-of-field focal plane.
+ */
+export interface DepthOfFieldConfig {
+	/**
+	 * Depth distance from the focal plane at which orbs are fully blurred
+	 * (0-1). Smaller = shallower depth of field, like a wider aperture.
+	 */
+	aperture: number;
+	/** Focal depth for the 'fixed' source (0 = front, 1 = back). */
+	focalDepth: number;
+	/** Scroll progress at which the 'scroll' source focuses scrollNearDepth. */
+	scrollProgressStart: number;
+	/** Scroll progress at which the 'scroll' source focuses scrollFarDepth. */
+	scrollProgressEnd: number;
+	/** Focal depth at scrollProgressStart. */
+	scrollNearDepth: number;
+	/** Focal depth at scrollProgressEnd. */
+	scrollFarDepth: number;
+	/**
+	 * Duration of the intro pull-focus after the grid reveal (ms).
+	 * 0 = start at the target depth.
+	 */
+	introDurationMs: number;
+	/** Focal depth the intro pull-focus starts from. */
+	introFromDepth: number;
+}
+
+/**
+ * Default depth of field: the first card focuses near orbs, the last
+ * card far ones, and the intro pulls focus from the back.
+ */
+export const DEFAULT_DEPTH_OF_FIELD_CONFIG: DepthOfFieldConfig = {
+	aperture: 0.35,
+	focalDepth: 0,
+	// Scroll progress spans 0.75 (first card) to 2.75 (last card)
+	scrollProgressStart: 0.75,
+	scrollProgressEnd: 2.75,
+	scrollNearDepth: 0.1,
+	scrollFarDepth: 0.7,
+	introDurationMs: 2500,
+	introFromDepth: 1,
+};
@@ -0,0 +1,7 @@
+// =============================================================================
+// Focus - Exports for the depth-of-field focal plane
+// =============================================================================
+
+export { FocalPlane, type FocusInputs } from './FocalPlane';
+export { DEFAULT_DEPTH_OF_FIELD_CONFIG, type DepthOfFieldConfig } from './config';
+export type { FocusSource, OrbFocus } from './types';
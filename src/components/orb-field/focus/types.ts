@@ -0,0 +1,21 @@
+// =============================================================================
+// Focus Types - Type definitions for the depth-of-field focal plane
+// =============================================================================
+
+/**
+ * What places the focal plane.
+ * - 'fixed': A constant depth (DepthOfFieldConfig.focalDepth)
+ * - 'scroll': Scroll progress, so each card focuses a different depth
+ * - 'layer': The selected layer (debug layer selector or `layer` prop)
+ */
+export type FocusSource = 'fixed' | 'scroll' | 'layer';
+
+/**
+ * Focal plane for one frame, passed to the orb renderers.
+ */
+export interface OrbFocus {
+	/** Depth in focus (0 = front, 1 = back), in depth factor units. */
+	depth: number;
+	/** Depth distance from the focal plane at which blur is full (0-1). */
+	aperture: number;
+}
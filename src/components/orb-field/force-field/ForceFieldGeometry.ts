@@ -0,0 +1,110 @@
+// =============================================================================
+// ForceFieldGeometry - Shape queries and construction for force fields
+// =============================================================================
+
+import { DEFAULT_FORCE_FIELD_PLACEMENT_CONFIG, type ForceFieldPlacementConfig } from './config';
+import { type ForceField, type ForceFieldKind, type ForceFieldHandle } from './types';
+
+/**
+ * Geometry helpers shared by physics, overlays and editing.
+ *
+ * Single Responsibility: Force field shape math only.
+ */
+export class ForceFieldGeometry {
+	/**
+	 * Finds the point of a field's source closest to a position.
+	 * For point fields this is the source itself; for lines the nearest
+	 * point on the segment.
+	 *
+	 * @param field - Force field.
+	 * @param px - Query X in pixels.
+	 * @param py - Query Y in pixels.
+	 * @returns Closest source point in pixels.
+	 */
+	static closestSourcePoint(field: ForceField, px: number, py: number): { x: number; y: number } {
+		if (field.kind !== 'line') return { x: field.x, y: field.y };
+
+		const sx = field.x2 - field.x;
+		const sy = field.y2 - field.y;
+		const lengthSq = sx * sx + sy * sy;
+		if (lengthSq === 0) return { x: field.x, y: field.y };
+
+		const t = Math.max(0, Math.min(1, ((px - field.x) * sx + (py - field.y) * sy) / lengthSq));
+		return { x: field.x + sx * t, y: field.y + sy * t };
+	}
+
+	/**
+	 * Checks whether a field acts on a Z layer.
+	 */
+	static affectsLayer(field: ForceField, z: number): boolean {
+		return !field.layers || (z >= field.layers.min && z <= field.layers.max);
+	}
+
+	/**
+	 * Finds the topmost handle within reach of a position.
+	 *
+	 * @param fields - Fields to test (later fields win).
+	 * @param px - Pointer X in physics-space pixels.
+	 * @param py - Pointer Y in physics-space pixels.
+	 * @param hitRadius - Grab distance in pixels.
+	 * @returns The field ID and handle, or null if none is in reach.
+	 */
+	static hitTest(
+		fields: readonly ForceField[],
+		px: number,
+		py: number,
+		hitRadius: number = DEFAULT_FORCE_FIELD_PLACEMENT_CONFIG.handleHitRadius
+	): { id: string; handle: ForceFieldHandle } | null {
+		const hitRadiusSq = hitRadius * hitRadius;
+		for (let i = fields.length - 1; i >= 0; i--) {
+			const field = fields[i];
+			if (field.kind === 'line') {
+				const ex = px - field.x2;
+				const ey = py - field.y2;
+				if (ex * ex + ey * ey <= hitRadiusSq) return { id: field.id, handle: 'end' };
+			}
+			const dx = px - field.x;
+			const dy = py - field.y;
+			if (dx * dx + dy * dy <= hitRadiusSq) return { id: field.id, handle: 'start' };
+		}
+		return null;
+	}
+
+	/**
+	 * Returns a copy of a field with one handle moved.
+	 * Moving the start of a line drags the whole segment.
+	 */
+	static moveHandle(field: ForceField, handle: ForceFieldHandle, x: number, y: number): ForceField {
+		if (field.kind !== 'line') return { ...field, x, y };
+		if (handle === 'end') return { ...field, x2: x, y2: y };
+
+		const dx = x - field.x;
+		const dy = y - field.y;
+		return { ...field, x, y, x2: field.x2 + dx, y2: field.y2 + dy };
+	}
+
+	/**
+	 * Creates a field of the given kind with placement defaults.
+	 * Lines are horizontal and centered on the position.
+	 *
+	 * @param kind - Kind of field.
+	 * @param id - Unique ID.
+	 * @param x - X position in pixels.
+	 * @param y - Y position in pixels.
+	 * @param config - Placement defaults.
+	 */
+	static create(
+		kind: ForceFieldKind,
+		id: string,
+		x: number,
+		y: number,
+		config: ForceFieldPlacementConfig = DEFAULT_FORCE_FIELD_PLACEMENT_CONFIG
+	): ForceField {
+		const { radius, strength, falloff, lineLength } = config;
+		if (kind === 'line') {
+			const half = lineLength / 2;
+			return { id, kind, x: x - half, y, x2: x + half, y2: y, radius, strength, falloff };
+		}
+		return { id, kind, x, y, radius, strength, falloff };
+	}
+}
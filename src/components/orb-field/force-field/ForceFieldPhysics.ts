@@ -0,0 +1,96 @@
+// =============================================================================
+// ForceFieldPhysics - Applies force field accelerations to orbs
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { ForceFieldGeometry } from './ForceFieldGeometry';
+import { type ForceField, type ForceFalloff } from './types';
+
+/**
+ * Handles force field acceleration for orbs.
+ *
+ * Like mouse repulsion, fields act in the XY plane only and change
+ * velocity, never position directly.
+ *
+ * Single Responsibility: Field-to-orb force application only.
+ */
+export class ForceFieldPhysics {
+	/**
+	 * Applies every field to every orb in its layer range.
+	 *
+	 * @param orbs - Array of all orbs to affect.
+	 * @param fields - Active force fields.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 */
+	static apply(orbs: Orb[], fields: readonly ForceField[], deltaTime: number): void {
+		if (fields.length === 0) return;
+
+		for (const orb of orbs) {
+			let changed = false;
+
+			for (const field of fields) {
+				if (!ForceFieldGeometry.affectsLayer(field, orb.z)) continue;
+
+				const source = ForceFieldGeometry.closestSourcePoint(field, orb.pxX, orb.pxY);
+				const dx = orb.pxX - source.x;
+				const dy = orb.pxY - source.y;
+				const distSq = dx * dx + dy * dy;
+
+				// Skip if too far or at the source (direction undefined)
+				if (distSq >= field.radius * field.radius || distSq < 1) continue;
+
+				const dist = Math.sqrt(distSq);
+				const acceleration = this.falloff(field.falloff, 1 - dist / field.radius) * field.strength;
+				if (!isFinite(acceleration)) continue;
+
+				// Outward unit vector from source to orb
+				const nx = dx / dist;
+				const ny = dy / dist;
+
+				let ax: number;
+				let ay: number;
+				switch (field.kind) {
+					case 'attractor':
+						ax = -nx;
+						ay = -ny;
+						break;
+					case 'vortex':
+						// Perpendicular to the outward vector; screen Y points down
+						ax = ny;
+						ay = -nx;
+						break;
+					default:
+						ax = nx;
+						ay = ny;
+				}
+
+				orb.vx += acceleration * ax * deltaTime;
+				orb.vy += acceleration * ay * deltaTime;
+				changed = true;
+			}
+
+			// Update angle to match new velocity direction
+			if (changed) orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+
+	/**
+	 * Evaluates a falloff curve.
+	 *
+	 * @param falloff - Curve type.
+	 * @param t - Closeness to the source (1 at source, 0 at radius).
+	 * @returns Strength multiplier (0 to 1).
+	 */
+	static falloff(falloff: ForceFalloff, t: number): number {
+		switch (falloff) {
+			case 'constant':
+				return 1;
+			case 'linear':
+				return t;
+			case 'quadratic':
+				return t * t;
+			case 'smooth':
+				return t * t * (3 - 2 * t);
+		}
+	}
+}
@@ -0,0 +1,65 @@
+// =============================================================================
+// Force Field Configuration - Defaults for placement and debug overlays
+// =============================================================================
+
+import { type ForceFalloff } from './types';
+
+/**
+ * Defaults for force fields placed from the debug menu.
+ */
+export interface ForceFieldPlacementConfig {
+	/** Radius of new fields in pixels. */
+	radius: number;
+	/** Strength of new fields in pixels per second squared. */
+	strength: number;
+	/** Falloff of new fields. */
+	falloff: ForceFalloff;
+	/** Length of new line fields in pixels. */
+	lineLength: number;
+	/** Distance in pixels within which a handle can be grabbed. */
+	handleHitRadius: number;
+}
+
+/**
+ * Visual configuration for force field debug overlays.
+ */
+export interface ForceFieldDebugVisualConfig {
+	/** Stroke color for attractors. */
+	attractorColor: string;
+	/** Stroke color for repulsors. */
+	repulsorColor: string;
+	/** Stroke color for line fields. */
+	lineColor: string;
+	/** Stroke color for vortices. */
+	vortexColor: string;
+	/** Radius of the drag handle dot in pixels. */
+	handleRadius: number;
+	/** Line width of radius outlines. */
+	lineWidth: number;
+	/** Dash pattern for radius outlines. */
+	dash: number[];
+}
+
+/**
+ * Default placement configuration.
+ */
+export const DEFAULT_FORCE_FIELD_PLACEMENT_CONFIG: ForceFieldPlacementConfig = {
+	radius: 200,
+	strength: 120,
+	falloff: 'quadratic',
+	lineLength: 300,
+	handleHitRadius: 12,
+};
+
+/**
+ * Default debug overlay configuration.
+ */
+export const DEFAULT_FORCE_FIELD_DEBUG_CONFIG: ForceFieldDebugVisualConfig = {
+	attractorColor: 'rgba(120, 200, 255, 0.8)',
+	repulsorColor: 'rgba(255, 120, 120, 0.8)',
+	lineColor: 'rgba(255, 200, 80, 0.8)',
+	vortexColor: 'rgba(190, 140, 255, 0.8)',
+	handleRadius: 5,
+	lineWidth: 1,
+	dash: [4, 4],
+};
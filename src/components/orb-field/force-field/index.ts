@@ -0,0 +1,21 @@
+// =============================================================================
+// Force Fields - Exports for force field modules
+// =============================================================================
+
+export { ForceFieldPhysics } from './ForceFieldPhysics';
+export { ForceFieldGeometry } from './ForceFieldGeometry';
+export {
+	DEFAULT_FORCE_FIELD_PLACEMENT_CONFIG,
+	DEFAULT_FORCE_FIELD_DEBUG_CONFIG,
+	type ForceFieldPlacementConfig,
+	type ForceFieldDebugVisualConfig,
+} from './config';
+export type {
+	ForceField,
+	ForceFieldKind,
+	ForceFalloff,
+	ForceFieldHandle,
+	PointForceField,
+	LineForceField,
+	VortexForceField,
+} from './types';
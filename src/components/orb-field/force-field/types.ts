@@ -0,0 +1,78 @@
+// =============================================================================
+// Force Field Types - Type definitions for external force sources
+// =============================================================================
+
+/**
+ * Kind of force field.
+ * - attractor: pulls orbs toward a point
+ * - repulsor: pushes orbs away from a point
+ * - line: pushes orbs away from a segment (negative strength pulls)
+ * - vortex: swirls orbs around a point (negative strength reverses direction)
+ */
+export type ForceFieldKind = 'attractor' | 'repulsor' | 'line' | 'vortex';
+
+/**
+ * How force strength decreases from the source (t = 1 at source, 0 at radius).
+ * - constant: full strength everywhere inside the radius
+ * - linear: t
+ * - quadratic: t² (matches mouse repulsion)
+ * - smooth: smoothstep, soft at both ends
+ */
+export type ForceFalloff = 'constant' | 'linear' | 'quadratic' | 'smooth';
+
+/**
+ * Properties shared by all force fields.
+ * Positions are in physics-space pixels (viewport pixels without parallax offset).
+ */
+interface ForceFieldBase {
+	/** Unique ID, used for dragging and removal. */
+	id: string;
+	/** X position of the source in pixels. */
+	x: number;
+	/** Y position of the source in pixels. */
+	y: number;
+	/** Distance in pixels beyond which the field has no effect. */
+	radius: number;
+	/** Acceleration at the source in pixels per second squared. */
+	strength: number;
+	/** Strength curve between source and radius. */
+	falloff: ForceFalloff;
+	/** Inclusive Z layer range affected (all layers when omitted). */
+	layers?: { min: number; max: number };
+}
+
+/**
+ * Point source that pulls orbs in or pushes them out.
+ */
+export interface PointForceField extends ForceFieldBase {
+	kind: 'attractor' | 'repulsor';
+}
+
+/**
+ * Segment source from (x, y) to (x2, y2) pushing orbs along its normal.
+ */
+export interface LineForceField extends ForceFieldBase {
+	kind: 'line';
+	/** X position of the segment end in pixels. */
+	x2: number;
+	/** Y position of the segment end in pixels. */
+	y2: number;
+}
+
+/**
+ * Point source that accelerates orbs tangentially (counter-clockwise on
+ * screen for positive strength).
+ */
+export interface VortexForceField extends ForceFieldBase {
+	kind: 'vortex';
+}
+
+/**
+ * Any force field.
+ */
+export type ForceField = PointForceField | LineForceField | VortexForceField;
+
+/**
+ * Draggable point of a force field: its source, or the end of a line.
+ */
+export type ForceFieldHandle = 'start' | 'end';
@@ -0,0 +1,149 @@
+// =============================================================================
+// FormationPhysics - Assigns orbs to formation targets and steers them there
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { DEFAULT_FORMATION_CONFIG, type FormationConfig } from './config';
+import { type ActiveFormation, type OrbFormation } from './types';
+
+/**
+ * Handles spring steering of orbs toward formation targets.
+ *
+ * Each target is owned by at most one orb. Targets whose orb expired or
+ * was deleted are handed to the nearest free orb on the next step, so the
+ * shape stays complete while the field turns over. Orbs without a target
+ * keep their normal behaviour.
+ *
+ * Single Responsibility: Formation assignment and spring forces only.
+ */
+export class FormationPhysics {
+	/**
+	 * Starts a formation. Orbs are assigned on the first apply().
+	 *
+	 * @param formation - Formation to form.
+	 * @param now - Current clock time in milliseconds.
+	 * @returns Formation state to pass to apply().
+	 */
+	static start(formation: OrbFormation, now: number): ActiveFormation {
+		return {
+			formation,
+			startedAt: now,
+			targetOf: new Map(),
+			ownerOf: new Array<string | null>(formation.points.length).fill(null),
+			served: new Uint8Array(formation.points.length),
+		};
+	}
+
+	/**
+	 * Rebuilds formation state from its owners, e.g. from a checkpoint.
+	 *
+	 * @param formation - Formation being formed.
+	 * @param startedAt - Clock time when the formation started.
+	 * @param owners - Orb ID per target index, or null while unassigned.
+	 * @returns Formation state to pass to apply().
+	 */
+	static resume(formation: OrbFormation, startedAt: number, owners: readonly (string | null)[]): ActiveFormation {
+		const active = this.start(formation, startedAt);
+		owners.forEach((id, index) => {
+			if (id === null || index >= active.ownerOf.length) return;
+			active.ownerOf[index] = id;
+			active.targetOf.set(id, index);
+		});
+		return active;
+	}
+
+	/**
+	 * Whether the formation's hold time has elapsed.
+	 *
+	 * @param active - Formation state.
+	 * @param now - Current clock time in milliseconds.
+	 */
+	static isExpired(active: ActiveFormation, now: number): boolean {
+		const { holdMs } = active.formation;
+		return holdMs !== undefined && now - active.startedAt >= holdMs;
+	}
+
+	/**
+	 * Pulls every assigned orb toward its target with a damped spring,
+	 * then fills targets left without an orb.
+	 *
+	 * @param orbs - Array of all orbs.
+	 * @param active - Formation state (mutated).
+	 * @param layerCount - Number of Z layers (clamps the target layer).
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param config - Spring configuration.
+	 */
+	static apply(
+		orbs: Orb[],
+		active: ActiveFormation,
+		layerCount: number,
+		deltaTime: number,
+		config: FormationConfig = DEFAULT_FORMATION_CONFIG
+	): void {
+		const { points, layer } = active.formation;
+		if (points.length === 0) return;
+
+		const { stiffness, damping } = config;
+		const targetZ = layer === undefined ? null : Math.max(0, Math.min(layerCount - 1, layer));
+
+		active.served.fill(0);
+		let freeOrbs = 0;
+
+		for (const orb of orbs) {
+			const index = active.targetOf.get(orb.id);
+			if (index === undefined) {
+				freeOrbs++;
+				continue;
+			}
+			active.served[index] = 1;
+
+			const target = points[index];
+			orb.vx += (stiffness * (target.x - orb.pxX) - damping * orb.vx) * deltaTime;
+			orb.vy += (stiffness * (target.y - orb.pxY) - damping * orb.vy) * deltaTime;
+			if (targetZ !== null) {
+				orb.vz += (stiffness * (targetZ - orb.z) - damping * orb.vz) * deltaTime;
+			}
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+
+		if (freeOrbs > 0 && active.served.includes(0)) {
+			this.assignFree(orbs, active);
+		}
+	}
+
+	/**
+	 * Gives each unserved target the nearest orb without a target.
+	 * Targets are visited in index order, so assignment is deterministic.
+	 */
+	private static assignFree(orbs: Orb[], active: ActiveFormation): void {
+		const free = orbs.filter(orb => !active.targetOf.has(orb.id));
+		const taken = new Uint8Array(free.length);
+		const { points } = active.formation;
+
+		for (let index = 0; index < points.length; index++) {
+			if (active.served[index]) continue;
+
+			let best = -1;
+			let bestDistSq = Infinity;
+			for (let i = 0; i < free.length; i++) {
+				if (taken[i]) continue;
+				const dx = free[i].pxX - points[index].x;
+				const dy = free[i].pxY - points[index].y;
+				const distSq = dx * dx + dy * dy;
+				if (distSq < bestDistSq) {
+					bestDistSq = distSq;
+					best = i;
+				}
+			}
+			if (best === -1) return;
+
+			// Drop the previous owner, which is gone
+			const previous = active.ownerOf[index];
+			if (previous !== null) active.targetOf.delete(previous);
+
+			taken[best] = 1;
+			active.ownerOf[index] = free[best].id;
+			active.targetOf.set(free[best].id, index);
+		}
+	}
+}
@@ -0,0 +1,219 @@
+// =============================================================================
+// FormationSampler - Turns text, SVG paths and images into target points
+// =============================================================================
+
+import { type WindowSize } from '../shared/types';
+import { DEFAULT_FORMATION_CONFIG, type FormationConfig } from './config';
+import { type FormationBox, type FormationPoint, type FormationShape } from './types';
+
+/** 2D context of either canvas flavour. */
+type SampleContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/** Draws a shape scaled to fill a width x height sample raster. */
+type DrawShape = (ctx: SampleContext, width: number, height: number) => void;
+
+/**
+ * Samples shapes into formation target points.
+ *
+ * Shapes are drawn into a small offscreen canvas with one pixel per
+ * sample, so the raster cost follows the number of targets rather than
+ * the box size. Opaque pixels become targets on an even grid. When the
+ * shape yields more targets than there are orbs, the grid is coarsened
+ * until it fits. Requires a DOM or OffscreenCanvas; returns no points
+ * without one.
+ *
+ * Single Responsibility: Shape-to-point sampling only.
+ */
+export class FormationSampler {
+	/**
+	 * Returns the default box: centered in the viewport and scaled by
+	 * config.boxScale.
+	 *
+	 * @param windowSize - Viewport dimensions in pixels.
+	 * @param config - Formation configuration.
+	 */
+	static defaultBox(windowSize: WindowSize, config: FormationConfig = DEFAULT_FORMATION_CONFIG): FormationBox {
+		const width = windowSize.width * config.boxScale;
+		const height = windowSize.height * config.boxScale;
+		return {
+			x: (windowSize.width - width) / 2,
+			y: (windowSize.height - height) / 2,
+			width,
+			height,
+		};
+	}
+
+	/**
+	 * Loads an image (e.g. an SVG file) for sampling an image shape.
+	 *
+	 * @param src - Image URL.
+	 * @returns Promise resolving to the decoded image.
+	 */
+	static loadImage(src: string): Promise<HTMLImageElement> {
+		const image = new Image();
+		image.src = src;
+		return image.decode().then(() => image);
+	}
+
+	/**
+	 * Samples a shape into at most maxPoints targets inside a box.
+	 *
+	 * @param shape - Shape to sample.
+	 * @param box - Rectangle the shape is fitted into, in pixels.
+	 * @param maxPoints - Maximum number of targets.
+	 * @param image - Loaded image for image shapes (see loadImage).
+	 * @param config - Formation configuration.
+	 * @returns Target points in the same space as the box.
+	 */
+	static sample(
+		shape: FormationShape,
+		box: FormationBox,
+		maxPoints: number,
+		image: HTMLImageElement | ImageBitmap | null = null,
+		config: FormationConfig = DEFAULT_FORMATION_CONFIG
+	): FormationPoint[] {
+		if (maxPoints <= 0) return [];
+
+		switch (shape.kind) {
+			case 'points':
+				return this.thin(shape.points, maxPoints);
+			case 'text':
+				return this.sampleDrawing(this.drawText(shape, config), box, maxPoints, config);
+			case 'path':
+				return this.sampleDrawing(this.drawPaths(shape.paths, shape.viewBox), box, maxPoints, config);
+			case 'image':
+				if (!image) return [];
+				return this.sampleDrawing(this.drawImage(image), box, maxPoints, config);
+		}
+	}
+
+	/**
+	 * Rasterizes a drawing, coarsening the sample grid until the target
+	 * count fits, then thins any remainder evenly.
+	 */
+	private static sampleDrawing(
+		draw: DrawShape,
+		box: FormationBox,
+		maxPoints: number,
+		config: FormationConfig
+	): FormationPoint[] {
+		let spacing = config.minSpacing;
+		let points = this.rasterize(draw, box, spacing, config.alphaThreshold);
+
+		for (let attempt = 0; attempt < 3 && points.length > maxPoints; attempt++) {
+			spacing *= Math.sqrt(points.length / maxPoints);
+			points = this.rasterize(draw, box, spacing, config.alphaThreshold);
+		}
+		return this.thin(points, maxPoints);
+	}
+
+	/**
+	 * Draws into a raster with one pixel per sample and returns the
+	 * centers of pixels above the alpha threshold, mapped into the box.
+	 */
+	private static rasterize(
+		draw: DrawShape,
+		box: FormationBox,
+		spacing: number,
+		alphaThreshold: number
+	): FormationPoint[] {
+		const cols = Math.max(1, Math.floor(box.width / spacing));
+		const rows = Math.max(1, Math.floor(box.height / spacing));
+		const ctx = this.createContext(cols, rows);
+		if (!ctx) return [];
+
+		draw(ctx, cols, rows);
+		const { data } = ctx.getImageData(0, 0, cols, rows);
+
+		const stepX = box.width / cols;
+		const stepY = box.height / rows;
+		const points: FormationPoint[] = [];
+		for (let row = 0; row < rows; row++) {
+			for (let col = 0; col < cols; col++) {
+				if (data[(row * cols + col) * 4 + 3] > alphaThreshold) {
+					points.push({ x: box.x + (col + 0.5) * stepX, y: box.y + (row + 0.5) * stepY });
+				}
+			}
+		}
+		return points;
+	}
+
+	/**
+	 * Keeps maxPoints points spread evenly through the list.
+	 */
+	private static thin(points: readonly FormationPoint[], maxPoints: number): FormationPoint[] {
+		if (points.length <= maxPoints) return [...points];
+
+		const kept: FormationPoint[] = [];
+		for (let i = 0; i < maxPoints; i++) {
+			kept.push(points[Math.floor(i * points.length / maxPoints)]);
+		}
+		return kept;
+	}
+
+	private static createContext(width: number, height: number): SampleContext | null {
+		if (typeof OffscreenCanvas !== 'undefined') {
+			return new OffscreenCanvas(width, height).getContext('2d', { willReadFrequently: true });
+		}
+		if (typeof document !== 'undefined') {
+			const canvas = document.createElement('canvas');
+			canvas.width = width;
+			canvas.height = height;
+			return canvas.getContext('2d', { willReadFrequently: true });
+		}
+		return null;
+	}
+
+	/**
+	 * Centered text, as large as fits the raster.
+	 */
+	private static drawText(
+		shape: Extract<FormationShape, { kind: 'text' }>,
+		config: FormationConfig
+	): DrawShape {
+		const family = shape.fontFamily ?? config.fontFamily;
+		const weight = shape.fontWeight ?? config.fontWeight;
+
+		return (ctx, width, height) => {
+			// Measure at a reference size, then scale to fit both axes
+			ctx.font = `${weight} 100px ${family}`;
+			const measured = Math.max(1, ctx.measureText(shape.text).width);
+			const size = Math.min(height * 0.9, 100 * width / measured);
+
+			ctx.font = `${weight} ${size}px ${family}`;
+			ctx.textAlign = 'center';
+			ctx.textBaseline = 'middle';
+			ctx.fillText(shape.text, width / 2, height / 2);
+		};
+	}
+
+	/**
+	 * SVG path data, fitted and centered with the viewBox aspect ratio.
+	 */
+	private static drawPaths(paths: readonly string[], viewBox: FormationBox): DrawShape {
+		return (ctx, width, height) => {
+			const scale = Math.min(width / viewBox.width, height / viewBox.height);
+			ctx.translate((width - viewBox.width * scale) / 2, (height - viewBox.height * scale) / 2);
+			ctx.scale(scale, scale);
+			ctx.translate(-viewBox.x, -viewBox.y);
+			for (const d of paths) {
+				ctx.fill(new Path2D(d));
+			}
+		};
+	}
+
+	/**
+	 * An image, fitted and centered with its intrinsic aspect ratio
+	 * (stretched to the raster when it has no intrinsic size).
+	 */
+	private static drawImage(image: HTMLImageElement | ImageBitmap): DrawShape {
+		return (ctx, width, height) => {
+			const scale = image.width > 0 && image.height > 0
+				? Math.min(width / image.width, height / image.height)
+				: 0;
+			const drawWidth = scale > 0 ? image.width * scale : width;
+			const drawHeight = scale > 0 ? image.height * scale : height;
+			ctx.drawImage(image, (width - drawWidth) / 2, (height - drawHeight) / 2, drawWidth, drawHeight);
+		};
+	}
+}
@@ -0,0 +1,42 @@
+// =============================================================================
+// Formation Configuration - Defaults for shape sampling and spring steering
+// =============================================================================
+
+/**
+ * Configuration for shape formation.
+ */
+export interface FormationConfig {
+	/** Spring constant pulling orbs toward their targets (1/s²). */
+	stiffness: number;
+	/** Velocity damping while formed (1/s). Near 2·√stiffness settles without overshoot. */
+	damping: number;
+	/** Smallest distance between target points in pixels. */
+	minSpacing: number;
+	/** Share of current orbs given a target; the rest keep wandering. */
+	coverage: number;
+	/** Target count used while there are no orbs yet. */
+	fallbackMaxPoints: number;
+	/** Default box size as a fraction of the viewport. */
+	boxScale: number;
+	/** Alpha (0-255) above which a rasterized sample becomes a target. */
+	alphaThreshold: number;
+	/** Font family for text shapes. */
+	fontFamily: string;
+	/** Font weight for text shapes. */
+	fontWeight: string | number;
+}
+
+/**
+ * Default formation configuration.
+ */
+export const DEFAULT_FORMATION_CONFIG: FormationConfig = {
+	stiffness: 6,
+	damping: 4.5,
+	minSpacing: 14,
+	coverage: 0.85,
+	fallbackMaxPoints: 300,
+	boxScale: 0.6,
+	alphaThreshold: 128,
+	fontFamily: 'sans-serif',
+	fontWeight: 'bold',
+};
@@ -0,0 +1,15 @@
+// =============================================================================
+// Formation - Exports for shape formation modules
+// =============================================================================
+
+export { FormationPhysics } from './FormationPhysics';
+export { FormationSampler } from './FormationSampler';
+export { DEFAULT_FORMATION_CONFIG, type FormationConfig } from './config';
+export type {
+	FormationPoint,
+	FormationBox,
+	FormationShape,
+	FormationRequest,
+	OrbFormation,
+	ActiveFormation,
+} from './types';
@@ -0,0 +1,80 @@
+// =============================================================================
+// Formation Types - Type definitions for shape formation
+// =============================================================================
+
+/**
+ * Target point of a formation in physics-space pixels
+ * (viewport pixels without parallax offset).
+ */
+export interface FormationPoint {
+	x: number;
+	y: number;
+}
+
+/**
+ * Axis-aligned rectangle in pixels.
+ */
+export interface FormationBox {
+	x: number;
+	y: number;
+	width: number;
+	height: number;
+}
+
+/**
+ * Shape orbs can assemble into.
+ * - text: a string rendered with a canvas font
+ * - path: SVG path data drawn in a viewBox
+ * - image: an image URL such as '/uio_sigil.svg' (opaque pixels are filled)
+ * - points: explicit targets in viewport pixels, used as given
+ */
+export type FormationShape =
+	| { kind: 'text'; text: string; fontFamily?: string; fontWeight?: string | number }
+	| { kind: 'path'; paths: readonly string[]; viewBox: FormationBox }
+	| { kind: 'image'; src: string }
+	| { kind: 'points'; points: readonly FormationPoint[] };
+
+/**
+ * Declarative formation request, resolved to target points on the main thread.
+ */
+export interface FormationRequest {
+	/** Shape to form. */
+	shape: FormationShape;
+	/**
+	 * Viewport rectangle the shape is fitted into (aspect ratio kept).
+	 * Defaults to a centered box scaled by the formation config.
+	 */
+	box?: FormationBox;
+	/** Z layer orbs are pulled toward while formed (depth is left alone when omitted). */
+	layer?: number;
+	/** Milliseconds to hold the shape before releasing orbs (held until released when omitted). */
+	holdMs?: number;
+}
+
+/**
+ * Resolved formation run by the simulation.
+ */
+export interface OrbFormation {
+	/** Target points in physics-space pixels. */
+	points: readonly FormationPoint[];
+	/** Z layer orbs are pulled toward, if any. */
+	layer?: number;
+	/** Milliseconds to hold before release, if any. */
+	holdMs?: number;
+}
+
+/**
+ * Formation in progress inside a simulation.
+ */
+export interface ActiveFormation {
+	/** Formation being formed. */
+	formation: OrbFormation;
+	/** Clock time when the formation started in milliseconds. */
+	startedAt: number;
+	/** Target index per assigned orb ID. */
+	targetOf: Map<string, number>;
+	/** Orb ID per target index, or null while unassigned. */
+	ownerOf: (string | null)[];
+	/** Per-target flag set when its orb was seen this step. */
+	served: Uint8Array;
+}
@@ -0,0 +1,120 @@
+// =============================================================================
+// DenseCellStore - Flat Uint8Array backing store for SpatialGrid
+// =============================================================================
+
+import { CELL_EMPTY, CELL_BORDER, type CellState } from '../../shared/types';
+import { type GridConfig, type GridCellStore } from '../types';
+
+/**
+ * Stores every cell of the grid in a flat Uint8Array,
+ * indexed as [layer][y][x] in row-major order.
+ *
+ * Reads and writes are a single array access, but memory and clearDynamic()
+ * cost scale with grid volume (e.g. 300x170x100 = 5M cells, doubled by
+ * the saved clean state).
+ *
+ * Single Responsibility: Dense cell state storage only.
+ */
+export class DenseCellStore implements GridCellStore {
+	private readonly config: GridConfig;
+
+	/** Flat array storing cell states for all layers. */
+	private cells: Uint8Array;
+
+	/**
+	 * Pre-computed clean state with only border cells.
+	 * Used for fast clearDynamic() via bulk memory copy instead of per-cell iteration.
+	 */
+	private cleanState: Uint8Array | null = null;
+
+	/**
+	 * Creates a new dense store.
+	 *
+	 * @param config - Grid configuration with dimensions.
+	 */
+	constructor(config: GridConfig) {
+		this.config = config;
+		const totalCells = config.cellsX * config.cellsY * config.layers;
+		this.cells = new Uint8Array(totalCells);
+	}
+
+	get(cellX: number, cellY: number, layer: number): CellState {
+		return this.cells[this.getIndex(cellX, cellY, layer)] as CellState;
+	}
+
+	set(cellX: number, cellY: number, layer: number, state: CellState): void {
+		this.cells[this.getIndex(cellX, cellY, layer)] = state;
+	}
+
+	/**
+	 * Resets all cells to CELL_EMPTY.
+	 * Uses Uint8Array.fill() for optimal performance.
+	 */
+	clear(): void {
+		this.cells.fill(CELL_EMPTY);
+	}
+
+	/**
+	 * Clears only dynamic cells (CELL_FILLED, CELL_PROXIMITY).
+	 *
+	 * Performance: Uses bulk memory copy when cleanState is available,
+	 * reducing from O(n) conditional checks to a single fast memcpy operation.
+	 */
+	clearDynamic(): void {
+		if (this.cleanState) {
+			// Fast path: bulk memory copy (single operation instead of 5M+ iterations)
+			this.cells.set(this.cleanState);
+		} else {
+			// Fallback: iterate through all cells (slow for large grids)
+			for (let i = 0; i < this.cells.length; i++) {
+				if ((this.cells[i] & CELL_BORDER) !== 0) {
+					this.cells[i] = CELL_BORDER;
+				} else {
+					this.cells[i] = CELL_EMPTY;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Writes CELL_BORDER to the XY edges of every layer.
+	 */
+	initializeBorder(): void {
+		const { cellsX, cellsY, layers } = this.config;
+		const layerSize = cellsX * cellsY;
+
+		for (let layer = 0; layer < layers; layer++) {
+			const base = layer * layerSize;
+
+			// Top and bottom edges
+			for (let x = 0; x < cellsX; x++) {
+				this.cells[base + x] = CELL_BORDER;
+				this.cells[base + (cellsY - 1) * cellsX + x] = CELL_BORDER;
+			}
+
+			// Left and right edges
+			for (let y = 0; y < cellsY; y++) {
+				this.cells[base + y * cellsX] = CELL_BORDER;
+				this.cells[base + y * cellsX + cellsX - 1] = CELL_BORDER;
+			}
+		}
+	}
+
+	/**
+	 * Copies the current cells as the clean state for fast clearing.
+	 */
+	saveCleanState(): void {
+		this.cleanState = new Uint8Array(this.cells);
+	}
+
+	/**
+	 * Calculates the flat array index for a 3D cell coordinate.
+	 */
+	private getIndex(cellX: number, cellY: number, layer: number): number {
+		return (
+			layer * this.config.cellsX * this.config.cellsY +
+			cellY * this.config.cellsX +
+			cellX
+		);
+	}
+}
@@ -27,15 +27,40 @@ export class GridConfigFactory {
 	 * @returns Fully calculated GridConfig object.
 	 */
 	static create(window: Window, options: Partial<GridSystemConfig> = {}): GridConfig {
+		return GridConfigFactory.createFromSize(
+			window.innerWidth,
+			window.innerHeight,
+			window.devicePixelRatio || 1,
+			options
+		);
+	}
+
+	/**
+	 * Creates a GridConfig from explicit viewport dimensions.
+	 *
+	 * Use this where no browser window exists (workers, Node, tests).
+	 *
+	 * @param width - Viewport width in CSS pixels.
+	 * @param height - Viewport height in CSS pixels.
+	 * @param devicePixelRatio - Device pixel ratio (default 1).
+	 * @param options - Optional overrides for default configuration.
+	 * @returns Fully calculated GridConfig object.
+	 */
+	static createFromSize(
+		width: number,
+		height: number,
+		devicePixelRatio: number = 1,
+		options: Partial<GridSystemConfig> = {}
+	): GridConfig {
 		const config = { ...DEFAULT_GRID_CONFIG, ...options };
 
 		// Calculate physical dimensions using device pixel ratio
-		const dpi = (window.devicePixelRatio || 1) * config.baseDpi;
+		const dpi = devicePixelRatio * config.baseDpi;
 		const cmPerPixel = 2.54 / dpi;
 		const pixelsPerCm = dpi / 2.54;
 
-		const screenWidthCm = window.innerWidth * cmPerPixel;
-		const screenHeightCm = window.innerHeight * cmPerPixel;
+		const screenWidthCm = width * cmPerPixel;
+		const screenHeightCm = height * cmPerPixel;
 
 		// Calculate exact cell count to perfectly fit viewport
 		const cellsXPerViewport = Math.round(screenWidthCm / config.targetCellSizeCm);
@@ -68,6 +93,7 @@ export class GridConfigFactory {
 			viewportMaxYCm: screenHeightCm,
 			pixelsPerCm,
 			cmPerPixel,
+			storage: config.storage,
 		};
 	}
 }
@@ -0,0 +1,122 @@
+// =============================================================================
+// ObstacleMask - Column mask of obstacle volumes for SpatialGrid
+// =============================================================================
+
+import { CELL_EMPTY, CELL_OBSTACLE, type CellState } from '../../shared/types';
+import { type GridCellRect, type GridConfig, type GridObstacle } from '../types';
+
+/** Obstacles tracked at once; one bit per obstacle in each column. */
+const MAX_OBSTACLES = 32;
+
+/**
+ * Stores obstacle volumes as a 2D mask of XY columns plus a layer range
+ * per obstacle, instead of writing flags into every layer of the cell store.
+ *
+ * Obstacles follow cards that move every frame, so replacing them must be
+ * cheap: only the columns of the old and new rectangles are touched, and
+ * clearDynamic() on the cell store never has to preserve them.
+ *
+ * An obstacle shifted per layer by parallax marks the columns of all its
+ * layers at once; lookups then check the rectangle of the layer asked for.
+ *
+ * Single Responsibility: Obstacle occupancy storage only.
+ */
+export class ObstacleMask {
+	private readonly cellsX: number;
+	private readonly cellsY: number;
+
+	/** Bit i is set where obstacle i covers the column. */
+	private readonly columns: Uint32Array;
+
+	/** Current obstacles, clipped to the grid. */
+	private obstacles: GridObstacle[] = [];
+
+	/**
+	 * Creates an empty mask.
+	 *
+	 * @param config - Grid configuration with dimensions.
+	 */
+	constructor(config: GridConfig) {
+		this.cellsX = config.cellsX;
+		this.cellsY = config.cellsY;
+		this.columns = new Uint32Array(config.cellsX * config.cellsY);
+	}
+
+	/**
+	 * Returns CELL_OBSTACLE if any obstacle covers the cell, else CELL_EMPTY.
+	 * Bounds are checked by the grid before any call.
+	 */
+	get(cellX: number, cellY: number, layer: number): CellState {
+		if (this.obstacles.length === 0) return CELL_EMPTY;
+
+		let bits = this.columns[cellY * this.cellsX + cellX];
+		while (bits !== 0) {
+			const i = 31 - Math.clz32(bits);
+			const obstacle = this.obstacles[i];
+			if (
+				layer >= obstacle.minLayer && layer <= obstacle.maxLayer &&
+				ObstacleMask.covers(obstacle.layerRects?.[layer - obstacle.minLayer], cellX, cellY)
+			) {
+				return CELL_OBSTACLE;
+			}
+			bits &= ~(1 << i);
+		}
+		return CELL_EMPTY;
+	}
+
+	/**
+	 * Replaces all obstacles. Volumes are clipped to the grid; empty ones
+	 * are dropped, and only the first 32 are kept.
+	 *
+	 * @param obstacles - New obstacle volumes in cells.
+	 */
+	set(obstacles: readonly GridObstacle[]): void {
+		for (const obstacle of this.obstacles) {
+			this.fill(obstacle, 0);
+		}
+
+		this.obstacles = [];
+		for (const obstacle of obstacles) {
+			if (this.obstacles.length === MAX_OBSTACLES) break;
+
+			const clipped: GridObstacle = {
+				minCellX: Math.max(0, obstacle.minCellX),
+				maxCellX: Math.min(this.cellsX - 1, obstacle.maxCellX),
+				minCellY: Math.max(0, obstacle.minCellY),
+				maxCellY: Math.min(this.cellsY - 1, obstacle.maxCellY),
+				minLayer: obstacle.minLayer,
+				maxLayer: obstacle.maxLayer,
+				layerRects: obstacle.layerRects,
+			};
+			if (clipped.minCellX > clipped.maxCellX || clipped.minCellY > clipped.maxCellY) continue;
+
+			this.fill(clipped, 1 << this.obstacles.length);
+			this.obstacles.push(clipped);
+		}
+	}
+
+	/**
+	 * Whether a layer's rectangle covers a cell; no rectangle covers the
+	 * whole column range.
+	 */
+	private static covers(rect: GridCellRect | undefined, cellX: number, cellY: number): boolean {
+		if (!rect) return true;
+		return cellX >= rect.minCellX && cellX <= rect.maxCellX && cellY >= rect.minCellY && cellY <= rect.maxCellY;
+	}
+
+	/**
+	 * Sets (bit != 0) or clears (bit == 0) an obstacle's columns.
+	 */
+	private fill(obstacle: GridObstacle, bit: number): void {
+		for (let y = obstacle.minCellY; y <= obstacle.maxCellY; y++) {
+			const row = y * this.cellsX;
+			if (bit === 0) {
+				this.columns.fill(0, row + obstacle.minCellX, row + obstacle.maxCellX + 1);
+			} else {
+				for (let x = obstacle.minCellX; x <= obstacle.maxCellX; x++) {
+					this.columns[row + x] |= bit;
+				}
+			}
+		}
+	}
+}
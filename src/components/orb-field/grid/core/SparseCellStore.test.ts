@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { SparseCellStore } from './SparseCellStore';
+import { DenseCellStore } from './DenseCellStore';
+import { type GridCellStore, type GridConfig } from '../types';
+import { createSeededRandom, type RandomSource } from '../../shared/random';
+import { CELL_BORDER, CELL_EMPTY, CELL_FILLED, CELL_PROXIMITY, type CellState } from '../../shared/types';
+
+/** Dimensions that are not multiples of the tile size; stores read nothing else. */
+const CONFIG = { cellsX: 37, cellsY: 21, layers: 4 } as GridConfig;
+
+const STATES: CellState[] = [
+	CELL_EMPTY,
+	CELL_PROXIMITY,
+	CELL_FILLED,
+	CELL_FILLED | CELL_PROXIMITY,
+	CELL_BORDER,
+	CELL_BORDER | CELL_FILLED,
+];
+
+/**
+ * Expects both stores to hold the same state in every cell.
+ */
+function expectSameCells(sparse: GridCellStore, dense: GridCellStore, label: string): void {
+	for (let layer = 0; layer < CONFIG.layers; layer++) {
+		for (let y = 0; y < CONFIG.cellsY; y++) {
+			for (let x = 0; x < CONFIG.cellsX; x++) {
+				const expected = dense.get(x, y, layer);
+				if (sparse.get(x, y, layer) !== expected) {
+					expect(sparse.get(x, y, layer), `${label}: cell ${x},${y},${layer}`).toBe(expected);
+				}
+			}
+		}
+	}
+}
+
+/**
+ * Applies one random store operation to both stores.
+ */
+function randomOperation(random: RandomSource, stores: GridCellStore[]): string {
+	const roll = random();
+	if (roll < 0.9) {
+		const x = Math.floor(random() * CONFIG.cellsX);
+		const y = Math.floor(random() * CONFIG.cellsY);
+		const layer = Math.floor(random() * CONFIG.layers);
+		const state = STATES[Math.floor(random() * STATES.length)];
+		for (const store of stores) store.set(x, y, layer, state);
+		return `set ${x},${y},${layer} = ${state}`;
+	}
+	if (roll < 0.95) {
+		for (const store of stores) store.clearDynamic();
+		return 'clearDynamic';
+	}
+	if (roll < 0.97) {
+		for (const store of stores) store.saveCleanState();
+		return 'saveCleanState';
+	}
+	if (roll < 0.99) {
+		for (const store of stores) store.initializeBorder();
+		return 'initializeBorder';
+	}
+	for (const store of stores) store.clear();
+	return 'clear';
+}
+
+describe('SparseCellStore', () => {
+	it('matches DenseCellStore for random call sequences', () => {
+		for (const seed of [1, 2, 3]) {
+			const random = createSeededRandom(seed);
+			const sparse = new SparseCellStore(CONFIG);
+			const dense = new DenseCellStore(CONFIG);
+			sparse.initializeBorder();
+			dense.initializeBorder();
+
+			for (let i = 0; i < 2000; i++) {
+				const operation = randomOperation(random, [sparse, dense]);
+				if (i % 50 === 0 || !operation.startsWith('set ')) {
+					expectSameCells(sparse, dense, `seed ${seed}, call ${i} (${operation})`);
+				}
+			}
+			expectSameCells(sparse, dense, `seed ${seed}, end`);
+		}
+	});
+
+	it('restores the saved clean state on clearDynamic', () => {
+		const sparse = new SparseCellStore(CONFIG);
+		sparse.initializeBorder();
+		sparse.set(5, 5, 1, CELL_BORDER);
+		sparse.saveCleanState();
+
+		sparse.set(5, 5, 1, CELL_FILLED);
+		sparse.set(20, 10, 2, CELL_PROXIMITY);
+		sparse.clearDynamic();
+
+		expect(sparse.get(5, 5, 1)).toBe(CELL_BORDER);
+		expect(sparse.get(20, 10, 2)).toBe(CELL_EMPTY);
+		expect(sparse.get(0, 10, 3)).toBe(CELL_BORDER);
+	});
+});
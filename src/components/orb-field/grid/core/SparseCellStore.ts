@@ -0,0 +1,237 @@
+// =============================================================================
+// SparseCellStore - Occupancy-proportional backing store for SpatialGrid
+// =============================================================================
+
+import { CELL_EMPTY, CELL_BORDER, type CellState } from '../../shared/types';
+import { type GridConfig, type GridCellStore } from '../types';
+
+/** Tile edge length as a power of two (8x8 cells per tile). */
+const TILE_SHIFT = 3;
+const TILE_SIZE = 1 << TILE_SHIFT;
+const TILE_MASK = TILE_SIZE - 1;
+const TILE_CELLS = TILE_SIZE * TILE_SIZE;
+
+/**
+ * Stores cell states in small tiles allocated only where cells are written.
+ *
+ * Border walls are computed from cell coordinates rather than stored. The
+ * list of allocated tiles doubles as the per-frame dirty set, so
+ * clearDynamic() costs O(tiles marked this frame) and memory scales with
+ * orb footprints instead of grid volume. Tiles live in one growable buffer
+ * addressed through a slot table, so reads stay typed-array lookups and
+ * released slots are reused without per-frame allocation.
+ *
+ * Behaves identically to DenseCellStore for every sequence of calls.
+ *
+ * Single Responsibility: Sparse cell state storage only.
+ */
+export class SparseCellStore implements GridCellStore {
+	private readonly cellsX: number;
+	private readonly cellsY: number;
+	private readonly tilesX: number;
+	private readonly tilesPerLayer: number;
+
+	/** Whether XY edge cells read as CELL_BORDER outside allocated tiles. */
+	private border = false;
+
+	/** Buffer slot per tile index, or -1 where every cell has its base state. */
+	private readonly slotOf: Int32Array;
+
+	/** Tile contents, TILE_CELLS bytes per slot. */
+	private data = new Uint8Array(64 * TILE_CELLS);
+
+	/** Tile indices in use (dirty set); position in this list is not the slot. */
+	private allocated: number[] = [];
+
+	/** Slots released since the buffer last grew, available for reuse. */
+	private freeSlots: number[] = [];
+
+	/** Number of slots ever handed out from the buffer. */
+	private slotCount = 0;
+
+	/** Border flag and tile copies captured by saveCleanState(). */
+	private cleanBorder = false;
+	private cleanTiles: Map<number, Uint8Array> | null = null;
+
+	/**
+	 * Creates a new sparse store.
+	 *
+	 * @param config - Grid configuration with dimensions.
+	 */
+	constructor(config: GridConfig) {
+		this.cellsX = config.cellsX;
+		this.cellsY = config.cellsY;
+		this.tilesX = Math.ceil(config.cellsX / TILE_SIZE);
+		this.tilesPerLayer = this.tilesX * Math.ceil(config.cellsY / TILE_SIZE);
+		this.slotOf = new Int32Array(this.tilesPerLayer * config.layers).fill(-1);
+	}
+
+	get(cellX: number, cellY: number, layer: number): CellState {
+		const slot = this.slotOf[this.tileIndex(cellX, cellY, layer)];
+		if (slot < 0) return this.baseState(cellX, cellY);
+		return this.data[(slot << (TILE_SHIFT * 2)) | ((cellY & TILE_MASK) << TILE_SHIFT) | (cellX & TILE_MASK)];
+	}
+
+	set(cellX: number, cellY: number, layer: number, state: CellState): void {
+		const index = this.tileIndex(cellX, cellY, layer);
+		let slot = this.slotOf[index];
+		if (slot < 0) slot = this.allocate(index, cellX, cellY);
+		this.data[(slot << (TILE_SHIFT * 2)) | ((cellY & TILE_MASK) << TILE_SHIFT) | (cellX & TILE_MASK)] = state;
+	}
+
+	/**
+	 * Resets all cells, including borders, to CELL_EMPTY.
+	 */
+	clear(): void {
+		this.border = false;
+		this.releaseAll();
+	}
+
+	/**
+	 * Restores the saved clean state, or strips everything but border
+	 * flags when no clean state was saved. Only allocated tiles are visited.
+	 */
+	clearDynamic(): void {
+		if (this.cleanTiles) {
+			this.border = this.cleanBorder;
+			this.releaseAll();
+			for (const [index, clean] of this.cleanTiles) {
+				this.data.set(clean, this.take(index) * TILE_CELLS);
+			}
+			return;
+		}
+
+		const kept: number[] = [];
+		for (const index of this.allocated) {
+			const offset = this.slotOf[index] * TILE_CELLS;
+			const { originX, originY } = this.tileOrigin(index);
+
+			let matchesBase = true;
+			for (let i = 0; i < TILE_CELLS; i++) {
+				this.data[offset + i] &= CELL_BORDER;
+				const base = this.baseState(originX + (i & TILE_MASK), originY + (i >> TILE_SHIFT));
+				if (this.data[offset + i] !== base) matchesBase = false;
+			}
+
+			if (matchesBase) {
+				this.release(index);
+			} else {
+				kept.push(index);
+			}
+		}
+		this.allocated = kept;
+	}
+
+	/**
+	 * Turns on analytic borders and writes CELL_BORDER to edge cells of
+	 * allocated tiles, matching a dense store that writes every edge.
+	 */
+	initializeBorder(): void {
+		this.border = true;
+		for (const index of this.allocated) {
+			const offset = this.slotOf[index] * TILE_CELLS;
+			const { originX, originY } = this.tileOrigin(index);
+			for (let i = 0; i < TILE_CELLS; i++) {
+				if (this.isEdge(originX + (i & TILE_MASK), originY + (i >> TILE_SHIFT))) {
+					this.data[offset + i] = CELL_BORDER;
+				}
+			}
+		}
+	}
+
+	/**
+	 * Captures the border flag and copies of allocated tiles for clearDynamic().
+	 */
+	saveCleanState(): void {
+		this.cleanBorder = this.border;
+		this.cleanTiles = new Map();
+		for (const index of this.allocated) {
+			const offset = this.slotOf[index] * TILE_CELLS;
+			this.cleanTiles.set(index, this.data.slice(offset, offset + TILE_CELLS));
+		}
+	}
+
+	/**
+	 * State of a cell outside any allocated tile: a border on edges once
+	 * borders are initialized, otherwise empty.
+	 */
+	private baseState(cellX: number, cellY: number): CellState {
+		return this.border && this.isEdge(cellX, cellY) ? CELL_BORDER : CELL_EMPTY;
+	}
+
+	private isEdge(cellX: number, cellY: number): boolean {
+		return cellX === 0 || cellY === 0 || cellX === this.cellsX - 1 || cellY === this.cellsY - 1;
+	}
+
+	private tileIndex(cellX: number, cellY: number, layer: number): number {
+		return layer * this.tilesPerLayer + (cellY >> TILE_SHIFT) * this.tilesX + (cellX >> TILE_SHIFT);
+	}
+
+	private tileOrigin(index: number): { originX: number; originY: number } {
+		const inLayer = index % this.tilesPerLayer;
+		const tileY = Math.floor(inLayer / this.tilesX);
+		return {
+			originX: (inLayer - tileY * this.tilesX) << TILE_SHIFT,
+			originY: tileY << TILE_SHIFT,
+		};
+	}
+
+	/**
+	 * Allocates a tile filled with the base state of its cells.
+	 *
+	 * @returns The tile's buffer slot.
+	 */
+	private allocate(index: number, cellX: number, cellY: number): number {
+		const slot = this.take(index);
+		const offset = slot * TILE_CELLS;
+		const originX = cellX & ~TILE_MASK;
+		const originY = cellY & ~TILE_MASK;
+
+		// Only tiles touching the grid edge can hold border cells
+		if (this.border && (originX === 0 || originY === 0 ||
+			originX + TILE_SIZE >= this.cellsX || originY + TILE_SIZE >= this.cellsY)) {
+			for (let i = 0; i < TILE_CELLS; i++) {
+				this.data[offset + i] = this.baseState(originX + (i & TILE_MASK), originY + (i >> TILE_SHIFT));
+			}
+		}
+		return slot;
+	}
+
+	/**
+	 * Assigns a zeroed slot to a tile, growing the buffer when full.
+	 *
+	 * @returns The tile's buffer slot.
+	 */
+	private take(index: number): number {
+		let slot = this.freeSlots.pop();
+		if (slot === undefined) {
+			slot = this.slotCount++;
+			if (slot * TILE_CELLS >= this.data.length) {
+				const grown = new Uint8Array(this.data.length * 2);
+				grown.set(this.data);
+				this.data = grown;
+			}
+		}
+		this.slotOf[index] = slot;
+		this.allocated.push(index);
+		return slot;
+	}
+
+	/**
+	 * Zeroes a tile's slot and returns it to the free list.
+	 * The caller removes the index from the allocated list.
+	 */
+	private release(index: number): void {
+		const offset = this.slotOf[index] * TILE_CELLS;
+		this.data.fill(CELL_EMPTY, offset, offset + TILE_CELLS);
+		this.freeSlots.push(this.slotOf[index]);
+		this.slotOf[index] = -1;
+	}
+
+	private releaseAll(): void {
+		for (const index of this.allocated) {
+			this.release(index);
+		}
+		this.allocated.length = 0;
+	}
+}
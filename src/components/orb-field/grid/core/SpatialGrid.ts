@@ -2,14 +2,20 @@
 // SpatialGrid - 3D Grid Data Structure for Collision Detection
 // =============================================================================
 
-import { CELL_EMPTY, CELL_BORDER, CELL_FILLED, hasCellFlag, type CellState } from '../../shared/types';
-import { type GridConfig } from '../types';
+import { CELL_EMPTY, CELL_BORDER, CELL_FILLED, CELL_OBSTACLE, hasCellFlag, type CellState } from '../../shared/types';
+import { type GridConfig, type GridCellStore, type GridObstacle, type GridWalls } from '../types';
+import { DenseCellStore } from './DenseCellStore';
+import { SparseCellStore } from './SparseCellStore';
+import { ObstacleMask } from './ObstacleMask';
 
 /**
  * 3D Spatial Grid for efficient collision detection and spatial queries.
  *
- * Uses a flat Uint8Array for memory-efficient storage of cell states.
- * The grid is indexed as [layer][y][x] in row-major order.
+ * Cell states live in a pluggable backing store chosen by config.storage:
+ * a dense Uint8Array over the whole volume, or a sparse store whose memory
+ * and clear cost scale with occupied cells. Both behave identically.
+ * Obstacle volumes are kept in a separate column mask and reported as
+ * CELL_OBSTACLE alongside the stored flags.
  *
  * Single Responsibility: Manages raw grid data and coordinate conversions.
  */
@@ -17,14 +23,14 @@ export class SpatialGrid {
 	/** Grid configuration containing dimensions and world-space metrics. */
 	readonly config: GridConfig;
 
-	/** Flat array storing cell states for all layers. */
-	private cells: Uint8Array;
+	/** Backing store for cell states of all layers. */
+	private cells: GridCellStore;
 
-	/** 
-	 * Pre-computed clean state with only border cells.
-	 * Used for fast clearDynamic() via bulk memory copy instead of per-cell iteration.
-	 */
-	private cleanState: Uint8Array | null = null;
+	/** Obstacle volumes (cards and other content) that block like walls. */
+	private obstacles: ObstacleMask;
+
+	/** Edges that block orbs; border cells on open edges are passable. */
+	private walls: GridWalls = { x: true, y: true, z: true };
 
 	/**
 	 * Creates a new SpatialGrid instance.
@@ -33,35 +39,21 @@ export class SpatialGrid {
 	 */
 	constructor(config: GridConfig) {
 		this.config = config;
-		const totalCells = config.cellsX * config.cellsY * config.layers;
-		this.cells = new Uint8Array(totalCells);
+		this.cells = config.storage === 'dense'
+			? new DenseCellStore(config)
+			: new SparseCellStore(config);
+		this.obstacles = new ObstacleMask(config);
 	}
 
 	/**
 	 * Saves the current cell state as the "clean" state for fast clearing.
 	 * Call this after initializeBorder() to capture the border-only state.
 	 * 
-	 * This enables clearDynamic() to use a fast bulk memory copy instead of
-	 * iterating through millions of cells with conditional checks.
+	 * This enables clearDynamic() to restore the clean state directly instead
+	 * of checking every cell for border flags.
 	 */
 	saveCleanState(): void {
-		this.cleanState = new Uint8Array(this.cells);
-	}
-
-	/**
-	 * Calculates the flat array index for a 3D cell coordinate.
-	 *
-	 * @param cellX - X-coordinate of the cell.
-	 * @param cellY - Y-coordinate of the cell.
-	 * @param layer - Z-layer of the cell.
-	 * @returns Flat array index.
-	 */
-	private getIndex(cellX: number, cellY: number, layer: number): number {
-		return (
-			layer * this.config.cellsX * this.config.cellsY +
-			cellY * this.config.cellsX +
-			cellX
-		);
+		this.cells.saveCleanState();
 	}
 
 	/**
@@ -86,11 +78,11 @@ export class SpatialGrid {
 	 * @param cellX - X-coordinate of the cell.
 	 * @param cellY - Y-coordinate of the cell.
 	 * @param layer - Z-layer of the cell.
-	 * @returns Cell state, or CELL_EMPTY if out of bounds.
+	 * @returns Cell state (including CELL_OBSTACLE), or CELL_EMPTY if out of bounds.
 	 */
 	getCell(cellX: number, cellY: number, layer: number): CellState {
 		if (!this.isInBounds(cellX, cellY, layer)) return CELL_EMPTY;
-		return this.cells[this.getIndex(cellX, cellY, layer)] as CellState;
+		return this.cells.get(cellX, cellY, layer) | this.obstacles.get(cellX, cellY, layer);
 	}
 
 	/**
@@ -103,7 +95,7 @@ export class SpatialGrid {
 	 */
 	setCell(cellX: number, cellY: number, layer: number, state: CellState): void {
 		if (!this.isInBounds(cellX, cellY, layer)) return;
-		this.cells[this.getIndex(cellX, cellY, layer)] = state;
+		this.cells.set(cellX, cellY, layer, state);
 	}
 
 	/**
@@ -117,8 +109,7 @@ export class SpatialGrid {
 	 */
 	addCellFlag(cellX: number, cellY: number, layer: number, flag: CellState): void {
 		if (!this.isInBounds(cellX, cellY, layer)) return;
-		const idx = this.getIndex(cellX, cellY, layer);
-		this.cells[idx] |= flag;
+		this.cells.set(cellX, cellY, layer, this.cells.get(cellX, cellY, layer) | flag);
 	}
 
 	/**
@@ -131,8 +122,28 @@ export class SpatialGrid {
 	 */
 	removeCellFlag(cellX: number, cellY: number, layer: number, flag: CellState): void {
 		if (!this.isInBounds(cellX, cellY, layer)) return;
-		const idx = this.getIndex(cellX, cellY, layer);
-		this.cells[idx] &= ~flag;
+		this.cells.set(cellX, cellY, layer, this.cells.get(cellX, cellY, layer) & ~flag);
+	}
+
+	/**
+	 * Replaces the obstacle volumes.
+	 * Obstacles are not stored in the cells, so clear() and clearDynamic()
+	 * leave them in place.
+	 *
+	 * @param obstacles - Obstacle volumes in cells (clipped to the grid).
+	 */
+	setObstacles(obstacles: readonly GridObstacle[]): void {
+		this.obstacles.set(obstacles);
+	}
+
+	/**
+	 * Opens or closes grid edges per axis. Border cells keep their flag,
+	 * so closing an edge again needs no re-initialization.
+	 *
+	 * @param walls - Which edges block orbs.
+	 */
+	setWalls(walls: GridWalls): void {
+		this.walls = { ...walls };
 	}
 
 	/**
@@ -169,34 +180,21 @@ export class SpatialGrid {
 
 	/**
 	 * Resets all cells to CELL_EMPTY.
-	 * Uses Uint8Array.fill() for optimal performance.
 	 */
 	clear(): void {
-		this.cells.fill(CELL_EMPTY);
+		this.cells.clear();
 	}
 
 	/**
 	 * Clears only dynamic cells (CELL_FILLED, CELL_PROXIMITY).
 	 * Preserves CELL_BORDER flag on cells to maintain permanent walls.
 	 * 
-	 * Performance: Uses bulk memory copy when cleanState is available,
-	 * reducing from O(n) conditional checks to a single fast memcpy operation.
+	 * Performance: The dense store restores the clean state with a single
+	 * memcpy; the sparse store only visits tiles marked since the last clear.
 	 * This is critical for grids with millions of cells (e.g., 300x170x100 = 5M cells).
 	 */
 	clearDynamic(): void {
-		if (this.cleanState) {
-			// Fast path: bulk memory copy (single operation instead of 5M+ iterations)
-			this.cells.set(this.cleanState);
-		} else {
-			// Fallback: iterate through all cells (slow for large grids)
-			for (let i = 0; i < this.cells.length; i++) {
-				if ((this.cells[i] & CELL_BORDER) !== 0) {
-					this.cells[i] = CELL_BORDER;
-				} else {
-					this.cells[i] = CELL_EMPTY;
-				}
-			}
-		}
+		this.cells.clearDynamic();
 	}
 
 	/**
@@ -205,32 +203,17 @@ export class SpatialGrid {
 	 * There are NO front/back Z walls - orbs can move freely in Z.
 	 */
 	initializeBorder(): void {
-		const { cellsX, cellsY, layers } = this.config;
-
-		// XY border walls extend through ALL layers (infinite in Z)
-		for (let layer = 0; layer < layers; layer++) {
-			// Top and bottom edges
-			for (let x = 0; x < cellsX; x++) {
-				this.setCell(x, 0, layer, CELL_BORDER);
-				this.setCell(x, cellsY - 1, layer, CELL_BORDER);
-			}
-
-			// Left and right edges
-			for (let y = 0; y < cellsY; y++) {
-				this.setCell(0, y, layer, CELL_BORDER);
-				this.setCell(cellsX - 1, y, layer, CELL_BORDER);
-			}
-		}
-		// No Z-axis walls - orbs move freely in the Z dimension
+		this.cells.initializeBorder();
 	}
 
 	/**
 	 * Checks if a cell blocks movement.
 	 * 
 	 * Returns true if:
-	 * - Cell is out of bounds (acts as invisible wall)
+	 * - Cell is out of bounds past a closed edge (acts as invisible wall)
 	 * - Cell has CELL_FILLED flag (another orb)
-	 * - Cell has CELL_BORDER flag (edge wall)
+	 * - Cell has CELL_BORDER flag on a closed edge (edge wall)
+	 * - Cell has CELL_OBSTACLE flag (card or other content)
 	 *
 	 * @param cellX - X-coordinate of the cell.
 	 * @param cellY - Y-coordinate of the cell.
@@ -239,22 +222,37 @@ export class SpatialGrid {
 	 */
 	isBlocking(cellX: number, cellY: number, layer: number): boolean {
 		// Out of bounds = blocked (implicit walls at grid boundaries)
-		if (!this.isInBounds(cellX, cellY, layer)) return true;
+		if (!this.isInBounds(cellX, cellY, layer)) return this.isClosedEdge(cellX, cellY, layer);
 
 		const state = this.getCell(cellX, cellY, layer);
-		return hasCellFlag(state, CELL_FILLED) || hasCellFlag(state, CELL_BORDER);
+		return hasCellFlag(state, CELL_FILLED)
+			|| hasCellFlag(state, CELL_OBSTACLE)
+			|| (hasCellFlag(state, CELL_BORDER) && this.isClosedEdge(cellX, cellY, layer));
 	}
 
 	/**
-	 * Checks if a cell is blocked by an actual WALL (border or out-of-bounds).
+	 * Checks if a cell is blocked by an actual WALL (border, obstacle or out-of-bounds).
 	 * Unlike isBlocking(), this does NOT treat other orbs (CELL_FILLED) as blocking.
 	 * Use this for wall collision detection to avoid treating orbs as walls.
 	 */
 	isWall(cellX: number, cellY: number, layer: number): boolean {
 		// Out of bounds = wall (implicit walls at grid boundaries)
-		if (!this.isInBounds(cellX, cellY, layer)) return true;
+		if (!this.isInBounds(cellX, cellY, layer)) return this.isClosedEdge(cellX, cellY, layer);
 
 		const state = this.getCell(cellX, cellY, layer);
-		return hasCellFlag(state, CELL_BORDER);
+		return hasCellFlag(state, CELL_OBSTACLE)
+			|| (hasCellFlag(state, CELL_BORDER) && this.isClosedEdge(cellX, cellY, layer));
+	}
+
+	/**
+	 * Whether a border or out-of-bounds cell lies on an edge that blocks.
+	 * Only called for such cells, so the hot path for inner cells is unchanged.
+	 */
+	private isClosedEdge(cellX: number, cellY: number, layer: number): boolean {
+		const { cellsX, cellsY, layers } = this.config;
+		const walls = this.walls;
+		return (walls.x && (cellX <= 0 || cellX >= cellsX - 1))
+			|| (walls.y && (cellY <= 0 || cellY >= cellsY - 1))
+			|| (walls.z && (layer < 0 || layer >= layers));
 	}
 }
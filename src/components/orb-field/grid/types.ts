@@ -2,6 +2,16 @@
 // Grid Types - Type definitions for the spatial grid system
 // =============================================================================
 
+import { type CellState } from '../shared/types';
+
+/**
+ * Backing store used by SpatialGrid for cell states.
+ * - 'dense': flat Uint8Array over the full grid volume, cleared by memcpy.
+ * - 'sparse': analytic borders plus small tiles allocated only where cells
+ *   are marked, cleared in proportion to the tiles touched since the last clear.
+ */
+export type GridStorage = 'dense' | 'sparse';
+
 /**
  * Configuration for the 3D spatial grid geometry.
  * Contains both world-space measurements (centimeters) and grid dimensions.
@@ -39,6 +49,9 @@ export interface GridConfig {
 	pixelsPerCm: number;
 	/** Number of centimeters per pixel (for px to cm conversion). */
 	cmPerPixel: number;
+
+	/** Backing store for cell states. */
+	storage: GridStorage;
 }
 
 /**
@@ -67,3 +80,59 @@ export interface ViewportCells {
 	/** Height of a cell in centimeters. */
 	cellSizeYCm: number;
 }
+
+/**
+ * Storage strategy behind SpatialGrid.
+ * Bounds are checked by the grid before any call.
+ */
+export interface GridCellStore {
+	/** Returns the state of a cell. */
+	get(cellX: number, cellY: number, layer: number): CellState;
+	/** Overwrites the state of a cell. */
+	set(cellX: number, cellY: number, layer: number, state: CellState): void;
+	/** Resets every cell, including borders, to CELL_EMPTY. */
+	clear(): void;
+	/** Resets dynamic flags, restoring the saved clean state (or borders only). */
+	clearDynamic(): void;
+	/** Marks the XY edge cells of every layer as CELL_BORDER. */
+	initializeBorder(): void;
+	/** Captures the current state as the target of clearDynamic(). */
+	saveCleanState(): void;
+}
+
+/**
+ * Rectangle of grid cells. Bounds are inclusive.
+ */
+export interface GridCellRect {
+	minCellX: number;
+	maxCellX: number;
+	minCellY: number;
+	maxCellY: number;
+}
+
+/**
+ * Obstacle volume in grid cells. Bounds are inclusive.
+ */
+export interface GridObstacle extends GridCellRect {
+	minLayer: number;
+	maxLayer: number;
+	/**
+	 * Cells covered on each layer from minLayer on, for obstacles that
+	 * parallax shifts per layer. The bounds above then enclose them all.
+	 * Omitted when every layer covers the full bounds.
+	 */
+	layerRects?: readonly GridCellRect[];
+}
+
+/**
+ * Which grid edges block orbs. Open edges let orbs leave the grid, so a
+ * boundary phase must bring them back (wrap, spring) or remove them.
+ */
+export interface GridWalls {
+	/** Left and right edges (border columns and beyond). */
+	x: boolean;
+	/** Top and bottom edges (border rows and beyond). */
+	y: boolean;
+	/** Front and back, i.e. layers outside the grid. */
+	z: boolean;
+}
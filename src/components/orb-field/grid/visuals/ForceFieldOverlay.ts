@@ -0,0 +1,108 @@
+// =============================================================================
+// ForceFieldOverlay - Debug visualization for force fields
+// =============================================================================
+
+import {
+	DEFAULT_FORCE_FIELD_DEBUG_CONFIG,
+	type ForceField,
+	type ForceFieldDebugVisualConfig,
+} from '../../force-field';
+
+/**
+ * Handles rendering debug overlays for force fields (reach outline,
+ * source shape and drag handles).
+ *
+ * Single Responsibility: Only draws debug visuals for force fields.
+ */
+export class ForceFieldOverlay {
+	/**
+	 * Draws every force field.
+	 *
+	 * @param ctx - The 2D canvas rendering context (already offset for parallax).
+	 * @param fields - Force fields to draw.
+	 * @param config - Debug visualization configuration.
+	 */
+	static draw(
+		ctx: CanvasRenderingContext2D,
+		fields: readonly ForceField[],
+		config: ForceFieldDebugVisualConfig = DEFAULT_FORCE_FIELD_DEBUG_CONFIG
+	): void {
+		ctx.save();
+		ctx.lineWidth = config.lineWidth;
+
+		for (const field of fields) {
+			const color = this.colorFor(field, config);
+			ctx.strokeStyle = color;
+			ctx.fillStyle = color;
+
+			// Reach outline (dashed)
+			ctx.setLineDash(config.dash);
+			ctx.beginPath();
+			if (field.kind === 'line') {
+				this.traceCapsule(ctx, field.x, field.y, field.x2, field.y2, field.radius);
+			} else {
+				ctx.arc(field.x, field.y, field.radius, 0, Math.PI * 2);
+			}
+			ctx.stroke();
+			ctx.setLineDash([]);
+
+			// Source shape
+			if (field.kind === 'line') {
+				ctx.beginPath();
+				ctx.moveTo(field.x, field.y);
+				ctx.lineTo(field.x2, field.y2);
+				ctx.stroke();
+			} else if (field.kind === 'vortex') {
+				// Three-quarter arc showing the spin direction
+				const r = field.radius * 0.35;
+				ctx.beginPath();
+				ctx.arc(field.x, field.y, r, 0, Math.PI * 1.5, true);
+				ctx.stroke();
+			}
+
+			// Drag handles
+			this.drawHandle(ctx, field.x, field.y, config.handleRadius);
+			if (field.kind === 'line') {
+				this.drawHandle(ctx, field.x2, field.y2, config.handleRadius);
+			}
+		}
+
+		ctx.restore();
+	}
+
+	private static colorFor(field: ForceField, config: ForceFieldDebugVisualConfig): string {
+		switch (field.kind) {
+			case 'attractor':
+				return config.attractorColor;
+			case 'repulsor':
+				return config.repulsorColor;
+			case 'line':
+				return config.lineColor;
+			case 'vortex':
+				return config.vortexColor;
+		}
+	}
+
+	/**
+	 * Traces the set of points within radius of a segment.
+	 */
+	private static traceCapsule(
+		ctx: CanvasRenderingContext2D,
+		x1: number,
+		y1: number,
+		x2: number,
+		y2: number,
+		radius: number
+	): void {
+		const angle = Math.atan2(y2 - y1, x2 - x1);
+		ctx.arc(x1, y1, radius, angle + Math.PI / 2, angle - Math.PI / 2);
+		ctx.arc(x2, y2, radius, angle - Math.PI / 2, angle + Math.PI / 2);
+		ctx.closePath();
+	}
+
+	private static drawHandle(ctx: CanvasRenderingContext2D, x: number, y: number, radius: number): void {
+		ctx.beginPath();
+		ctx.arc(x, y, radius, 0, Math.PI * 2);
+		ctx.fill();
+	}
+}
@@ -70,7 +70,8 @@ export class GridAnimator {
 		}
 
 		const elapsed = timestamp - this.startTime;
-		const progress = Math.min(1, elapsed / this.duration);
+		// A zero duration completes on the first frame
+		const progress = this.duration > 0 ? Math.min(1, elapsed / this.duration) : 1;
 
 		// Cubic ease-out: fast start, smooth deceleration
 		const eased = 1 - Math.pow(1 - progress, 3);
@@ -23,6 +23,7 @@ export class GridLineRenderer {
 	 * @param whiteStartY - Y position where white-to-grey gradient starts.
 	 * @param fadeInDistance - Distance over which lines fade in.
 	 * @param whiteToGreyDistance - Distance over which color transitions.
+	 * @param lineColorReveal - Color RGB values at the reveal edge.
 	 * @param lineColorGrey - Target grey color RGB values.
 	 * @param baseAlpha - Base alpha for grey lines.
 	 * @param whiteAlpha - Alpha for white lines.
@@ -45,6 +46,7 @@ export class GridLineRenderer {
 		whiteStartY: number,
 		fadeInDistance: number,
 		whiteToGreyDistance: number,
+		lineColorReveal: { r: number; g: number; b: number },
 		lineColorGrey: { r: number; g: number; b: number },
 		baseAlpha: number,
 		whiteAlpha: number,
@@ -85,9 +87,9 @@ export class GridLineRenderer {
 				greyMix = greyMix * greyMix * (3 - 2 * greyMix);
 			}
 
-			const r = Math.round(255 - (255 - lineColorGrey.r) * greyMix);
-			const g = Math.round(255 - (255 - lineColorGrey.g) * greyMix);
-			const b = Math.round(255 - (255 - lineColorGrey.b) * greyMix);
+			const r = Math.round(lineColorReveal.r - (lineColorReveal.r - lineColorGrey.r) * greyMix);
+			const g = Math.round(lineColorReveal.g - (lineColorReveal.g - lineColorGrey.g) * greyMix);
+			const b = Math.round(lineColorReveal.b - (lineColorReveal.b - lineColorGrey.b) * greyMix);
 			const alpha = (whiteAlpha - (whiteAlpha - baseAlpha) * greyMix) * revealOpacity;
 
 			ctx.strokeStyle = `rgba(${r}, ${g}, ${b}, ${alpha})`;
@@ -2,13 +2,21 @@
 // GridRenderer - Orchestrates grid visualization rendering
 // =============================================================================
 
-import { type GridRevealConfig, type GridStyleConfig } from '../../shared/config';
+import {
+	UNIFORM_PARALLAX_DEPTH,
+	type GridRevealConfig,
+	type GridStyleConfig,
+	type ParallaxDepthCurve,
+} from '../../shared/config';
+import { ParallaxDepth, type LayerParallax } from '../../shared/parallax';
 import { type WindowSize } from '../../shared/types';
 import { SpatialGrid } from '../core/SpatialGrid';
 import { type ViewportCells } from '../types';
 import { type Orb } from '../../orb/types';
 import { type OrbDebugVisualConfig } from '../../orb/config';
+import { type ForceField, type ForceFieldDebugVisualConfig } from '../../force-field';
 import { OrbDebugOverlay } from './OrbDebugOverlay';
+import { ForceFieldOverlay } from './ForceFieldOverlay';
 import { GridLineRenderer } from './GridLineRenderer';
 import { OccupiedCellRenderer } from './OccupiedCellRenderer';
 import { HoverHighlight } from './HoverHighlight';
@@ -22,6 +30,9 @@ export class GridRenderer {
 	/**
 	 * Renders a complete frame of the grid visualization.
 	 *
+	 * The grid, hover and force fields are drawn at the current layer's
+	 * parallax; orb debug visuals follow each orb's own layer.
+	 *
 	 * @param ctx - The 2D canvas rendering context.
 	 * @param windowSize - Current window dimensions.
 	 * @param viewportCells - Viewport cell metrics for coordinate conversion.
@@ -40,6 +51,9 @@ export class GridRenderer {
 	 * @param showAvoidanceArea - Whether to show avoidance area cells (default: true).
 	 * @param showArrowVector - Whether to show velocity arrow vectors (default: true).
 	 * @param showTruePosition - Whether to show true position indicator dot (default: true).
+	 * @param forceFields - Force fields to draw overlays for (default: none).
+	 * @param forceFieldDebugConfig - Configuration for force field overlays.
+	 * @param parallaxDepth - Per-layer scale of the offset (default: the full offset on every layer).
 	 */
 	static draw(
 		ctx: CanvasRenderingContext2D,
@@ -59,13 +73,17 @@ export class GridRenderer {
 		showCollisionArea: boolean = true,
 		showAvoidanceArea: boolean = true,
 		showArrowVector: boolean = true,
-		showTruePosition: boolean = true
+		showTruePosition: boolean = true,
+		forceFields: readonly ForceField[] = [],
+		forceFieldDebugConfig?: ForceFieldDebugVisualConfig,
+		parallaxDepth: ParallaxDepthCurve = UNIFORM_PARALLAX_DEPTH
 	): void {
 		const { width, height } = windowSize;
 		const { startCellX, endCellX, startCellY, endCellY, cellSizeXPx, cellSizeYPx } = viewportCells;
 		const { startYOffset, endYOffset, fadeInDistance, whiteToGreyDistance } = revealConfig;
 		const {
 			lineColorGrey,
+			lineColorReveal,
 			baseAlpha,
 			whiteAlpha,
 			lineWidth,
@@ -75,21 +93,31 @@ export class GridRenderer {
 			filledCellColor
 		} = styleConfig;
 
+		// Offset of the current layer
+		const parallax: LayerParallax = {
+			offset: { x: offsetX, y: offsetY },
+			layers: grid?.config.layers ?? 1,
+			depth: parallaxDepth,
+		};
+		const layerScale = ParallaxDepth.scaleOf(parallax, currentLayer);
+		const layerOffsetX = offsetX * layerScale;
+		const layerOffsetY = offsetY * layerScale;
+
 		// Calculate extra cells needed based on scroll offset
-		const extraCellsTop = offsetY > 0 ? Math.ceil(offsetY / cellSizeYPx) + 1 : 0;
-		const extraCellsBottom = offsetY < 0 ? Math.ceil(Math.abs(offsetY) / cellSizeYPx) + 1 : 0;
-		const extraCellsLeft = offsetX > 0 ? Math.ceil(offsetX / cellSizeXPx) + 1 : 0;
-		const extraCellsRight = offsetX < 0 ? Math.ceil(Math.abs(offsetX) / cellSizeXPx) + 1 : 0;
+		const extraCellsTop = layerOffsetY > 0 ? Math.ceil(layerOffsetY / cellSizeYPx) + 1 : 0;
+		const extraCellsBottom = layerOffsetY < 0 ? Math.ceil(Math.abs(layerOffsetY) / cellSizeYPx) + 1 : 0;
+		const extraCellsLeft = layerOffsetX > 0 ? Math.ceil(layerOffsetX / cellSizeXPx) + 1 : 0;
+		const extraCellsRight = layerOffsetX < 0 ? Math.ceil(Math.abs(layerOffsetX) / cellSizeXPx) + 1 : 0;
 
 		// Calculate animation boundaries
-		const fadeEndY = startYOffset + progress * (height + endYOffset - startYOffset + Math.abs(offsetY));
+		const fadeEndY = startYOffset + progress * (height + endYOffset - startYOffset + Math.abs(layerOffsetY));
 		const whiteStartY = fadeEndY - fadeInDistance;
 
 		ctx.clearRect(0, 0, width, height);
 
-		// Apply parallax offset translation
+		// Apply the current layer's parallax offset translation
 		ctx.save();
-		ctx.translate(offsetX, offsetY);
+		ctx.translate(layerOffsetX, layerOffsetY);
 
 		// Phase 1: Draw occupied cells (only after reveal completes)
 		if (grid && progress >= 1 && (showCollisionArea || showAvoidanceArea)) {
@@ -128,6 +156,7 @@ export class GridRenderer {
 				whiteStartY,
 				fadeInDistance,
 				whiteToGreyDistance,
+				lineColorReveal,
 				lineColorGrey,
 				baseAlpha,
 				whiteAlpha,
@@ -154,12 +183,20 @@ export class GridRenderer {
 			);
 		}
 
-		// Phase 4: Draw orb debug visuals (only after reveal completes)
+		// Restore canvas state
+		ctx.restore();
+
+		// Phase 4: Draw orb debug visuals (only after reveal completes), each at its layer's offset
 		if (orbs.length > 0 && progress >= 1) {
-			OrbDebugOverlay.draw(ctx, orbs, currentLayer, orbDebugConfig, showArrowVector, showTruePosition);
+			OrbDebugOverlay.draw(ctx, orbs, currentLayer, orbDebugConfig, showArrowVector, showTruePosition, parallax);
 		}
 
-		// Restore canvas state
-		ctx.restore();
+		// Phase 5: Draw force field overlays (only after reveal completes)
+		if (forceFields.length > 0 && progress >= 1) {
+			ctx.save();
+			ctx.translate(layerOffsetX, layerOffsetY);
+			ForceFieldOverlay.draw(ctx, forceFields, forceFieldDebugConfig);
+			ctx.restore();
+		}
 	}
 }
@@ -2,7 +2,7 @@
 // OccupiedCellRenderer - Renders occupied cells (collision and avoidance zones)
 // =============================================================================
 
-import { CELL_FILLED, CELL_PROXIMITY, hasCellFlag } from '../../shared/types';
+import { CELL_FILLED, CELL_PROXIMITY, CELL_OBSTACLE, hasCellFlag } from '../../shared/types';
 import { SpatialGrid } from '../core/SpatialGrid';
 
 /**
@@ -12,7 +12,7 @@ import { SpatialGrid } from '../core/SpatialGrid';
  */
 export class OccupiedCellRenderer {
 	/**
-	 * Draws cells that are occupied (CELL_FILLED and CELL_PROXIMITY states).
+	 * Draws cells that are occupied (CELL_FILLED, CELL_PROXIMITY and CELL_OBSTACLE states).
 	 * Renders in two passes to ensure red orb bodies always appear above yellow zones.
 	 * 
 	 * @param ctx - The 2D canvas rendering context.
@@ -71,7 +71,23 @@ export class OccupiedCellRenderer {
 			}
 		}
 
-		// Pass 2: Draw filled cells (red/orb bodies) on top
+		// Pass 2: Draw obstacle cells (blue/cards) under orb bodies
+		if (showCollisionArea) {
+			ctx.fillStyle = 'rgba(100, 150, 255, 0.3)';
+			for (let cy = cyStart; cy <= cyEnd; cy++) {
+				for (let cx = cxStart; cx <= cxEnd; cx++) {
+					const cellX = startCellX + cx;
+					const cellY = startCellY + cy;
+					const state = grid.getCell(cellX, cellY, currentLayer);
+
+					if (hasCellFlag(state, CELL_OBSTACLE)) {
+						ctx.fillRect(cx * cellSizeXPx, cy * cellSizeYPx, cellSizeXPx, cellSizeYPx);
+					}
+				}
+			}
+		}
+
+		// Pass 3: Draw filled cells (red/orb bodies) on top
 		if (showCollisionArea) {
 			ctx.fillStyle = fillColor;
 			for (let cy = cyStart; cy <= cyEnd; cy++) {
@@ -4,6 +4,7 @@
 
 import { type Orb } from '../../orb/types';
 import { DEFAULT_ORB_DEBUG_CONFIG, type OrbDebugVisualConfig } from '../../orb/config';
+import { ParallaxDepth, NO_PARALLAX, type LayerParallax } from '../../shared/parallax';
 
 /**
  * Handles rendering debug overlays for orbs (position indicators and velocity vectors).
@@ -21,6 +22,7 @@ export class OrbDebugOverlay {
 	 * @param config - Debug visualization configuration.
 	 * @param showArrowVector - Whether to show velocity arrow vectors.
 	 * @param showTruePosition - Whether to show true position indicator dot.
+	 * @param parallax - Offset shifting each orb by its layer's parallax (default none).
 	 */
 	static draw(
 		ctx: CanvasRenderingContext2D,
@@ -28,29 +30,33 @@ export class OrbDebugOverlay {
 		currentLayer: number,
 		config: OrbDebugVisualConfig = DEFAULT_ORB_DEBUG_CONFIG,
 		showArrowVector: boolean = true,
-		showTruePosition: boolean = true
+		showTruePosition: boolean = true,
+		parallax: LayerParallax = NO_PARALLAX
 	): void {
 		for (const orb of orbs) {
 			// Show all orbs regardless of layer (they move in 3D)
 			// Opacity could be adjusted based on z-distance in the future
+			const scale = ParallaxDepth.scaleOf(parallax, orb.z);
+			const x = orb.pxX + parallax.offset.x * scale;
+			const y = orb.pxY + parallax.offset.y * scale;
 
 			// Draw position indicator (1x1 pixel) - only if enabled
 			if (showTruePosition) {
 				ctx.fillStyle = config.positionColor;
-				ctx.fillRect(orb.pxX, orb.pxY, 1, 1);
+				ctx.fillRect(x, y, 1, 1);
 			}
 
 			// Draw velocity vector arrow (only if enabled)
 			if (showArrowVector) {
 				const speed = Math.sqrt(orb.vx * orb.vx + orb.vy * orb.vy);
 				if (speed > 0) {
-					const endX = orb.pxX + orb.vx * config.arrowScale;
-					const endY = orb.pxY + orb.vy * config.arrowScale;
+					const endX = x + orb.vx * config.arrowScale;
+					const endY = y + orb.vy * config.arrowScale;
 
 					ctx.strokeStyle = config.arrowColor;
 					ctx.lineWidth = config.arrowLineWidth;
 					ctx.beginPath();
-					ctx.moveTo(orb.pxX, orb.pxY);
+					ctx.moveTo(x, y);
 					ctx.lineTo(endX, endY);
 
 					// Draw arrowhead
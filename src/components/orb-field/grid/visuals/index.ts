@@ -8,3 +8,4 @@ export { GridLineRenderer } from './GridLineRenderer';
 export { OccupiedCellRenderer } from './OccupiedCellRenderer';
 export { HoverHighlight } from './HoverHighlight';
 export { OrbDebugOverlay } from './OrbDebugOverlay';
+export { ForceFieldOverlay } from './ForceFieldOverlay';
@@ -12,10 +12,27 @@ export { usePauseTimeTracking, type PauseTimeRefs, type UsePauseTimeTrackingRetu
 export { useDebugModeInit, type UseDebugModeInitReturn } from './useDebugModeInit';
 export { useEventHandlers } from './useEventHandlers';
 export { usePhysicsLoop, type UsePhysicsLoopReturn } from './usePhysicsLoop';
+export { usePhysicsPhases, type UsePhysicsPhasesReturn } from './usePhysicsPhases';
+export { useForceFields, type UseForceFieldsReturn } from './useForceFields';
+export { useBoundaries, type UseBoundariesReturn } from './useBoundaries';
+export { useFlocking } from './useFlocking';
+export { useSpecies, type UseSpeciesReturn } from './useSpecies';
+export { useQualityGovernor, type UseQualityGovernorReturn } from './useQualityGovernor';
+export { useFocalPlane, type UseFocalPlaneReturn } from './useFocalPlane';
+export { useOrbPalette, type UseOrbPaletteReturn } from './useOrbPalette';
+export { useScrollWind, type UseScrollWindReturn } from './useScrollWind';
+export { useTimeScale, type UseTimeScaleReturn } from './useTimeScale';
+export { useObstacleTracking, type UseObstacleTrackingReturn } from './useObstacleTracking';
 export { useGridInitialization, type UseGridInitializationReturn } from './useGridInitialization';
 export { useOrbFieldInteractions, type UseOrbFieldInteractionsReturn } from './useOrbFieldInteractions';
 export { useCanvasSync } from './useCanvasSync';
 export { useOpacityFade, useOpacityRef } from './useOpacityFade';
-export { useOrbBurst, type UseOrbBurstReturn } from './useOrbBurst';
+export { useOrbBurst } from './useOrbBurst';
+export { useOrbFormation, type UseOrbFormationReturn } from './useOrbFormation';
+export { useSimulationSnapshot, type UseSimulationSnapshotReturn } from './useSimulationSnapshot';
+export { useSessionReplay, type UseSessionReplayReturn } from './useSessionReplay';
+export { useOrbEvents } from './useOrbEvents';
+export { useOrbWorker, type UseOrbWorkerReturn } from './useOrbWorker';
+export { useOrbRenderer, type UseOrbRendererReturn } from './useOrbRenderer';
 export { useRenderLoop, type UseRenderLoopReturn } from './useRenderLoop';
 export type { PhysicsContext, RenderContext } from './types';
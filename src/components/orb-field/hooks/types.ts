@@ -6,30 +6,26 @@ import { type Orb } from '../orb/types';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
 import { type WindowSize } from '../shared/types';
+import { type ParallaxDepthCurve } from '../shared/config';
+import { type FixedStepTiming } from '../simulation';
 
 /**
  * Context object for physics simulation.
- * Consolidates all physics-related parameters into a single object.
+ * Consolidates all per-frame inputs and flags fed into the simulation.
  */
 export interface PhysicsContext {
 	/** Animation progress (0 to 1) with easing applied. */
 	easedProgress: number;
 	/** Time elapsed since last frame in seconds. */
 	deltaTime: number;
-	/** Ref to orbs array for high-performance loop access. */
-	orbsRef: React.RefObject<Orb[]>;
-	/** Spatial grid for collision detection. */
-	grid: SpatialGrid;
-	/** Viewport cells for coordinate conversion. */
-	vpc: ViewportCells;
+	/** Fixed physics steps to run this frame. */
+	timing: FixedStepTiming;
 	/** Current window dimensions. */
 	windowSize: WindowSize;
 	/** Ref to mouse position (or null if not over canvas). */
 	mousePosRef: React.RefObject<{ x: number; y: number } | null>;
 	/** Ref indicating if page is visible and focused. */
 	isPageVisibleRef: React.RefObject<boolean>;
-	/** Ref to time when burst occurred (or null). */
-	burstTimeRef: React.RefObject<number | null>;
 	/** Ref for pause physics setting. */
 	pausePhysicsRef: React.RefObject<boolean>;
 	/** Ref for disable collisions setting. */
@@ -42,6 +38,12 @@ export interface PhysicsContext {
 	enableOrbDespawningRef: React.RefObject<boolean>;
 	/** Ref to current scroll/parallax offset for coordinate adjustment. */
 	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
+	/** Ref to the per-layer scale of the parallax offset. */
+	parallaxDepthRef: React.RefObject<ParallaxDepthCurve>;
+	/** Ref for show graphics setting (used by the worker renderer). */
+	showGraphicsRef: React.RefObject<boolean>;
+	/** Ref for debug mode (raises the worker snapshot rate). */
+	isDebugModeRef: React.RefObject<boolean>;
 }
 
 /**
@@ -4,16 +4,19 @@
 // useAnimationLoop - Hook for managing animation and physics loop
 // =============================================================================
 
-import { useEffect, useRef } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { GridAnimator } from '../grid/visuals/GridAnimator';
 import { type GridConfig } from '../grid/types';
+import { DEFAULT_FIXED_TIMESTEP_CONFIG, type FixedTimestepConfig } from '../shared/config';
+import { FixedStepAccumulator, type FixedStepTiming } from '../simulation';
 
 /**
  * Callback type for the loop update function.
  * @param easedProgress - Animation progress (0 to 1) with easing applied.
  * @param deltaTime - Time elapsed since last frame in seconds.
+ * @param timing - Fixed physics steps to run this frame and render interpolation factor.
  */
-export type LoopCallback = (easedProgress: number, deltaTime: number) => void;
+export type LoopCallback = (easedProgress: number, deltaTime: number, timing: FixedStepTiming) => void;
 
 /**
  * Options for the animation loop hook.
@@ -29,6 +32,12 @@ interface UseAnimationLoopOptions {
 	onLoop: LoopCallback;
 	/** Callback fired when reveal animation completes. */
 	onAnimationComplete?: () => void;
+	/** Fixed physics step overrides (read once on mount). */
+	timestep?: Partial<FixedTimestepConfig>;
+	/** Substep cap that may change while running (e.g. from the quality tier). */
+	maxSubsteps?: number;
+	/** Physics speed (1 = real time); the deltaTime passed to onLoop stays unscaled. */
+	timeScale?: number;
 }
 
 /**
@@ -38,6 +47,7 @@ interface UseAnimationLoopOptions {
  * - Reveal animation with GridAnimator
  * - Transition to continuous physics loop
  * - Frame timing and deltaTime calculation
+ * - Fixed-timestep accumulation for physics (render alpha for interpolation)
  * - Cleanup on unmount
  * 
  * Note: This hook doesn't return state values as they would cause unnecessary re-renders.
@@ -51,7 +61,11 @@ export function useAnimationLoop({
 	revealDuration,
 	onLoop,
 	onAnimationComplete,
+	timestep,
+	maxSubsteps,
+	timeScale = 1,
 }: UseAnimationLoopOptions): void {
+	const [accumulator] = useState(() => new FixedStepAccumulator(timestep));
 	const animatorRef = useRef<GridAnimator | null>(null);
 	const loopIdRef = useRef<number | null>(null);
 	const lastFrameTimeRef = useRef<number>(0);
@@ -62,6 +76,7 @@ export function useAnimationLoop({
 	const onLoopRef = useRef(onLoop);
 	const onAnimationCompleteRef = useRef(onAnimationComplete);
 	const revealDurationRef = useRef(revealDuration);
+	const timeScaleRef = useRef(timeScale);
 
 	useEffect(() => {
 		onLoopRef.current = onLoop;
@@ -75,6 +90,14 @@ export function useAnimationLoop({
 		revealDurationRef.current = revealDuration;
 	}, [revealDuration]);
 
+	useEffect(() => {
+		timeScaleRef.current = timeScale;
+	}, [timeScale]);
+
+	useEffect(() => {
+		accumulator.setMaxSubsteps(maxSubsteps ?? timestep?.maxSubsteps ?? DEFAULT_FIXED_TIMESTEP_CONFIG.maxSubsteps);
+	}, [accumulator, maxSubsteps, timestep?.maxSubsteps]);
+
 	// Main effect - only depends on visible and whether gridConfig exists (as boolean)
 	const hasGridConfig = gridConfig !== null;
 
@@ -93,7 +116,8 @@ export function useAnimationLoop({
 				const dt = lastFrameTimeRef.current ? (now - lastFrameTimeRef.current) / 1000 : 0;
 				lastFrameTimeRef.current = now;
 
-				onLoopRef.current(eased, dt);
+				// No physics during reveal; draw current positions as-is
+				onLoopRef.current(eased, dt, { steps: 0, stepSeconds: accumulator.stepSeconds, alpha: 1 });
 			},
 			() => {
 				hasAnimatedRef.current = true;
@@ -102,6 +126,7 @@ export function useAnimationLoop({
 				onAnimationCompleteRef.current?.();
 
 				// Continue with physics loop after reveal
+				accumulator.reset();
 				const physicsLoop = () => {
 					if (!hasAnimatedRef.current) return;
 
@@ -109,7 +134,7 @@ export function useAnimationLoop({
 					const dt = (now - lastFrameTimeRef.current) / 1000;
 					lastFrameTimeRef.current = now;
 
-					onLoopRef.current(1, dt);
+					onLoopRef.current(1, dt, accumulator.advance(dt * timeScaleRef.current));
 					loopIdRef.current = requestAnimationFrame(physicsLoop);
 				};
 				loopIdRef.current = requestAnimationFrame(physicsLoop);
@@ -117,7 +142,7 @@ export function useAnimationLoop({
 		);
 
 		animatorRef.current.start();
-	}, [visible, hasGridConfig]);
+	}, [visible, hasGridConfig, accumulator]);
 
 	// Separate cleanup effect that only runs on unmount
 	useEffect(() => {
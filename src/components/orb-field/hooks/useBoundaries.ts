@@ -0,0 +1,65 @@
+"use client";
+
+// =============================================================================
+// useBoundaries - Edge policy shared by props, debug menu and simulation
+// =============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import { DEFAULT_ORB_BOUNDARIES, type OrbBoundaries } from '../boundary';
+
+/**
+ * Parameters for the boundaries hook.
+ */
+interface UseBoundariesParams {
+	/** Simulation the policy is applied to. */
+	simulation: OrbSimulation;
+	/** Active worker host; changes are forwarded to the worker simulation too. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	/**
+	 * Policy declared by the OrbField props; omitted axes bounce. A new
+	 * object replaces changes made in the debug menu, so memoize it.
+	 */
+	boundaries?: Partial<OrbBoundaries>;
+}
+
+/**
+ * Return values from the boundaries hook.
+ */
+export interface UseBoundariesReturn {
+	/** Current boundary policy. */
+	boundaries: OrbBoundaries;
+	/** Changes some axes of the policy; the others keep their mode. */
+	setBoundaries: (boundaries: Partial<OrbBoundaries>) => void;
+}
+
+/**
+ * Holds the boundary policy of an OrbField and keeps the simulation
+ * (and worker, when active) in sync with it.
+ *
+ * Single Responsibility: Boundary policy state only.
+ */
+export function useBoundaries(params: UseBoundariesParams): UseBoundariesReturn {
+	const { simulation, workerRef, boundaries: declared } = params;
+
+	const [boundaries, setBoundariesState] = useState<OrbBoundaries>(() => ({ ...DEFAULT_ORB_BOUNDARIES, ...declared }));
+
+	// Reset to the declared policy whenever the prop changes
+	const [prevDeclared, setPrevDeclared] = useState(declared);
+	if (declared !== prevDeclared) {
+		setPrevDeclared(declared);
+		setBoundariesState({ ...DEFAULT_ORB_BOUNDARIES, ...declared });
+	}
+
+	useEffect(() => {
+		simulation.setBoundaries(boundaries);
+		workerRef.current?.setBoundaries(boundaries);
+	}, [boundaries, simulation, workerRef]);
+
+	const setBoundaries = useCallback((changes: Partial<OrbBoundaries>) => {
+		setBoundariesState(prev => ({ ...prev, ...changes }));
+	}, []);
+
+	return { boundaries, setBoundaries };
+}
@@ -6,6 +6,15 @@
 
 import { useEffect, useRef, useState } from 'react';
 import { type WindowSize } from '../shared/types';
+import { PointerTracker } from '../shared/pointers';
+
+/**
+ * Parameters for the event handlers hook.
+ */
+interface UseEventHandlersParams {
+	/** Clock for pointer samples; must match the time passed to pointerTracker.getPointers(). */
+	getTime: () => number;
+}
 
 /**
  * Return values from the event handlers hook.
@@ -15,6 +24,8 @@ interface UseEventHandlersReturn {
 	windowSize: WindowSize;
 	/** Ref to current mouse position (null when not hovering). */
 	mousePosRef: React.RefObject<{ x: number; y: number } | null>;
+	/** Every active pointer (mouse, pen, each finger) with velocity. */
+	pointerTracker: PointerTracker;
 	/** Ref to whether the page/tab is currently visible and focused. */
 	isPageVisibleRef: React.RefObject<boolean>;
 	/** Whether the component has mounted. */
@@ -26,16 +37,19 @@ interface UseEventHandlersReturn {
  * 
  * Handles:
  * - Window resize events
- * - Global mouse/touch tracking (for orb repulsion)
+ * - Global pointer tracking, one entry per mouse, pen or finger (for orb repulsion and wake)
  * - Page visibility and focus tracking (for pausing spawning)
  * - Mount state tracking
  * 
+ * @param params - Clock for pointer samples.
  * @returns Current event-derived state and refs.
  */
-export function useEventHandlers(): UseEventHandlersReturn {
+export function useEventHandlers(params: UseEventHandlersParams): UseEventHandlersReturn {
+	const { getTime } = params;
 	const [windowSize, setWindowSize] = useState<WindowSize>({ width: 0, height: 0 });
 	const [isMounted, setIsMounted] = useState(false);
 	const mousePosRef = useRef<{ x: number; y: number } | null>(null);
+	const [pointerTracker] = useState(() => new PointerTracker());
 	const isPageVisibleRef = useRef(typeof document !== 'undefined' ? !document.hidden : true);
 
 	useEffect(() => {
@@ -57,31 +71,26 @@ export function useEventHandlers(): UseEventHandlersReturn {
 			});
 		};
 
-		// Global mouse tracking for orb repulsion (works even when canvas has pointerEvents: none)
-		const handleGlobalMouseMove = (e: MouseEvent) => {
-			mousePosRef.current = { x: e.clientX, y: e.clientY };
-		};
-
-		const handleGlobalMouseLeave = () => {
-			mousePosRef.current = null;
-		};
-
-		// Global touch tracking for orb repulsion on mobile (same behavior as mouse)
-		const handleGlobalTouchMove = (e: TouchEvent) => {
-			if (e.touches.length > 0) {
-				const touch = e.touches[0];
-				mousePosRef.current = { x: touch.clientX, y: touch.clientY };
+		// Global pointer tracking for orb repulsion (works even when canvas has pointerEvents: none)
+		// Every finger is tracked separately; mousePosRef follows the primary pointer
+		const handleGlobalPointerMove = (e: PointerEvent) => {
+			pointerTracker.update(e.pointerId, e.clientX, e.clientY, getTime());
+			if (e.isPrimary) {
+				mousePosRef.current = { x: e.clientX, y: e.clientY };
 			}
 		};
 
-		const handleGlobalTouchStart = (e: TouchEvent) => {
-			if (e.touches.length > 0) {
-				const touch = e.touches[0];
-				mousePosRef.current = { x: touch.clientX, y: touch.clientY };
+		// A lifted finger stops repelling; a mouse keeps hovering after button release
+		const handleGlobalPointerEnd = (e: PointerEvent) => {
+			if (e.pointerType === 'mouse') return;
+			pointerTracker.remove(e.pointerId);
+			if (e.isPrimary) {
+				mousePosRef.current = null;
 			}
 		};
 
-		const handleGlobalTouchEnd = () => {
+		const handleGlobalMouseLeave = () => {
+			pointerTracker.clear();
 			mousePosRef.current = null;
 		};
 
@@ -108,34 +117,33 @@ export function useEventHandlers(): UseEventHandlersReturn {
 
 		handleResize();
 		window.addEventListener('resize', handleResize);
-		window.addEventListener('mousemove', handleGlobalMouseMove);
+		window.addEventListener('pointerdown', handleGlobalPointerMove, { passive: true });
+		window.addEventListener('pointermove', handleGlobalPointerMove, { passive: true });
+		window.addEventListener('pointerup', handleGlobalPointerEnd);
+		window.addEventListener('pointercancel', handleGlobalPointerEnd);
 		document.addEventListener('mouseleave', handleGlobalMouseLeave);
-		window.addEventListener('touchstart', handleGlobalTouchStart, { passive: true });
-		window.addEventListener('touchmove', handleGlobalTouchMove, { passive: true });
-		window.addEventListener('touchend', handleGlobalTouchEnd);
-		window.addEventListener('touchcancel', handleGlobalTouchEnd);
 		document.addEventListener('visibilitychange', handleVisibilityChange);
 		window.addEventListener('focus', handleWindowFocus);
 		window.addEventListener('blur', handleWindowBlur);
 
 		return () => {
 			window.removeEventListener('resize', handleResize);
-			window.removeEventListener('mousemove', handleGlobalMouseMove);
+			window.removeEventListener('pointerdown', handleGlobalPointerMove);
+			window.removeEventListener('pointermove', handleGlobalPointerMove);
+			window.removeEventListener('pointerup', handleGlobalPointerEnd);
+			window.removeEventListener('pointercancel', handleGlobalPointerEnd);
 			document.removeEventListener('mouseleave', handleGlobalMouseLeave);
-			window.removeEventListener('touchstart', handleGlobalTouchStart);
-			window.removeEventListener('touchmove', handleGlobalTouchMove);
-			window.removeEventListener('touchend', handleGlobalTouchEnd);
-			window.removeEventListener('touchcancel', handleGlobalTouchEnd);
 			document.removeEventListener('visibilitychange', handleVisibilityChange);
 			window.removeEventListener('focus', handleWindowFocus);
 			window.removeEventListener('blur', handleWindowBlur);
 			cancelAnimationFrame(frameId);
 		};
-	}, []);
+	}, [pointerTracker, getTime]);
 
 	return {
 		windowSize,
 		mousePosRef,
+		pointerTracker,
 		isPageVisibleRef,
 		isMounted,
 	};
@@ -0,0 +1,47 @@
+"use client";
+
+// =============================================================================
+// useFlocking - Applies the flocking prop to the simulation pipeline
+// =============================================================================
+
+import { useEffect } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import { BUILT_IN_PHASE_NAMES } from '../physics';
+import { type FlockingConfig } from '../flocking';
+
+/**
+ * Parameters for the flocking hook.
+ */
+interface UseFlockingParams {
+	/** Simulation whose flocking phase is toggled. */
+	simulation: OrbSimulation;
+	/** Active worker host; changes are forwarded to the worker simulation too. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	/**
+	 * True or a config enables flocking, false disables it, undefined leaves
+	 * the phase to the debug menu. Memoize a config object.
+	 */
+	flocking?: boolean | Partial<FlockingConfig>;
+}
+
+/**
+ * Enables, disables and tunes the flocking phase from the OrbField props.
+ *
+ * Single Responsibility: Flocking prop sync only.
+ */
+export function useFlocking(params: UseFlockingParams): void {
+	const { simulation, workerRef, flocking } = params;
+
+	useEffect(() => {
+		if (flocking === undefined) return;
+
+		const enabled = flocking !== false;
+		if (typeof flocking === 'object') {
+			simulation.setFlocking(flocking);
+			workerRef.current?.setFlocking(flocking);
+		}
+		simulation.pipeline.setEnabled(BUILT_IN_PHASE_NAMES.flocking, enabled);
+		workerRef.current?.setPhaseEnabled(BUILT_IN_PHASE_NAMES.flocking, enabled);
+	}, [flocking, simulation, workerRef]);
+}
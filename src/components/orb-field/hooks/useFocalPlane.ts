@@ -0,0 +1,105 @@
+"use client";
+
+// =============================================================================
+// useFocalPlane - Drives the depth-of-field focal plane
+// =============================================================================
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+	FocalPlane,
+	DEFAULT_DEPTH_OF_FIELD_CONFIG,
+	type DepthOfFieldConfig,
+	type FocusSource,
+	type OrbFocus,
+} from '../focus';
+
+/**
+ * Parameters for the focal plane hook.
+ */
+interface UseFocalPlaneParams {
+	/** What places the focal plane; null keeps blur growing with depth. */
+	source?: FocusSource | null;
+	/** Current scroll/swipe progress (for the 'scroll' source). */
+	scrollProgress: number;
+	/** Ref to the selected layer (for the 'layer' source). */
+	currentLayerRef: React.RefObject<number>;
+	/** Total number of z-layers (0 before the grid is ready). */
+	layers: number;
+	/** Aperture, scroll mapping and intro pull-focus. */
+	config?: DepthOfFieldConfig;
+	/** Skips the intro pull-focus. */
+	reducedMotion: boolean;
+}
+
+/**
+ * Return values from the focal plane hook.
+ */
+export interface UseFocalPlaneReturn {
+	/** Active source, for the debug menu (null = off). */
+	source: FocusSource | null;
+	/** Picks another source from the debug menu. */
+	setSource: (source: FocusSource | null) => void;
+	/**
+	 * Focal plane for a frame, or null when off. The first call starts the
+	 * intro pull-focus, so call it once the grid reveal has finished.
+	 */
+	resolveFocus: (now: number) => OrbFocus | null;
+}
+
+/**
+ * Resolves the focal plane each frame from scroll progress, the selected
+ * layer or a fixed depth, easing in from the intro depth the first time.
+ *
+ * The source prop wins whenever it changes; the debug menu can pick
+ * another source in between.
+ *
+ * Single Responsibility: Focal plane state only.
+ */
+export function useFocalPlane(params: UseFocalPlaneParams): UseFocalPlaneReturn {
+	const {
+		source = null,
+		scrollProgress,
+		currentLayerRef,
+		layers,
+		config = DEFAULT_DEPTH_OF_FIELD_CONFIG,
+		reducedMotion,
+	} = params;
+
+	// Follow the prop, but let the debug menu override it until it changes
+	const [activeSource, setActiveSource] = useState<FocusSource | null>(source);
+	const [prevSource, setPrevSource] = useState<FocusSource | null>(source);
+	if (source !== prevSource) {
+		setPrevSource(source);
+		setActiveSource(source);
+	}
+
+	const sourceRef = useRef(activeSource);
+	const scrollProgressRef = useRef(scrollProgress);
+	const layersRef = useRef(layers);
+	const introStartRef = useRef<number | null>(null);
+
+	useEffect(() => { sourceRef.current = activeSource; }, [activeSource]);
+	useEffect(() => { scrollProgressRef.current = scrollProgress; }, [scrollProgress]);
+	useEffect(() => { layersRef.current = layers; }, [layers]);
+
+	const resolveFocus = useCallback((now: number): OrbFocus | null => {
+		const current = sourceRef.current;
+		if (current === null) return null;
+
+		const target = FocalPlane.depthOf(current, {
+			scrollProgress: scrollProgressRef.current,
+			layer: currentLayerRef.current,
+			layers: layersRef.current,
+		}, config);
+
+		if (introStartRef.current === null) introStartRef.current = now;
+		const depth = reducedMotion ? target : FocalPlane.pullFocus(target, now - introStartRef.current, config);
+		return { depth, aperture: config.aperture };
+	}, [currentLayerRef, config, reducedMotion]);
+
+	return {
+		source: activeSource,
+		setSource: setActiveSource,
+		resolveFocus,
+	};
+}
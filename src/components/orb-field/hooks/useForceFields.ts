@@ -0,0 +1,120 @@
+"use client";
+
+// =============================================================================
+// useForceFields - Force field state shared by props, debug menu and canvas
+// =============================================================================
+
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import {
+	ForceFieldGeometry,
+	type ForceField,
+	type ForceFieldKind,
+	type ForceFieldHandle,
+} from '../force-field';
+
+/** Shared empty list so a missing prop keeps a stable identity. */
+const NO_FIELDS: readonly ForceField[] = [];
+
+/**
+ * Parameters for the force fields hook.
+ */
+interface UseForceFieldsParams {
+	/** Simulation the fields are applied to. */
+	simulation: OrbSimulation;
+	/** Active worker host; changes are forwarded to the worker simulation too. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	/**
+	 * Fields declared by the OrbField props. A new array replaces any fields
+	 * placed or moved in the debug menu, so memoize it in the parent.
+	 */
+	fields?: readonly ForceField[];
+}
+
+/**
+ * Return values from the force fields hook.
+ */
+export interface UseForceFieldsReturn {
+	/** Current force fields. */
+	forceFields: readonly ForceField[];
+	/** Ref mirror of forceFields for the render loop and pointer handlers. */
+	forceFieldsRef: React.RefObject<readonly ForceField[]>;
+	/** Kind of field the next canvas click places, or null when not placing. */
+	placingKind: ForceFieldKind | null;
+	/** Ref mirror of placingKind for pointer handlers. */
+	placingKindRef: React.RefObject<ForceFieldKind | null>;
+	/** Arms (or with null, disarms) placement of a field kind. */
+	setPlacingKind: (kind: ForceFieldKind | null) => void;
+	/** Places the armed kind at a physics-space position and disarms. */
+	placeForceField: (x: number, y: number) => void;
+	/** Moves a field handle to a physics-space position. */
+	moveForceField: (id: string, handle: ForceFieldHandle, x: number, y: number) => void;
+	/** Removes a field by ID. */
+	removeForceField: (id: string) => void;
+}
+
+/**
+ * Holds the force fields of an OrbField and keeps the simulation
+ * (and worker, when active) in sync with them.
+ *
+ * Single Responsibility: Force field state and editing only.
+ */
+export function useForceFields(params: UseForceFieldsParams): UseForceFieldsReturn {
+	const { simulation, workerRef, fields = NO_FIELDS } = params;
+
+	const [forceFields, setForceFields] = useState<readonly ForceField[]>(fields);
+	const [placingKind, setPlacingKind] = useState<ForceFieldKind | null>(null);
+	const forceFieldsRef = useRef<readonly ForceField[]>(fields);
+	const placingKindRef = useRef<ForceFieldKind | null>(null);
+	const nextIdRef = useRef(1);
+
+	// Reset to the declared fields whenever the prop changes
+	const [prevFields, setPrevFields] = useState(fields);
+	if (fields !== prevFields) {
+		setPrevFields(fields);
+		setForceFields(fields);
+	}
+
+	useEffect(() => {
+		forceFieldsRef.current = forceFields;
+		simulation.setForceFields(forceFields);
+		workerRef.current?.setForceFields(forceFields);
+	}, [forceFields, simulation, workerRef]);
+
+	useEffect(() => { placingKindRef.current = placingKind; }, [placingKind]);
+
+	const placeForceField = useCallback((x: number, y: number) => {
+		const kind = placingKindRef.current;
+		if (!kind) return;
+
+		// Skip IDs already taken by declared fields
+		let id: string;
+		do {
+			id = `field-${nextIdRef.current++}`;
+		} while (forceFieldsRef.current.some(field => field.id === id));
+		setForceFields(prev => [...prev, ForceFieldGeometry.create(kind, id, x, y)]);
+		setPlacingKind(null);
+	}, []);
+
+	const moveForceField = useCallback((id: string, handle: ForceFieldHandle, x: number, y: number) => {
+		setForceFields(prev => prev.map(field =>
+			field.id === id ? ForceFieldGeometry.moveHandle(field, handle, x, y) : field
+		));
+	}, []);
+
+	const removeForceField = useCallback((id: string) => {
+		setForceFields(prev => prev.filter(field => field.id !== id));
+	}, []);
+
+	return {
+		forceFields,
+		forceFieldsRef,
+		placingKind,
+		placingKindRef,
+		setPlacingKind,
+		placeForceField,
+		moveForceField,
+		removeForceField,
+	};
+}
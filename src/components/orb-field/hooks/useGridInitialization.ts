@@ -5,11 +5,10 @@
 // =============================================================================
 
 import { useEffect, useRef, useState } from 'react';
-import { GridConfigFactory } from '../grid/core/GridConfigFactory';
-import { ViewportCellsFactory } from '../grid/core/ViewportCellsFactory';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type GridConfig, type ViewportCells } from '../grid/types';
 import { type WindowSize } from '../shared/types';
+import { OrbSimulation } from '../simulation';
 
 /**
  * Parameters for the grid initialization hook.
@@ -17,6 +16,8 @@ import { type WindowSize } from '../shared/types';
 interface UseGridInitializationParams {
 	windowSize: WindowSize;
 	isMobile: boolean;
+	/** Simulation that owns the grid. */
+	simulation: OrbSimulation;
 }
 
 /**
@@ -30,12 +31,12 @@ export interface UseGridInitializationReturn {
 }
 
 /**
- * Handles grid configuration, creation, and viewport cell calculation.
+ * Configures the simulation grid for the current window and exposes it to React.
  * 
  * Single Responsibility: Grid initialization only.
  */
 export function useGridInitialization(params: UseGridInitializationParams): UseGridInitializationReturn {
-	const { windowSize, isMobile } = params;
+	const { windowSize, isMobile, simulation } = params;
 
 	const [gridConfig, setGridConfig] = useState<GridConfig | null>(null);
 	const [viewportCells, setViewportCells] = useState<ViewportCells | null>(null);
@@ -49,24 +50,21 @@ export function useGridInitialization(params: UseGridInitializationParams): UseG
 	useEffect(() => {
 		if (windowWidth === 0) return;
 
-		const config = GridConfigFactory.create(window, {
-			targetCellSizeCm: isMobile ? 0.25 : 0.5,
-		});
-		const newGrid = new SpatialGrid(config);
-		newGrid.initializeBorder();
-		// Save clean state for fast clearDynamic() - enables O(1) bulk memory copy
-		// instead of O(n) per-cell iteration through millions of cells
-		newGrid.saveCleanState();
-		const vpc = ViewportCellsFactory.create(config);
+		const config = simulation.configureViewport(
+			{ width: windowWidth, height: windowHeight },
+			window.devicePixelRatio || 1,
+			{ targetCellSizeCm: isMobile ? 0.25 : 0.5 }
+		);
+		const { grid, viewportCells: vpc } = simulation.getState();
 
-		gridRef.current = newGrid;
+		gridRef.current = grid;
 		viewportCellsRef.current = vpc;
 
 		queueMicrotask(() => {
 			setGridConfig(config);
 			setViewportCells(vpc);
 		});
-	}, [windowWidth, windowHeight, isMobile]);
+	}, [windowWidth, windowHeight, isMobile, simulation]);
 
 	return {
 		gridConfig,
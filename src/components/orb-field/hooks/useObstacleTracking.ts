@@ -0,0 +1,175 @@
+"use client";
+
+// =============================================================================
+// useObstacleTracking - Measures content obstacles from the DOM
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react';
+import { type OrbObstacle } from '../shared/types';
+
+/** Shared empty list returned while tracking is off. */
+const NO_OBSTACLES: readonly OrbObstacle[] = [];
+
+/** Events that start a CSS transition or animation. */
+const ANIMATION_START_EVENTS = ['transitionrun', 'animationstart'];
+
+/** Events that end a CSS transition or animation. */
+const ANIMATION_END_EVENTS = ['transitionend', 'transitioncancel', 'animationend', 'animationcancel'];
+
+/**
+ * Cached obstacle elements and their last measured boxes.
+ */
+interface ObstacleCache {
+	/** CSS selector of obstacle elements. */
+	selector: string;
+	/** Elements matching the selector at the last query. */
+	elements: Element[];
+	/** Boxes from the last measurement. */
+	obstacles: readonly OrbObstacle[];
+	/** True when a DOM change may have changed which elements match. */
+	elementsStale: boolean;
+	/** True when a resize, scroll or style change may have moved an element. */
+	rectsStale: boolean;
+	/** Elements with a CSS transition or animation in progress. */
+	animating: Set<Element>;
+	/** Observes the size of the cached elements. */
+	resizeObserver: ResizeObserver;
+}
+
+/**
+ * Options for the obstacle tracking hook.
+ */
+interface UseObstacleTrackingOptions {
+	/** CSS selector of obstacle elements, or null to disable obstacles. */
+	selector: string | null;
+}
+
+/**
+ * Return values from the obstacle tracking hook.
+ */
+export interface UseObstacleTrackingReturn {
+	/** Returns the current bounding boxes of all obstacle elements. */
+	measureObstacles: () => readonly OrbObstacle[];
+}
+
+/**
+ * Whether moving a node moves one of the cached obstacle elements.
+ */
+function containsObstacle(cache: ObstacleCache, node: Node): boolean {
+	return cache.elements.some((element) => node.contains(element));
+}
+
+/**
+ * Finds obstacle elements by selector and reads their bounding boxes.
+ *
+ * Called once per frame from the render loop, but only touches the DOM
+ * when an obstacle may have moved. The element list is queried again
+ * after DOM mutations. Boxes are measured again after resizes, scrolls
+ * and inline style changes on an obstacle or one of its ancestors (the
+ * card entry/exit animations and 3D wheel transforms are written that
+ * way), and on every frame while a CSS transition or animation runs on
+ * one. Otherwise the last boxes are reused. getBoundingClientRect
+ * returns the transformed box. Elements opt in by rendering the
+ * data-orb-obstacle attribute while visible.
+ *
+ * Single Responsibility: DOM obstacle measurement only.
+ */
+export function useObstacleTracking(options: UseObstacleTrackingOptions): UseObstacleTrackingReturn {
+	const { selector } = options;
+	const cacheRef = useRef<ObstacleCache | null>(null);
+
+	useEffect(() => {
+		if (!selector || typeof document === 'undefined') return;
+
+		const markRectsStale = () => {
+			cache.rectsStale = true;
+		};
+		const cache: ObstacleCache = {
+			selector,
+			elements: [],
+			obstacles: NO_OBSTACLES,
+			elementsStale: true,
+			rectsStale: true,
+			animating: new Set(),
+			resizeObserver: new ResizeObserver(markRectsStale),
+		};
+
+		// Inline style writes only matter when they move an obstacle; any other
+		// change (nodes, classes, the opt-in attribute) may change the matches
+		const mutationObserver = new MutationObserver((records) => {
+			for (const record of records) {
+				if (record.type !== 'attributes' || record.attributeName !== 'style') {
+					cache.elementsStale = true;
+				} else if (containsObstacle(cache, record.target)) {
+					cache.rectsStale = true;
+				}
+			}
+		});
+		mutationObserver.observe(document.documentElement, { childList: true, subtree: true, attributes: true });
+
+		const handleAnimationStart = (event: Event) => {
+			if (event.target instanceof Element) cache.animating.add(event.target);
+		};
+		const handleAnimationEnd = (event: Event) => {
+			if (!(event.target instanceof Element)) return;
+			cache.animating.delete(event.target);
+			if (containsObstacle(cache, event.target)) cache.rectsStale = true;
+		};
+
+		window.addEventListener('resize', markRectsStale);
+		window.addEventListener('scroll', markRectsStale, { capture: true, passive: true });
+		for (const type of ANIMATION_START_EVENTS) document.addEventListener(type, handleAnimationStart, true);
+		for (const type of ANIMATION_END_EVENTS) document.addEventListener(type, handleAnimationEnd, true);
+		cacheRef.current = cache;
+
+		return () => {
+			cacheRef.current = null;
+			mutationObserver.disconnect();
+			cache.resizeObserver.disconnect();
+			window.removeEventListener('resize', markRectsStale);
+			window.removeEventListener('scroll', markRectsStale, { capture: true });
+			for (const type of ANIMATION_START_EVENTS) document.removeEventListener(type, handleAnimationStart, true);
+			for (const type of ANIMATION_END_EVENTS) document.removeEventListener(type, handleAnimationEnd, true);
+		};
+	}, [selector]);
+
+	const measureObstacles = useCallback((): readonly OrbObstacle[] => {
+		const cache = cacheRef.current;
+		if (!cache) return NO_OBSTACLES;
+
+		if (cache.elementsStale) {
+			cache.elements = Array.from(document.querySelectorAll(cache.selector));
+			cache.resizeObserver.disconnect();
+			for (const element of cache.elements) cache.resizeObserver.observe(element);
+			// Removed elements never fire their end event
+			for (const element of cache.animating) {
+				if (!element.isConnected) cache.animating.delete(element);
+			}
+			cache.elementsStale = false;
+			cache.rectsStale = true;
+		}
+
+		let isAnimating = false;
+		for (const element of cache.animating) {
+			if (containsObstacle(cache, element)) {
+				isAnimating = true;
+				break;
+			}
+		}
+		if (!cache.rectsStale && !isAnimating) return cache.obstacles;
+
+		const obstacles: OrbObstacle[] = [];
+		for (const element of cache.elements) {
+			const rect = element.getBoundingClientRect();
+			if (rect.width <= 0 || rect.height <= 0) continue;
+			obstacles.push({ x: rect.left, y: rect.top, width: rect.width, height: rect.height });
+		}
+		cache.obstacles = obstacles;
+		cache.rectsStale = false;
+		return obstacles;
+	}, []);
+
+	return {
+		measureObstacles,
+	};
+}
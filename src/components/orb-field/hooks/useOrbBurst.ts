@@ -5,9 +5,8 @@
 // =============================================================================
 
 import { useEffect, useRef } from 'react';
-import { SpatialGrid } from '../grid/core/SpatialGrid';
-import { type ViewportCells } from '../grid/types';
-import { type WindowSize } from '../shared/types';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
 
 /**
  * Parameters for orb burst hook.
@@ -15,82 +14,52 @@ import { type WindowSize } from '../shared/types';
 interface UseOrbBurstParams {
 	/** When true, triggers the orb burst explosion. */
 	triggerBurst: boolean;
-	/** Function to spawn burst of orbs. */
-	spawnOrbBurst: (centerX: number, centerY: number, grid: SpatialGrid, vpc: ViewportCells) => void;
-	/** Current window dimensions. */
-	windowSize: WindowSize;
+	/** Simulation to spawn the burst into. */
+	simulation: OrbSimulation;
 	/** Ref to current scroll offset. */
 	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
-	/** Ref to spatial grid. */
-	gridRef: React.RefObject<SpatialGrid | null>;
-	/** Ref to viewport cells. */
-	viewportCellsRef: React.RefObject<ViewportCells | null>;
-}
-
-/**
- * Return values from orb burst hook.
- */
-export interface UseOrbBurstReturn {
-	/** Ref to time when burst occurred (or null). */
-	burstTimeRef: React.RefObject<number | null>;
+	/** Active worker host; when set, the burst is spawned in the worker. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
 }
 
 /**
  * Handles orb burst triggering with retry logic.
- * 
+ * Waits until the simulation grid is configured, then bursts at the
+ * screen center (adjusted for parallax offset).
+ *
  * Single Responsibility: Burst trigger management only.
  */
-export function useOrbBurst(params: UseOrbBurstParams): UseOrbBurstReturn {
+export function useOrbBurst(params: UseOrbBurstParams): void {
 	const {
 		triggerBurst,
-		spawnOrbBurst,
-		windowSize,
+		simulation,
 		currentScrollOffsetRef,
-		gridRef,
-		viewportCellsRef,
+		workerRef,
 	} = params;
 
-	const burstTimeRef = useRef<number | null>(null);
 	const hasBurstRef = useRef(false);
 
-	// Use refs for potentially unstable dependencies to prevent effect re-runs
-	const spawnOrbBurstRef = useRef(spawnOrbBurst);
-	const windowSizeRef = useRef(windowSize);
-
-	// Keep refs up to date
-	useEffect(() => {
-		spawnOrbBurstRef.current = spawnOrbBurst;
-	}, [spawnOrbBurst]);
-
-	useEffect(() => {
-		windowSizeRef.current = windowSize;
-	}, [windowSize]);
-
 	useEffect(() => {
 		if (!triggerBurst || hasBurstRef.current) return;
 
 		const checkAndBurst = () => {
 			if (hasBurstRef.current) return;
 
-			const grid = gridRef.current;
-			const vpc = viewportCellsRef.current;
-			const ws = windowSizeRef.current;
-
-			if (grid && vpc && ws.width > 0) {
+			if (simulation.isReady) {
 				hasBurstRef.current = true;
-				const centerX = (ws.width / 2) - currentScrollOffsetRef.current!.x;
-				const centerY = (ws.height / 2) - currentScrollOffsetRef.current!.y;
-				spawnOrbBurstRef.current(centerX, centerY, grid, vpc);
-				burstTimeRef.current = performance.now();
+				const state = simulation.getState();
+				const centerX = (state.windowSize.width / 2) - currentScrollOffsetRef.current!.x;
+				const centerY = (state.windowSize.height / 2) - currentScrollOffsetRef.current!.y;
+				if (workerRef.current) {
+					workerRef.current.spawnBurst(centerX, centerY, state);
+				} else {
+					simulation.spawnBurst(centerX, centerY);
+				}
 			} else {
 				requestAnimationFrame(checkAndBurst);
 			}
 		};
 
 		checkAndBurst();
-	}, [triggerBurst, currentScrollOffsetRef, gridRef, viewportCellsRef]);
-
-	return {
-		burstTimeRef,
-	};
+	}, [triggerBurst, simulation, currentScrollOffsetRef, workerRef]);
 }
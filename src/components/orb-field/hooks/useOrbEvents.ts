@@ -0,0 +1,51 @@
+"use client";
+
+// =============================================================================
+// useOrbEvents - Subscribes event handler props to the simulation event bus
+// =============================================================================
+
+import { useEffect, useRef } from 'react';
+import { type OrbEventBus, type OrbFieldEventHandlers, type OrbFieldEventType } from '../events';
+
+/**
+ * Parameters for the orb events hook.
+ */
+interface UseOrbEventsParams {
+	/** Event bus to subscribe to. */
+	events: OrbEventBus;
+	/** Listener per event type; may be a new object on every render. */
+	handlers?: OrbFieldEventHandlers;
+}
+
+/**
+ * Registers one listener per handled event type and calls the latest
+ * handler through a ref, so inline handler objects do not resubscribe
+ * on every render. Only handled types are registered, which keeps
+ * unobserved events free in the physics loop.
+ *
+ * Single Responsibility: Event handler subscription only.
+ */
+export function useOrbEvents(params: UseOrbEventsParams): void {
+	const { events, handlers } = params;
+
+	const handlersRef = useRef(handlers);
+	useEffect(() => { handlersRef.current = handlers; }, [handlers]);
+
+	// Resubscribe only when the set of handled types changes
+	const handledTypes = handlers
+		? (Object.keys(handlers) as OrbFieldEventType[]).filter(type => handlers[type]).sort().join(',')
+		: '';
+
+	useEffect(() => {
+		if (!handledTypes) return;
+
+		const unsubscribes = (handledTypes.split(',') as OrbFieldEventType[]).map(type =>
+			events.on(type, (event) => {
+				(handlersRef.current?.[type] as ((event: unknown) => void) | undefined)?.(event);
+			})
+		);
+		return () => {
+			for (const unsubscribe of unsubscribes) unsubscribe();
+		};
+	}, [events, handledTypes]);
+}
@@ -7,6 +7,9 @@
 import { useCallback, useState, useRef } from 'react';
 import { type GridConfig, type ViewportCells } from '../grid/types';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type ParallaxDepthCurve } from '../shared/config';
+import { ParallaxDepth } from '../shared/parallax';
+import { ForceFieldGeometry, type ForceField, type ForceFieldKind, type ForceFieldHandle } from '../force-field';
 
 /**
  * Parameters for the interaction handlers hook.
@@ -19,9 +22,14 @@ interface UseOrbFieldInteractionsParams {
 	orbSize: number;
 	isDebugMode: boolean;
 	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
+	parallaxDepthRef: React.RefObject<ParallaxDepthCurve>;
 	enableSpawnOnClickRef: React.RefObject<boolean>;
-	createOrb: (pxX: number, pxY: number, layer: number, size: number, grid: SpatialGrid, vpc: ViewportCells) => void;
-	deleteOrb: (id: string, grid: SpatialGrid, vpc: ViewportCells) => void;
+	createOrb: (pxX: number, pxY: number, layer: number, size: number) => void;
+	deleteOrb: (id: string) => void;
+	forceFieldsRef: React.RefObject<readonly ForceField[]>;
+	placingForceFieldRef: React.RefObject<ForceFieldKind | null>;
+	placeForceField: (x: number, y: number) => void;
+	moveForceField: (id: string, handle: ForceFieldHandle, x: number, y: number) => void;
 }
 
 /**
@@ -32,6 +40,8 @@ export interface UseOrbFieldInteractionsReturn {
 	hoveredCellRef: React.RefObject<{ x: number; y: number; worldX: number; worldY: number } | null>;
 	handleMouseMove: (e: React.MouseEvent) => void;
 	handleClick: (e: React.MouseEvent) => void;
+	handleMouseDown: (e: React.MouseEvent) => void;
+	handleMouseUp: () => void;
 	handleMouseLeave: () => void;
 	handleTouchStart: (e: React.TouchEvent) => void;
 	handleTouchMove: (e: React.TouchEvent) => void;
@@ -53,21 +63,57 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 		orbSize,
 		isDebugMode,
 		currentScrollOffsetRef,
+		parallaxDepthRef,
 		enableSpawnOnClickRef,
 		createOrb,
 		deleteOrb,
+		forceFieldsRef,
+		placingForceFieldRef,
+		placeForceField,
+		moveForceField,
 	} = params;
 
 	const [hoveredCell, setHoveredCell] = useState<{ x: number; y: number; worldX: number; worldY: number } | null>(null);
 	const hoveredCellRef = useRef<{ x: number; y: number; worldX: number; worldY: number } | null>(null);
 
+	// Force field handle being dragged, and whether the drag moved it
+	const draggingFieldRef = useRef<{ id: string; handle: ForceFieldHandle } | null>(null);
+	const didDragFieldRef = useRef(false);
+
+	// Screen to physics space at the current layer's parallax, where the grid,
+	// force fields and click-spawned orbs are drawn
+	const toPhysics = useCallback((clientX: number, clientY: number) => {
+		const offset = currentScrollOffsetRef.current;
+		const layers = gridRef.current?.config.layers ?? 1;
+		const scale = ParallaxDepth.scaleAt(currentLayerRef.current, layers, parallaxDepthRef.current);
+		return { x: clientX - offset.x * scale, y: clientY - offset.y * scale };
+	}, [currentScrollOffsetRef, gridRef, currentLayerRef, parallaxDepthRef]);
+
+	const handleMouseDown = useCallback((e: React.MouseEvent) => {
+		if (!isDebugMode) return;
+
+		const { x: adjustedX, y: adjustedY } = toPhysics(e.clientX, e.clientY);
+		draggingFieldRef.current = ForceFieldGeometry.hitTest(forceFieldsRef.current, adjustedX, adjustedY);
+		didDragFieldRef.current = false;
+	}, [isDebugMode, toPhysics, forceFieldsRef]);
+
+	const handleMouseUp = useCallback(() => {
+		draggingFieldRef.current = null;
+	}, []);
+
 	const handleMouseMove = useCallback((e: React.MouseEvent) => {
 		const vpc = viewportCellsRef.current;
 		const gc = gridConfig;
 		if (!vpc || !gc || !isDebugMode) return;
 
-		const adjustedX = e.clientX - currentScrollOffsetRef.current.x;
-		const adjustedY = e.clientY - currentScrollOffsetRef.current.y;
+		const { x: adjustedX, y: adjustedY } = toPhysics(e.clientX, e.clientY);
+
+		const dragging = draggingFieldRef.current;
+		if (dragging) {
+			moveForceField(dragging.id, dragging.handle, adjustedX, adjustedY);
+			didDragFieldRef.current = true;
+		}
+
 		const cellX = vpc.startCellX + Math.floor(adjustedX / vpc.cellSizeXPx);
 		const cellY = vpc.startCellY + Math.floor(adjustedY / vpc.cellSizeYPx);
 
@@ -80,26 +126,37 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 
 		hoveredCellRef.current = cellInfo;
 		setHoveredCell(cellInfo);
-	}, [gridConfig, isDebugMode, currentScrollOffsetRef, viewportCellsRef]);
+	}, [gridConfig, isDebugMode, toPhysics, viewportCellsRef, moveForceField]);
 
 	const handleClick = useCallback((e: React.MouseEvent) => {
+		// A click ending a handle drag should not also spawn an orb
+		if (didDragFieldRef.current) {
+			didDragFieldRef.current = false;
+			return;
+		}
+
 		const vpc = viewportCellsRef.current;
 		const grid = gridRef.current;
-		if (!grid || !vpc || !isDebugMode || !enableSpawnOnClickRef.current) return;
+		if (!grid || !vpc || !isDebugMode) return;
+
+		const { x: adjustedX, y: adjustedY } = toPhysics(e.clientX, e.clientY);
+
+		// Placing a force field takes priority over spawning
+		if (placingForceFieldRef.current) {
+			placeForceField(adjustedX, adjustedY);
+			return;
+		}
 
-		const adjustedX = e.clientX - currentScrollOffsetRef.current.x;
-		const adjustedY = e.clientY - currentScrollOffsetRef.current.y;
-		createOrb(adjustedX, adjustedY, currentLayerRef.current, orbSize, grid, vpc);
-	}, [orbSize, createOrb, isDebugMode, currentScrollOffsetRef, enableSpawnOnClickRef, viewportCellsRef, gridRef, currentLayerRef]);
+		if (!enableSpawnOnClickRef.current) return;
+		createOrb(adjustedX, adjustedY, currentLayerRef.current, orbSize);
+	}, [orbSize, createOrb, isDebugMode, toPhysics, enableSpawnOnClickRef, viewportCellsRef, gridRef, currentLayerRef, placingForceFieldRef, placeForceField]);
 
 	const handleDeleteOrb = useCallback((id: string) => {
-		const grid = gridRef.current;
-		const vpc = viewportCellsRef.current;
-		if (!grid || !vpc) return;
-		deleteOrb(id, grid, vpc);
-	}, [deleteOrb, gridRef, viewportCellsRef]);
+		deleteOrb(id);
+	}, [deleteOrb]);
 
 	const handleMouseLeave = useCallback(() => {
+		draggingFieldRef.current = null;
 		hoveredCellRef.current = null;
 		setHoveredCell(null);
 	}, []);
@@ -111,8 +168,7 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 
 		if (e.touches.length > 0) {
 			const touch = e.touches[0];
-			const adjustedX = touch.clientX - currentScrollOffsetRef.current.x;
-			const adjustedY = touch.clientY - currentScrollOffsetRef.current.y;
+			const { x: adjustedX, y: adjustedY } = toPhysics(touch.clientX, touch.clientY);
 
 			if (gridConfig) {
 				const cellX = vpc.startCellX + Math.floor(adjustedX / vpc.cellSizeXPx);
@@ -127,11 +183,13 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 				setHoveredCell(cellInfo);
 			}
 
-			if (enableSpawnOnClickRef.current) {
-				createOrb(adjustedX, adjustedY, currentLayerRef.current, orbSize, grid, vpc);
+			if (placingForceFieldRef.current) {
+				placeForceField(adjustedX, adjustedY);
+			} else if (enableSpawnOnClickRef.current) {
+				createOrb(adjustedX, adjustedY, currentLayerRef.current, orbSize);
 			}
 		}
-	}, [orbSize, createOrb, isDebugMode, gridConfig, currentScrollOffsetRef, enableSpawnOnClickRef, viewportCellsRef, gridRef, currentLayerRef]);
+	}, [orbSize, createOrb, isDebugMode, gridConfig, toPhysics, enableSpawnOnClickRef, viewportCellsRef, gridRef, currentLayerRef, placingForceFieldRef, placeForceField]);
 
 	const handleTouchMove = useCallback((e: React.TouchEvent) => {
 		const vpc = viewportCellsRef.current;
@@ -140,8 +198,7 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 
 		if (e.touches.length > 0) {
 			const touch = e.touches[0];
-			const adjustedX = touch.clientX - currentScrollOffsetRef.current.x;
-			const adjustedY = touch.clientY - currentScrollOffsetRef.current.y;
+			const { x: adjustedX, y: adjustedY } = toPhysics(touch.clientX, touch.clientY);
 			const cellX = vpc.startCellX + Math.floor(adjustedX / vpc.cellSizeXPx);
 			const cellY = vpc.startCellY + Math.floor(adjustedY / vpc.cellSizeYPx);
 			const cellInfo = {
@@ -153,7 +210,7 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 			hoveredCellRef.current = cellInfo;
 			setHoveredCell(cellInfo);
 		}
-	}, [gridConfig, isDebugMode, currentScrollOffsetRef, viewportCellsRef]);
+	}, [gridConfig, isDebugMode, toPhysics, viewportCellsRef]);
 
 	const handleTouchEnd = useCallback(() => {
 		hoveredCellRef.current = null;
@@ -165,6 +222,8 @@ export function useOrbFieldInteractions(params: UseOrbFieldInteractionsParams):
 		hoveredCellRef,
 		handleMouseMove,
 		handleClick,
+		handleMouseDown,
+		handleMouseUp,
 		handleMouseLeave,
 		handleTouchStart,
 		handleTouchMove,
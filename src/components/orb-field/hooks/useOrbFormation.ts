@@ -0,0 +1,130 @@
+"use client";
+
+// =============================================================================
+// useOrbFormation - Resolves formation requests and hands them to the simulation
+// =============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import {
+	FormationSampler,
+	DEFAULT_FORMATION_CONFIG,
+	type FormationRequest,
+	type OrbFormation,
+} from '../formation';
+import { type ParallaxDepthCurve } from '../shared/config';
+import { ParallaxDepth } from '../shared/parallax';
+
+/**
+ * Parameters for the orb formation hook.
+ */
+interface UseOrbFormationParams {
+	/** Simulation the formation runs in. */
+	simulation: OrbSimulation;
+	/** Active worker host; formations are forwarded to the worker simulation too. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	/** Ref to current scroll offset (converts viewport targets to physics space). */
+	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
+	/** Ref to the per-layer scale of the scroll offset. */
+	parallaxDepthRef: React.RefObject<ParallaxDepthCurve>;
+	/**
+	 * Formation declared by the OrbField props. A new object starts a new
+	 * formation and null releases the orbs, so memoize it in the parent.
+	 */
+	request?: FormationRequest | null;
+}
+
+/**
+ * Return values from the orb formation hook.
+ */
+export interface UseOrbFormationReturn {
+	/** Formation most recently requested, or null when released. */
+	formation: FormationRequest | null;
+	/** Starts a formation, replacing the current one. */
+	formShape: (request: FormationRequest) => void;
+	/** Releases orbs back into free wander. */
+	releaseFormation: () => void;
+}
+
+/**
+ * Samples the requested shape into target points once the simulation is
+ * ready (loading images first), converts them from viewport to physics
+ * space and starts the formation. Targets use the parallax of the
+ * formation's layer, or the unscaled offset when orbs keep their depth.
+ *
+ * Single Responsibility: Formation request resolution only.
+ */
+export function useOrbFormation(params: UseOrbFormationParams): UseOrbFormationReturn {
+	const { simulation, workerRef, currentScrollOffsetRef, parallaxDepthRef, request = null } = params;
+
+	const [formation, setFormation] = useState<FormationRequest | null>(request);
+
+	// Follow the declared formation whenever the prop changes
+	const [prevRequest, setPrevRequest] = useState(request);
+	if (request !== prevRequest) {
+		setPrevRequest(request);
+		setFormation(request);
+	}
+
+	useEffect(() => {
+		const apply = (resolved: OrbFormation | null) => {
+			simulation.setFormation(resolved);
+			workerRef.current?.setFormation(resolved);
+		};
+
+		if (!formation) {
+			apply(null);
+			return;
+		}
+
+		let cancelled = false;
+		let frameId = 0;
+
+		const resolve = (image: HTMLImageElement | null) => {
+			if (cancelled) return;
+
+			// Wait for the grid so the default box has a viewport to fit
+			if (!simulation.isReady) {
+				frameId = requestAnimationFrame(() => resolve(image));
+				return;
+			}
+
+			const { windowSize, orbs, grid } = simulation.getState();
+			const { coverage, fallbackMaxPoints } = DEFAULT_FORMATION_CONFIG;
+			const box = formation.box ?? FormationSampler.defaultBox(windowSize);
+			const maxPoints = orbs.length > 0 ? Math.floor(orbs.length * coverage) : fallbackMaxPoints;
+			const offset = currentScrollOffsetRef.current!;
+			const scale = formation.layer === undefined || !grid
+				? 1
+				: ParallaxDepth.scaleAt(formation.layer, grid.config.layers, parallaxDepthRef.current!);
+
+			const points = FormationSampler.sample(formation.shape, box, maxPoints, image)
+				.map(point => ({ x: point.x - offset.x * scale, y: point.y - offset.y * scale }));
+			apply({ points, layer: formation.layer, holdMs: formation.holdMs });
+		};
+
+		if (formation.shape.kind === 'image') {
+			FormationSampler.loadImage(formation.shape.src).then(resolve, () => {
+				// Unloadable image: nothing to form
+			});
+		} else {
+			resolve(null);
+		}
+
+		return () => {
+			cancelled = true;
+			cancelAnimationFrame(frameId);
+		};
+	}, [formation, simulation, workerRef, currentScrollOffsetRef, parallaxDepthRef]);
+
+	const formShape = useCallback((next: FormationRequest) => {
+		setFormation(next);
+	}, []);
+
+	const releaseFormation = useCallback(() => {
+		setFormation(null);
+	}, []);
+
+	return { formation, formShape, releaseFormation };
+}
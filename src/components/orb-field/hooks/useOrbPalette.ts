@@ -0,0 +1,118 @@
+"use client";
+
+// =============================================================================
+// useOrbPalette - Active palette and runtime crossfades
+// =============================================================================
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+	OrbPalettes,
+	DEFAULT_PALETTE_CONFIG,
+	DEFAULT_ORB_PALETTE,
+	ORB_PALETTES,
+	type OrbPalette,
+	type OrbPaletteBlend,
+	type OrbPaletteChoice,
+	type OrbPaletteConfig,
+} from '../palette';
+
+/** CSS custom property holding the accent colour's RGB channels. */
+const ACCENT_PROPERTY = '--color-accent-rgb';
+
+/**
+ * Parameters for the palette hook.
+ */
+interface UseOrbPaletteParams {
+	/**
+	 * Palette choice; null keeps species colours. Custom palettes should be
+	 * stable objects, as a new object restarts the crossfade.
+	 */
+	palette?: OrbPaletteChoice;
+	/** Crossfade timing and colour slots. */
+	config?: OrbPaletteConfig;
+	/** Switches palettes without a crossfade. */
+	reducedMotion: boolean;
+}
+
+/**
+ * Return values from the palette hook.
+ */
+export interface UseOrbPaletteReturn {
+	/** Active choice, for the debug menu. */
+	palette: OrbPaletteChoice;
+	/** Picks another palette from the debug menu. */
+	setPalette: (palette: OrbPaletteChoice) => void;
+	/** Palette for the grid and accents (the default palette while orbs keep species colours). */
+	themePalette: OrbPalette;
+	/** Palettes to draw orbs with at a time; null while orbs keep species colours. */
+	resolvePalette: (now: number) => OrbPaletteBlend | null;
+}
+
+/**
+ * Tracks the active palette, crossfades orbs into it when it changes,
+ * and publishes its accent colour to CSS for the glass and debug UI.
+ *
+ * The palette prop wins whenever it changes; the debug menu can pick
+ * another palette in between.
+ *
+ * Single Responsibility: Palette state only.
+ */
+export function useOrbPalette(params: UseOrbPaletteParams): UseOrbPaletteReturn {
+	const {
+		palette = null,
+		config = DEFAULT_PALETTE_CONFIG,
+		reducedMotion,
+	} = params;
+
+	// Follow the prop, but let the debug menu override it until it changes
+	const [activeChoice, setActiveChoice] = useState<OrbPaletteChoice>(palette);
+	const [prevPalette, setPrevPalette] = useState<OrbPaletteChoice>(palette);
+	if (palette !== prevPalette) {
+		setPrevPalette(palette);
+		setActiveChoice(palette);
+	}
+
+	const active = useMemo(() => OrbPalettes.resolve(activeChoice), [activeChoice]);
+	const themePalette = active ?? ORB_PALETTES[DEFAULT_ORB_PALETTE];
+
+	const fromRef = useRef<OrbPalette | null>(active);
+	const toRef = useRef<OrbPalette | null>(active);
+	const fadeStartRef = useRef<number | null>(null);
+
+	// Fade from whatever was last faded in; the clock starts on the next frame
+	useEffect(() => {
+		if (active === toRef.current) return;
+		fromRef.current = reducedMotion ? active : toRef.current;
+		toRef.current = active;
+		fadeStartRef.current = null;
+	}, [active, reducedMotion]);
+
+	// Glass and debug accents follow the palette
+	useEffect(() => {
+		const root = document.documentElement;
+		root.style.setProperty(ACCENT_PROPERTY, OrbPalettes.cssChannels(themePalette.accentColor));
+		return () => {
+			root.style.removeProperty(ACCENT_PROPERTY);
+		};
+	}, [themePalette]);
+
+	const resolvePalette = useCallback((now: number): OrbPaletteBlend | null => {
+		const from = fromRef.current;
+		const to = toRef.current;
+		if (from === to) return to ? { from: to, to, progress: 1 } : null;
+
+		if (fadeStartRef.current === null) fadeStartRef.current = now;
+		const progress = config.crossfadeMs > 0
+			? Math.min(1, (now - fadeStartRef.current) / config.crossfadeMs)
+			: 1;
+		if (progress >= 1) fromRef.current = to;
+		return { from, to, progress };
+	}, [config]);
+
+	return {
+		palette: activeChoice,
+		setPalette: setActiveChoice,
+		themePalette,
+		resolvePalette,
+	};
+}
@@ -0,0 +1,77 @@
+"use client";
+
+// =============================================================================
+// useOrbRenderer - Owns the renderer drawing the visual orb canvas
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react';
+import { OrbRendererFactory, type OrbRenderer, type OrbRendererBackend } from '../orb/renderers';
+
+/**
+ * Parameters for the orb renderer hook.
+ */
+interface UseOrbRendererParams {
+	/** Preferred backend; Canvas2D is used if it cannot start. */
+	backend: OrbRendererBackend;
+}
+
+/**
+ * Return values from the orb renderer hook.
+ */
+export interface UseOrbRendererReturn {
+	/**
+	 * Returns the renderer for a canvas, creating it on first use.
+	 * Null while the renderer loads or if the canvas has no usable context.
+	 */
+	getRenderer: (canvas: HTMLCanvasElement) => OrbRenderer | null;
+}
+
+/**
+ * Renderer for one canvas and backend.
+ */
+interface RendererSlot {
+	canvas: HTMLCanvasElement;
+	backend: OrbRendererBackend;
+	renderer: OrbRenderer | null;
+}
+
+/**
+ * Creates the orb renderer lazily from the render loop, so a canvas handed
+ * to the worker never gets a context here. A new canvas or backend
+ * disposes the previous renderer; a canvas keeps its context type, so
+ * the visual canvas must be remounted when the backend changes.
+ *
+ * Single Responsibility: Renderer lifecycle only.
+ */
+export function useOrbRenderer(params: UseOrbRendererParams): UseOrbRendererReturn {
+	const { backend } = params;
+	const slotRef = useRef<RendererSlot | null>(null);
+
+	const getRenderer = useCallback((canvas: HTMLCanvasElement): OrbRenderer | null => {
+		const current = slotRef.current;
+		if (current && current.canvas === canvas && current.backend === backend) return current.renderer;
+
+		current?.renderer?.dispose();
+		const slot: RendererSlot = { canvas, backend, renderer: null };
+		slotRef.current = slot;
+
+		OrbRendererFactory.create(canvas, backend).then((renderer) => {
+			if (slotRef.current === slot) {
+				slot.renderer = renderer;
+			} else {
+				renderer?.dispose();
+			}
+		});
+		return null;
+	}, [backend]);
+
+	// Release the renderer on unmount
+	useEffect(() => () => {
+		slotRef.current?.renderer?.dispose();
+		slotRef.current = null;
+	}, []);
+
+	return {
+		getRenderer,
+	};
+}
@@ -0,0 +1,113 @@
+"use client";
+
+// =============================================================================
+// useOrbWorker - Optional off-main-thread simulation and orb rendering
+// =============================================================================
+
+import { useEffect, useRef, useState } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+
+/**
+ * Parameters for the orb worker hook.
+ */
+interface UseOrbWorkerParams {
+	/** Whether worker mode is requested and the visual canvas is mounted. */
+	enabled: boolean;
+	/** Visual canvas handed to the worker via transferControlToOffscreen. */
+	visualCanvasRef: React.RefObject<HTMLCanvasElement | null>;
+	/** Main-thread simulation, kept as a mirror of worker snapshots. */
+	simulation: OrbSimulation;
+	/** Ref set to the active worker host, or null for the main-thread path. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+}
+
+/**
+ * Return values from the orb worker hook.
+ */
+export interface UseOrbWorkerReturn {
+	/** True once a worker failed; the visual canvas must be remounted for the main thread. */
+	failed: boolean;
+	/** True while a worker loads; the visual canvas must not be drawn on until then. */
+	workerPendingRef: React.RefObject<boolean>;
+}
+
+/**
+ * Starts the orb worker when enabled and supported.
+ *
+ * While a worker is active, workerRef holds its host and the main-thread
+ * simulation only mirrors worker snapshots (for debug panels and grid
+ * overlays). Events the main simulation has listeners for are forwarded
+ * from the worker and re-emitted on its event bus. Without OffscreenCanvas
+ * support workerRef stays null and the main-thread path runs unchanged.
+ *
+ * workerRef is only set once the worker has loaded and taken the canvas.
+ * If the worker fails to load or errors later, failed turns true and the
+ * main-thread path takes over from the last mirrored snapshot. Turning the
+ * hook off clears failed, so the next enable tries a worker again.
+ *
+ * Single Responsibility: Worker lifecycle and snapshot mirroring only.
+ */
+export function useOrbWorker(params: UseOrbWorkerParams): UseOrbWorkerReturn {
+	const { enabled, visualCanvasRef, simulation, workerRef } = params;
+
+	const [failed, setFailed] = useState(false);
+	const workerPendingRef = useRef(false);
+
+	// Retry after a failure once worker mode is switched off and on again
+	const [prevEnabled, setPrevEnabled] = useState(enabled);
+	if (enabled !== prevEnabled) {
+		setPrevEnabled(enabled);
+		if (!enabled) setFailed(false);
+	}
+
+	useEffect(() => {
+		const canvas = visualCanvasRef.current;
+		if (!enabled || failed || !canvas || !OrbWorkerHost.isSupported()) return;
+
+		const host = OrbWorkerHost.acquire(canvas, () => simulation.getState());
+		if (!host) return;
+
+		let unsubscribeEventTypes: (() => void) | null = null;
+		const activate = () => {
+			workerPendingRef.current = false;
+			host.setEventTypes(simulation.events.getListenedTypes());
+			unsubscribeEventTypes = simulation.events.subscribe(() => {
+				host.setEventTypes(simulation.events.getListenedTypes());
+			});
+			workerRef.current = host;
+		};
+
+		host.onSnapshot = (orbs) => {
+			simulation.replaceOrbs(orbs);
+			simulation.markGrid();
+		};
+		host.onEvents = (events) => {
+			for (const event of events) simulation.events.dispatch(event);
+		};
+		host.onReady = activate;
+		host.onError = () => {
+			unsubscribeEventTypes?.();
+			unsubscribeEventTypes = null;
+			workerPendingRef.current = false;
+			workerRef.current = null;
+			setFailed(true);
+		};
+
+		if (host.isReady) activate();
+		else workerPendingRef.current = true;
+
+		return () => {
+			unsubscribeEventTypes?.();
+			host.onSnapshot = null;
+			host.onEvents = null;
+			host.onReady = null;
+			host.onError = null;
+			workerPendingRef.current = false;
+			workerRef.current = null;
+			host.release();
+		};
+	}, [enabled, failed, visualCanvasRef, simulation, workerRef]);
+
+	return { failed, workerPendingRef };
+}
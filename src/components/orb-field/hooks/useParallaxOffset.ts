@@ -5,14 +5,16 @@
 // =============================================================================
 
 import { useEffect, useRef, useCallback, useMemo, useState } from 'react';
-import { DEFAULT_PARALLAX_CONFIG, type ParallaxConfig } from '../shared/config';
+import { DEFAULT_PARALLAX_CONFIG, type ParallaxConfig, type ParallaxDepthCurve } from '../shared/config';
 
 /**
  * Return type for the parallax offset hook.
  */
 export interface UseParallaxOffsetReturn {
-	/** Ref to current smoothly interpolated offset values { x, y }. */
+	/** Ref to current smoothly interpolated offset values { x, y }, before per-layer scaling. */
 	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
+	/** Ref to the per-layer scale of the offset. */
+	parallaxDepthRef: React.RefObject<ParallaxDepthCurve>;
 	/** Function to update offset - call this from the main render loop each frame. */
 	updateParallaxOffset: () => void;
 }
@@ -20,6 +22,8 @@ export interface UseParallaxOffsetReturn {
 /**
  * Manages parallax offset calculations for smooth grid/orb movement.
  * Combines scroll progress and device tilt into smoothly interpolated offsets.
+ * Each layer moves by its share of the offset, from the config's depth curve;
+ * see ParallaxDepth.
  * 
  * IMPORTANT: Does NOT run its own animation loop. Call updateParallaxOffset()
  * from the main render loop each frame for smooth interpolation.
@@ -29,7 +33,7 @@ export interface UseParallaxOffsetReturn {
  * @param deviceTiltX - Device tilt X (0-1, 0.5 = center).
  * @param deviceTiltY - Device tilt Y (0-1, 0.5 = center).
  * @param config - Optional parallax configuration overrides.
- * @returns Object with ref and update function.
+ * @returns Object with refs and update function.
  */
 export function useParallaxOffset(
 	scrollProgress: number,
@@ -62,12 +66,21 @@ export function useParallaxOffset(
 	const deviceTiltYRef = useRef(deviceTiltY);
 	const configRef = useRef(fullConfig);
 
+	// Depth curve as its own object, stable while its values are
+	const { nearLayerScale, farLayerScale, layerScaleExponent } = fullConfig;
+	const parallaxDepth = useMemo<ParallaxDepthCurve>(
+		() => ({ nearLayerScale, farLayerScale, layerScaleExponent }),
+		[nearLayerScale, farLayerScale, layerScaleExponent]
+	);
+	const parallaxDepthRef = useRef(parallaxDepth);
+
 	// Sync refs with props
 	useEffect(() => { scrollProgressRef.current = scrollProgress; }, [scrollProgress]);
 	useEffect(() => { isMobileRef.current = isMobile; }, [isMobile]);
 	useEffect(() => { deviceTiltXRef.current = deviceTiltX; }, [deviceTiltX]);
 	useEffect(() => { deviceTiltYRef.current = deviceTiltY; }, [deviceTiltY]);
 	useEffect(() => { configRef.current = fullConfig; }, [fullConfig]);
+	useEffect(() => { parallaxDepthRef.current = parallaxDepth; }, [parallaxDepth]);
 
 	/**
 	 * Updates the parallax offset. Call this from the main render loop each frame.
@@ -104,6 +117,7 @@ export function useParallaxOffset(
 
 	return {
 		currentScrollOffsetRef,
+		parallaxDepthRef,
 		updateParallaxOffset,
 	};
 }
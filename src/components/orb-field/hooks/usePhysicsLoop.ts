@@ -1,37 +1,53 @@
 "use client";
 
 // =============================================================================
-// usePhysicsLoop - Orchestrates physics simulation phases
+// usePhysicsLoop - Drives the orb simulation from the render loop
 // =============================================================================
 
 import { useCallback } from 'react';
 import { type PhysicsContext } from './types';
-import { SpatialGrid } from '../grid/core/SpatialGrid';
-import { type ViewportCells } from '../grid/types';
-import {
-	PhaseGridMarking,
-	PhaseMouseRepulsion,
-	PhaseSpeedLimit,
-	PhaseWander,
-	PhaseLayerAttraction,
-	PhaseOrbInteraction,
-	PhaseWallCollision,
-	PhaseExpiration,
-	PhaseContinuousSpawn,
-} from '../physics';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import { PointerTracker } from '../shared/pointers';
+import { type OrbBlendMode, type OrbObstacle } from '../shared/types';
+import { QualityGovernor, DEFAULT_QUALITY_TIER, type QualityTier } from '../quality';
+import { type OrbFocus } from '../focus';
+import { type OrbPaletteBlend } from '../palette';
 
 /**
  * Options for the physics loop hook.
  */
 interface UsePhysicsLoopOptions {
+	/** Simulation to step each frame (main-thread path). */
+	simulation: OrbSimulation;
+	/** Active worker host; when set, frames are sent to the worker instead. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
 	/** Returns the current effective time (for pause/resume). */
 	getEffectiveTime: () => number;
-	/** Spawns random orbs at random positions. */
-	spawnRandomOrbs: (count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells) => number;
-	/** Syncs React state with orbsRef. */
-	syncOrbsState: () => void;
+	/** Source of per-pointer positions and velocities. */
+	pointerTracker: PointerTracker;
+	/** Returns the current content obstacles in viewport pixels. */
+	measureObstacles: () => readonly OrbObstacle[];
+	/** True while a session replay drives the orbs; the simulation is not stepped. */
+	replayingRef?: React.RefObject<boolean>;
+	/** Ref to the scroll wind on the nearest layer (px/s²); no wind when omitted. */
+	windRef?: React.RefObject<{ x: number; y: number }>;
+	/** Ref to the active quality tier (orb count scale, worker rendering); full quality when omitted. */
+	qualityTierRef?: React.RefObject<QualityTier>;
+	/** Returns the focal plane for the worker renderer; blur follows depth when omitted. */
+	resolveFocus?: (now: number) => OrbFocus | null;
+	/** Returns the palettes for the worker renderer; species colours when omitted. */
+	resolvePalette?: (now: number) => OrbPaletteBlend | null;
+	/** Ref to the orb blend mode for the worker renderer; 'screen' when omitted. */
+	blendModeRef?: React.RefObject<OrbBlendMode>;
 }
 
+/** Wind used when no wind ref is given. */
+const NO_WIND = { x: 0, y: 0 };
+
+/** Tier used when no quality ref is given. */
+const FULL_QUALITY = QualityGovernor.tierOf(DEFAULT_QUALITY_TIER);
+
 /**
  * Return values from the physics loop hook.
  */
@@ -41,89 +57,93 @@ export interface UsePhysicsLoopReturn {
 }
 
 /**
- * Hook for orchestrating orb physics simulation phases.
- * 
- * Single Responsibility: Physics phase orchestration only.
+ * Hook that feeds per-frame inputs and debug flags into the simulation
+ * and steps it once the reveal animation has finished. Physics advances
+ * in fixed steps (timing.steps × timing.stepSeconds) regardless of frame rate.
+ *
+ * In worker mode the same inputs are posted to the worker, which steps
+ * its own simulation and draws the visual canvas.
+ *
+ * Single Responsibility: Physics frame scheduling only.
  */
 export function usePhysicsLoop(options: UsePhysicsLoopOptions): UsePhysicsLoopReturn {
-	const { getEffectiveTime, spawnRandomOrbs, syncOrbsState } = options;
+	const { simulation, workerRef, getEffectiveTime, pointerTracker, measureObstacles, replayingRef, windRef, qualityTierRef, resolveFocus, resolvePalette, blendModeRef } = options;
 
 	const runPhysics = useCallback((context: PhysicsContext) => {
 		const {
 			easedProgress,
 			deltaTime,
-			orbsRef,
-			grid,
-			vpc,
+			timing,
 			windowSize,
 			mousePosRef,
 			isPageVisibleRef,
-			burstTimeRef,
 			pausePhysicsRef,
 			disableCollisionsRef,
 			disableAvoidanceRef,
 			enableOrbSpawningRef,
 			enableOrbDespawningRef,
 			currentScrollOffsetRef,
+			parallaxDepthRef,
+			showGraphicsRef,
+			isDebugModeRef,
 		} = context;
 
-		if (easedProgress >= 1 && !pausePhysicsRef.current) {
-			const currentOrbs = orbsRef.current;
-
-			// Phase 1: Mark all orbs at current positions
-			PhaseGridMarking.markInitial(currentOrbs, grid, vpc);
-
-			// Phase 2: Apply mouse repulsion (adjust mouse position for parallax offset)
-			const scrollOffset = currentScrollOffsetRef.current;
-			PhaseMouseRepulsion.execute(currentOrbs, mousePosRef.current, deltaTime, disableAvoidanceRef.current, scrollOffset);
-
-			// Phase 3: Apply speed limits
-			PhaseSpeedLimit.execute(currentOrbs, deltaTime);
-
-			// Phase 4: Apply wander behavior
-			PhaseWander.execute(currentOrbs, deltaTime);
-
-			// Phase 5: Apply layer attraction
-			PhaseLayerAttraction.execute(currentOrbs, grid.config.layers, deltaTime);
-
-			// Phase 5.5-5.6: Apply orb-orb interactions
-			PhaseOrbInteraction.execute(currentOrbs, vpc, deltaTime, disableAvoidanceRef.current, disableCollisionsRef.current);
-
-			// Phase 6-6.5: Check wall collisions and unstick
-			PhaseWallCollision.execute(currentOrbs, grid, vpc, deltaTime);
+		const time = getEffectiveTime();
+		const quality = qualityTierRef?.current ?? FULL_QUALITY;
+		const inputs = {
+			mousePos: mousePosRef.current,
+			pointers: pointerTracker.getPointers(time),
+			obstacles: measureObstacles(),
+			scrollOffset: currentScrollOffsetRef.current,
+			parallaxDepth: parallaxDepthRef.current,
+			isPageVisible: isPageVisibleRef.current,
+			wind: windRef?.current ?? NO_WIND,
+			orbCountScale: quality.orbCountScale,
+		};
+		const flags = {
+			disableCollisions: disableCollisionsRef.current,
+			disableAvoidance: disableAvoidanceRef.current,
+			enableOrbSpawning: enableOrbSpawningRef.current,
+			enableOrbDespawning: enableOrbDespawningRef.current,
+		};
+
+		// Worker mode: the worker handles physics and orb drawing
+		const worker = workerRef.current;
+		if (worker) {
+			worker.postFrame({
+				easedProgress,
+				deltaTime,
+				timing,
+				time,
+				windowSize,
+				inputs,
+				flags,
+				pausePhysics: pausePhysicsRef.current,
+				showGraphics: showGraphicsRef.current,
+				isDebugMode: isDebugModeRef.current,
+				quality,
+				// Orbs are drawn once the reveal is over, which starts the intro pull-focus
+				focus: easedProgress >= 1 ? resolveFocus?.(time) ?? null : null,
+				palette: resolvePalette?.(time) ?? null,
+				blendMode: blendModeRef?.current ?? 'screen',
+			}, simulation.getState());
+			return;
+		}
 
-			// Phase 8: Re-mark at new positions
-			PhaseGridMarking.markFinal(currentOrbs, grid, vpc);
+		if (easedProgress < 1) return;
 
-			// Phase 9: Remove expired orbs
-			const now = getEffectiveTime();
-			PhaseExpiration.execute(
-				orbsRef,
-				grid,
-				vpc,
-				now,
-				enableOrbDespawningRef.current,
-				syncOrbsState
-			);
+		if (pausePhysicsRef.current || replayingRef?.current) {
+			// When paused or replaying, still mark orbs for rendering
+			simulation.markGrid();
+			return;
+		}
 
-			// Phase 10: Continuous spawning
-			PhaseContinuousSpawn.execute(
-				orbsRef,
-				grid,
-				vpc,
-				windowSize,
-				now,
-				burstTimeRef.current,
-				isPageVisibleRef.current,
-				enableOrbSpawningRef.current,
-				spawnRandomOrbs,
-				deltaTime
-			);
-		} else if (easedProgress >= 1 && pausePhysicsRef.current) {
-			// When paused, still mark orbs for rendering
-			PhaseGridMarking.markInitial(orbsRef.current, grid, vpc);
+		simulation.setInputs(inputs);
+		simulation.setFlags(flags);
+		for (let i = 0; i < timing.steps; i++) {
+			simulation.step(timing.stepSeconds);
 		}
-	}, [getEffectiveTime, spawnRandomOrbs, syncOrbsState]);
+	}, [simulation, workerRef, getEffectiveTime, pointerTracker, measureObstacles, replayingRef, windRef, qualityTierRef, resolveFocus, resolvePalette, blendModeRef]);
 
 	return {
 		runPhysics,
@@ -0,0 +1,59 @@
+"use client";
+
+// =============================================================================
+// usePhysicsPhases - Exposes the simulation pipeline to the debug menu
+// =============================================================================
+
+import { useState, useEffect, useCallback } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import { type PhysicsPhaseInfo } from '../physics';
+
+/**
+ * Parameters for the physics phases hook.
+ */
+interface UsePhysicsPhasesParams {
+	/** Simulation whose pipeline is listed and toggled. */
+	simulation: OrbSimulation;
+	/** Active worker host; toggles are forwarded to the worker pipeline too. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+}
+
+/**
+ * Return values from the physics phases hook.
+ */
+export interface UsePhysicsPhasesReturn {
+	/** Registered phases in run order. */
+	phases: readonly PhysicsPhaseInfo[];
+	/** Flips the enable state of a phase. */
+	togglePhase: (name: string) => void;
+}
+
+/**
+ * Mirrors the simulation's physics pipeline into React state and
+ * provides a toggle for each phase.
+ *
+ * Single Responsibility: Pipeline state for the debug UI only.
+ */
+export function usePhysicsPhases(params: UsePhysicsPhasesParams): UsePhysicsPhasesReturn {
+	const { simulation, workerRef } = params;
+	const [phases, setPhases] = useState(() => simulation.pipeline.getPhases());
+
+	// Pick up phases registered or toggled outside the debug menu
+	useEffect(() => {
+		return simulation.pipeline.subscribe(() => {
+			setPhases(simulation.pipeline.getPhases());
+		});
+	}, [simulation]);
+
+	const togglePhase = useCallback((name: string) => {
+		const enabled = !simulation.pipeline.isEnabled(name);
+		simulation.pipeline.setEnabled(name, enabled);
+		workerRef.current?.setPhaseEnabled(name, enabled);
+	}, [simulation, workerRef]);
+
+	return {
+		phases,
+		togglePhase,
+	};
+}
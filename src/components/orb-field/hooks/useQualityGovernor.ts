@@ -0,0 +1,95 @@
+"use client";
+
+// =============================================================================
+// useQualityGovernor - Picks the quality tier from measured frame times
+// =============================================================================
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+	QualityGovernor,
+	type QualityGovernorConfig,
+	type QualityOverride,
+	type QualityStatus,
+	type QualityTier,
+} from '../quality';
+
+/** How often the average frame time is refreshed in the debug menu. */
+const STATUS_INTERVAL_MS = 500;
+
+/**
+ * Parameters for the quality governor hook.
+ */
+interface UseQualityGovernorParams {
+	/** Tier to pin, or 'auto' to follow frame times. */
+	override?: QualityOverride;
+	/** Whether debug mode is on (refreshes the average frame time). */
+	isDebugMode: boolean;
+	/** Threshold overrides (read once on mount). */
+	config?: Partial<QualityGovernorConfig>;
+}
+
+/**
+ * Return values from the quality governor hook.
+ */
+export interface UseQualityGovernorReturn {
+	/** Tier, override and reason for the debug menu. */
+	status: QualityStatus;
+	/** Ref to the active tier, read by the render and physics loops. */
+	tierRef: React.RefObject<QualityTier>;
+	/** Pins a tier or returns to automatic selection (debug menu). */
+	setOverride: (override: QualityOverride) => void;
+	/** Reports one frame's duration in seconds. */
+	sampleFrame: (deltaTime: number) => void;
+}
+
+/**
+ * Owns a QualityGovernor for the field. The loops read the tier through
+ * a ref; React state only changes when the tier or reason does.
+ *
+ * The override prop wins whenever it changes; the debug menu can set
+ * another override in between.
+ *
+ * Single Responsibility: Quality tier state only.
+ */
+export function useQualityGovernor(params: UseQualityGovernorParams): UseQualityGovernorReturn {
+	const { override = 'auto', isDebugMode, config } = params;
+
+	const [governor] = useState(() => new QualityGovernor(config));
+	const [status, setStatus] = useState<QualityStatus>(() => governor.status);
+	const tierRef = useRef<QualityTier>(governor.tier);
+
+	// Follow the prop, but let the debug menu override it until it changes
+	const [activeOverride, setActiveOverride] = useState<QualityOverride>(override);
+	const [prevOverride, setPrevOverride] = useState<QualityOverride>(override);
+	if (override !== prevOverride) {
+		setPrevOverride(override);
+		setActiveOverride(override);
+	}
+
+	useEffect(() => governor.subscribe(() => {
+		tierRef.current = governor.tier;
+		setStatus(governor.status);
+	}), [governor]);
+
+	useEffect(() => {
+		governor.setOverride(activeOverride, performance.now());
+	}, [governor, activeOverride]);
+
+	// Keep the average frame time current while the debug menu is shown
+	useEffect(() => {
+		if (!isDebugMode) return;
+		const interval = setInterval(() => setStatus(governor.status), STATUS_INTERVAL_MS);
+		return () => clearInterval(interval);
+	}, [governor, isDebugMode]);
+
+	const sampleFrame = useCallback((deltaTime: number) => {
+		governor.sample(deltaTime * 1000, performance.now());
+	}, [governor]);
+
+	return {
+		status,
+		tierRef,
+		setOverride: setActiveOverride,
+		sampleFrame,
+	};
+}
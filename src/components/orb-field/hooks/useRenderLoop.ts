@@ -6,13 +6,20 @@
 
 import { useCallback } from 'react';
 import { type PhysicsContext } from './types';
-import { type WindowSize } from '../shared/types';
-import { type GridRevealConfig, type GridStyleConfig } from '../shared/config';
+import { type FixedStepTiming } from '../simulation';
+import { type OrbBlendMode, type WindowSize } from '../shared/types';
+import { type GridRevealConfig, type GridStyleConfig, type ParallaxDepthCurve } from '../shared/config';
 import { GridRenderer } from '../grid/visuals/GridRenderer';
-import { OrbVisualRenderer } from '../orb/visuals/OrbVisualRenderer';
+import { type OrbRenderer } from '../orb/renderers';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
 import { type Orb } from '../orb/types';
+import { OrbWorkerHost } from '../worker';
+import { type ForceField } from '../force-field';
+import { type OrbSpeciesTable } from '../species';
+import { QualityGovernor, type QualityTier } from '../quality';
+import { type OrbFocus } from '../focus';
+import { type OrbPaletteBlend } from '../palette';
 
 /**
  * Refs for render loop - all values accessed via refs for stable callback.
@@ -26,11 +33,14 @@ interface UseRenderLoopRefs {
 	windowSizeRef: React.RefObject<WindowSize>;
 	orbsRef: React.RefObject<Orb[]>;
 	selectedOrbIdRef: React.RefObject<string | null>;
+	forceFieldsRef: React.RefObject<readonly ForceField[]>;
+	speciesProfilesRef: React.RefObject<OrbSpeciesTable>;
+	qualityTierRef: React.RefObject<QualityTier>;
 	currentLayerRef: React.RefObject<number>;
 	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
+	parallaxDepthRef: React.RefObject<ParallaxDepthCurve>;
 	mousePosRef: React.RefObject<{ x: number; y: number } | null>;
 	isPageVisibleRef: React.RefObject<boolean>;
-	burstTimeRef: React.RefObject<number | null>;
 	showGridRef: React.RefObject<boolean>;
 	showCollisionAreaRef: React.RefObject<boolean>;
 	showAvoidanceAreaRef: React.RefObject<boolean>;
@@ -47,6 +57,9 @@ interface UseRenderLoopRefs {
 	opacityRef: React.RefObject<number>;
 	revealConfigRef: React.RefObject<GridRevealConfig>;
 	styleConfigRef: React.RefObject<GridStyleConfig>;
+	blendModeRef: React.RefObject<OrbBlendMode>;
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	workerPendingRef: React.RefObject<boolean>;
 }
 
 /**
@@ -56,7 +69,9 @@ interface UseRenderLoopCallbacks {
 	/** Function to run physics simulation. */
 	runPhysics: (context: PhysicsContext) => void;
 	/** Function to sync canvas dimensions. */
-	syncCanvasDimensions: (canvas: HTMLCanvasElement | null, visualCanvas: HTMLCanvasElement | null, windowSize: WindowSize) => void;
+	syncCanvasDimensions: (canvas: HTMLCanvasElement | null, windowSize: WindowSize) => void;
+	/** Function to get the orb renderer for the visual canvas (null while it loads). */
+	getRenderer: (canvas: HTMLCanvasElement) => OrbRenderer | null;
 	/** Function to calculate opacity. */
 	calculateOpacity: (params: { baseOpacity: number; easedProgress: number; isDebugMode: boolean }) => number;
 	/** Function to update canvas opacity. */
@@ -67,6 +82,12 @@ interface UseRenderLoopCallbacks {
 	updateSelectedOrbData: () => void;
 	/** Function to update parallax offset. */
 	updateParallaxOffset: () => void;
+	/** Function to report a frame time to the quality governor. */
+	sampleFrame: (deltaTime: number) => void;
+	/** Function to get the focal plane for a frame (null blurs with depth). */
+	resolveFocus: (now: number) => OrbFocus | null;
+	/** Function to get the palettes for a frame (null keeps species colours). */
+	resolvePalette: (now: number) => OrbPaletteBlend | null;
 }
 
 /**
@@ -74,7 +95,7 @@ interface UseRenderLoopCallbacks {
  */
 export interface UseRenderLoopReturn {
 	/** Callback for each frame of the render loop. */
-	runLoop: (easedProgress: number, deltaTime: number) => void;
+	runLoop: (easedProgress: number, deltaTime: number, timing: FixedStepTiming) => void;
 }
 
 /**
@@ -98,11 +119,14 @@ export function useRenderLoop(
 		windowSizeRef,
 		orbsRef,
 		selectedOrbIdRef,
+		forceFieldsRef,
+		speciesProfilesRef,
+		qualityTierRef,
 		currentLayerRef,
 		currentScrollOffsetRef,
+		parallaxDepthRef,
 		mousePosRef,
 		isPageVisibleRef,
-		burstTimeRef,
 		showGridRef,
 		showCollisionAreaRef,
 		showAvoidanceAreaRef,
@@ -119,19 +143,26 @@ export function useRenderLoop(
 		opacityRef,
 		revealConfigRef,
 		styleConfigRef,
+		blendModeRef,
+		workerRef,
+		workerPendingRef,
 	} = refs;
 
 	const {
 		runPhysics,
 		syncCanvasDimensions,
+		getRenderer,
 		calculateOpacity,
 		updateOpacity,
 		getEffectiveTime,
 		updateSelectedOrbData,
 		updateParallaxOffset,
+		sampleFrame,
+		resolveFocus,
+		resolvePalette,
 	} = callbacks;
 
-	const runLoop = useCallback((easedProgress: number, deltaTime: number) => {
+	const runLoop = useCallback((easedProgress: number, deltaTime: number, timing: FixedStepTiming) => {
 		const canvas = canvasRef.current;
 		const visualCanvas = visualCanvasRef.current;
 		const grid = gridRef.current;
@@ -151,23 +182,33 @@ export function useRenderLoop(
 		runPhysics({
 			easedProgress,
 			deltaTime,
-			orbsRef,
-			grid,
-			vpc,
+			timing,
 			windowSize,
 			mousePosRef,
 			isPageVisibleRef,
-			burstTimeRef,
 			pausePhysicsRef,
 			disableCollisionsRef,
 			disableAvoidanceRef,
 			enableOrbSpawningRef,
 			enableOrbDespawningRef,
 			currentScrollOffsetRef,
+			parallaxDepthRef,
+			showGraphicsRef,
+			isDebugModeRef,
 		});
 
+		// Frame times drive the quality tier once the reveal is over
+		if (easedProgress >= 1) {
+			sampleFrame(deltaTime);
+		}
+		const quality = qualityTierRef.current;
+
+		// Visual canvas belongs to the worker once transferred, and stays
+		// untouched while the worker loads so it can still be transferred
+		const isWorkerActive = workerRef.current !== null || workerPendingRef.current;
+
 		// Sync canvas dimensions
-		syncCanvasDimensions(canvas, visualCanvas, windowSize);
+		syncCanvasDimensions(canvas, windowSize);
 
 		// Calculate and apply opacity
 		const opacity = calculateOpacity({
@@ -197,28 +238,36 @@ export function useRenderLoop(
 			showCollisionAreaRef.current,
 			showAvoidanceAreaRef.current,
 			showArrowVectorRef.current,
-			showTruePositionRef.current
+			showTruePositionRef.current,
+			isDebugMode ? forceFieldsRef.current : [],
+			undefined,
+			parallaxDepthRef.current
 		);
 
 		// Render visual orbs
-		if (visualCanvas && easedProgress >= 1) {
-			const visualCtx = visualCanvas.getContext('2d');
-			if (visualCtx) {
-				if (showGraphicsRef.current) {
-					const now = getEffectiveTime();
-					OrbVisualRenderer.draw(
-						visualCtx,
-						windowSize,
-						orbsRef.current,
-						grid.config.layers,
-						undefined,
-						now,
-						currentScrollOffsetRef.current.x,
-						currentScrollOffsetRef.current.y
-					);
-				} else {
-					visualCtx.clearRect(0, 0, windowSize.width, windowSize.height);
-				}
+		const renderer = visualCanvas && !isWorkerActive && easedProgress >= 1 ? getRenderer(visualCanvas) : null;
+		if (renderer) {
+			renderer.resize(windowSize, quality.resolutionScale);
+			if (showGraphicsRef.current) {
+				const now = getEffectiveTime();
+				// Paused orbs don't move between steps, so skip interpolation
+				renderer.draw(
+					orbsRef.current,
+					grid.config.layers,
+					now,
+					currentScrollOffsetRef.current,
+					{
+						config: QualityGovernor.visualConfig(quality),
+						species: speciesProfilesRef.current,
+						alpha: pausePhysicsRef.current ? 1 : timing.alpha,
+						focus: resolveFocus(now),
+						parallaxDepth: parallaxDepthRef.current,
+						palette: resolvePalette(now),
+						blendMode: blendModeRef.current,
+					}
+				);
+			} else {
+				renderer.clear();
 			}
 		}
 
@@ -230,11 +279,15 @@ export function useRenderLoop(
 		// Only stable callbacks in dependencies - refs are read inside callback
 		runPhysics,
 		syncCanvasDimensions,
+		getRenderer,
 		calculateOpacity,
 		updateOpacity,
 		getEffectiveTime,
 		updateSelectedOrbData,
 		updateParallaxOffset,
+		sampleFrame,
+		resolveFocus,
+		resolvePalette,
 		// Refs are stable and don't need to be in dependencies, but including them
 		// doesn't hurt and satisfies exhaustive-deps lint rule
 		canvasRef,
@@ -245,11 +298,14 @@ export function useRenderLoop(
 		windowSizeRef,
 		orbsRef,
 		selectedOrbIdRef,
+		forceFieldsRef,
+		speciesProfilesRef,
+		qualityTierRef,
 		currentLayerRef,
 		currentScrollOffsetRef,
+		parallaxDepthRef,
 		mousePosRef,
 		isPageVisibleRef,
-		burstTimeRef,
 		showGridRef,
 		showCollisionAreaRef,
 		showAvoidanceAreaRef,
@@ -266,6 +322,9 @@ export function useRenderLoop(
 		opacityRef,
 		revealConfigRef,
 		styleConfigRef,
+		blendModeRef,
+		workerRef,
+		workerPendingRef,
 	]);
 
 	return {
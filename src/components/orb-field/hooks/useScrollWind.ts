@@ -0,0 +1,46 @@
+"use client";
+
+// =============================================================================
+// useScrollWind - Turns scroll and swipe velocity into wind on the orbs
+// =============================================================================
+
+import { useEffect, useRef } from 'react';
+import { DEFAULT_SCROLL_WIND_CONFIG, type ScrollWindConfig } from '../shared/config';
+
+/**
+ * Return type for the scroll wind hook.
+ */
+export interface UseScrollWindReturn {
+	/** Ref to the current wind acceleration on the nearest layer (px/s²). */
+	windRef: React.RefObject<{ x: number; y: number }>;
+}
+
+/**
+ * Converts the decaying scroll delta of card navigation into a wind
+ * vector for the simulation. The wind blows the way the content moves:
+ * vertically on desktop, horizontally on mobile (matching parallax).
+ * Decay is left to the caller, which already eases the delta to zero.
+ *
+ * Single Responsibility: Scroll delta to wind conversion only.
+ *
+ * @param scrollDelta - Normalized scroll velocity (-1 to 1, positive = forward).
+ * @param isMobile - Whether device is mobile (affects wind direction).
+ * @param config - Optional scroll wind configuration overrides.
+ * @returns Object with the wind ref.
+ */
+export function useScrollWind(
+	scrollDelta: number,
+	isMobile: boolean,
+	config: Partial<ScrollWindConfig> = {}
+): UseScrollWindReturn {
+	const strength = config.strength ?? DEFAULT_SCROLL_WIND_CONFIG.strength;
+	const windRef = useRef({ x: 0, y: 0 });
+
+	useEffect(() => {
+		// Forward scrolling moves the content up (or left), so the wind does too
+		const wind = -scrollDelta * strength;
+		windRef.current = { x: isMobile ? wind : 0, y: isMobile ? 0 : wind };
+	}, [scrollDelta, isMobile, strength]);
+
+	return { windRef };
+}
@@ -0,0 +1,279 @@
+"use client";
+
+// =============================================================================
+// useSessionReplay - Records the simulation and replays it with a timeline
+// =============================================================================
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { type Orb } from '../orb/types';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import {
+	SessionRecorder,
+	SessionReplayer,
+	DEFAULT_REPLAY_CONFIG,
+	type ReplayConfig,
+	type ReplayStatus,
+	type SessionRecording,
+} from '../replay';
+
+/** How often the recorded step count is shown while recording. */
+const RECORDING_STATUS_INTERVAL_MS = 250;
+
+/** How often the scrubber position is shown while a replay plays. */
+const REPLAY_STATUS_INTERVAL_MS = 100;
+
+/** Most steps replayed per frame, so a slow frame cannot stall the page. */
+const MAX_REPLAY_STEPS_PER_FRAME = 10;
+
+/**
+ * Parameters for the session replay hook.
+ */
+interface UseSessionReplayParams {
+	/** Live simulation to record and to show the replay in. */
+	simulation: OrbSimulation;
+	/** Active worker host; recording and replay are unavailable while set. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	/** Function to get effective time (frozen when paused). */
+	getEffectiveTime: () => number;
+	/** Recording limits and keyframe spacing. */
+	config?: ReplayConfig;
+}
+
+/**
+ * Return values from the session replay hook.
+ */
+export interface UseSessionReplayReturn {
+	/** What is being recorded or replayed, for the debug menu. */
+	status: ReplayStatus;
+	/** True while replaying; the physics loop must not step the live simulation. */
+	replayingRef: React.RefObject<boolean>;
+	/** Starts or stops recording. Returns an error message, or null. */
+	toggleRecording: () => string | null;
+	/** Replays the last recording from its start. Returns an error message, or null. */
+	startReplay: () => string | null;
+	/** Leaves the replay and restores the live orbs. */
+	exitReplay: () => void;
+	/** Moves the replay to a step. */
+	seekReplay: (step: number) => void;
+	/** Plays or pauses the replay. */
+	toggleReplayPlayback: () => void;
+	/** Serializes the last recording, or null if there is none. */
+	exportRecording: () => string | null;
+	/** Loads recording JSON for replay. Returns an error message, or null. */
+	importRecording: (json: string) => string | null;
+}
+
+/**
+ * Live orbs saved while a replay takes over the field.
+ */
+interface LiveState {
+	orbs: Orb[];
+	burstTime: number | null;
+	time: number;
+}
+
+/**
+ * Status shown while a replay is open.
+ */
+function replayStatus(replayer: SessionReplayer, playing: boolean): ReplayStatus {
+	return { mode: 'replaying', step: replayer.step, stepCount: replayer.stepCount, playing };
+}
+
+/**
+ * Records the commands reaching the simulation and replays them in a
+ * separate simulation. While replaying, the replayed orbs are mirrored
+ * into the live simulation so the normal renderer draws them, with
+ * timestamps shifted so ages and fades match the recording.
+ *
+ * Single Responsibility: Recording and replay control only.
+ */
+export function useSessionReplay(params: UseSessionReplayParams): UseSessionReplayReturn {
+	const { simulation, workerRef, getEffectiveTime, config = DEFAULT_REPLAY_CONFIG } = params;
+
+	const [status, setStatus] = useState<ReplayStatus>({ mode: 'idle', hasRecording: false });
+	const recorderRef = useRef<SessionRecorder | null>(null);
+	const recordingRef = useRef<SessionRecording | null>(null);
+	const replayerRef = useRef<SessionReplayer | null>(null);
+	const liveStateRef = useRef<LiveState | null>(null);
+	const playingRef = useRef(false);
+	const replayingRef = useRef(false);
+
+	/** Shows the replayed orbs in the live simulation. */
+	const mirror = useCallback((replayer: SessionReplayer) => {
+		const shift = getEffectiveTime() - replayer.time;
+		simulation.replaceOrbs(replayer.simulation.orbs.map(orb => ({ ...orb, createdAt: orb.createdAt + shift })));
+		simulation.markGrid();
+	}, [simulation, getEffectiveTime]);
+
+	const finishRecording = useCallback(() => {
+		const recorder = recorderRef.current;
+		if (!recorder) return;
+		recordingRef.current = recorder.stop();
+		recorderRef.current = null;
+		setStatus({ mode: 'idle', hasRecording: true });
+	}, []);
+
+	const toggleRecording = useCallback((): string | null => {
+		if (recorderRef.current) {
+			finishRecording();
+			return null;
+		}
+		if (workerRef.current) return 'Recording is not available in worker mode';
+		if (replayerRef.current) return 'Exit the replay first';
+		if (!simulation.isReady) return 'Orb field is not ready yet';
+		if (simulation.seed === null) return 'Recording needs a seeded simulation';
+
+		recorderRef.current = new SessionRecorder(simulation, config);
+		setStatus({ mode: 'recording', steps: 0, maxSteps: config.maxSteps });
+		return null;
+	}, [simulation, workerRef, config, finishRecording]);
+
+	const startReplay = useCallback((): string | null => {
+		finishRecording();
+		const recording = recordingRef.current;
+		if (!recording) return 'Nothing recorded yet';
+		if (workerRef.current) return 'Replay is not available in worker mode';
+		if (!simulation.isReady) return 'Orb field is not ready yet';
+
+		if (!liveStateRef.current) {
+			liveStateRef.current = {
+				orbs: simulation.orbs.map(orb => ({ ...orb })),
+				burstTime: simulation.getState().burstTime,
+				time: getEffectiveTime(),
+			};
+		}
+
+		const replayer = new SessionReplayer(recording, config);
+		replayerRef.current = replayer;
+		replayingRef.current = true;
+		playingRef.current = true;
+		mirror(replayer);
+		setStatus(replayStatus(replayer, playingRef.current));
+		return null;
+	}, [simulation, workerRef, getEffectiveTime, config, mirror, finishRecording]);
+
+	const exitReplay = useCallback(() => {
+		const live = liveStateRef.current;
+		replayerRef.current = null;
+		liveStateRef.current = null;
+		replayingRef.current = false;
+		playingRef.current = false;
+
+		if (live) {
+			// Keep each live orb's age across the time spent replaying
+			const shift = getEffectiveTime() - live.time;
+			simulation.restore(
+				live.orbs.map(orb => ({ ...orb, createdAt: orb.createdAt + shift })),
+				live.burstTime === null ? null : live.burstTime + shift
+			);
+		}
+		setStatus({ mode: 'idle', hasRecording: recordingRef.current !== null });
+	}, [simulation, getEffectiveTime]);
+
+	const seekReplay = useCallback((step: number) => {
+		const replayer = replayerRef.current;
+		if (!replayer) return;
+		replayer.seek(step);
+		mirror(replayer);
+		setStatus(replayStatus(replayer, playingRef.current));
+	}, [mirror]);
+
+	const toggleReplayPlayback = useCallback(() => {
+		const replayer = replayerRef.current;
+		if (!replayer) return;
+		// Play from the start again once the end is reached
+		if (!playingRef.current && replayer.step >= replayer.stepCount) replayer.seek(0);
+		playingRef.current = !playingRef.current;
+		setStatus(replayStatus(replayer, playingRef.current));
+	}, []);
+
+	const exportRecording = useCallback((): string | null => {
+		finishRecording();
+		return recordingRef.current ? SessionRecorder.serialize(recordingRef.current) : null;
+	}, [finishRecording]);
+
+	const importRecording = useCallback((json: string): string | null => {
+		const parsed = SessionReplayer.parse(json);
+		if (!parsed.ok) return parsed.error;
+		if (recorderRef.current) {
+			recorderRef.current.stop();
+			recorderRef.current = null;
+		}
+		recordingRef.current = parsed.recording;
+		if (replayerRef.current) return startReplay();
+		setStatus({ mode: 'idle', hasRecording: true });
+		return null;
+	}, [startReplay]);
+
+	// Show the recorded step count; the recorder stops by itself at the limit
+	const mode = status.mode;
+	useEffect(() => {
+		if (mode !== 'recording') return;
+
+		const interval = setInterval(() => {
+			const recorder = recorderRef.current;
+			if (!recorder) return;
+			if (!recorder.isRecording) {
+				finishRecording();
+				return;
+			}
+			setStatus({ mode: 'recording', steps: recorder.steps, maxSteps: config.maxSteps });
+		}, RECORDING_STATUS_INTERVAL_MS);
+		return () => clearInterval(interval);
+	}, [mode, config.maxSteps, finishRecording]);
+
+	// Advance the replay in real time while playing. The playhead lives in
+	// the replayer; the status (and so the whole field) only re-renders at
+	// the status interval and when playback stops.
+	useEffect(() => {
+		if (mode !== 'replaying') return;
+
+		let frameId = 0;
+		let lastTime = performance.now();
+		let lastStatusTime = lastTime;
+		let pendingMs = 0;
+
+		const tick = (now: number) => {
+			frameId = requestAnimationFrame(tick);
+			const replayer = replayerRef.current;
+			const elapsed = now - lastTime;
+			lastTime = now;
+			if (!replayer || !playingRef.current) return;
+
+			const stepMs = replayer.stepSeconds * 1000;
+			pendingMs += elapsed;
+			const steps = Math.min(MAX_REPLAY_STEPS_PER_FRAME, Math.floor(pendingMs / stepMs));
+			if (steps === 0) return;
+			pendingMs -= steps * stepMs;
+			pendingMs = Math.min(pendingMs, stepMs);
+
+			replayer.advance(steps);
+			if (replayer.step >= replayer.stepCount) playingRef.current = false;
+			mirror(replayer);
+
+			if (playingRef.current && now - lastStatusTime < REPLAY_STATUS_INTERVAL_MS) return;
+			lastStatusTime = now;
+			setStatus(replayStatus(replayer, playingRef.current));
+		};
+		frameId = requestAnimationFrame(tick);
+		return () => cancelAnimationFrame(frameId);
+	}, [mode, mirror]);
+
+	// Stop listening to the simulation on unmount
+	useEffect(() => () => {
+		recorderRef.current?.stop();
+	}, []);
+
+	return {
+		status,
+		replayingRef,
+		toggleRecording,
+		startReplay,
+		exitReplay,
+		seekReplay,
+		toggleReplayPlayback,
+		exportRecording,
+		importRecording,
+	};
+}
@@ -0,0 +1,85 @@
+"use client";
+
+// =============================================================================
+// useSimulationSnapshot - Exports and imports simulation snapshots
+// =============================================================================
+
+import { useCallback } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import {
+	SimulationSnapshot,
+	type SnapshotDebugToggles,
+	type SnapshotImportResult,
+} from '../snapshot';
+
+/**
+ * Parameters for the simulation snapshot hook.
+ */
+interface UseSimulationSnapshotParams {
+	/** Simulation to capture and restore. */
+	simulation: OrbSimulation;
+	/** Active worker host; imports are forwarded to the worker simulation too. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	/** Ref to current scroll offset (captured and restored). */
+	currentScrollOffsetRef: React.RefObject<{ x: number; y: number }>;
+	/** Function to get effective time (frozen when paused). */
+	getEffectiveTime: () => number;
+}
+
+/**
+ * Return values from the simulation snapshot hook.
+ */
+export interface UseSimulationSnapshotReturn {
+	/** Serializes the field with the given debug toggles, or null before the grid exists. */
+	exportSnapshot: (debugToggles: SnapshotDebugToggles) => string | null;
+	/** Validates snapshot JSON and restores its orbs and parallax offset. */
+	importSnapshot: (json: string) => SnapshotImportResult;
+}
+
+/**
+ * Captures the simulation into snapshot JSON and restores it, re-marking
+ * the grid through the simulation so cell states match the restored orbs.
+ * Debug toggles are returned to the caller, which owns the debug menu.
+ *
+ * Single Responsibility: Snapshot export and import only.
+ */
+export function useSimulationSnapshot(params: UseSimulationSnapshotParams): UseSimulationSnapshotReturn {
+	const { simulation, workerRef, currentScrollOffsetRef, getEffectiveTime } = params;
+
+	const exportSnapshot = useCallback((debugToggles: SnapshotDebugToggles) => {
+		const snapshot = SimulationSnapshot.capture(simulation.getState(), {
+			effectiveTime: getEffectiveTime(),
+			scrollOffset: currentScrollOffsetRef.current!,
+			debugToggles,
+		});
+		return snapshot ? SimulationSnapshot.serialize(snapshot) : null;
+	}, [simulation, getEffectiveTime, currentScrollOffsetRef]);
+
+	const importSnapshot = useCallback((json: string): SnapshotImportResult => {
+		const parsed = SimulationSnapshot.parse(json);
+		if (!parsed.ok) return parsed;
+
+		const state = simulation.getState();
+		if (!state.grid) return { ok: false, error: 'Orb field is not ready yet' };
+
+		const { snapshot } = parsed;
+		const { orbs, burstTime } = SimulationSnapshot.rebase(snapshot, getEffectiveTime());
+
+		simulation.restore(orbs, burstTime);
+		workerRef.current?.restore(orbs, burstTime, state);
+
+		// Parallax eases back toward the live scroll position from here
+		currentScrollOffsetRef.current!.x = snapshot.scrollOffset.x;
+		currentScrollOffsetRef.current!.y = snapshot.scrollOffset.y;
+
+		return {
+			ok: true,
+			debugToggles: snapshot.debugToggles,
+			orbCount: orbs.length,
+			warnings: SimulationSnapshot.compareGrid(snapshot.gridConfig, state.grid.config),
+		};
+	}, [simulation, workerRef, getEffectiveTime, currentScrollOffsetRef]);
+
+	return { exportSnapshot, importSnapshot };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+// =============================================================================
+// useSpecies - Species profiles and spawn weights from the OrbField props
+// =============================================================================
+
+import { useEffect, useMemo, useRef } from 'react';
+import { OrbSimulation } from '../simulation';
+import { OrbWorkerHost } from '../worker';
+import { DEFAULT_SPECIES_CONFIG, type OrbSpeciesConfig, type OrbSpeciesTable } from '../species';
+
+/**
+ * Parameters for the species hook.
+ */
+interface UseSpeciesParams {
+	/** Simulation the species are applied to. */
+	simulation: OrbSimulation;
+	/** Active worker host; changes are forwarded to the worker simulation too. */
+	workerRef: React.RefObject<OrbWorkerHost | null>;
+	/**
+	 * Overrides declared by the OrbField props. Profiles are added to the
+	 * default ones; weights replace the defaults. Memoize the object.
+	 */
+	species?: Partial<OrbSpeciesConfig>;
+}
+
+/**
+ * Return values from the species hook.
+ */
+export interface UseSpeciesReturn {
+	/** Effective species configuration. */
+	species: OrbSpeciesConfig;
+	/** Ref mirror of the profiles for the render loop. */
+	profilesRef: React.RefObject<OrbSpeciesTable>;
+}
+
+/**
+ * Resolves the species configuration of an OrbField and keeps the
+ * simulation (and worker, when active) in sync with it.
+ *
+ * Single Responsibility: Species configuration state only.
+ */
+export function useSpecies(params: UseSpeciesParams): UseSpeciesReturn {
+	const { simulation, workerRef, species: declared } = params;
+
+	const species = useMemo<OrbSpeciesConfig>(() => ({
+		...DEFAULT_SPECIES_CONFIG,
+		...declared,
+		profiles: { ...DEFAULT_SPECIES_CONFIG.profiles, ...declared?.profiles },
+	}), [declared]);
+	const profilesRef = useRef<OrbSpeciesTable>(species.profiles);
+
+	useEffect(() => {
+		profilesRef.current = species.profiles;
+		simulation.setSpecies(species);
+		workerRef.current?.setSpecies(species);
+	}, [species, simulation, workerRef]);
+
+	return { species, profilesRef };
+}
@@ -0,0 +1,60 @@
+"use client";
+
+// =============================================================================
+// useTimeScale - Slows the simulation clock without breaking its continuity
+// =============================================================================
+
+import { useCallback, useEffect, useRef } from 'react';
+
+/**
+ * Parameters for the time scale hook.
+ */
+interface UseTimeScaleParams {
+	/** Source clock in milliseconds (e.g. pause-aware effective time). */
+	getTime: () => number;
+	/** Speed of the returned clock relative to the source (1 = unchanged). */
+	timeScale: number;
+}
+
+/**
+ * Return values from the time scale hook.
+ */
+export interface UseTimeScaleReturn {
+	/** Scaled clock; starts at the source time and never jumps when the scale changes. */
+	getScaledTime: () => number;
+}
+
+/**
+ * Derives a clock that runs at a fraction of the source clock. Orb ages,
+ * fades and spawn delays follow it, so a slowed field keeps its usual
+ * population instead of expiring orbs at full speed. Pair it with the
+ * same timeScale on useAnimationLoop so physics steps slow down too.
+ *
+ * Single Responsibility: Clock scaling only.
+ */
+export function useTimeScale(params: UseTimeScaleParams): UseTimeScaleReturn {
+	const { getTime, timeScale } = params;
+
+	const timeScaleRef = useRef(timeScale);
+	const lastSourceRef = useRef<number | null>(null);
+	const scaledRef = useRef(0);
+
+	useEffect(() => {
+		timeScaleRef.current = timeScale;
+	}, [timeScale]);
+
+	const getScaledTime = useCallback(() => {
+		const source = getTime();
+		if (lastSourceRef.current === null) {
+			scaledRef.current = source;
+		} else {
+			scaledRef.current += (source - lastSourceRef.current) * timeScaleRef.current;
+		}
+		lastSourceRef.current = source;
+		return scaledRef.current;
+	}, [getTime]);
+
+	return {
+		getScaledTime,
+	};
+}
@@ -14,12 +14,13 @@ export { OrbField } from './OrbField';
 export { SpatialGrid } from './grid/core/SpatialGrid';
 export { GridConfigFactory } from './grid/core/GridConfigFactory';
 export { ViewportCellsFactory } from './grid/core/ViewportCellsFactory';
-export { type GridConfig, type ViewportCells } from './grid/types';
+export { type GridConfig, type ViewportCells, type GridStorage, type GridWalls } from './grid/types';
 
 // Grid Visualization
 export { GridRenderer } from './grid/visuals/GridRenderer';
 export { GridAnimator } from './grid/visuals/GridAnimator';
 export { OrbDebugOverlay } from './grid/visuals/OrbDebugOverlay';
+export { ForceFieldOverlay } from './grid/visuals/ForceFieldOverlay';
 
 // ============================================================================= 
 // Core Orb System
@@ -31,17 +32,75 @@ export { type Orb } from './orb/types';
 // Orb Visualization
 export {
 	OrbVisualRenderer,
+	OrbSpriteCache,
 	DEFAULT_ORB_VISUAL_CONFIG,
 	type OrbVisualConfig,
+	type OrbSprite,
 } from './orb/visuals';
 
+// Depth of Field
+export {
+	FocalPlane,
+	DEFAULT_DEPTH_OF_FIELD_CONFIG,
+	type DepthOfFieldConfig,
+	type FocusSource,
+	type FocusInputs,
+	type OrbFocus,
+} from './focus';
+
+// Orb Renderers
+export {
+	Canvas2DOrbRenderer,
+	OrbRendererFactory,
+	type OrbRenderer,
+	type OrbRendererBackend,
+	type OrbRenderOffset,
+	type OrbRenderStyle,
+} from './orb/renderers';
+
 // Orb Utilities
 export {
 	generateAnimationDurations,
 	generateWanderParams,
 	getRandomSize,
+	OrbFactory,
+	OrbSpawner,
 } from './orb/utils';
 
+// =============================================================================
+// Headless Simulation
+// =============================================================================
+export {
+	OrbSimulation,
+	type OrbSimulationOptions,
+	type OrbSimulationInputs,
+	type OrbSimulationFlags,
+	type OrbSimulationState,
+	type OrbSimulationCheckpoint,
+	type OrbSimulationCommand,
+	FixedStepAccumulator,
+	type FixedStepTiming,
+} from './simulation';
+export {
+	createSeededRandom,
+	createRandomSeed,
+	createRandomId,
+	type RandomSource,
+	type SeededRandomSource,
+} from './shared/random';
+export { OrbWorkerHost } from './worker';
+export { PointerTracker } from './shared/pointers';
+export {
+	ManualClock,
+	performanceClock,
+	type SimulationClock,
+} from './shared/clock';
+export {
+	ParallaxDepth,
+	NO_PARALLAX,
+	type LayerParallax,
+} from './shared/parallax';
+
 // =============================================================================
 // Collision System
 // =============================================================================
@@ -49,11 +108,167 @@ export {
 	WallCollision,
 	OrbOrbCollision,
 	OrbAvoidance,
+	OrbSpatialHash,
 	MouseRepulsion,
 	SpawnValidation,
+	ObstacleAvoidance,
 	type CollisionResult,
 } from './collision';
 
+// =============================================================================
+// Physics Pipeline
+// =============================================================================
+export {
+	PhysicsPipeline,
+	BUILT_IN_PHASES,
+	BUILT_IN_PHASE_NAMES,
+	type PhysicsPhase,
+	type PhysicsPhaseContext,
+	type PhysicsPhasePlacement,
+	type PhysicsPhaseInfo,
+} from './physics';
+
+// =============================================================================
+// Force Fields
+// =============================================================================
+export {
+	ForceFieldPhysics,
+	ForceFieldGeometry,
+	DEFAULT_FORCE_FIELD_PLACEMENT_CONFIG,
+	DEFAULT_FORCE_FIELD_DEBUG_CONFIG,
+	type ForceField,
+	type ForceFieldKind,
+	type ForceFalloff,
+	type ForceFieldHandle,
+	type ForceFieldPlacementConfig,
+	type ForceFieldDebugVisualConfig,
+} from './force-field';
+
+// =============================================================================
+// Shape Formation
+// =============================================================================
+export {
+	FormationPhysics,
+	FormationSampler,
+	DEFAULT_FORMATION_CONFIG,
+	type FormationConfig,
+	type FormationPoint,
+	type FormationBox,
+	type FormationShape,
+	type FormationRequest,
+	type OrbFormation,
+} from './formation';
+
+// =============================================================================
+// Boundaries
+// =============================================================================
+export {
+	BoundaryPhysics,
+	DEFAULT_ORB_BOUNDARIES,
+	DEFAULT_BOUNDARY_CONFIG,
+	type BoundaryConfig,
+	type BoundaryMode,
+	type BoundaryDepthRange,
+	type OrbBoundaries,
+} from './boundary';
+
+// =============================================================================
+// Flocking
+// =============================================================================
+export {
+	FlockingPhysics,
+	DEFAULT_FLOCKING_CONFIG,
+	type FlockingConfig,
+} from './flocking';
+
+// =============================================================================
+// Species
+// =============================================================================
+export {
+	OrbSpecies,
+	DEFAULT_ORB_KIND,
+	DEFAULT_ORB_SPECIES,
+	DEFAULT_SPECIES_CONFIG,
+	type OrbKind,
+	type OrbColor,
+	type OrbRange,
+	type OrbSpeciesProfile,
+	type OrbSpeciesTable,
+	type OrbSpeciesWeights,
+	type OrbSpeciesConfig,
+} from './species';
+
+// =============================================================================
+// Palettes
+// =============================================================================
+export {
+	OrbPalettes,
+	ORB_PALETTES,
+	DEFAULT_ORB_PALETTE,
+	DEFAULT_PALETTE_CONFIG,
+	type OrbPaletteConfig,
+	type RgbColor,
+	type OrbPaletteName,
+	type OrbPalette,
+	type OrbPaletteChoice,
+	type OrbPaletteBlend,
+} from './palette';
+
+// =============================================================================
+// Quality
+// =============================================================================
+export {
+	QualityGovernor,
+	QUALITY_TIERS,
+	DEFAULT_QUALITY_TIER,
+	DEFAULT_QUALITY_GOVERNOR_CONFIG,
+	type QualityGovernorConfig,
+	type QualityListener,
+	type QualityTierName,
+	type QualityOverride,
+	type QualityTier,
+	type QualityStatus,
+} from './quality';
+
+// =============================================================================
+// Snapshots
+// =============================================================================
+export {
+	SimulationSnapshot,
+	OrbFieldSnapshotSchema,
+	SNAPSHOT_VERSION,
+	type OrbFieldSnapshot,
+	type SnapshotDebugToggles,
+	type SnapshotImportResult,
+} from './snapshot';
+
+// =============================================================================
+// Lifecycle Events
+// =============================================================================
+export {
+	OrbEventBus,
+	type OrbSpawnSource,
+	type OrbFieldEventMap,
+	type OrbFieldEventType,
+	type OrbFieldEventListener,
+	type OrbFieldEvent,
+	type OrbFieldEventHandlers,
+} from './events';
+
+// =============================================================================
+// Session Replay
+// =============================================================================
+export {
+	SessionRecorder,
+	SessionReplayer,
+	SessionRecordingSchema,
+	DEFAULT_REPLAY_CONFIG,
+	type ReplayConfig,
+	type RecordedCommand,
+	type SessionRecording,
+	type ReplayStatus,
+} from './replay';
+
 // =============================================================================
 // Custom Hooks
 // =============================================================================
@@ -62,6 +277,7 @@ export {
 	useAnimationLoop,
 	useDebugStateSync,
 	useEventHandlers,
+	useOrbEvents,
 	type LoopCallback,
 	type DebugOptionRefs,
 } from './hooks';
@@ -73,8 +289,13 @@ export {
 	CELL_EMPTY,
 	CELL_PROXIMITY,
 	CELL_FILLED,
+	CELL_OBSTACLE,
 	type CellState,
 	type WindowSize,
+	type PointerState,
+	type OrbObstacle,
+	type OrbFieldTheme,
+	type OrbBlendMode,
 } from './shared/types';
 
 // =============================================================================
@@ -84,13 +305,25 @@ export {
 	DEFAULT_GRID_CONFIG,
 	DEFAULT_REVEAL_CONFIG,
 	DEFAULT_STYLE_CONFIG,
+	THEME_STYLE_CONFIG,
+	THEME_BLEND_MODES,
 	DEFAULT_ORBFIELD_CONFIG,
 	DEFAULT_PARALLAX_CONFIG,
+	UNIFORM_PARALLAX_DEPTH,
+	DEFAULT_FIXED_TIMESTEP_CONFIG,
+	DEFAULT_POINTER_CONFIG,
+	DEFAULT_OBSTACLE_CONFIG,
+	DEFAULT_SCROLL_WIND_CONFIG,
 	type GridSystemConfig,
 	type GridRevealConfig,
 	type GridStyleConfig,
 	type OrbFieldConfig,
 	type ParallaxConfig,
+	type ParallaxDepthCurve,
+	type FixedTimestepConfig,
+	type PointerConfig,
+	type ObstacleConfig,
+	type ScrollWindConfig,
 } from './shared/config';
 
 export {
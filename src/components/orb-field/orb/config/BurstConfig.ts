@@ -18,9 +18,9 @@ export interface OrbBurstConfig {
 	minSpeed: number;
 	/** Base maximum speed for size 1 orbs (pixels/second). */
 	maxSpeed: number;
-	/** Minimum lifetime for orbs in milliseconds. */
+	/** Minimum lifetime in milliseconds for default (ember) orbs; other species set their own. */
 	minLifetimeMs: number;
-	/** Maximum lifetime for orbs in milliseconds. */
+	/** Maximum lifetime in milliseconds for default (ember) orbs; other species set their own. */
 	maxLifetimeMs: number;
 	/** Maximum spawn delay for staggered appearance (milliseconds). */
 	spawnDelayMaxMs: number;
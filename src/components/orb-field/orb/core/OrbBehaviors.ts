@@ -3,6 +3,10 @@
 // =============================================================================
 
 import { type Orb } from '../types';
+import { type OrbRange } from '../../species';
+
+/** Layer band covering the whole depth. */
+const FULL_DEPTH: OrbRange = { min: 0, max: 1 };
 
 /**
  * Handles orb autonomous behaviors.
@@ -20,17 +24,21 @@ export class OrbBehaviors {
 	 * - Size maxSize always maps to layer (totalLayers - 1) (back)
 	 * - Intermediate sizes follow a logarithmic curve
 	 * 
+	 * A species layer band narrows the mapping to part of the depth.
+	 * 
 	 * @param size - The orb's size.
 	 * @param maxSize - Maximum allowed orb size.
 	 * @param totalLayers - Total number of Z-layers in the grid.
+	 * @param layerBand - Part of the depth to map into (fractions, default all).
 	 * @returns The preferred layer for this orb (0 to totalLayers-1).
 	 */
-	static getPreferredLayer(size: number, maxSize: number, totalLayers: number): number {
+	static getPreferredLayer(size: number, maxSize: number, totalLayers: number, layerBand: OrbRange = FULL_DEPTH): number {
 		// Logarithmic mapping: small orbs spread across front, large clustered at back
-		// log(1) = 0, so size 1 maps to layer 0
-		// log(maxSize) / log(maxSize) = 1, so maxSize maps to top layer
+		// log(1) = 0, so size 1 maps to the front of the band
+		// log(maxSize) / log(maxSize) = 1, so maxSize maps to the back of the band
 		const normalizedPosition = Math.log(size) / Math.log(maxSize);
-		return (totalLayers - 1) * normalizedPosition;
+		const { min, max } = layerBand;
+		return (totalLayers - 1) * (min + (max - min) * normalizedPosition);
 	}
 
 	/**
@@ -46,15 +54,17 @@ export class OrbBehaviors {
 	 * @param totalLayers - Total number of Z-layers in the grid.
 	 * @param strength - Attraction strength (layers/s² acceleration).
 	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param layerBand - The orb's species layer band (default all depth).
 	 */
 	static applyLayerAttraction(
 		orb: Orb,
 		maxSize: number,
 		totalLayers: number,
 		strength: number,
-		deltaTime: number
+		deltaTime: number,
+		layerBand: OrbRange = FULL_DEPTH
 	): void {
-		const preferredLayer = this.getPreferredLayer(orb.size, maxSize, totalLayers);
+		const preferredLayer = this.getPreferredLayer(orb.size, maxSize, totalLayers, layerBand);
 		const distanceToPreferred = preferredLayer - orb.z;
 
 		// Apply acceleration proportional to distance (spring-like attraction)
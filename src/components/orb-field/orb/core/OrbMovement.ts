@@ -31,6 +31,18 @@ export class OrbMovement {
 		if (isFinite(newZ)) orb.z = newZ;
 	}
 
+	/**
+	 * Records the orb's current position as its previous position.
+	 * Called before each physics step so renderers can interpolate.
+	 *
+	 * @param orb - The orb to update.
+	 */
+	static storePreviousPosition(orb: Orb): void {
+		orb.prevPxX = orb.pxX;
+		orb.prevPxY = orb.pxY;
+		orb.prevZ = orb.z;
+	}
+
 	/**
 	 * Calculates the maximum speed for an orb based on its size.
 	 * Larger orbs have lower max speeds (inverse square root).
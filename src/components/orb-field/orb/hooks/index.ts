@@ -4,5 +4,3 @@
 
 export { useOrbManager } from './useOrbManager';
 export { useOrbSelection } from './useOrbSelection';
-export { useOrbSpawning, type UseOrbSpawningReturn } from './useOrbSpawning';
-export { useOrbCRUD, type UseOrbCRUDReturn } from './useOrbCRUD';
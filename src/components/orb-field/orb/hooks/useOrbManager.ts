@@ -1,35 +1,45 @@
 "use client";
 
 // =============================================================================
-// useOrbManager - Orchestrates orb management sub-hooks
+// useOrbManager - React adapter over the orb simulation
 // =============================================================================
 
-import { useRef, useState, useCallback, useMemo } from 'react';
+import { useRef, useState, useCallback, useMemo, useEffect } from 'react';
 import { type Orb } from '../types';
-import { SpatialGrid } from '../../grid/core/SpatialGrid';
-import { type ViewportCells } from '../../grid/types';
 import { type OrbSpawnConfig, type OrbBurstConfig, type ContinuousSpawnConfig } from '../config';
+import { OrbSimulation } from '../../simulation';
+import { OrbWorkerHost } from '../../worker';
+import { type OrbEventBus } from '../../events';
 import { useOrbSelection } from './useOrbSelection';
-import { useOrbSpawning } from './useOrbSpawning';
-import { useOrbCRUD } from './useOrbCRUD';
 
 /**
  * Options for the orb manager hook.
+ * Read once when the simulation is created.
  */
 interface UseOrbManagerOptions {
+	/** Seed for the simulation PRNG (random when omitted). */
+	seed?: number;
+	/** Returns the current simulation time (default performance.now). Must be stable. */
+	getTime?: () => number;
 	/** Configuration for orb spawning. */
 	spawnConfig?: Partial<OrbSpawnConfig>;
 	/** Configuration for burst spawning. */
 	burstConfig?: Partial<OrbBurstConfig>;
 	/** Configuration for continuous spawning. */
 	continuousConfig?: Partial<ContinuousSpawnConfig>;
+	/** Active worker host; when set, create/delete are forwarded to the worker. */
+	workerRef?: React.RefObject<OrbWorkerHost | null>;
 }
 
 /**
  * Return values from the orb manager hook.
  */
 interface UseOrbManagerReturn {
-	/** Ref to the internal orbs array for high-performance loop access. */
+	/** The underlying headless simulation. */
+	simulation: OrbSimulation;
+	/** Typed lifecycle events of the simulation, plus orb selection. */
+	events: OrbEventBus;
+	/** Ref to the simulation's live orbs array for high-performance loop access. */
 	orbsRef: React.RefObject<Orb[]>;
 	/** React state for orbs (for UI sync). */
 	orbs: Orb[];
@@ -39,82 +49,82 @@ interface UseOrbManagerReturn {
 	selectedOrbData: Orb | null;
 	/** Ref for stable access to selected orb ID in loops. */
 	selectedOrbIdRef: React.RefObject<string | null>;
-	/** Creates a new orb at the specified position. */
-	createOrb: (pxX: number, pxY: number, layer: number, size: number, grid: SpatialGrid, vpc: ViewportCells) => void;
-	/** Spawns a burst of orbs from a center point. */
-	spawnOrbBurst: (centerX: number, centerY: number, grid: SpatialGrid, vpc: ViewportCells) => void;
+	/** Creates a new orb at the specified position and selects it. */
+	createOrb: (pxX: number, pxY: number, layer: number, size: number) => void;
 	/** Deletes an orb by ID. */
-	deleteOrb: (id: string, grid: SpatialGrid, vpc: ViewportCells) => void;
+	deleteOrb: (id: string) => void;
 	/** Selects an orb by ID. */
 	selectOrb: (id: string | null) => void;
 	/** Updates the selected orb data (for real-time debug display). */
 	updateSelectedOrbData: () => void;
-	/** Syncs React state with orbsRef (for UI updates after direct ref modifications). */
-	syncOrbsState: () => void;
-	/** Spawns random orbs at random positions across the viewport. */
-	spawnRandomOrbs: (count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells) => number;
 }
 
 /**
- * Orchestrates all orb management operations by composing focused sub-hooks.
- * 
- * Single Responsibility: Composes sub-hooks into unified API.
+ * Owns an OrbSimulation and mirrors its orb list into React state.
+ * Selection changes are emitted as `select` on the simulation's event bus.
+ *
+ * Single Responsibility: Bridges the headless simulation to React.
  */
 export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManagerReturn {
-	// Shared state
-	const orbsRef = useRef<Orb[]>([]);
+	const { workerRef } = options;
+
+	// Created once - the time source must be stable (e.g. a memoized callback)
+	const [simulation] = useState(() => new OrbSimulation({
+		seed: options.seed,
+		clock: options.getTime ? { now: options.getTime } : undefined,
+		spawnConfig: options.spawnConfig,
+		burstConfig: options.burstConfig,
+		continuousConfig: options.continuousConfig,
+	}));
+
+	// The simulation mutates this array in place, so the ref never changes
+	const orbsRef = useRef<Orb[]>(simulation.orbs);
 	const [orbs, setOrbs] = useState<Orb[]>([]);
 
-	// Sub-hooks - destructure to get stable references
+	// Mirror orb additions and removals into React state
+	useEffect(() => {
+		return simulation.subscribe(() => {
+			setOrbs([...simulation.orbs]);
+		});
+	}, [simulation]);
+
 	const {
 		selectedOrbId,
 		selectedOrbData,
 		selectedOrbIdRef,
-		selectOrb: selectionSelectOrb,
+		selectOrb: selectionSelectOrbState,
 		updateSelectedOrbData: selectionUpdateSelectedOrbData,
 	} = useOrbSelection();
 
-	const {
-		spawnOrbBurst: spawningSpawnOrbBurst,
-		spawnRandomOrbs: spawningSpawnRandomOrbs,
-	} = useOrbSpawning({
-		burstConfig: options.burstConfig,
-		continuousConfig: options.continuousConfig,
-	});
-
-	const {
-		createOrb: crudCreateOrb,
-		deleteOrb: crudDeleteOrb,
-		syncOrbsState: crudSyncOrbsState,
-	} = useOrbCRUD({
-		spawnConfig: options.spawnConfig,
-	});
-
-	// Wrapper functions that pass shared state to sub-hooks
-	const createOrb = useCallback((pxX: number, pxY: number, z: number, size: number, grid: SpatialGrid, vpc: ViewportCells) => {
-		const setSelectedOrbId = (id: string) => {
-			selectionSelectOrb(id, orbsRef);
-		};
-		crudCreateOrb(pxX, pxY, z, size, grid, vpc, orbsRef, setOrbs, setSelectedOrbId, selectedOrbIdRef);
-	}, [crudCreateOrb, selectionSelectOrb, selectedOrbIdRef]);
-
-	const deleteOrb = useCallback((id: string, grid: SpatialGrid, vpc: ViewportCells) => {
-		const setSelectedOrbIdWrapper = (id: string | null) => {
-			selectionSelectOrb(id, orbsRef);
-		};
-		const setSelectedOrbDataWrapper = () => {
-			// Data is already set by selectOrb
-		};
-		crudDeleteOrb(id, grid, vpc, orbsRef, setOrbs, setSelectedOrbIdWrapper, setSelectedOrbDataWrapper, selectedOrbIdRef);
-	}, [crudDeleteOrb, selectionSelectOrb, selectedOrbIdRef]);
-
-	const spawnOrbBurst = useCallback((centerX: number, centerY: number, grid: SpatialGrid, vpc: ViewportCells) => {
-		spawningSpawnOrbBurst(centerX, centerY, grid, vpc, orbsRef, setOrbs);
-	}, [spawningSpawnOrbBurst]);
-
-	const spawnRandomOrbs = useCallback((count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells): number => {
-		return spawningSpawnRandomOrbs(count, screenWidth, screenHeight, grid, vpc, orbsRef, setOrbs);
-	}, [spawningSpawnRandomOrbs]);
+	const selectionSelectOrb = useCallback((id: string | null, ref: React.RefObject<Orb[]>) => {
+		const changed = selectedOrbIdRef.current !== id;
+		selectionSelectOrbState(id, ref);
+		if (changed) simulation.events.emit('select', { id });
+	}, [simulation, selectionSelectOrbState, selectedOrbIdRef]);
+
+	const createOrb = useCallback((pxX: number, pxY: number, z: number, size: number) => {
+		const worker = workerRef?.current;
+		if (worker) {
+			// The snapshot with the new orb arrives before this resolves
+			worker.createOrb(pxX, pxY, z, size).then(newOrb => {
+				if (newOrb) selectionSelectOrb(newOrb.id, orbsRef);
+			});
+			return;
+		}
+
+		const newOrb = simulation.createOrb(pxX, pxY, z, size);
+		if (newOrb) {
+			selectionSelectOrb(newOrb.id, orbsRef);
+		}
+	}, [simulation, workerRef, selectionSelectOrb]);
+
+	const deleteOrb = useCallback((id: string) => {
+		// Delete from the mirror too so the UI updates before the next snapshot
+		workerRef?.current?.deleteOrb(id);
+		if (simulation.deleteOrb(id) && selectedOrbIdRef.current === id) {
+			selectionSelectOrb(null, orbsRef);
+		}
+	}, [simulation, workerRef, selectionSelectOrb, selectedOrbIdRef]);
 
 	const selectOrb = useCallback((id: string | null) => {
 		selectionSelectOrb(id, orbsRef);
@@ -124,35 +134,28 @@ export function useOrbManager(options: UseOrbManagerOptions = {}): UseOrbManager
 		selectionUpdateSelectedOrbData(orbsRef);
 	}, [selectionUpdateSelectedOrbData]);
 
-	const syncOrbsState = useCallback(() => {
-		crudSyncOrbsState(orbsRef, setOrbs);
-	}, [crudSyncOrbsState]);
-
 	// Memoize return object to prevent unnecessary re-renders in consumers
 	return useMemo(() => ({
+		simulation,
+		events: simulation.events,
 		orbsRef,
 		orbs,
 		selectedOrbId,
 		selectedOrbData,
 		selectedOrbIdRef,
 		createOrb,
-		spawnOrbBurst,
-		spawnRandomOrbs,
 		deleteOrb,
 		selectOrb,
 		updateSelectedOrbData,
-		syncOrbsState,
 	}), [
+		simulation,
 		orbs,
 		selectedOrbId,
 		selectedOrbData,
 		selectedOrbIdRef,
 		createOrb,
-		spawnOrbBurst,
-		spawnRandomOrbs,
 		deleteOrb,
 		selectOrb,
 		updateSelectedOrbData,
-		syncOrbsState,
 	]);
 }
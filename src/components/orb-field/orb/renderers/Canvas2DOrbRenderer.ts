@@ -0,0 +1,93 @@
+// =============================================================================
+// Canvas2DOrbRenderer - Orb rendering on a 2D canvas context
+// =============================================================================
+
+import { type Orb } from '../types';
+import { OrbVisualRenderer } from '../visuals/OrbVisualRenderer';
+import { type WindowSize, type Canvas2DContext } from '../../shared/types';
+import { type OrbRenderer, type OrbRenderOffset, type OrbRenderStyle } from './types';
+
+/**
+ * Draws orbs with OrbVisualRenderer on an on-screen or offscreen canvas.
+ *
+ * Single Responsibility: Canvas2D sizing and drawing only.
+ */
+export class Canvas2DOrbRenderer implements OrbRenderer {
+	readonly backend = 'canvas2d';
+
+	private readonly ctx: Canvas2DContext;
+	private readonly visuals = new OrbVisualRenderer();
+	private windowSize: WindowSize = { width: 0, height: 0 };
+	private resolutionScale = 1;
+
+	/**
+	 * Creates a renderer for a 2D context.
+	 *
+	 * @param ctx - Context of the canvas to draw on.
+	 */
+	constructor(ctx: Canvas2DContext) {
+		this.ctx = ctx;
+	}
+
+	/**
+	 * Creates a renderer for a canvas.
+	 *
+	 * @param canvas - Canvas to draw on.
+	 * @returns The renderer, or null if the canvas has no 2D context.
+	 */
+	static create(canvas: HTMLCanvasElement | OffscreenCanvas): Canvas2DOrbRenderer | null {
+		const ctx = canvas.getContext('2d') as Canvas2DContext | null;
+		return ctx ? new Canvas2DOrbRenderer(ctx) : null;
+	}
+
+	resize(windowSize: WindowSize, resolutionScale: number): void {
+		this.windowSize = windowSize;
+		this.resolutionScale = resolutionScale;
+
+		// Canvas may render below full resolution; CSS stretches it to the viewport
+		const { canvas } = this.ctx;
+		const width = Math.round(windowSize.width * resolutionScale);
+		const height = Math.round(windowSize.height * resolutionScale);
+		if (canvas.width !== width || canvas.height !== height) {
+			canvas.width = width;
+			canvas.height = height;
+		}
+	}
+
+	draw(orbs: Orb[], layers: number, time: number, offset: OrbRenderOffset, style: OrbRenderStyle): void {
+		this.applyScale();
+		this.visuals.draw(
+			this.ctx,
+			this.windowSize,
+			orbs,
+			layers,
+			style.config,
+			time,
+			offset.x,
+			offset.y,
+			style.alpha,
+			style.species,
+			style.focus,
+			style.parallaxDepth,
+			style.palette,
+			style.blendMode
+		);
+	}
+
+	clear(): void {
+		this.applyScale();
+		this.ctx.clearRect(0, 0, this.windowSize.width, this.windowSize.height);
+	}
+
+	dispose(): void {
+		this.clear();
+	}
+
+	/**
+	 * Draws in CSS pixels whatever the canvas resolution.
+	 */
+	private applyScale(): void {
+		const scale = this.resolutionScale;
+		this.ctx.setTransform(scale, 0, 0, scale, 0, 0);
+	}
+}
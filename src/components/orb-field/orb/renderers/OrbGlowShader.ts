@@ -0,0 +1,65 @@
+// =============================================================================
+// OrbGlowShader - GLSL for instanced orb glow quads
+// =============================================================================
+
+/**
+ * Places a unit quad at each instance's centre and radius.
+ *
+ * Per-instance attributes:
+ * - instanceCenter: x and y in CSS pixels, z as negative layer depth
+ * - instanceRadius: glow radius in CSS pixels
+ * - instanceColor: hue, saturation and lightness (0-1)
+ * - instanceGlow: opacity times glow intensity, and falloff exponent
+ */
+export const ORB_GLOW_VERTEX_SHADER = /* glsl */ `
+attribute vec3 instanceCenter;
+attribute float instanceRadius;
+attribute vec3 instanceColor;
+attribute vec2 instanceGlow;
+
+varying vec2 vOffset;
+varying vec3 vColor;
+varying vec2 vGlow;
+
+void main() {
+	vOffset = position.xy;
+	vColor = instanceColor;
+	vGlow = instanceGlow;
+
+	vec3 world = instanceCenter + vec3(position.xy * instanceRadius, 0.0);
+	gl_Position = projectionMatrix * modelViewMatrix * vec4(world, 1.0);
+}
+`;
+
+/**
+ * Same Gaussian-like falloff and core-to-glow lightness ramp as
+ * OrbGradientFactory.createGaussian, evaluated per pixel.
+ * Outputs premultiplied colour for additive blending.
+ */
+export const ORB_GLOW_FRAGMENT_SHADER = /* glsl */ `
+uniform float coreRatio;
+
+varying vec2 vOffset;
+varying vec3 vColor;
+varying vec2 vGlow;
+
+vec3 hslToRgb(vec3 hsl) {
+	vec3 rgb = clamp(abs(mod(hsl.x * 6.0 + vec3(0.0, 4.0, 2.0), 6.0) - 3.0) - 1.0, 0.0, 1.0);
+	return hsl.z + hsl.y * (rgb - 0.5) * (1.0 - abs(2.0 * hsl.z - 1.0));
+}
+
+void main() {
+	float t = length(vOffset);
+	if (t > 1.0) discard;
+
+	// Sigma controls the width of the Gaussian curve
+	float gaussian = exp(-pow(t / 0.4, vGlow.y));
+	float alpha = min(1.0, vGlow.x * gaussian);
+
+	float coreLightness = min(vColor.z + 0.35, 0.55);
+	float lightnessT = max(0.0, (t - coreRatio) / (1.0 - coreRatio));
+	float lightness = mix(coreLightness, vColor.z, sqrt(lightnessT));
+
+	gl_FragColor = vec4(hslToRgb(vec3(vColor.xy, lightness)) * alpha, alpha);
+}
+`;
@@ -0,0 +1,46 @@
+// =============================================================================
+// OrbRendererFactory - Picks an orb renderer backend at runtime
+// =============================================================================
+
+import { Canvas2DOrbRenderer } from './Canvas2DOrbRenderer';
+import { type OrbRenderer, type OrbRendererBackend } from './types';
+
+/**
+ * Creates orb renderers, falling back to Canvas2D.
+ *
+ * The WebGL renderer and three.js are loaded on demand, so pages using
+ * the Canvas2D backend never download them. If loading fails or no WebGL
+ * context can be created, Canvas2D is used instead. A failed WebGL context
+ * leaves the canvas without one, so Canvas2D can still take it; the
+ * renderer's `backend` tells which was used.
+ *
+ * Single Responsibility: Backend selection only.
+ */
+export class OrbRendererFactory {
+	/**
+	 * Creates a renderer for a canvas.
+	 *
+	 * @param canvas - Canvas without a context yet.
+	 * @param backend - Preferred backend.
+	 * @returns The renderer, or null if no context could be created.
+	 */
+	static async create(canvas: HTMLCanvasElement, backend: OrbRendererBackend): Promise<OrbRenderer | null> {
+		if (backend === 'webgl') {
+			const renderer = await this.createWebGL(canvas);
+			if (renderer) return renderer;
+		}
+		return Canvas2DOrbRenderer.create(canvas);
+	}
+
+	/**
+	 * Loads the WebGL renderer and creates it, or returns null if either fails.
+	 */
+	private static async createWebGL(canvas: HTMLCanvasElement): Promise<OrbRenderer | null> {
+		try {
+			const { WebGLOrbRenderer } = await import('./WebGLOrbRenderer');
+			return WebGLOrbRenderer.create(canvas);
+		} catch {
+			return null;
+		}
+	}
+}
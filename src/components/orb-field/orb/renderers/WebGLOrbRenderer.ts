@@ -0,0 +1,245 @@
+// =============================================================================
+// WebGLOrbRenderer - Instanced orb rendering with three.js
+// =============================================================================
+
+import {
+	AdditiveBlending,
+	BufferAttribute,
+	DoubleSide,
+	DynamicDrawUsage,
+	InstancedBufferAttribute,
+	InstancedBufferGeometry,
+	Mesh,
+	NormalBlending,
+	OrthographicCamera,
+	Scene,
+	ShaderMaterial,
+	WebGLRenderer,
+} from 'three';
+import { type Orb } from '../types';
+import { OrbGlowRenderer, type OrbGlow } from '../visuals/OrbGlowRenderer';
+import { type WindowSize } from '../../shared/types';
+import { ParallaxDepth } from '../../shared/parallax';
+import { OrbSpecies } from '../../species';
+import { OrbPalettes } from '../../palette';
+import { ORB_GLOW_FRAGMENT_SHADER, ORB_GLOW_VERTEX_SHADER } from './OrbGlowShader';
+import { type OrbRenderer, type OrbRenderOffset, type OrbRenderStyle } from './types';
+
+/** Instances allocated up front; the buffers double when exceeded. */
+const INITIAL_CAPACITY = 256;
+
+/**
+ * Per-instance buffers, grown together.
+ */
+interface InstanceBuffers {
+	capacity: number;
+	center: InstancedBufferAttribute;
+	radius: InstancedBufferAttribute;
+	color: InstancedBufferAttribute;
+	glow: InstancedBufferAttribute;
+}
+
+/**
+ * Draws every orb as one instanced quad with a glow shader.
+ *
+ * Orbs sit at their real depth in an orthographic camera spanning the
+ * viewport in CSS pixels. Additive blending makes the result independent
+ * of draw order, so nothing is sorted and thousands of orbs stay cheap.
+ * Light pages use normal blending instead, where overlaps follow array
+ * order; faint glows make that hard to notice.
+ * Glow geometry comes from OrbGlowRenderer.measure(), so both backends
+ * size and fade orbs the same way.
+ *
+ * Single Responsibility: WebGL drawing only.
+ */
+export class WebGLOrbRenderer implements OrbRenderer {
+	readonly backend = 'webgl';
+
+	private readonly renderer: WebGLRenderer;
+	private readonly scene = new Scene();
+	private readonly camera = new OrthographicCamera(0, 1, 0, 1, 0, 1);
+	private readonly material: ShaderMaterial;
+	private readonly mesh: Mesh<InstancedBufferGeometry, ShaderMaterial>;
+	private buffers: InstanceBuffers;
+	private readonly glow: OrbGlow = {
+		x: 0, y: 0, z: 0, depthFactor: 0, blurFactor: 0, fullRadius: 0, radius: 0, opacity: 0, falloffExponent: 0,
+	};
+	private width = 0;
+	private height = 0;
+	private resolutionScale = 1;
+
+	/**
+	 * Creates a renderer around a three.js WebGL renderer.
+	 *
+	 * @param renderer - Renderer owning the canvas's WebGL context.
+	 */
+	constructor(renderer: WebGLRenderer) {
+		this.renderer = renderer;
+		renderer.setClearColor(0x000000, 0);
+
+		this.material = new ShaderMaterial({
+			vertexShader: ORB_GLOW_VERTEX_SHADER,
+			fragmentShader: ORB_GLOW_FRAGMENT_SHADER,
+			uniforms: { coreRatio: { value: 0 } },
+			transparent: true,
+			premultipliedAlpha: true,
+			blending: AdditiveBlending,
+			depthTest: false,
+			depthWrite: false,
+			side: DoubleSide,
+		});
+
+		this.buffers = this.createBuffers(INITIAL_CAPACITY);
+		this.mesh = new Mesh(this.createGeometry(this.buffers), this.material);
+		// Instances are spread over the viewport; the unit quad's bounds mean nothing
+		this.mesh.frustumCulled = false;
+		this.scene.add(this.mesh);
+		this.camera.position.z = 1;
+	}
+
+	/**
+	 * Creates a renderer for a canvas.
+	 *
+	 * @param canvas - Canvas without a context yet.
+	 * @returns The renderer, or null if a WebGL context could not be created.
+	 */
+	static create(canvas: HTMLCanvasElement | OffscreenCanvas): WebGLOrbRenderer | null {
+		try {
+			return new WebGLOrbRenderer(new WebGLRenderer({ canvas, alpha: true, premultipliedAlpha: true, antialias: false }));
+		} catch {
+			return null;
+		}
+	}
+
+	resize(windowSize: WindowSize, resolutionScale: number): void {
+		const { width, height } = windowSize;
+		if (width === this.width && height === this.height && resolutionScale === this.resolutionScale) return;
+		this.width = width;
+		this.height = height;
+		this.resolutionScale = resolutionScale;
+
+		// Canvas may render below full resolution; CSS stretches it to the viewport
+		this.renderer.setSize(Math.round(width * resolutionScale), Math.round(height * resolutionScale), false);
+
+		// Top-left origin with Y down, matching the 2D canvas
+		this.camera.right = width;
+		this.camera.bottom = height;
+		this.camera.updateProjectionMatrix();
+	}
+
+	draw(orbs: Orb[], layers: number, time: number, offset: OrbRenderOffset, style: OrbRenderStyle): void {
+		const { config, species, alpha, focus, parallaxDepth, palette, blendMode } = style;
+		if (orbs.length > this.buffers.capacity) this.grow(orbs.length);
+
+		const { center, radius, color, glow: glowAttribute } = this.buffers;
+		const centers = center.array as Float32Array;
+		const radii = radius.array as Float32Array;
+		const colors = color.array as Float32Array;
+		const glows = glowAttribute.array as Float32Array;
+		const glow = this.glow;
+
+		let count = 0;
+		for (const orb of orbs) {
+			const profile = OrbSpecies.profileOf(orb.kind, species);
+			if (!OrbGlowRenderer.measure(orb, layers, config, time, alpha, profile, focus, glow)) continue;
+
+			// Each orb moves by its layer's share of the parallax offset
+			const scale = ParallaxDepth.scaleAt(glow.z, layers, parallaxDepth);
+			centers[count * 3] = glow.x + offset.x * scale;
+			centers[count * 3 + 1] = glow.y + offset.y * scale;
+			centers[count * 3 + 2] = -glow.z;
+			radii[count] = glow.radius;
+
+			// Palette crossfades blend each orb's colour rather than drawing it twice
+			let orbColor = palette?.to ? OrbPalettes.colorOf(palette.to, orb.tint) : profile.color;
+			if (palette && palette.from !== palette.to && palette.progress < 1) {
+				const fromColor = palette.from ? OrbPalettes.colorOf(palette.from, orb.tint) : profile.color;
+				orbColor = OrbPalettes.lerpColor(fromColor, orbColor, palette.progress);
+			}
+			colors[count * 3] = orbColor.hue / 360;
+			colors[count * 3 + 1] = orbColor.saturation / 100;
+			colors[count * 3 + 2] = orbColor.lightness / 100;
+			glows[count * 2] = glow.opacity * profile.glowIntensity;
+			glows[count * 2 + 1] = glow.falloffExponent;
+			count++;
+		}
+
+		center.needsUpdate = true;
+		radius.needsUpdate = true;
+		color.needsUpdate = true;
+		glowAttribute.needsUpdate = true;
+		this.mesh.geometry.instanceCount = count;
+
+		// Keep every layer between the near and far planes
+		if (this.camera.far !== layers + 2) {
+			this.camera.far = layers + 2;
+			this.camera.updateProjectionMatrix();
+		}
+		this.material.uniforms.coreRatio.value = config.coreRatio;
+		// On light pages orbs layer normally and the canvas multiplies onto the page
+		const blending = blendMode === 'multiply' ? NormalBlending : AdditiveBlending;
+		if (this.material.blending !== blending) {
+			this.material.blending = blending;
+			this.material.needsUpdate = true;
+		}
+		this.renderer.render(this.scene, this.camera);
+	}
+
+	clear(): void {
+		this.renderer.clear();
+	}
+
+	dispose(): void {
+		this.mesh.geometry.dispose();
+		this.material.dispose();
+		this.renderer.dispose();
+	}
+
+	/**
+	 * Replaces the instance buffers with ones that fit at least `count` orbs.
+	 */
+	private grow(count: number): void {
+		let capacity = this.buffers.capacity;
+		while (capacity < count) capacity *= 2;
+
+		this.mesh.geometry.dispose();
+		this.buffers = this.createBuffers(capacity);
+		this.mesh.geometry = this.createGeometry(this.buffers);
+	}
+
+	/**
+	 * Allocates per-instance buffers.
+	 */
+	private createBuffers(capacity: number): InstanceBuffers {
+		const attribute = (itemSize: number) =>
+			new InstancedBufferAttribute(new Float32Array(capacity * itemSize), itemSize).setUsage(DynamicDrawUsage);
+
+		return {
+			capacity,
+			center: attribute(3),
+			radius: attribute(1),
+			color: attribute(3),
+			glow: attribute(2),
+		};
+	}
+
+	/**
+	 * Builds a unit quad (-1 to 1) instanced over the buffers.
+	 */
+	private createGeometry(buffers: InstanceBuffers): InstancedBufferGeometry {
+		const geometry = new InstancedBufferGeometry();
+		geometry.setAttribute('position', new BufferAttribute(new Float32Array([
+			-1, -1, 0,
+			1, -1, 0,
+			1, 1, 0,
+			-1, 1, 0,
+		]), 3));
+		geometry.setIndex([0, 1, 2, 0, 2, 3]);
+		geometry.setAttribute('instanceCenter', buffers.center);
+		geometry.setAttribute('instanceRadius', buffers.radius);
+		geometry.setAttribute('instanceColor', buffers.color);
+		geometry.setAttribute('instanceGlow', buffers.glow);
+		geometry.instanceCount = 0;
+		return geometry;
+	}
+}
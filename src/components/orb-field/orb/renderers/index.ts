@@ -0,0 +1,13 @@
+// =============================================================================
+// Orb Renderers - Canvas2D and WebGL backends for the visual orb canvas
+// =============================================================================
+
+// WebGLOrbRenderer is not re-exported: OrbRendererFactory loads it (and three.js) on demand
+export { Canvas2DOrbRenderer } from './Canvas2DOrbRenderer';
+export { OrbRendererFactory } from './OrbRendererFactory';
+export type {
+	OrbRenderer,
+	OrbRendererBackend,
+	OrbRenderOffset,
+	OrbRenderStyle,
+} from './types';
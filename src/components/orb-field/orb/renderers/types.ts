@@ -0,0 +1,76 @@
+// =============================================================================
+// Orb Renderer Types
+// =============================================================================
+
+import { type Orb } from '../types';
+import { type OrbVisualConfig } from '../visuals/OrbVisualConfig';
+import { type OrbBlendMode, type WindowSize } from '../../shared/types';
+import { type OrbSpeciesTable } from '../../species';
+import { type OrbFocus } from '../../focus';
+import { type ParallaxDepthCurve } from '../../shared/config';
+import { type OrbPaletteBlend } from '../../palette';
+
+/**
+ * Drawing backend for the visual orb canvas.
+ * - 'canvas2d': Pre-rendered glow sprites blitted back to front
+ * - 'webgl': Instanced quads with a glow shader, additive blending and true depth
+ */
+export type OrbRendererBackend = 'canvas2d' | 'webgl';
+
+/**
+ * Parallax offset in pixels, before per-layer scaling.
+ */
+export interface OrbRenderOffset {
+	x: number;
+	y: number;
+}
+
+/**
+ * Appearance settings for one frame.
+ */
+export interface OrbRenderStyle {
+	/** Visual configuration (usually from the quality tier). */
+	config: OrbVisualConfig;
+	/** Species profiles by kind, for colour and glow. */
+	species: OrbSpeciesTable;
+	/** Interpolation factor between previous and current physics state (0-1). */
+	alpha: number;
+	/** Focal plane; null blurs with depth. */
+	focus: OrbFocus | null;
+	/** How much of the parallax offset each layer moves by. */
+	parallaxDepth: ParallaxDepthCurve;
+	/** Palettes to colour orbs from; null keeps species colours. */
+	palette: OrbPaletteBlend | null;
+	/** How overlapping orbs combine ('screen' for dark pages, 'multiply' for light). */
+	blendMode: OrbBlendMode;
+}
+
+/**
+ * Draws orbs onto one canvas.
+ *
+ * A canvas keeps the context type it was first given, so each renderer
+ * owns its canvas for life; switching backends needs a new canvas.
+ */
+export interface OrbRenderer {
+	/** Backend in use (after any fallback). */
+	readonly backend: OrbRendererBackend;
+	/**
+	 * Sizes the canvas to the viewport at a resolution scale.
+	 * Orbs are always positioned in CSS pixels.
+	 */
+	resize(windowSize: WindowSize, resolutionScale: number): void;
+	/**
+	 * Clears the canvas and draws all orbs.
+	 *
+	 * @param orbs - Orbs to draw (from ALL layers).
+	 * @param layers - Total number of z-layers.
+	 * @param time - Current timestamp for spawn/despawn animations.
+	 * @param offset - Parallax offset in pixels, scaled per layer by style.parallaxDepth.
+	 * @param style - Visual config, species, interpolation, focal plane, parallax depth, palette and blend mode.
+	 */
+	draw(orbs: Orb[], layers: number, time: number, offset: OrbRenderOffset, style: OrbRenderStyle): void;
+	/** Clears the canvas. */
+	clear(): void;
+	/** Releases GPU and canvas resources. */
+	dispose(): void;
+}
@@ -2,6 +2,8 @@
 // Orb Types - Type definitions for the orb system
 // =============================================================================
 
+import { type OrbKind } from '../species';
+
 /**
  * Represents an individual orb in the 3D simulation.
  *
@@ -30,6 +32,15 @@ export interface Orb {
 	/** Z velocity component in layers per second. */
 	vz: number;
 
+	/** Pixel X position at the start of the last physics step (for render interpolation). */
+	prevPxX: number;
+
+	/** Pixel Y position at the start of the last physics step (for render interpolation). */
+	prevPxY: number;
+
+	/** Z position at the start of the last physics step (for render interpolation). */
+	prevZ: number;
+
 	/** Speed magnitude in pixels per second (XY plane). */
 	speed: number;
 
@@ -39,6 +50,12 @@ export interface Orb {
 	/** Orb diameter in grid cells (3D sphere). */
 	size: number;
 
+	/** Species profile key; sets colour, glow, wander, speed, mass and depth band. */
+	kind: OrbKind;
+
+	/** Position on the active palette's colour range (0-1), drawn at spawn. */
+	tint: number;
+
 	/** Timestamp when the orb was created (milliseconds since epoch). */
 	createdAt: number;
 
@@ -4,6 +4,8 @@
 
 import { type Orb } from '../types';
 import { generateAnimationDurations, generateWanderParams } from './OrbSpawnUtils';
+import { createRandomId, type RandomSource } from '../../shared/random';
+import { OrbSpecies, DEFAULT_ORB_KIND, DEFAULT_ORB_SPECIES, type OrbKind, type OrbSpeciesTable } from '../../species';
 
 /**
  * Parameters for creating an orb.
@@ -31,6 +33,8 @@ export interface CreateOrbParams {
 	lifetimeMs: number;
 	/** Optional spawn delay for staggered appearance (milliseconds). */
 	spawnDelay?: number;
+	/** Species kind (default DEFAULT_ORB_KIND). */
+	kind?: OrbKind;
 }
 
 /**
@@ -41,12 +45,23 @@ export interface CreateOrbParams {
 export class OrbFactory {
 	/**
 	 * Creates a new orb with the specified parameters.
-	 * Automatically generates animation durations and wander parameters.
+	 * Automatically generates id, animation durations, wander parameters
+	 * (from the species' wander ranges) and the palette tint.
+	 * 
+	 * Pass a seeded random source and a clock time to create orbs reproducibly.
 	 * 
 	 * @param params - Orb creation parameters.
+	 * @param random - Random source for id and generated parameters (default Math.random).
+	 * @param now - Creation time in milliseconds (default performance.now()).
+	 * @param species - Species profiles by kind.
 	 * @returns A fully initialized Orb object.
 	 */
-	static create(params: CreateOrbParams): Orb {
+	static create(
+		params: CreateOrbParams,
+		random: RandomSource = Math.random,
+		now: number = performance.now(),
+		species: OrbSpeciesTable = DEFAULT_ORB_SPECIES
+	): Orb {
 		const {
 			pxX,
 			pxY,
@@ -59,23 +74,29 @@ export class OrbFactory {
 			size,
 			lifetimeMs,
 			spawnDelay = 0,
+			kind = DEFAULT_ORB_KIND,
 		} = params;
 
-		const animDurations = generateAnimationDurations();
-		const wanderParams = generateWanderParams();
-		const now = performance.now();
+		const animDurations = generateAnimationDurations(random);
+		const wanderParams = generateWanderParams(random, OrbSpecies.profileOf(kind, species).wander);
+		const tint = random();
 
 		return {
-			id: crypto.randomUUID(),
+			id: createRandomId(random),
 			pxX,
 			pxY,
 			z,
 			vx,
 			vy,
 			vz,
+			prevPxX: pxX,
+			prevPxY: pxY,
+			prevZ: z,
 			speed,
 			angle,
 			size,
+			kind,
+			tint,
 			createdAt: now - spawnDelay,
 			lifetimeMs,
 			spawnAnimDurationMs: animDurations.spawnAnimDurationMs,
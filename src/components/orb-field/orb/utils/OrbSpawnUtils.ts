@@ -3,41 +3,47 @@
 // =============================================================================
 
 import { DEFAULT_ORB_VISUAL_CONFIG } from '../visuals/OrbVisualConfig';
-import { DEFAULT_WANDER_CONFIG } from '../config';
+import { DEFAULT_WANDER_CONFIG, type OrbWanderConfig } from '../config';
+import { type RandomSource } from '../../shared/random';
 
 /**
  * Generates random animation durations for an orb.
  * Each orb gets unique spawn and despawn durations within the configured range.
+ *
+ * @param random - Random source (default Math.random).
  */
-export function generateAnimationDurations(): {
+export function generateAnimationDurations(random: RandomSource = Math.random): {
 	spawnAnimDurationMs: number;
 	despawnAnimDurationMs: number;
 } {
 	const { spawnDurationMinMs, spawnDurationMaxMs, despawnDurationMinMs, despawnDurationMaxMs } = DEFAULT_ORB_VISUAL_CONFIG;
 	return {
-		spawnAnimDurationMs: spawnDurationMinMs + Math.random() * (spawnDurationMaxMs - spawnDurationMinMs),
-		despawnAnimDurationMs: despawnDurationMinMs + Math.random() * (despawnDurationMaxMs - despawnDurationMinMs),
+		spawnAnimDurationMs: spawnDurationMinMs + random() * (spawnDurationMaxMs - spawnDurationMinMs),
+		despawnAnimDurationMs: despawnDurationMinMs + random() * (despawnDurationMaxMs - despawnDurationMinMs),
 	};
 }
 
 /**
  * Generates random wander parameters for an orb.
  * Each orb gets unique wander characteristics for organic movement.
+ *
+ * @param random - Random source (default Math.random).
+ * @param config - Wander ranges (default DEFAULT_WANDER_CONFIG, species may override).
  */
-export function generateWanderParams(): {
+export function generateWanderParams(random: RandomSource = Math.random, config: OrbWanderConfig = DEFAULT_WANDER_CONFIG): {
 	wanderStrength: number;
 	wanderPhase: number;
 	wanderSpeed: number;
 	wanderModulationSpeed: number;
 	wanderModulationPhase: number;
 } {
-	const { minWanderStrength, maxWanderStrength, minWanderSpeed, maxWanderSpeed, minModulationSpeed, maxModulationSpeed } = DEFAULT_WANDER_CONFIG;
+	const { minWanderStrength, maxWanderStrength, minWanderSpeed, maxWanderSpeed, minModulationSpeed, maxModulationSpeed } = config;
 	return {
-		wanderStrength: minWanderStrength + Math.random() * (maxWanderStrength - minWanderStrength),
-		wanderPhase: Math.random() * Math.PI * 2, // Start at random phase
-		wanderSpeed: minWanderSpeed + Math.random() * (maxWanderSpeed - minWanderSpeed),
-		wanderModulationSpeed: minModulationSpeed + Math.random() * (maxModulationSpeed - minModulationSpeed),
-		wanderModulationPhase: Math.random() * Math.PI * 2,
+		wanderStrength: minWanderStrength + random() * (maxWanderStrength - minWanderStrength),
+		wanderPhase: random() * Math.PI * 2, // Start at random phase
+		wanderSpeed: minWanderSpeed + random() * (maxWanderSpeed - minWanderSpeed),
+		wanderModulationSpeed: minModulationSpeed + random() * (maxModulationSpeed - minModulationSpeed),
+		wanderModulationPhase: random() * Math.PI * 2,
 	};
 }
 
@@ -46,9 +52,10 @@ export function generateWanderParams(): {
  * Uses 1/(size^1.3) instead of 1/(size^2) for more balanced distribution.
  * 
  * @param maxSize - Maximum allowed orb size.
+ * @param random - Random source (default Math.random).
  * @returns A random size between 1 and maxSize.
  */
-export function getRandomSize(maxSize: number): number {
+export function getRandomSize(maxSize: number, random: RandomSource = Math.random): number {
 	// Build cumulative weights: 1/(1^1.3), 1/(2^1.3), 1/(3^1.3), etc.
 	const weights: number[] = [];
 	let sum = 0;
@@ -59,7 +66,7 @@ export function getRandomSize(maxSize: number): number {
 	}
 
 	// Random selection
-	const rand = Math.random() * sum;
+	const rand = random() * sum;
 	for (let i = 0; i < weights.length; i++) {
 		if (rand <= weights[i]) {
 			return i + 1;
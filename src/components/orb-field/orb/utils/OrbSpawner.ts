@@ -0,0 +1,290 @@
+// =============================================================================
+// OrbSpawner - Burst, random and manual orb spawning
+// =============================================================================
+
+import { type Orb } from '../types';
+import { OrbGridMarking, OrbBehaviors } from '../core';
+import { SpatialGrid } from '../../grid/core/SpatialGrid';
+import { type ViewportCells } from '../../grid/types';
+import { type OrbSpawnConfig, type OrbBurstConfig, type ContinuousSpawnConfig } from '../config';
+import { SpawnValidation } from '../../collision';
+import { type RandomSource } from '../../shared/random';
+import { OrbFactory } from './OrbFactory';
+import { getRandomSize } from './OrbSpawnUtils';
+import { OrbSpecies, DEFAULT_ORB_KIND, type OrbKind, type OrbSpeciesConfig } from '../../species';
+
+/**
+ * Creates orbs at validated positions and marks them on the grid.
+ *
+ * All randomness comes from the supplied random source and all timestamps
+ * from the supplied time, so spawning is reproducible with a seeded source.
+ * Callers own the orbs array and append the returned orbs themselves.
+ *
+ * Single Responsibility: Orb spawn placement and initial motion only.
+ */
+export class OrbSpawner {
+	/**
+	 * Spawns a burst of orbs from a center point with size-based distribution.
+	 *
+	 * Implements:
+	 * - Species chosen by the burst weights
+	 * - Weighted size selection (power law with exponent 1.3 for balanced distribution)
+	 * - Size-based layer assignment within the species' layer band (larger orbs on back layers)
+	 * - Size-scaled velocity (smaller orbs faster, larger orbs slower)
+	 * - Collision-safe positioning with retries
+	 * - Outward velocity from center point
+	 * - Staggered spawn timing for organic appearance
+	 * - Position jitter for non-circular explosion pattern
+	 *
+	 * @param centerX - Burst center X in pixels.
+	 * @param centerY - Burst center Y in pixels.
+	 * @param grid - Spatial grid for spawn validation and marking.
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param burstConfig - Burst spawn configuration.
+	 * @param species - Species profiles and spawn weights.
+	 * @param random - Random source.
+	 * @param now - Creation time in milliseconds.
+	 * @returns Newly created orbs.
+	 */
+	static spawnBurst(
+		centerX: number,
+		centerY: number,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		burstConfig: OrbBurstConfig,
+		species: OrbSpeciesConfig,
+		random: RandomSource,
+		now: number
+	): Orb[] {
+		const { targetCount, maxSize, spawnRadiusPx, maxRetries, minSpeed, maxSpeed, spawnDelayMaxMs, positionJitterPx } = burstConfig;
+		const totalLayers = grid.config.layers;
+		const newOrbs: Orb[] = [];
+
+		// Helper: Get random position near center with organic distribution
+		const getRandomPosition = (): { x: number; y: number } => {
+			const angle = random() * Math.PI * 2;
+			const normalizedDistance = Math.pow(random(), 0.6);
+			const distance = normalizedDistance * spawnRadiusPx;
+
+			const baseX = centerX + Math.cos(angle) * distance;
+			const baseY = centerY + Math.sin(angle) * distance;
+
+			const jitterX = (random() - 0.5) * 2 * positionJitterPx;
+			const jitterY = (random() - 0.5) * 2 * positionJitterPx;
+
+			return {
+				x: baseX + jitterX,
+				y: baseY + jitterY,
+			};
+		};
+
+		// Spawn each orb
+		for (let i = 0; i < targetCount; i++) {
+			const kind = OrbSpecies.pick(species.burstWeights, species.profiles, random);
+			const profile = OrbSpecies.profileOf(kind, species.profiles);
+			const size = getRandomSize(maxSize, random);
+			const layer = OrbBehaviors.getPreferredLayer(size, maxSize, totalLayers, profile.layerBand);
+
+			const spawnPos = OrbSpawner.findSpawnPosition(getRandomPosition, layer, size, maxRetries, grid, vpc);
+			if (!spawnPos) continue;
+
+			const dx = spawnPos.x - centerX;
+			const dy = spawnPos.y - centerY;
+			const angle = Math.atan2(dy, dx);
+
+			const sizeSpeedFactor = 1 / Math.sqrt(size);
+			const speedRandomness = Math.pow(random(), 0.6);
+
+			const scaledMinSpeed = minSpeed * sizeSpeedFactor;
+			const scaledMaxSpeed = maxSpeed * sizeSpeedFactor;
+			const speed = scaledMinSpeed + speedRandomness * (scaledMaxSpeed - scaledMinSpeed);
+
+			const lifetimeMs = profile.lifetimeMs.min + random() * (profile.lifetimeMs.max - profile.lifetimeMs.min);
+			const spawnDelay = random() * spawnDelayMaxMs;
+
+			const newOrb: Orb = OrbFactory.create({
+				pxX: spawnPos.x,
+				pxY: spawnPos.y,
+				z: layer,
+				vx: Math.cos(angle) * speed,
+				vy: Math.sin(angle) * speed,
+				vz: 0,
+				speed,
+				angle,
+				size,
+				lifetimeMs,
+				spawnDelay,
+				kind,
+			}, random, now, species.profiles);
+
+			OrbGridMarking.markOrbCircular(grid, newOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+			newOrbs.push(newOrb);
+		}
+
+		return newOrbs;
+	}
+
+	/**
+	 * Spawns orbs at random positions across the viewport.
+	 * Uses the same size distribution as burst spawning, with species
+	 * chosen by the continuous weights.
+	 *
+	 * @param count - Number of orbs to attempt to spawn.
+	 * @param screenWidth - Viewport width in pixels.
+	 * @param screenHeight - Viewport height in pixels.
+	 * @param grid - Spatial grid for spawn validation and marking.
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param burstConfig - Burst configuration (size, speed and lifetime ranges).
+	 * @param continuousConfig - Continuous spawn configuration (edge margin).
+	 * @param species - Species profiles and spawn weights.
+	 * @param random - Random source.
+	 * @param now - Creation time in milliseconds.
+	 * @returns Newly created orbs (may be fewer than count).
+	 */
+	static spawnRandom(
+		count: number,
+		screenWidth: number,
+		screenHeight: number,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		burstConfig: OrbBurstConfig,
+		continuousConfig: ContinuousSpawnConfig,
+		species: OrbSpeciesConfig,
+		random: RandomSource,
+		now: number
+	): Orb[] {
+		const { maxSize, maxRetries, minSpeed, maxSpeed } = burstConfig;
+		const { edgeMarginPx } = continuousConfig;
+		const totalLayers = grid.config.layers;
+		const newOrbs: Orb[] = [];
+
+		const getRandomPosition = (): { x: number; y: number } => {
+			return {
+				x: edgeMarginPx + random() * (screenWidth - 2 * edgeMarginPx),
+				y: edgeMarginPx + random() * (screenHeight - 2 * edgeMarginPx),
+			};
+		};
+
+		for (let i = 0; i < count; i++) {
+			const kind = OrbSpecies.pick(species.continuousWeights, species.profiles, random);
+			const profile = OrbSpecies.profileOf(kind, species.profiles);
+			const size = getRandomSize(maxSize, random);
+			const layer = OrbBehaviors.getPreferredLayer(size, maxSize, totalLayers, profile.layerBand);
+
+			const spawnPos = OrbSpawner.findSpawnPosition(getRandomPosition, layer, size, maxRetries, grid, vpc);
+			if (!spawnPos) continue;
+
+			const angle = random() * Math.PI * 2;
+
+			const sizeSpeedFactor = 1 / Math.sqrt(size);
+			const scaledMinSpeed = minSpeed * sizeSpeedFactor;
+			const scaledMaxSpeed = maxSpeed * sizeSpeedFactor;
+			const speed = scaledMinSpeed + random() * (scaledMaxSpeed - scaledMinSpeed);
+
+			const lifetimeMs = profile.lifetimeMs.min + random() * (profile.lifetimeMs.max - profile.lifetimeMs.min);
+
+			const newOrb: Orb = OrbFactory.create({
+				pxX: spawnPos.x,
+				pxY: spawnPos.y,
+				z: layer,
+				vx: Math.cos(angle) * speed,
+				vy: Math.sin(angle) * speed,
+				vz: 0,
+				speed,
+				angle,
+				size,
+				lifetimeMs,
+				kind,
+			}, random, now, species.profiles);
+
+			OrbGridMarking.markOrbCircular(grid, newOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+			newOrbs.push(newOrb);
+		}
+
+		return newOrbs;
+	}
+
+	/**
+	 * Creates a single immortal orb at an exact position (debug spawn).
+	 *
+	 * @param pxX - X position in pixels.
+	 * @param pxY - Y position in pixels.
+	 * @param z - Z layer.
+	 * @param size - Orb size in cells.
+	 * @param grid - Spatial grid for spawn validation and marking.
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param spawnConfig - Spawn configuration (speed range).
+	 * @param species - Species profiles and spawn weights.
+	 * @param random - Random source.
+	 * @param now - Creation time in milliseconds.
+	 * @param kind - Species kind (default DEFAULT_ORB_KIND).
+	 * @returns The new orb, or null if the position is blocked.
+	 */
+	static createAt(
+		pxX: number,
+		pxY: number,
+		z: number,
+		size: number,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		spawnConfig: OrbSpawnConfig,
+		species: OrbSpeciesConfig,
+		random: RandomSource,
+		now: number,
+		kind: OrbKind = DEFAULT_ORB_KIND
+	): Orb | null {
+		// Validate spawn position
+		if (!SpawnValidation.canSpawn(pxX, pxY, z, size, grid, vpc)) {
+			return null;
+		}
+
+		// Random 3D direction
+		const theta = random() * Math.PI * 2;
+		const phi = (random() - 0.5) * Math.PI * 0.5;
+		const speedRange = spawnConfig.maxSpeed - spawnConfig.minSpeed;
+		const speed = spawnConfig.minSpeed + random() * speedRange;
+
+		const cosTheta = Math.cos(theta);
+		const sinTheta = Math.sin(theta);
+		const cosPhi = Math.cos(phi);
+		const sinPhi = Math.sin(phi);
+
+		const newOrb: Orb = OrbFactory.create({
+			pxX,
+			pxY,
+			z,
+			vx: cosTheta * cosPhi * speed,
+			vy: sinTheta * cosPhi * speed,
+			vz: sinPhi * speed * 0.05,
+			speed,
+			angle: theta,
+			size,
+			lifetimeMs: Infinity,
+			kind,
+		}, random, now, species.profiles);
+
+		OrbGridMarking.markOrbCircular(grid, newOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+
+		return newOrb;
+	}
+
+	/**
+	 * Tries random positions until one passes spawn validation.
+	 */
+	private static findSpawnPosition(
+		getRandomPosition: () => { x: number; y: number },
+		layer: number,
+		size: number,
+		maxRetries: number,
+		grid: SpatialGrid,
+		vpc: ViewportCells
+	): { x: number; y: number } | null {
+		for (let attempts = 0; attempts < maxRetries; attempts++) {
+			const pos = getRandomPosition();
+			if (SpawnValidation.canSpawn(pos.x, pos.y, layer, size, grid, vpc)) {
+				return pos;
+			}
+		}
+		return null;
+	}
+}
@@ -8,3 +8,4 @@ export {
 	getRandomSize,
 } from './OrbSpawnUtils';
 export { OrbFactory, type CreateOrbParams } from './OrbFactory';
+export { OrbSpawner } from './OrbSpawner';
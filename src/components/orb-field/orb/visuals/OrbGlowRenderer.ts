@@ -5,7 +5,36 @@
 import { type Orb } from '../types';
 import { type OrbVisualConfig } from './OrbVisualConfig';
 import { OrbGradientFactory } from './OrbGradientFactory';
+import { OrbSpriteCache } from './OrbSpriteCache';
 import { OrbAnimationTiming } from './OrbAnimationTiming';
+import { type Canvas2DContext } from '../../shared/types';
+import { type OrbColor, type OrbSpeciesProfile } from '../../species';
+import { FocalPlane, type OrbFocus } from '../../focus';
+
+/**
+ * Where and how strongly one orb glows this frame.
+ * Filled by OrbGlowRenderer.measure() and shared by every renderer backend.
+ */
+export interface OrbGlow {
+	/** Interpolated X position in pixels. */
+	x: number;
+	/** Interpolated Y position in pixels. */
+	y: number;
+	/** Interpolated z-position (0 = closest). */
+	z: number;
+	/** Depth from 0 (close) to 1 (far). */
+	depthFactor: number;
+	/** Blur from 0 (in focus) to 1 (fully blurred). */
+	blurFactor: number;
+	/** Glow radius at full size, before spawn/despawn scaling. */
+	fullRadius: number;
+	/** Glow radius as drawn this frame. */
+	radius: number;
+	/** Opacity including depth and spawn/despawn fade (0-1). */
+	opacity: number;
+	/** Gaussian falloff exponent for this blur. */
+	falloffExponent: number;
+}
 
 /**
  * Handles rendering of individual orbs with glow effects.
@@ -13,9 +42,15 @@ import { OrbAnimationTiming } from './OrbAnimationTiming';
  * Single Responsibility: Orb drawing logic only.
  */
 export class OrbGlowRenderer {
+	/** Scratch result for draw(), reused every orb. */
+	private static glow: OrbGlow = {
+		x: 0, y: 0, z: 0, depthFactor: 0, blurFactor: 0, fullRadius: 0, radius: 0, opacity: 0, falloffExponent: 0,
+	};
+
 	/**
-	 * Draws a single orb with radial gradient for glow and depth blur effect.
-	 * Uses Gaussian-like exponential decay for soft, natural-looking edges.
+	 * Draws a single orb's glow with a depth blur effect.
+	 * Blits a pre-rendered sprite from OrbSpriteCache, falling back to a
+	 * radial gradient with Gaussian-like decay where sprites are unavailable.
 	 * Applies spawn/despawn animation for smooth fade-in/out and scale effects.
 	 *
 	 * @param ctx - The 2D canvas rendering context.
@@ -23,26 +58,113 @@ export class OrbGlowRenderer {
 	 * @param totalLayers - Total number of z-layers.
 	 * @param config - Visual configuration.
 	 * @param currentTime - Current timestamp for animation calculations.
+	 * @param alpha - Interpolation factor between previous and current physics position (0-1).
+	 * @param profile - Species profile for colour and glow (default: the config's base colour and glow).
+	 * @param focus - Focal plane; null blurs with depth.
 	 */
 	static draw(
-		ctx: CanvasRenderingContext2D,
+		ctx: Canvas2DContext,
 		orb: Orb,
 		totalLayers: number,
 		config: OrbVisualConfig,
-		currentTime: number
+		currentTime: number,
+		alpha: number = 1,
+		profile?: OrbSpeciesProfile,
+		focus: OrbFocus | null = null
 	): void {
-		const { pxX, pxY, z, size } = orb;
+		const glow = this.glow;
+		if (!this.measure(orb, totalLayers, config, currentTime, alpha, profile, focus, glow)) return;
+		this.drawGlow(ctx, glow, config, profile);
+	}
+
+	/**
+	 * Draws a measured glow at its position.
+	 * Callers may move the glow (e.g. by its layer's parallax) after measuring.
+	 *
+	 * @param ctx - The 2D canvas rendering context.
+	 * @param glow - Glow from measure().
+	 * @param config - Visual configuration.
+	 * @param profile - Species profile for colour and glow (default: the config's base colour and glow).
+	 * @param color - Colour replacing the profile's, e.g. a palette slot (optional).
+	 */
+	static drawGlow(
+		ctx: Canvas2DContext,
+		glow: OrbGlow,
+		config: OrbVisualConfig,
+		profile?: OrbSpeciesProfile,
+		color?: OrbColor
+	): void {
+		const { x, y, radius, opacity } = glow;
+
+		// Blit the cached glow, scaled for spawn/despawn
+		const sprite = OrbSpriteCache.get(glow.fullRadius, glow.blurFactor, config, profile, color);
+		if (sprite) {
+			ctx.globalAlpha = opacity;
+			ctx.drawImage(sprite, x - radius, y - radius, radius * 2, radius * 2);
+			ctx.globalAlpha = 1;
+			return;
+		}
+
+		// No canvas for sprites: create and apply gradient
+		const gradient = OrbGradientFactory.createGaussian(
+			ctx,
+			x,
+			y,
+			radius,
+			glow.falloffExponent,
+			opacity,
+			config,
+			profile,
+			color
+		);
+
+		// Draw the orb
+		ctx.beginPath();
+		ctx.arc(x, y, radius, 0, Math.PI * 2);
+		ctx.fillStyle = gradient;
+		ctx.fill();
+	}
+
+	/**
+	 * Computes an orb's interpolated position, glow radius, opacity and
+	 * falloff for this frame. Opacity fades with depth; blur width and
+	 * falloff follow the distance from the focal plane.
+	 *
+	 * @param orb - The orb to measure.
+	 * @param totalLayers - Total number of z-layers.
+	 * @param config - Visual configuration.
+	 * @param currentTime - Current timestamp for animation calculations.
+	 * @param alpha - Interpolation factor between previous and current physics position (0-1).
+	 * @param profile - Species profile for glow spread (optional).
+	 * @param focus - Focal plane; null blurs with depth.
+	 * @param out - Receives the result (mutated).
+	 * @returns False if the orb is invalid, fully faded or too small to draw.
+	 */
+	static measure(
+		orb: Orb,
+		totalLayers: number,
+		config: OrbVisualConfig,
+		currentTime: number,
+		alpha: number,
+		profile: OrbSpeciesProfile | undefined,
+		focus: OrbFocus | null,
+		out: OrbGlow
+	): boolean {
+		const { size } = orb;
+		const pxX = this.lerp(orb.prevPxX, orb.pxX, alpha);
+		const pxY = this.lerp(orb.prevPxY, orb.pxY, alpha);
+		const z = this.lerp(orb.prevZ, orb.z, alpha);
 
 		// Skip orbs with invalid positions
 		if (!isFinite(pxX) || !isFinite(pxY) || !isFinite(z) || !isFinite(size) || size <= 0) {
-			return;
+			return false;
 		}
 
 		// Calculate animation factor
 		const animationFactor = OrbAnimationTiming.calculateAnimationFactor(orb, currentTime, config);
 
 		// Skip if fully invisible or invalid
-		if (animationFactor <= 0 || !isFinite(animationFactor)) return;
+		if (animationFactor <= 0 || !isFinite(animationFactor)) return false;
 
 		// Calculate depth factor
 		const depthFactor = OrbAnimationTiming.calculateDepthFactor(z, totalLayers);
@@ -51,39 +173,32 @@ export class OrbGlowRenderer {
 		const baseRadius = config.baseRadiusPx * Math.pow(size, config.sizeExponent);
 
 		// Calculate blur width
-		const blurWidth = baseRadius * (config.blurWidthBase + depthFactor * config.blurWidthDepthScale);
+		const blurFactor = FocalPlane.blurOf(depthFactor, focus);
+		const blurWidth = baseRadius * (config.blurWidthBase + blurFactor * config.blurWidthDepthScale);
 
 		// Total glow radius with animation scale
-		let glowRadius = (baseRadius * config.coreRatio + blurWidth) * config.glowSpread;
+		const glowSpread = config.glowEnabled ? (profile?.glowSpread ?? config.glowSpread) : 1;
+		const fullRadius = (baseRadius * config.coreRatio + blurWidth) * glowSpread;
 		const scaleFactor = this.lerp(config.animationMinScale, 1, animationFactor);
-		glowRadius *= scaleFactor;
+		const glowRadius = fullRadius * scaleFactor;
 
 		// Skip if radius is too small
-		if (glowRadius < 0.5 || !isFinite(glowRadius)) return;
+		if (glowRadius < 0.5 || !isFinite(glowRadius)) return false;
 
 		// Calculate depth-based opacity
 		const baseOpacity = this.lerp(config.maxOpacity, config.minOpacity, depthFactor);
-		const opacity = baseOpacity * animationFactor;
-
-		// Calculate depth-based falloff exponent
-		const falloffExponent = config.falloffExponentBase * (1 - depthFactor * config.falloffDepthScale);
-
-		// Create and apply gradient
-		const gradient = OrbGradientFactory.createGaussian(
-			ctx,
-			pxX,
-			pxY,
-			glowRadius,
-			falloffExponent,
-			opacity,
-			config
-		);
 
-		// Draw the orb
-		ctx.beginPath();
-		ctx.arc(pxX, pxY, glowRadius, 0, Math.PI * 2);
-		ctx.fillStyle = gradient;
-		ctx.fill();
+		out.x = pxX;
+		out.y = pxY;
+		out.z = z;
+		out.depthFactor = depthFactor;
+		out.blurFactor = blurFactor;
+		out.fullRadius = fullRadius;
+		out.radius = glowRadius;
+		out.opacity = baseOpacity * animationFactor;
+		// Calculate blur-based falloff exponent
+		out.falloffExponent = config.falloffExponentBase * (1 - blurFactor * config.falloffDepthScale);
+		return true;
 	}
 
 	/**
@@ -3,6 +3,8 @@
 // =============================================================================
 
 import { type OrbVisualConfig } from './OrbVisualConfig';
+import { type Canvas2DContext } from '../../shared/types';
+import { type OrbColor, type OrbSpeciesProfile } from '../../species';
 
 /**
  * Factory for creating orb visual gradients.
@@ -23,18 +25,27 @@ export class OrbGradientFactory {
 	 * @param falloffExponent - Controls curve steepness (higher = sharper).
 	 * @param opacity - Overall opacity of the orb.
 	 * @param config - Visual configuration.
+	 * @param profile - Species profile whose colour and glow intensity replace the config's (optional).
+	 * @param color - Colour replacing the profile's, e.g. from the palette (optional).
 	 * @returns A radial gradient for filling the orb.
 	 */
 	static createGaussian(
-		ctx: CanvasRenderingContext2D,
+		ctx: Canvas2DContext,
 		x: number,
 		y: number,
 		glowRadius: number,
 		falloffExponent: number,
 		opacity: number,
-		config: OrbVisualConfig
+		config: OrbVisualConfig,
+		profile?: OrbSpeciesProfile,
+		color?: OrbColor
 	): CanvasGradient {
-		const { baseHue, baseSaturation, baseLightness, glowIntensity, gradientStopCount, coreRatio } = config;
+		const { gradientStopCount, coreRatio } = config;
+		const baseColor = color ?? profile?.color;
+		const baseHue = baseColor?.hue ?? config.baseHue;
+		const baseSaturation = baseColor?.saturation ?? config.baseSaturation;
+		const baseLightness = baseColor?.lightness ?? config.baseLightness;
+		const glowIntensity = profile?.glowIntensity ?? config.glowIntensity;
 
 		const gradient = ctx.createRadialGradient(x, y, 0, x, y, glowRadius);
 
@@ -0,0 +1,125 @@
+// =============================================================================
+// OrbSpriteCache - Pre-rendered orb glows for fast blitting
+// =============================================================================
+
+import { type OrbVisualConfig } from './OrbVisualConfig';
+import { OrbGradientFactory } from './OrbGradientFactory';
+import { type Canvas2DContext } from '../../shared/types';
+import { type OrbColor, type OrbSpeciesProfile } from '../../species';
+
+/**
+ * Offscreen canvas holding one pre-rendered glow.
+ * OffscreenCanvas is used where available so the worker can cache too.
+ */
+export type OrbSprite = OffscreenCanvas | HTMLCanvasElement;
+
+/** Size buckets per blur band (radius powers of two up to 2^31). */
+const SIZE_SLOTS = 32;
+
+/**
+ * Caches glow sprites bucketed by species, colour, size and blur band.
+ *
+ * A glow's shape is independent of its radius, so one sprite serves every
+ * orb in a bucket: it is drawn at the orb's radius and opacity. Sprites are
+ * rendered at full opacity, which the renderer scales with globalAlpha.
+ * Size buckets are powers of two of the full-size glow radius, so orbs
+ * growing in or shrinking out keep one sprite and are only ever downscaled.
+ *
+ * Single Responsibility: Sprite rendering and lookup only.
+ */
+export class OrbSpriteCache {
+	/**
+	 * Sprites per visual config, then per species profile (or the config
+	 * itself), then per palette colour (or the profile or config again).
+	 */
+	private static sprites = new WeakMap<OrbVisualConfig, WeakMap<object, WeakMap<object, (OrbSprite | undefined)[]>>>();
+
+	/**
+	 * Returns the sprite for a glow, rendering it on first use.
+	 *
+	 * @param radius - Full-size glow radius in pixels (before spawn/despawn scaling).
+	 * @param blurFactor - Blur from 0 (in focus) to 1 (fully blurred); with no focal plane this is the depth.
+	 * @param config - Visual configuration.
+	 * @param profile - Species profile whose colour and glow intensity replace the config's (optional).
+	 * @param color - Colour replacing the profile's, e.g. a palette slot (optional). Pass shared
+	 *                objects such as those from OrbPalettes.colorOf(); each new object gets its own sprites.
+	 * @returns The sprite, or null where no canvas can be created.
+	 */
+	static get(
+		radius: number,
+		blurFactor: number,
+		config: OrbVisualConfig,
+		profile?: OrbSpeciesProfile,
+		color?: OrbColor
+	): OrbSprite | null {
+		const { spriteDepthBands, spriteMinRadiusPx, spriteMaxRadiusPx } = config;
+
+		const bands = Math.max(1, spriteDepthBands);
+		const band = Math.round(blurFactor * (bands - 1));
+		const minSlot = Math.ceil(Math.log2(Math.max(1, spriteMinRadiusPx)));
+		const maxSlot = Math.max(minSlot, Math.floor(Math.log2(Math.max(1, spriteMaxRadiusPx))));
+		const slot = Math.max(minSlot, Math.min(maxSlot, Math.ceil(Math.log2(Math.max(1, radius)))));
+
+		let byProfile = this.sprites.get(config);
+		if (!byProfile) {
+			byProfile = new WeakMap();
+			this.sprites.set(config, byProfile);
+		}
+		const owner = profile ?? config;
+		let byColor = byProfile.get(owner);
+		if (!byColor) {
+			byColor = new WeakMap();
+			byProfile.set(owner, byColor);
+		}
+		const colorKey = color ?? owner;
+		let slots = byColor.get(colorKey);
+		if (!slots) {
+			slots = [];
+			byColor.set(colorKey, slots);
+		}
+
+		const index = band * SIZE_SLOTS + slot;
+		const cached = slots[index];
+		if (cached) return cached;
+
+		const bandBlur = bands > 1 ? band / (bands - 1) : 0;
+		const sprite = this.render(2 ** slot, bandBlur, config, profile, color);
+		if (sprite) slots[index] = sprite;
+		return sprite;
+	}
+
+	/**
+	 * Renders one glow centred on a square canvas of twice its radius.
+	 */
+	private static render(
+		radius: number,
+		blurFactor: number,
+		config: OrbVisualConfig,
+		profile?: OrbSpeciesProfile,
+		color?: OrbColor
+	): OrbSprite | null {
+		const size = radius * 2;
+		const sprite = this.createCanvas(size);
+		const ctx = sprite?.getContext('2d') as Canvas2DContext | null | undefined;
+		if (!sprite || !ctx) return null;
+
+		const falloffExponent = config.falloffExponentBase * (1 - blurFactor * config.falloffDepthScale);
+		ctx.fillStyle = OrbGradientFactory.createGaussian(ctx, radius, radius, radius, falloffExponent, 1, config, profile, color);
+		ctx.beginPath();
+		ctx.arc(radius, radius, radius, 0, Math.PI * 2);
+		ctx.fill();
+		return sprite;
+	}
+
+	/**
+	 * Creates a square canvas off the page.
+	 */
+	private static createCanvas(size: number): OrbSprite | null {
+		if (typeof OffscreenCanvas !== 'undefined') return new OffscreenCanvas(size, size);
+		if (typeof document === 'undefined') return null;
+		const canvas = document.createElement('canvas');
+		canvas.width = size;
+		canvas.height = size;
+		return canvas;
+	}
+}
@@ -30,6 +30,9 @@ export interface OrbVisualConfig {
 	/** Multiplier for glow radius relative to orb size. */
 	glowSpread: number;
 
+	/** Whether the glow halo is drawn; when false orbs end at their blur edge. */
+	glowEnabled: boolean;
+
 	// =========================================================================
 	// Depth-Based Visual Settings
 	// =========================================================================
@@ -58,8 +61,9 @@ export interface OrbVisualConfig {
 	blurWidthBase: number;
 
 	/**
-	 * How much depth increases blur width (0-1).
-	 * Far orbs (high depth) get additional blur width = radius * depthFactor * blurWidthDepthScale.
+	 * How much blur increases blur width (0-1).
+	 * Blurred orbs get additional blur width = radius * blurFactor * blurWidthDepthScale,
+	 * where blurFactor is the depth, or the distance from the focal plane when one is set.
 	 */
 	blurWidthDepthScale: number;
 
@@ -71,8 +75,9 @@ export interface OrbVisualConfig {
 	falloffExponentBase: number;
 
 	/**
-	 * How much depth reduces the falloff exponent (0-1).
-	 * Close orbs use falloffExponentBase, far orbs use falloffExponentBase * (1 - falloffDepthScale).
+	 * How much blur reduces the falloff exponent (0-1).
+	 * In-focus orbs use falloffExponentBase, fully blurred orbs use falloffExponentBase * (1 - falloffDepthScale).
+	 * Without a focal plane the closest orbs are in focus and the furthest fully blurred.
 	 */
 	falloffDepthScale: number;
 
@@ -83,6 +88,20 @@ export interface OrbVisualConfig {
 	 */
 	gradientStopCount: number;
 
+	// =========================================================================
+	// Sprite Cache
+	// =========================================================================
+
+	/**
+	 * Number of blur bands glow sprites are pre-rendered for.
+	 * Orbs use the sprite of the nearest band; more bands = finer falloff steps.
+	 */
+	spriteDepthBands: number;
+	/** Smallest sprite radius in pixels (sprite sizes are powers of two). */
+	spriteMinRadiusPx: number;
+	/** Largest sprite radius in pixels; bigger glows upscale this sprite. */
+	spriteMaxRadiusPx: number;
+
 	// =========================================================================
 	// Size Scaling
 	// =========================================================================
@@ -150,6 +169,7 @@ export const DEFAULT_ORB_VISUAL_CONFIG: OrbVisualConfig = {
 	// Glow settings - large, soft glowing effect
 	glowIntensity: 1.0,
 	glowSpread: 3.5,       // Glow radius multiplier (total radius = baseRadius * glowSpread)
+	glowEnabled: true,
 
 	// Opacity - controls overall visibility
 	minOpacity: 0.65,      // Distant orbs remain visible
@@ -163,6 +183,11 @@ export const DEFAULT_ORB_VISUAL_CONFIG: OrbVisualConfig = {
 	falloffDepthScale: 0.5,       // Far orbs use 50% lower exponent (out of focus)
 	gradientStopCount: 10,        // 10 stops for smooth gradient
 
+	// Sprite cache - glows are pre-rendered and blitted
+	spriteDepthBands: 8,          // 8 falloff steps from sharp to fully blurred
+	spriteMinRadiusPx: 16,
+	spriteMaxRadiusPx: 512,
+
 	// Size scaling - larger orbs are significantly bigger visually
 	baseRadiusPx: 35,      // Base radius for size 1 orbs
 	sizeExponent: 0.85,    // Near-linear scaling so large orbs are visually much bigger
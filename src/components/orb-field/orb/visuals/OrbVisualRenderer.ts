@@ -4,21 +4,45 @@
 
 import { type Orb } from '../types';
 import { type OrbVisualConfig, DEFAULT_ORB_VISUAL_CONFIG } from './OrbVisualConfig';
-import { type WindowSize } from '../../shared/types';
-import { OrbGlowRenderer } from './OrbGlowRenderer';
+import { type WindowSize, type Canvas2DContext, type OrbBlendMode } from '../../shared/types';
+import { OrbGlowRenderer, type OrbGlow } from './OrbGlowRenderer';
+import { OrbSpecies, DEFAULT_ORB_SPECIES, type OrbColor, type OrbSpeciesProfile, type OrbSpeciesTable } from '../../species';
+import { type OrbFocus } from '../../focus';
+import { UNIFORM_PARALLAX_DEPTH, type ParallaxDepthCurve } from '../../shared/config';
+import { ParallaxDepth } from '../../shared/parallax';
+import { OrbPalettes, type OrbPaletteBlend } from '../../palette';
 
 /**
  * Orchestrates the visual rendering of orbs.
  *
+ * Keeps the draw order between frames, so each canvas needs its own
+ * instance (Canvas2DOrbRenderer owns one).
+ *
  * Single Responsibility: Coordinates orb rendering only.
  */
 export class OrbVisualRenderer {
+	/** Orbs in back-to-front order, kept between frames. */
+	private readonly drawOrder: Orb[] = [];
+	/** Orbs new to this frame (reused buffer). */
+	private readonly added: Orb[] = [];
+	/** Frame each orb was last drawn in. */
+	private readonly drawnIn = new WeakMap<Orb, number>();
+	/** Counter for drawnIn. */
+	private frame = 0;
+	/** Scratch glow, reused every orb. */
+	private readonly glow: OrbGlow = {
+		x: 0, y: 0, z: 0, depthFactor: 0, blurFactor: 0, fullRadius: 0, radius: 0, opacity: 0, falloffExponent: 0,
+	};
+
 	/**
 	 * Renders all orbs to the canvas with visual effects.
 	 * 
 	 * All orbs across ALL z-layers are rendered, sorted back-to-front.
 	 * Depth affects opacity and blur but does not filter visibility.
 	 * Spawn/despawn animations affect opacity and scale.
+	 * Colour and glow come from each orb's species profile, unless a palette
+	 * is given; while palettes crossfade, each orb's colour is blended.
+	 * Each orb moves by its own layer's share of the parallax offset.
 	 *
 	 * @param ctx - The 2D canvas rendering context.
 	 * @param windowSize - Current window dimensions.
@@ -28,16 +52,28 @@ export class OrbVisualRenderer {
 	 * @param currentTime - Current timestamp from performance.now() for animations.
 	 * @param offsetX - Horizontal offset in pixels for parallax scrolling.
 	 * @param offsetY - Vertical offset in pixels for parallax scrolling.
+	 * @param alpha - Interpolation factor between previous and current physics state (0-1).
+	 * @param species - Species profiles by kind.
+	 * @param focus - Focal plane; null blurs with depth.
+	 * @param parallaxDepth - Per-layer scale of the offset (default: the full offset on every layer).
+	 * @param palette - Palettes to colour orbs from; null keeps species colours.
+	 * @param blendMode - How overlapping orbs combine (default 'screen', for dark pages).
 	 */
-	static draw(
-		ctx: CanvasRenderingContext2D,
+	draw(
+		ctx: Canvas2DContext,
 		windowSize: WindowSize,
 		orbs: Orb[],
 		totalLayers: number,
 		config: OrbVisualConfig = DEFAULT_ORB_VISUAL_CONFIG,
 		currentTime: number = performance.now(),
 		offsetX: number = 0,
-		offsetY: number = 0
+		offsetY: number = 0,
+		alpha: number = 1,
+		species: OrbSpeciesTable = DEFAULT_ORB_SPECIES,
+		focus: OrbFocus | null = null,
+		parallaxDepth: ParallaxDepthCurve = UNIFORM_PARALLAX_DEPTH,
+		palette: OrbPaletteBlend | null = null,
+		blendMode: OrbBlendMode = 'screen'
 	): void {
 		const { width, height } = windowSize;
 
@@ -48,18 +84,24 @@ export class OrbVisualRenderer {
 		if (orbs.length === 0) return;
 
 		// Sort orbs by z-depth (back to front)
-		const sortedOrbs = [...orbs].sort((a, b) => b.z - a.z);
+		const sortedOrbs = this.sortByDepth(orbs);
 
-		// Apply parallax offset translation
 		ctx.save();
-		ctx.translate(offsetX, offsetY);
 
-		// Use 'screen' blend mode for additive-like blending
-		ctx.globalCompositeOperation = 'screen';
+		// 'screen' for additive-like blending on dark pages, 'multiply' to darken light ones
+		ctx.globalCompositeOperation = blendMode;
 
-		// Render all orbs
+		// Render all orbs, each shifted by its layer's parallax
+		const glow = this.glow;
 		for (const orb of sortedOrbs) {
-			OrbGlowRenderer.draw(ctx, orb, totalLayers, config, currentTime);
+			const profile = OrbSpecies.profileOf(orb.kind, species);
+			if (!OrbGlowRenderer.measure(orb, totalLayers, config, currentTime, alpha, profile, focus, glow)) continue;
+
+			const scale = ParallaxDepth.scaleAt(glow.z, totalLayers, parallaxDepth);
+			glow.x += offsetX * scale;
+			glow.y += offsetY * scale;
+
+			OrbGlowRenderer.drawGlow(ctx, glow, config, profile, OrbVisualRenderer.colorOf(palette, orb, profile));
 		}
 
 		// Reset composite operation
@@ -68,4 +110,62 @@ export class OrbVisualRenderer {
 		// Restore canvas state
 		ctx.restore();
 	}
+
+	/**
+	 * Returns an orb's palette colour, or undefined to keep its species colour.
+	 * During a crossfade the colour is blended like the WebGL backend does,
+	 * in steps so the sprite cache is not missed every frame.
+	 */
+	private static colorOf(palette: OrbPaletteBlend | null, orb: Orb, profile: OrbSpeciesProfile): OrbColor | undefined {
+		if (!palette) return undefined;
+
+		const to = palette.to ? OrbPalettes.colorOf(palette.to, orb.tint) : undefined;
+		if (palette.from === palette.to || palette.progress >= 1) return to;
+
+		const from = palette.from ? OrbPalettes.colorOf(palette.from, orb.tint) : profile.color;
+		return OrbPalettes.crossfadeColor(from, to ?? profile.color, palette.progress);
+	}
+
+	/**
+	 * Returns the orbs sorted back to front.
+	 *
+	 * The order from the previous frame is kept: orbs that are gone are
+	 * dropped, new orbs appended, and an insertion sort fixes the few orbs
+	 * that changed depth. This is linear for a nearly sorted field and
+	 * allocates nothing once the buffer has grown.
+	 */
+	private sortByDepth(orbs: Orb[]): Orb[] {
+		const { drawOrder, drawnIn, added } = this;
+		const previous = this.frame;
+		const frame = ++this.frame;
+
+		// Stamp this frame's orbs, noting those not drawn last frame
+		added.length = 0;
+		for (const orb of orbs) {
+			if (drawnIn.get(orb) !== previous) added.push(orb);
+			drawnIn.set(orb, frame);
+		}
+
+		// Keep orbs still present in last frame's order, then append new ones
+		let count = 0;
+		for (const orb of drawOrder) {
+			if (drawnIn.get(orb) === frame) drawOrder[count++] = orb;
+		}
+		drawOrder.length = count;
+		for (const orb of added) drawOrder.push(orb);
+		added.length = 0;
+
+		// Insertion sort: cheap when only a few orbs moved
+		for (let i = 1; i < drawOrder.length; i++) {
+			const orb = drawOrder[i];
+			let j = i - 1;
+			while (j >= 0 && drawOrder[j].z < orb.z) {
+				drawOrder[j + 1] = drawOrder[j];
+				j--;
+			}
+			drawOrder[j + 1] = orb;
+		}
+
+		return drawOrder;
+	}
 }
@@ -3,8 +3,9 @@
 // =============================================================================
 
 export { OrbVisualRenderer } from './OrbVisualRenderer';
-export { OrbGlowRenderer } from './OrbGlowRenderer';
+export { OrbGlowRenderer, type OrbGlow } from './OrbGlowRenderer';
 export { OrbGradientFactory } from './OrbGradientFactory';
+export { OrbSpriteCache, type OrbSprite } from './OrbSpriteCache';
 export { OrbAnimationTiming } from './OrbAnimationTiming';
 export {
 	type OrbVisualConfig,
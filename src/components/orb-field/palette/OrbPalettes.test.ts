@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { OrbPalettes } from './OrbPalettes';
+import { ORB_PALETTES } from './config';
+import { type OrbPalette } from './types';
+
+const RED = { hue: 350, saturation: 80, lightness: 40 };
+const ORANGE = { hue: 30, saturation: 100, lightness: 60 };
+
+const TWO_STOPS: OrbPalette = {
+	label: 'Test',
+	orbColors: [RED, ORANGE],
+	gridLineColor: { r: 0, g: 0, b: 0 },
+	accentColor: { r: 78, g: 5, b: 6 },
+};
+
+describe('OrbPalettes', () => {
+	it('lerps hue the short way round the wheel', () => {
+		expect(OrbPalettes.lerpColor(RED, ORANGE, 0.5)).toEqual({ hue: 10, saturation: 90, lightness: 50 });
+		expect(OrbPalettes.lerpColor(ORANGE, RED, 0.75)).toEqual({ hue: 0, saturation: 85, lightness: 45 });
+	});
+
+	it('returns the end colours at t = 0 and t = 1', () => {
+		expect(OrbPalettes.lerpColor(RED, ORANGE, 0)).toEqual(RED);
+		expect(OrbPalettes.lerpColor(RED, ORANGE, 1)).toEqual(ORANGE);
+	});
+
+	it('samples between stops and clamps outside the range', () => {
+		expect(OrbPalettes.sample(TWO_STOPS, -1)).toEqual(RED);
+		expect(OrbPalettes.sample(TWO_STOPS, 0.5).hue).toBeCloseTo(10);
+		expect(OrbPalettes.sample(TWO_STOPS, 2)).toEqual(ORANGE);
+	});
+
+	it('rounds tints to shared slot colours', () => {
+		const a = OrbPalettes.colorOf(TWO_STOPS, 0.49, 3);
+		const b = OrbPalettes.colorOf(TWO_STOPS, 0.51, 3);
+
+		expect(a).toBe(b);
+		expect(a.hue).toBeCloseTo(10);
+		expect(OrbPalettes.colorOf(TWO_STOPS, 0, 3)).toEqual(RED);
+	});
+
+	it('rounds crossfade progress to shared blend colours', () => {
+		const a = OrbPalettes.crossfadeColor(RED, ORANGE, 0.49, 4);
+		const b = OrbPalettes.crossfadeColor(RED, ORANGE, 0.51, 4);
+
+		expect(a).toBe(b);
+		expect(a).toEqual(OrbPalettes.lerpColor(RED, ORANGE, 0.5));
+		expect(OrbPalettes.crossfadeColor(RED, ORANGE, 0.1, 4)).toBe(RED);
+		expect(OrbPalettes.crossfadeColor(RED, ORANGE, 0.9, 4)).toBe(ORANGE);
+	});
+
+	it('resolves built-in names, custom palettes and null', () => {
+		expect(OrbPalettes.resolve('aurora')).toBe(ORB_PALETTES.aurora);
+		expect(OrbPalettes.resolve(TWO_STOPS)).toBe(TWO_STOPS);
+		expect(OrbPalettes.resolve(null)).toBeNull();
+	});
+
+	it('formats accent channels for CSS', () => {
+		expect(OrbPalettes.cssChannels({ r: 77.6, g: 5, b: 6.2 })).toBe('78, 5, 6');
+	});
+});
@@ -0,0 +1,146 @@
+// =============================================================================
+// OrbPalettes - Palette lookup and colour sampling
+// =============================================================================
+
+import { type OrbColor } from '../species';
+import { DEFAULT_PALETTE_CONFIG, ORB_PALETTES } from './config';
+import { type OrbPalette, type OrbPaletteChoice, type RgbColor } from './types';
+
+/**
+ * Resolves palette choices and samples orb colours from them.
+ *
+ * Colours come back as shared objects, one per palette and slot, so
+ * renderers can key caches on them.
+ *
+ * Single Responsibility: Palette colour sampling only.
+ */
+export class OrbPalettes {
+	/** Slot colours per palette, then per slot count. */
+	private static slots = new WeakMap<OrbPalette, Map<number, OrbColor[]>>();
+	/** Crossfade blends per start colour, then per end colour, by step. */
+	private static blends = new WeakMap<OrbColor, WeakMap<OrbColor, OrbColor[]>>();
+
+	/**
+	 * Returns the palette for a choice.
+	 *
+	 * @param choice - Built-in name, custom palette, or null.
+	 * @returns The palette, or null to keep species colours.
+	 */
+	static resolve(choice: OrbPaletteChoice): OrbPalette | null {
+		if (choice === null) return null;
+		return typeof choice === 'string' ? ORB_PALETTES[choice] : choice;
+	}
+
+	/**
+	 * Returns an orb's colour, with its tint rounded to the nearest slot.
+	 *
+	 * @param palette - Palette to sample.
+	 * @param tint - The orb's position on the palette range (0-1).
+	 * @param slotCount - Distinct colours across the range.
+	 * @returns A shared colour object for the slot.
+	 */
+	static colorOf(palette: OrbPalette, tint: number, slotCount: number = DEFAULT_PALETTE_CONFIG.colorSlots): OrbColor {
+		let bySlotCount = this.slots.get(palette);
+		if (!bySlotCount) {
+			bySlotCount = new Map();
+			this.slots.set(palette, bySlotCount);
+		}
+
+		const count = Math.max(1, Math.round(slotCount));
+		let colors = bySlotCount.get(count);
+		if (!colors) {
+			colors = [];
+			for (let i = 0; i < count; i++) {
+				colors.push(this.sample(palette, count > 1 ? i / (count - 1) : 0.5));
+			}
+			bySlotCount.set(count, colors);
+		}
+
+		const slot = Math.round(Math.max(0, Math.min(1, tint)) * (count - 1));
+		return colors[slot];
+	}
+
+	/**
+	 * Returns a colour part way through a crossfade, with the progress
+	 * rounded to the nearest step.
+	 *
+	 * @param from - Shared colour being faded out (e.g. from colorOf()).
+	 * @param to - Shared colour being faded in.
+	 * @param progress - Crossfade progress (0-1).
+	 * @param steps - Distinct blends between the two colours.
+	 * @returns A shared colour object for the pair and step.
+	 */
+	static crossfadeColor(
+		from: OrbColor,
+		to: OrbColor,
+		progress: number,
+		steps: number = DEFAULT_PALETTE_CONFIG.crossfadeSteps
+	): OrbColor {
+		const count = Math.max(1, Math.round(steps));
+		const step = Math.round(Math.max(0, Math.min(1, progress)) * count);
+		if (step === 0) return from;
+		if (step === count) return to;
+
+		let byTarget = this.blends.get(from);
+		if (!byTarget) {
+			byTarget = new WeakMap();
+			this.blends.set(from, byTarget);
+		}
+		let colors = byTarget.get(to);
+		if (!colors) {
+			colors = [];
+			byTarget.set(to, colors);
+		}
+
+		colors[step] ??= this.lerpColor(from, to, step / count);
+		return colors[step];
+	}
+
+	/**
+	 * Interpolates the palette's colour stops.
+	 *
+	 * @param palette - Palette to sample.
+	 * @param t - Position on the range (0 = first stop, 1 = last).
+	 * @returns A new colour.
+	 */
+	static sample(palette: OrbPalette, t: number): OrbColor {
+		const stops = palette.orbColors;
+		if (stops.length === 0) return { hue: 0, saturation: 0, lightness: 0 };
+		if (stops.length === 1) return { ...stops[0] };
+
+		const position = Math.max(0, Math.min(1, t)) * (stops.length - 1);
+		const index = Math.min(stops.length - 2, Math.floor(position));
+		return this.lerpColor(stops[index], stops[index + 1], position - index);
+	}
+
+	/**
+	 * Interpolates two colours, taking the shorter way round the hue wheel.
+	 *
+	 * @param a - Colour at t = 0.
+	 * @param b - Colour at t = 1.
+	 * @param t - Blend factor (0-1).
+	 * @returns A new colour.
+	 */
+	static lerpColor(a: OrbColor, b: OrbColor, t: number): OrbColor {
+		let hueDelta = b.hue - a.hue;
+		if (hueDelta > 180) hueDelta -= 360;
+		if (hueDelta < -180) hueDelta += 360;
+
+		return {
+			hue: (a.hue + hueDelta * t + 360) % 360,
+			saturation: a.saturation + (b.saturation - a.saturation) * t,
+			lightness: a.lightness + (b.lightness - a.lightness) * t,
+		};
+	}
+
+	/**
+	 * Formats RGB channels for a CSS custom property used as
+	 * `rgba(var(--color-accent-rgb), alpha)`.
+	 *
+	 * @param color - Colour to format.
+	 * @returns Comma-separated channels, e.g. "78, 5, 6".
+	 */
+	static cssChannels(color: RgbColor): string {
+		return `${Math.round(color.r)}, ${Math.round(color.g)}, ${Math.round(color.b)}`;
+	}
+}
@@ -0,0 +1,85 @@
+// =============================================================================
+// Palette Configuration - Built-in palettes and crossfade timing
+// =============================================================================
+
+import { type OrbPalette, type OrbPaletteName } from './types';
+
+/**
+ * Configuration for palette sampling and switching.
+ */
+export interface OrbPaletteConfig {
+	/** Duration of the crossfade when the palette changes at runtime (ms). */
+	crossfadeMs: number;
+	/**
+	 * Distinct colours per palette. Tints are rounded to these so the
+	 * Canvas2D sprite cache holds a few sprites per palette, not one per orb.
+	 */
+	colorSlots: number;
+	/**
+	 * Distinct blends between two colours during a Canvas2D crossfade.
+	 * Progress is rounded to these for the same reason as colorSlots.
+	 */
+	crossfadeSteps: number;
+}
+
+/**
+ * Default palette configuration.
+ */
+export const DEFAULT_PALETTE_CONFIG: OrbPaletteConfig = {
+	crossfadeMs: 1200,
+	colorSlots: 12,
+	crossfadeSteps: 12,
+};
+
+/**
+ * Built-in palettes.
+ */
+export const ORB_PALETTES: Readonly<Record<OrbPaletteName, OrbPalette>> = {
+	maroon: {
+		label: 'Maroon',
+		// Drifter, ember and spark colours
+		orbColors: [
+			{ hue: 345, saturation: 70, lightness: 11 },
+			{ hue: 5, saturation: 90, lightness: 15 },
+			{ hue: 18, saturation: 95, lightness: 26 },
+		],
+		gridLineColor: { r: 100, g: 100, b: 130 },
+		accentColor: { r: 78, g: 5, b: 6 },
+	},
+	aurora: {
+		label: 'Aurora',
+		orbColors: [
+			{ hue: 150, saturation: 80, lightness: 18 },
+			{ hue: 185, saturation: 85, lightness: 22 },
+			{ hue: 265, saturation: 70, lightness: 24 },
+			{ hue: 315, saturation: 75, lightness: 22 },
+		],
+		gridLineColor: { r: 90, g: 130, b: 140 },
+		accentColor: { r: 30, g: 110, b: 120 },
+	},
+	monochrome: {
+		label: 'Mono',
+		orbColors: [
+			{ hue: 0, saturation: 0, lightness: 12 },
+			{ hue: 0, saturation: 0, lightness: 22 },
+			{ hue: 0, saturation: 0, lightness: 32 },
+		],
+		gridLineColor: { r: 110, g: 110, b: 110 },
+		accentColor: { r: 90, g: 90, b: 90 },
+	},
+	highContrast: {
+		label: 'Contrast',
+		orbColors: [
+			{ hue: 50, saturation: 100, lightness: 45 },
+			{ hue: 190, saturation: 100, lightness: 42 },
+			{ hue: 320, saturation: 100, lightness: 48 },
+		],
+		gridLineColor: { r: 210, g: 210, b: 230 },
+		accentColor: { r: 200, g: 150, b: 0 },
+	},
+};
+
+/**
+ * Palette for the grid and UI accents when orbs keep their species colours.
+ */
+export const DEFAULT_ORB_PALETTE: OrbPaletteName = 'maroon';
@@ -0,0 +1,18 @@
+// =============================================================================
+// Palette - Exports for orb palettes
+// =============================================================================
+
+export { OrbPalettes } from './OrbPalettes';
+export {
+	DEFAULT_PALETTE_CONFIG,
+	DEFAULT_ORB_PALETTE,
+	ORB_PALETTES,
+	type OrbPaletteConfig,
+} from './config';
+export type {
+	RgbColor,
+	OrbPaletteName,
+	OrbPalette,
+	OrbPaletteChoice,
+	OrbPaletteBlend,
+} from './types';
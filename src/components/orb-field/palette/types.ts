@@ -0,0 +1,60 @@
+// =============================================================================
+// Palette Types - Type definitions for orb palettes
+// =============================================================================
+
+import { type OrbColor } from '../species';
+
+/**
+ * Colour in 0-255 RGB channels, as used by the grid and CSS accents.
+ */
+export interface RgbColor {
+	r: number;
+	g: number;
+	b: number;
+}
+
+/**
+ * Name of a built-in palette.
+ * - 'maroon': The original deep reds, from drifter to spark
+ * - 'aurora': A green-cyan-violet gradient
+ * - 'monochrome': Greys only
+ * - 'highContrast': Bright, saturated and widely spaced hues
+ */
+export type OrbPaletteName = 'maroon' | 'aurora' | 'monochrome' | 'highContrast';
+
+/**
+ * One colour scheme for the whole field: orbs, grid and UI accents.
+ */
+export interface OrbPalette {
+	/** Name shown in the debug menu. */
+	label: string;
+	/**
+	 * Colour stops orbs sample from, front to back of the range.
+	 * Each orb picks a point on the range at spawn (its tint); hues are
+	 * interpolated along the shorter way round the colour wheel.
+	 */
+	orbColors: readonly OrbColor[];
+	/** Grid line colour. */
+	gridLineColor: RgbColor;
+	/** Accent for glass and debug UI (active states, sliders, highlights). */
+	accentColor: RgbColor;
+}
+
+/**
+ * Palette choice: a built-in name, a custom palette, or null to keep each
+ * orb's species colour.
+ */
+export type OrbPaletteChoice = OrbPaletteName | OrbPalette | null;
+
+/**
+ * Palettes being crossfaded for one frame, passed to the orb renderers.
+ * A null palette stands for the species colours.
+ */
+export interface OrbPaletteBlend {
+	/** Palette fading out. */
+	from: OrbPalette | null;
+	/** Palette fading in. */
+	to: OrbPalette | null;
+	/** Crossfade progress from `from` (0) to `to` (1). */
+	progress: number;
+}
@@ -0,0 +1,40 @@
+// =============================================================================
+// PhaseBoundaries - Phase 6.7: Wrap, absorb or soften the field edges
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type ViewportCells } from '../grid/types';
+import { BoundaryPhysics, type OrbBoundaries } from '../boundary';
+import { type OrbEventBus } from '../events';
+
+/**
+ * Phase 6.7: Apply non-bounce boundary policies after orbs have moved.
+ * 
+ * Single Responsibility: Boundary policy application only.
+ */
+export class PhaseBoundaries {
+	/**
+	 * Applies the boundary policy of each axis to all orbs.
+	 * 
+	 * @param orbs - Array of orbs to update (absorbed orbs are removed in place).
+	 * @param boundaries - Boundary policy per axis.
+	 * @param grid - Spatial grid whose extent bounds the field.
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param now - Current clock time in milliseconds.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param events - Event bus notified of depth range bounces and absorbed orbs (optional).
+	 * @returns Number of absorbed orbs removed.
+	 */
+	static execute(
+		orbs: Orb[],
+		boundaries: OrbBoundaries,
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		now: number,
+		deltaTime: number,
+		events?: OrbEventBus
+	): number {
+		return BoundaryPhysics.apply(orbs, boundaries, grid, vpc, now, deltaTime, undefined, events);
+	}
+}
@@ -4,9 +4,7 @@
 
 import { DEFAULT_CONTINUOUS_SPAWN_CONFIG } from '../orb/config';
 import { type WindowSize } from '../shared/types';
-import { SpatialGrid } from '../grid/core/SpatialGrid';
-import { type ViewportCells } from '../grid/types';
-import { type Orb } from '../orb/types';
+import { type RandomSource } from '../shared/random';
 
 /**
  * Phase 10: Continuous orb spawning to maintain target count.
@@ -17,45 +15,44 @@ export class PhaseContinuousSpawn {
 	/**
 	 * Spawns new orbs to maintain target count.
 	 * 
-	 * @param orbsRef - Ref to orbs array (for reading count).
-	 * @param grid - Spatial grid for spawn validation.
-	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param orbCount - Current number of orbs.
 	 * @param windowSize - Current window dimensions.
 	 * @param currentTime - Current effective time.
 	 * @param burstTime - Time when burst occurred (or null).
 	 * @param isPageVisible - Whether page is visible and focused.
 	 * @param enableOrbSpawning - Whether continuous spawning is enabled.
-	 * @param spawnRandomOrbs - Function to spawn random orbs.
+	 * @param orbCountScale - Multiplier on the target count.
+	 * @param spawnRandomOrbs - Function to spawn random orbs, returns number spawned.
 	 * @param deltaTime - Time since last frame in seconds.
+	 * @param random - Random source for fractional spawn chance (default Math.random).
 	 */
 	static execute(
-		orbsRef: React.RefObject<Orb[]>,
-		grid: SpatialGrid,
-		vpc: ViewportCells,
+		orbCount: number,
 		windowSize: WindowSize,
 		currentTime: number,
 		burstTime: number | null,
 		isPageVisible: boolean,
 		enableOrbSpawning: boolean,
-		spawnRandomOrbs: (count: number, screenWidth: number, screenHeight: number, grid: SpatialGrid, vpc: ViewportCells) => number,
-		deltaTime: number
+		orbCountScale: number,
+		spawnRandomOrbs: (count: number) => number,
+		deltaTime: number,
+		random: RandomSource = Math.random
 	): void {
 		const { delayAfterBurstMs, targetOrbCountAt4K, referenceScreenArea, minOrbCount, baseSpawnRateAt4K, maxSpawnsPerFrame } = DEFAULT_CONTINUOUS_SPAWN_CONFIG;
 
-		if (!burstTime || (currentTime - burstTime) <= delayAfterBurstMs || !isPageVisible || !enableOrbSpawning) {
+		if (burstTime === null || (currentTime - burstTime) <= delayAfterBurstMs || !isPageVisible || !enableOrbSpawning) {
 			return;
 		}
 
 		const screenArea = windowSize.width * windowSize.height;
 		const areaScale = screenArea / referenceScreenArea;
 		const scaledCount = Math.round(targetOrbCountAt4K * areaScale);
-		const targetCount = Math.max(minOrbCount, scaledCount);
+		const targetCount = Math.round(Math.max(minOrbCount, scaledCount) * orbCountScale);
 		const baseSpawnRate = baseSpawnRateAt4K * areaScale;
 
-		const currentCount = orbsRef.current.length;
-		const deficit = targetCount - currentCount;
+		const deficit = targetCount - orbCount;
 
-		if (deficit > 0) {
+		if (deficit > 0 && targetCount > 0) {
 			const deficitRatio = Math.min(1, deficit / targetCount);
 			const spawnRate = baseSpawnRate * deficitRatio;
 
@@ -63,11 +60,11 @@ export class PhaseContinuousSpawn {
 			const expectedSpawns = spawnRate * deltaTime;
 			const guaranteedSpawns = Math.floor(expectedSpawns);
 			const fractionalChance = expectedSpawns - guaranteedSpawns;
-			const extraSpawn = Math.random() < fractionalChance ? 1 : 0;
+			const extraSpawn = random() < fractionalChance ? 1 : 0;
 			const spawnsThisFrame = Math.min(guaranteedSpawns + extraSpawn, maxSpawnsPerFrame);
 
 			if (spawnsThisFrame > 0) {
-				spawnRandomOrbs(spawnsThisFrame, windowSize.width, windowSize.height, grid, vpc);
+				spawnRandomOrbs(spawnsThisFrame);
 			}
 		}
 	}
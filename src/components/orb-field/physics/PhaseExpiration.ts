@@ -6,6 +6,7 @@ import { type Orb } from '../orb/types';
 import { OrbGridMarking } from '../orb/core';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
+import { type OrbEventBus } from '../events';
 
 /**
  * Phase 9: Orb expiration management.
@@ -16,32 +17,42 @@ export class PhaseExpiration {
 	/**
 	 * Removes expired orbs from the simulation.
 	 * 
-	 * @param orbsRef - Ref to orbs array (mutated in place).
+	 * The array is compacted in place so holders of the array reference
+	 * (simulation state, render loop) always see the live orb list.
+	 * 
+	 * @param orbs - Array of orbs (mutated in place).
 	 * @param grid - Spatial grid for clearing expired orbs.
 	 * @param vpc - Viewport cells for coordinate conversion.
 	 * @param currentTime - Current effective time.
 	 * @param enableOrbDespawning - Whether orb despawning is enabled.
-	 * @param syncOrbsState - Function to sync React state.
+	 * @param events - Event bus notified of each removed orb (optional).
+	 * @returns Number of orbs removed.
 	 */
 	static execute(
-		orbsRef: React.RefObject<Orb[]>,
+		orbs: Orb[],
 		grid: SpatialGrid,
 		vpc: ViewportCells,
 		currentTime: number,
 		enableOrbDespawning: boolean,
-		syncOrbsState: () => void
-	): void {
-		if (!enableOrbDespawning) return;
+		events?: OrbEventBus
+	): number {
+		if (!enableOrbDespawning) return 0;
 
-		const currentOrbs = orbsRef.current;
-		const expiredOrbs = currentOrbs.filter(orb => (currentTime - orb.createdAt) > orb.lifetimeMs);
+		const emitExpire = events?.has('expire') ?? false;
 
-		if (expiredOrbs.length > 0) {
-			for (const expiredOrb of expiredOrbs) {
-				OrbGridMarking.clearOrbCircular(grid, expiredOrb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+		let writeIndex = 0;
+		for (let readIndex = 0; readIndex < orbs.length; readIndex++) {
+			const orb = orbs[readIndex];
+			if ((currentTime - orb.createdAt) > orb.lifetimeMs) {
+				OrbGridMarking.clearOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
+				if (emitExpire) events!.emit('expire', { orb });
+			} else {
+				orbs[writeIndex++] = orb;
 			}
-			orbsRef.current = currentOrbs.filter(orb => (currentTime - orb.createdAt) <= orb.lifetimeMs);
-			syncOrbsState();
 		}
+
+		const removed = orbs.length - writeIndex;
+		orbs.length = writeIndex;
+		return removed;
 	}
 }
@@ -0,0 +1,34 @@
+// =============================================================================
+// PhaseFlocking - Phase 4.5: Boids-style schooling between nearby orbs
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { OrbSpatialHash } from '../collision';
+import { type ViewportCells } from '../grid/types';
+import { FlockingPhysics, type FlockingConfig } from '../flocking';
+
+/**
+ * Phase 4.5: Apply flocking (alignment, cohesion, separation).
+ * 
+ * Single Responsibility: Flocking force application only.
+ */
+export class PhaseFlocking {
+	/**
+	 * Applies flocking to all orbs.
+	 * 
+	 * @param orbs - Array of orbs to update.
+	 * @param vpc - Viewport cells for spatial queries.
+	 * @param spatialHash - Broad-phase hash reused across frames.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param config - Weights and ranges.
+	 */
+	static execute(
+		orbs: Orb[],
+		vpc: ViewportCells,
+		spatialHash: OrbSpatialHash,
+		deltaTime: number,
+		config: FlockingConfig
+	): void {
+		FlockingPhysics.apply(orbs, vpc, spatialHash, deltaTime, config);
+	}
+}
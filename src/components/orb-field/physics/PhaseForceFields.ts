@@ -0,0 +1,27 @@
+// =============================================================================
+// PhaseForceFields - Phase 2.5: Apply force fields to orbs
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { ForceFieldPhysics, type ForceField } from '../force-field';
+
+/**
+ * Phase 2.5: Apply force fields (attractors, repulsors, lines, vortices).
+ * 
+ * Single Responsibility: Force field application only.
+ */
+export class PhaseForceFields {
+	/**
+	 * Applies all force fields to all orbs.
+	 * 
+	 * Fields are positioned in physics space, so unlike the mouse no
+	 * parallax adjustment is needed.
+	 * 
+	 * @param orbs - Array of orbs to update.
+	 * @param fields - Active force fields.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 */
+	static execute(orbs: Orb[], fields: readonly ForceField[], deltaTime: number): void {
+		ForceFieldPhysics.apply(orbs, fields, deltaTime);
+	}
+}
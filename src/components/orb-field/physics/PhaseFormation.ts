@@ -0,0 +1,32 @@
+// =============================================================================
+// PhaseFormation - Phase 5.2: Steer formed orbs toward their shape targets
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { FormationPhysics, type ActiveFormation } from '../formation';
+
+/**
+ * Phase 5.2: Pull orbs into the active shape formation.
+ * 
+ * Runs after wander and layer attraction so the spring has the last say
+ * on velocity before collisions resolve.
+ * 
+ * Single Responsibility: Formation steering only.
+ */
+export class PhaseFormation {
+	/**
+	 * Applies formation springs, if a formation is active.
+	 * 
+	 * Targets are in physics space, like force fields, so no parallax
+	 * adjustment is needed.
+	 * 
+	 * @param orbs - Array of orbs to update.
+	 * @param formation - Active formation, or null.
+	 * @param totalLayers - Total number of z-layers.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 */
+	static execute(orbs: Orb[], formation: ActiveFormation | null, totalLayers: number, deltaTime: number): void {
+		if (!formation) return;
+		FormationPhysics.apply(orbs, formation, totalLayers, deltaTime);
+	}
+}
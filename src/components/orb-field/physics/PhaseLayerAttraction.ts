@@ -5,6 +5,7 @@
 import { type Orb } from '../orb/types';
 import { OrbBehaviors } from '../orb/core';
 import { DEFAULT_ORB_SPAWN_CONFIG, DEFAULT_LAYER_ATTRACTION_CONFIG } from '../orb/config';
+import { OrbSpecies, DEFAULT_ORB_SPECIES, type OrbSpeciesTable } from '../species';
 
 /**
  * Phase 5: Apply layer attraction.
@@ -13,18 +14,20 @@ import { DEFAULT_ORB_SPAWN_CONFIG, DEFAULT_LAYER_ATTRACTION_CONFIG } from '../or
  */
 export class PhaseLayerAttraction {
 	/**
-	 * Applies layer attraction to all orbs.
+	 * Applies layer attraction to all orbs, toward each species' layer band.
 	 * 
 	 * @param orbs - Array of orbs to update.
 	 * @param totalLayers - Total number of z-layers.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param species - Species profiles by kind.
 	 */
-	static execute(orbs: Orb[], totalLayers: number, deltaTime: number): void {
+	static execute(orbs: Orb[], totalLayers: number, deltaTime: number, species: OrbSpeciesTable = DEFAULT_ORB_SPECIES): void {
 		const { maxSize } = DEFAULT_ORB_SPAWN_CONFIG;
 		const { attractionStrength } = DEFAULT_LAYER_ATTRACTION_CONFIG;
 
 		for (const orb of orbs) {
-			OrbBehaviors.applyLayerAttraction(orb, maxSize, totalLayers, attractionStrength, deltaTime);
+			const { layerBand } = OrbSpecies.profileOf(orb.kind, species);
+			OrbBehaviors.applyLayerAttraction(orb, maxSize, totalLayers, attractionStrength, deltaTime, layerBand);
 		}
 	}
 }
@@ -1,42 +1,59 @@
 // =============================================================================
-// PhaseMouseRepulsion - Phase 2: Apply mouse repulsion to orbs
+// PhaseMouseRepulsion - Phase 2: Apply pointer repulsion and wake to orbs
 // =============================================================================
 
 import { type Orb } from '../orb/types';
 import { MouseRepulsion } from '../collision';
+import { type PointerState } from '../shared/types';
+import { DEFAULT_POINTER_CONFIG } from '../shared/config';
+import { NO_PARALLAX, type LayerParallax } from '../shared/parallax';
 
 /**
- * Phase 2: Apply mouse repulsion.
+ * Phase 2: Apply pointer repulsion.
  * 
- * Single Responsibility: Mouse repulsion force application only.
+ * Every tracked pointer (mouse, pen or finger) repels orbs, and a moving
+ * pointer also drags nearby orbs along its velocity.
+ * 
+ * Single Responsibility: Pointer force application only.
  */
 export class PhaseMouseRepulsion {
 	/**
-	 * Applies mouse repulsion to all orbs.
+	 * Applies pointer repulsion and wake to all orbs.
 	 * 
-	 * The mouse position is in screen coordinates, but orbs are in physics space.
-	 * When parallax scrolling is active, we need to adjust the mouse position
-	 * to match the physics coordinate space by subtracting the scroll offset.
+	 * Pointer positions are in screen coordinates, but orbs are in physics space.
+	 * When parallax scrolling is active each layer is drawn shifted by its own
+	 * share of the offset, so the pointer is compared with every orb where
+	 * its layer puts it on screen rather than through one global shift.
 	 * 
 	 * @param orbs - Array of orbs to update.
 	 * @param mousePos - Current mouse position in screen coordinates (or null).
+	 *                   Used as a stationary pointer when no pointers are tracked.
+	 * @param pointers - Tracked pointers in screen coordinates.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
 	 * @param disableAvoidance - Whether avoidance is disabled.
-	 * @param scrollOffset - Current parallax scroll offset for coordinate adjustment.
+	 * @param parallax - Current parallax offset and per-layer scale for coordinate adjustment.
 	 */
 	static execute(
 		orbs: Orb[],
 		mousePos: { x: number; y: number } | null,
+		pointers: readonly PointerState[],
 		deltaTime: number,
 		disableAvoidance: boolean,
-		scrollOffset: { x: number; y: number } = { x: 0, y: 0 }
+		parallax: LayerParallax = NO_PARALLAX
 	): void {
-		if (!disableAvoidance && mousePos) {
-			// Convert mouse position from screen space to physics space
-			// by subtracting the parallax offset that shifts rendered orbs
-			const adjustedMouseX = mousePos.x - scrollOffset.x;
-			const adjustedMouseY = mousePos.y - scrollOffset.y;
-			MouseRepulsion.applyRepulsion(orbs, adjustedMouseX, adjustedMouseY, deltaTime);
+		if (disableAvoidance) return;
+
+		if (pointers.length === 0) {
+			if (mousePos) {
+				MouseRepulsion.applyRepulsion(orbs, mousePos.x, mousePos.y, deltaTime, parallax);
+			}
+			return;
+		}
+
+		const { wakeRadius, wakeStrength } = DEFAULT_POINTER_CONFIG;
+		for (const pointer of pointers) {
+			MouseRepulsion.applyRepulsion(orbs, pointer.x, pointer.y, deltaTime, parallax);
+			MouseRepulsion.applyWake(orbs, pointer.x, pointer.y, pointer.vx, pointer.vy, deltaTime, parallax, wakeRadius, wakeStrength);
 		}
 	}
 }
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { PhaseObstacles } from './PhaseObstacles';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { GridConfigFactory } from '../grid/core/GridConfigFactory';
+import { ViewportCellsFactory } from '../grid/core/ViewportCellsFactory';
+import { DEFAULT_PARALLAX_CONFIG } from '../shared/config';
+import { ParallaxDepth, type LayerParallax } from '../shared/parallax';
+import { CELL_OBSTACLE, type OrbObstacle } from '../shared/types';
+
+/** Offset at the bottom of the page (scroll 2.75 with the default config). */
+const MAX_SCROLL_OFFSET_Y = -200;
+
+const CARDS: OrbObstacle[] = [
+	{ x: 160, y: 240, width: 720, height: 480 },
+	{ x: 1040, y: 420, width: 720, height: 480 },
+];
+
+describe('PhaseObstacles', () => {
+	it('blocks the card edges on the near, middle and far layers at the maximum scroll offset', () => {
+		const config = GridConfigFactory.createFromSize(1920, 1080, 1);
+		const grid = new SpatialGrid(config);
+		const vpc = ViewportCellsFactory.create(config);
+		const parallax: LayerParallax = {
+			offset: { x: 0, y: MAX_SCROLL_OFFSET_Y },
+			layers: config.layers,
+			depth: DEFAULT_PARALLAX_CONFIG,
+		};
+
+		PhaseObstacles.syncGrid(grid, vpc, CARDS, parallax);
+
+		const lastLayer = config.layers - 1;
+		for (const layer of [0, Math.floor(lastLayer / 2), lastLayer]) {
+			const scale = ParallaxDepth.scaleOf(parallax, layer);
+			for (const card of CARDS) {
+				const top = card.y - parallax.offset.y * scale;
+				const minCellX = Math.floor(card.x * vpc.invCellSizeXPx) + vpc.startCellX;
+				const maxCellX = Math.floor((card.x + card.width) * vpc.invCellSizeXPx) + vpc.startCellX;
+				const minCellY = Math.floor(top * vpc.invCellSizeYPx) + vpc.startCellY;
+				const maxCellY = Math.floor((top + card.height) * vpc.invCellSizeYPx) + vpc.startCellY;
+				const midCellX = Math.floor((minCellX + maxCellX) / 2);
+				const midCellY = Math.floor((minCellY + maxCellY) / 2);
+
+				// Corners and edge midpoints of the card on this layer
+				for (const cellY of [minCellY, midCellY, maxCellY]) {
+					for (const cellX of [minCellX, midCellX, maxCellX]) {
+						expect(grid.getCell(cellX, cellY, layer) & CELL_OBSTACLE, `layer ${layer} cell ${cellX},${cellY}`).toBe(CELL_OBSTACLE);
+					}
+				}
+
+				// The rows just past the card on this layer stay open
+				expect(grid.getCell(midCellX, minCellY - 1, layer) & CELL_OBSTACLE).toBe(0);
+				expect(grid.getCell(midCellX, maxCellY + 1, layer) & CELL_OBSTACLE).toBe(0);
+			}
+		}
+	});
+});
@@ -0,0 +1,117 @@
+// =============================================================================
+// PhaseObstacles - Obstacle grid sync and Phase 5.7: obstacle avoidance
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { ObstacleAvoidance } from '../collision';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type ViewportCells, type GridCellRect, type GridObstacle } from '../grid/types';
+import { type OrbObstacle } from '../shared/types';
+import { DEFAULT_OBSTACLE_CONFIG } from '../shared/config';
+import { ParallaxDepth, type LayerParallax } from '../shared/parallax';
+
+/**
+ * Keeps content obstacles in the grid and applies soft avoidance.
+ * 
+ * Obstacles arrive in screen coordinates, but orbs are in physics space.
+ * Like the pointer, each rectangle is shifted by the parallax offset of
+ * the layer it is tested against.
+ * 
+ * Single Responsibility: Obstacle placement and avoidance only.
+ */
+export class PhaseObstacles {
+	/**
+	 * Writes obstacle volumes into the grid so wall collision blocks them.
+	 * Runs every step, before the pipeline, so volumes follow moving cards
+	 * even while the avoidance phase is disabled.
+	 * 
+	 * Each layer sees the obstacle at its own parallax shift, so every
+	 * obstacle becomes one volume enclosing all its layers, carrying the
+	 * shifted cells of each layer. The volume count stays the obstacle
+	 * count however far the page scrolls.
+	 * 
+	 * @param grid - Spatial grid to update.
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param obstacles - Obstacles in screen coordinates.
+	 * @param parallax - Current parallax offset and per-layer scale for coordinate adjustment.
+	 */
+	static syncGrid(
+		grid: SpatialGrid,
+		vpc: ViewportCells,
+		obstacles: readonly OrbObstacle[],
+		parallax: LayerParallax
+	): void {
+		const lastLayer = grid.config.layers - 1;
+		const volumes: GridObstacle[] = [];
+		for (const obstacle of obstacles) {
+			const minLayer = Math.max(0, obstacle.layers?.min ?? 0);
+			const maxLayer = Math.min(lastLayer, obstacle.layers?.max ?? lastLayer);
+			if (minLayer > maxLayer) continue;
+
+			const volume: GridObstacle = {
+				minCellX: Infinity, maxCellX: -Infinity,
+				minCellY: Infinity, maxCellY: -Infinity,
+				minLayer, maxLayer,
+			};
+			const layerRects: GridCellRect[] = [];
+			let shifted = false;
+
+			for (let layer = minLayer; layer <= maxLayer; layer++) {
+				const scale = ParallaxDepth.scaleOf(parallax, layer);
+				const left = obstacle.x - parallax.offset.x * scale;
+				const top = obstacle.y - parallax.offset.y * scale;
+				const rect: GridCellRect = {
+					minCellX: Math.floor(left * vpc.invCellSizeXPx) + vpc.startCellX,
+					maxCellX: Math.floor((left + obstacle.width) * vpc.invCellSizeXPx) + vpc.startCellX,
+					minCellY: Math.floor(top * vpc.invCellSizeYPx) + vpc.startCellY,
+					maxCellY: Math.floor((top + obstacle.height) * vpc.invCellSizeYPx) + vpc.startCellY,
+				};
+
+				const first = layerRects[0];
+				if (
+					first &&
+					(first.minCellX !== rect.minCellX || first.maxCellX !== rect.maxCellX ||
+					first.minCellY !== rect.minCellY || first.maxCellY !== rect.maxCellY)
+				) {
+					shifted = true;
+				}
+				layerRects.push(rect);
+
+				volume.minCellX = Math.min(volume.minCellX, rect.minCellX);
+				volume.maxCellX = Math.max(volume.maxCellX, rect.maxCellX);
+				volume.minCellY = Math.min(volume.minCellY, rect.minCellY);
+				volume.maxCellY = Math.max(volume.maxCellY, rect.maxCellY);
+			}
+
+			// Layers that all cover the same cells need no per-layer lookup
+			if (shifted) volume.layerRects = layerRects;
+			volumes.push(volume);
+		}
+		grid.setObstacles(volumes);
+	}
+
+	/**
+	 * Pushes orbs away from obstacle edges and out of obstacles that moved onto them.
+	 * 
+	 * @param orbs - Array of orbs to update.
+	 * @param obstacles - Obstacles in screen coordinates.
+	 * @param parallax - Current parallax offset and per-layer scale for coordinate adjustment.
+	 * @param layerCount - Number of Z layers.
+	 * @param vpc - Viewport cells for coordinate conversion.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 */
+	static execute(
+		orbs: Orb[],
+		obstacles: readonly OrbObstacle[],
+		parallax: LayerParallax,
+		layerCount: number,
+		vpc: ViewportCells,
+		deltaTime: number
+	): void {
+		if (obstacles.length === 0) return;
+
+		// Obstacles are shifted into physics space per orb, by its layer's parallax
+		const { avoidanceMargin, avoidanceStrength } = DEFAULT_OBSTACLE_CONFIG;
+		ObstacleAvoidance.applyRepulsion(orbs, obstacles, layerCount, vpc, deltaTime, parallax, avoidanceMargin, avoidanceStrength);
+	}
+}
@@ -3,8 +3,11 @@
 // =============================================================================
 
 import { type Orb } from '../orb/types';
-import { OrbAvoidance, OrbOrbCollision } from '../collision';
+import { OrbAvoidance, OrbOrbCollision, OrbSpatialHash } from '../collision';
 import { type ViewportCells } from '../grid/types';
+import { type RandomSource } from '../shared/random';
+import { type OrbEventBus } from '../events';
+import { DEFAULT_ORB_SPECIES, type OrbSpeciesTable } from '../species';
 
 /**
  * Phase 5.5-5.6: Orb-orb interaction (avoidance and collision).
@@ -15,27 +18,43 @@ export class PhaseOrbInteraction {
 	/**
 	 * Applies orb-orb avoidance and resolves orb-orb collisions.
 	 * 
+	 * The spatial hash is rebuilt once here and shared by both passes,
+	 * so neighbour lookup scales close to linearly with orb count.
+	 * 
 	 * @param orbs - Array of orbs to update.
 	 * @param vpc - Viewport cells for spatial queries.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
 	 * @param disableAvoidance - Whether avoidance is disabled.
 	 * @param disableCollisions - Whether collisions are disabled.
+	 * @param spatialHash - Broad-phase hash reused across frames.
+	 * @param random - Random source for separating coincident orbs (default Math.random).
+	 * @param events - Event bus notified of each orb-orb bounce (optional).
+	 * @param species - Species profiles by kind (mass multipliers).
 	 */
 	static execute(
 		orbs: Orb[],
 		vpc: ViewportCells,
 		deltaTime: number,
 		disableAvoidance: boolean,
-		disableCollisions: boolean
+		disableCollisions: boolean,
+		spatialHash: OrbSpatialHash,
+		random: RandomSource = Math.random,
+		events?: OrbEventBus,
+		species: OrbSpeciesTable = DEFAULT_ORB_SPECIES
 	): void {
+		if (disableAvoidance && disableCollisions) return;
+
+		// Phase 5.4: Build broad phase from current positions
+		spatialHash.rebuild(orbs, vpc);
+
 		// Phase 5.5: Apply orb-orb avoidance
 		if (!disableAvoidance) {
-			OrbAvoidance.applyRepulsion(orbs, vpc, deltaTime);
+			OrbAvoidance.applyRepulsion(orbs, vpc, deltaTime, spatialHash, undefined, random, species);
 		}
 
 		// Phase 5.6: Resolve orb-orb collisions
 		if (!disableCollisions) {
-			OrbOrbCollision.resolveCollisions(orbs, vpc);
+			OrbOrbCollision.resolveCollisions(orbs, vpc, spatialHash, random, events, species);
 		}
 	}
 }
@@ -0,0 +1,37 @@
+// =============================================================================
+// PhaseScrollWind - Phase 2.6: Push orbs with scroll and swipe momentum
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { DEFAULT_SCROLL_WIND_CONFIG } from '../shared/config';
+
+/**
+ * Phase 2.6: Apply scroll wind, scaled by depth.
+ * 
+ * Single Responsibility: Scroll wind application only.
+ */
+export class PhaseScrollWind {
+	/**
+	 * Accelerates all orbs along the wind. Near orbs (low z) feel the full
+	 * wind, far orbs only farLayerScale of it, matching parallax depth.
+	 * 
+	 * @param orbs - Array of orbs to update.
+	 * @param wind - Wind acceleration on the nearest layer in pixels per second squared.
+	 * @param totalLayers - Total number of z-layers.
+	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 */
+	static execute(orbs: Orb[], wind: { x: number; y: number }, totalLayers: number, deltaTime: number): void {
+		if (wind.x === 0 && wind.y === 0) return;
+
+		const { farLayerScale } = DEFAULT_SCROLL_WIND_CONFIG;
+		const depthSpan = Math.max(1, totalLayers - 1);
+
+		for (const orb of orbs) {
+			const depth = Math.max(0, Math.min(1, orb.z / depthSpan));
+			const scale = (1 - depth * (1 - farLayerScale)) * deltaTime;
+			orb.vx += wind.x * scale;
+			orb.vy += wind.y * scale;
+			orb.angle = Math.atan2(orb.vy, orb.vx);
+		}
+	}
+}
@@ -5,6 +5,7 @@
 import { type Orb } from '../orb/types';
 import { OrbMovement } from '../orb/core';
 import { DEFAULT_SPEED_LIMIT_CONFIG } from '../orb/config';
+import { OrbSpecies, DEFAULT_ORB_SPECIES, type OrbSpeciesTable } from '../species';
 
 /**
  * Phase 3: Apply speed limits.
@@ -13,14 +14,16 @@ import { DEFAULT_SPEED_LIMIT_CONFIG } from '../orb/config';
  */
 export class PhaseSpeedLimit {
 	/**
-	 * Applies speed limits to all orbs.
+	 * Applies speed limits to all orbs, using each species' max speeds.
 	 * 
 	 * @param orbs - Array of orbs to update.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param species - Species profiles by kind.
 	 */
-	static execute(orbs: Orb[], deltaTime: number): void {
-		const { baseMaxSpeed, minMaxSpeed, decelerationRate } = DEFAULT_SPEED_LIMIT_CONFIG;
+	static execute(orbs: Orb[], deltaTime: number, species: OrbSpeciesTable = DEFAULT_ORB_SPECIES): void {
+		const { decelerationRate } = DEFAULT_SPEED_LIMIT_CONFIG;
 		for (const orb of orbs) {
+			const { baseMaxSpeed, minMaxSpeed } = OrbSpecies.profileOf(orb.kind, species);
 			OrbMovement.applySpeedLimit(orb, baseMaxSpeed, minMaxSpeed, decelerationRate, deltaTime);
 		}
 	}
@@ -7,6 +7,8 @@ import { OrbGridMarking, OrbMovement } from '../orb/core';
 import { WallCollision } from '../collision';
 import { SpatialGrid } from '../grid/core/SpatialGrid';
 import { type ViewportCells } from '../grid/types';
+import { type RandomSource } from '../shared/random';
+import { type OrbEventBus } from '../events';
 
 /**
  * Phase 6-6.5: Wall collision detection and unsticking.
@@ -21,13 +23,19 @@ export class PhaseWallCollision {
 	 * @param grid - Spatial grid for collision detection.
 	 * @param vpc - Viewport cells for coordinate conversion.
 	 * @param deltaTime - Time elapsed since last frame in seconds.
+	 * @param random - Random source for unstick directions (default Math.random).
+	 * @param events - Event bus notified of each bounce (optional).
 	 */
 	static execute(
 		orbs: Orb[],
 		grid: SpatialGrid,
 		vpc: ViewportCells,
-		deltaTime: number
+		deltaTime: number,
+		random: RandomSource = Math.random,
+		events?: OrbEventBus
 	): void {
+		const emitWallHit = events?.has('wallHit') ?? false;
+
 		// Phase 6: Check wall collisions and move
 		for (const orb of orbs) {
 			OrbGridMarking.clearOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
@@ -35,6 +43,15 @@ export class PhaseWallCollision {
 			OrbGridMarking.markOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
 
 			if (collision.blocked) {
+				if (emitWallHit) {
+					events!.emit('wallHit', {
+						id: orb.id,
+						reflectX: collision.reflectX,
+						reflectY: collision.reflectY,
+						reflectZ: collision.reflectZ,
+						speed: Math.sqrt(orb.vx * orb.vx + orb.vy * orb.vy),
+					});
+				}
 				WallCollision.applyReflection(orb, collision.reflectX, collision.reflectY, collision.reflectZ);
 			}
 			OrbMovement.updatePosition(orb, deltaTime);
@@ -43,7 +60,7 @@ export class PhaseWallCollision {
 		// Phase 6.5: Unstick orbs from walls
 		for (const orb of orbs) {
 			OrbGridMarking.clearOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
-			WallCollision.unstickFromWall(orb, grid, vpc);
+			WallCollision.unstickFromWall(orb, grid, vpc, random);
 			OrbGridMarking.markOrbCircular(grid, orb, vpc.startCellX, vpc.startCellY, vpc.invCellSizeXPx, vpc.invCellSizeYPx);
 		}
 	}
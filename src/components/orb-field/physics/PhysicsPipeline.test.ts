@@ -0,0 +1,83 @@
+import { describe, expect, it } from 'vitest';
+import { PhysicsPipeline } from './PhysicsPipeline';
+import { type PhysicsPhase, type PhysicsPhaseContext } from './types';
+
+/** Phases under test never read the context. */
+const CONTEXT = {} as PhysicsPhaseContext;
+
+/**
+ * Creates phases that append their name to a run log.
+ */
+function loggingPhases(log: string[], ...names: string[]): PhysicsPhase[] {
+	return names.map(name => ({ name, execute: () => log.push(name) }));
+}
+
+describe('PhysicsPipeline', () => {
+	it('runs phases in order and honours placements', () => {
+		const log: string[] = [];
+		const [a, b, c, d] = loggingPhases(log, 'a', 'b', 'c', 'd');
+		const pipeline = new PhysicsPipeline([a, b]);
+
+		pipeline.add(c, { before: 'b' });
+		pipeline.add(d, { after: 'a' });
+		pipeline.run(CONTEXT);
+
+		expect(log).toEqual(['a', 'd', 'c', 'b']);
+		expect(pipeline.getPhases().map(phase => phase.name)).toEqual(['a', 'd', 'c', 'b']);
+	});
+
+	it('skips disabled phases and keeps their place', () => {
+		const log: string[] = [];
+		const pipeline = new PhysicsPipeline(loggingPhases(log, 'a', 'b', 'c'));
+
+		pipeline.setEnabled('b', false);
+		pipeline.run(CONTEXT);
+		expect(log).toEqual(['a', 'c']);
+		expect(pipeline.isEnabled('b')).toBe(false);
+		expect(pipeline.getDisabledNames()).toEqual(['b']);
+
+		log.length = 0;
+		pipeline.setEnabled('b', true);
+		pipeline.run(CONTEXT);
+		expect(log).toEqual(['a', 'b', 'c']);
+	});
+
+	it('moves and removes phases', () => {
+		const log: string[] = [];
+		const pipeline = new PhysicsPipeline(loggingPhases(log, 'a', 'b', 'c'));
+
+		pipeline.move('c', { before: 'a' });
+		expect(pipeline.remove('b')).toBe(true);
+		expect(pipeline.remove('b')).toBe(false);
+		pipeline.run(CONTEXT);
+
+		expect(log).toEqual(['c', 'a']);
+	});
+
+	it('notifies listeners on real changes only', () => {
+		const pipeline = new PhysicsPipeline(loggingPhases([], 'a', 'b'));
+		let changes = 0;
+		const unsubscribe = pipeline.subscribe(() => changes++);
+
+		pipeline.setEnabled('a', false);
+		pipeline.setEnabled('a', false);
+		pipeline.move('b', { before: 'a' });
+		expect(changes).toBe(2);
+
+		const phases = pipeline.getPhases();
+		expect(pipeline.getPhases()).toBe(phases);
+
+		unsubscribe();
+		pipeline.setEnabled('a', true);
+		expect(changes).toBe(2);
+	});
+
+	it('throws on unknown or duplicate names and keeps the order', () => {
+		const pipeline = new PhysicsPipeline(loggingPhases([], 'a', 'b'));
+
+		expect(() => pipeline.setEnabled('missing', false)).toThrow(/Unknown physics phase/);
+		expect(() => pipeline.add({ name: 'a', execute: () => {} })).toThrow(/already registered/);
+		expect(() => pipeline.move('a', { after: 'missing' })).toThrow(/Unknown physics phase/);
+		expect(pipeline.getPhases().map(phase => phase.name)).toEqual(['a', 'b']);
+	});
+});
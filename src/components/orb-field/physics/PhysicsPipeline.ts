@@ -0,0 +1,200 @@
+// =============================================================================
+// PhysicsPipeline - Ordered, named list of physics phases
+// =============================================================================
+
+import {
+	type PhysicsPhase,
+	type PhysicsPhaseContext,
+	type PhysicsPhaseInfo,
+	type PhysicsPhasePlacement,
+	type PhysicsPipelineListener,
+} from './types';
+
+/**
+ * Registered phase with its runtime enable state.
+ */
+interface PipelineEntry {
+	phase: PhysicsPhase;
+	enabled: boolean;
+}
+
+/**
+ * Runs physics phases in order and lets callers insert, remove, reorder
+ * and disable them at runtime.
+ *
+ * Phase names are unique. Unknown names passed to any method throw, so a
+ * typo in a placement or toggle fails loudly instead of silently doing
+ * nothing.
+ *
+ * Single Responsibility: Phase ordering and execution only.
+ */
+export class PhysicsPipeline {
+	private entries: PipelineEntry[] = [];
+	private snapshot: readonly PhysicsPhaseInfo[] = [];
+	private readonly listeners = new Set<PhysicsPipelineListener>();
+
+	/**
+	 * Creates a pipeline.
+	 *
+	 * @param phases - Initial phases, run in the given order.
+	 */
+	constructor(phases: readonly PhysicsPhase[] = []) {
+		for (const phase of phases) {
+			this.insert({ phase, enabled: phase.enabledByDefault ?? true }, {});
+		}
+		this.refreshSnapshot();
+	}
+
+	/**
+	 * Registers a phase.
+	 *
+	 * @param phase - Phase to add. Its name must not be registered yet.
+	 * @param placement - Where to insert it (default: at the end).
+	 */
+	add(phase: PhysicsPhase, placement: PhysicsPhasePlacement = {}): void {
+		if (this.indexOf(phase.name) !== -1) {
+			throw new Error(`Physics phase "${phase.name}" is already registered`);
+		}
+		this.insert({ phase, enabled: phase.enabledByDefault ?? true }, placement);
+		this.changed();
+	}
+
+	/**
+	 * Unregisters a phase.
+	 *
+	 * @param name - Name of the phase to remove.
+	 * @returns True if a phase was removed.
+	 */
+	remove(name: string): boolean {
+		const index = this.indexOf(name);
+		if (index === -1) return false;
+
+		this.entries.splice(index, 1);
+		this.changed();
+		return true;
+	}
+
+	/**
+	 * Moves a registered phase, keeping its enable state.
+	 *
+	 * @param name - Name of the phase to move.
+	 * @param placement - New position relative to another phase.
+	 */
+	move(name: string, placement: PhysicsPhasePlacement): void {
+		const index = this.requireIndex(name);
+		const [entry] = this.entries.splice(index, 1);
+		try {
+			this.insert(entry, placement);
+		} catch (error) {
+			// Restore the original order before reporting a bad anchor
+			this.entries.splice(index, 0, entry);
+			throw error;
+		}
+		this.changed();
+	}
+
+	/**
+	 * Enables or disables a phase without unregistering it.
+	 *
+	 * @param name - Name of the phase.
+	 * @param enabled - Whether the phase should run.
+	 */
+	setEnabled(name: string, enabled: boolean): void {
+		const entry = this.entries[this.requireIndex(name)];
+		if (entry.enabled === enabled) return;
+
+		entry.enabled = enabled;
+		this.changed();
+	}
+
+	/**
+	 * Checks whether a phase is registered.
+	 */
+	has(name: string): boolean {
+		return this.indexOf(name) !== -1;
+	}
+
+	/**
+	 * Checks whether a registered phase is enabled.
+	 */
+	isEnabled(name: string): boolean {
+		return this.entries[this.requireIndex(name)].enabled;
+	}
+
+	/**
+	 * Returns all phases in run order.
+	 * The array is cached and only replaced when the pipeline changes.
+	 */
+	getPhases(): readonly PhysicsPhaseInfo[] {
+		return this.snapshot;
+	}
+
+	/**
+	 * Returns the names of all disabled phases.
+	 */
+	getDisabledNames(): string[] {
+		return this.entries.filter(entry => !entry.enabled).map(entry => entry.phase.name);
+	}
+
+	/**
+	 * Runs every enabled phase in order.
+	 *
+	 * @param context - Shared per-step simulation context.
+	 */
+	run(context: PhysicsPhaseContext): void {
+		for (const entry of this.entries) {
+			if (entry.enabled) entry.phase.execute(context);
+		}
+	}
+
+	/**
+	 * Registers a listener called whenever the pipeline changes.
+	 *
+	 * @param listener - Callback to invoke.
+	 * @returns Function that unregisters the listener.
+	 */
+	subscribe(listener: PhysicsPipelineListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	private insert(entry: PipelineEntry, placement: PhysicsPhasePlacement): void {
+		if (placement.before !== undefined) {
+			this.entries.splice(this.requireIndex(placement.before), 0, entry);
+		} else if (placement.after !== undefined) {
+			this.entries.splice(this.requireIndex(placement.after) + 1, 0, entry);
+		} else {
+			this.entries.push(entry);
+		}
+	}
+
+	private indexOf(name: string): number {
+		return this.entries.findIndex(entry => entry.phase.name === name);
+	}
+
+	private requireIndex(name: string): number {
+		const index = this.indexOf(name);
+		if (index === -1) {
+			throw new Error(`Unknown physics phase "${name}"`);
+		}
+		return index;
+	}
+
+	private refreshSnapshot(): void {
+		this.snapshot = this.entries.map(({ phase, enabled }) => ({
+			name: phase.name,
+			label: phase.label ?? phase.name,
+			description: phase.description,
+			enabled,
+		}));
+	}
+
+	private changed(): void {
+		this.refreshSnapshot();
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
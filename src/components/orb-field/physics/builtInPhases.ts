@@ -0,0 +1,184 @@
+// =============================================================================
+// Built-in Phases - Default physics pipeline built from the Phase* modules
+// =============================================================================
+
+import { PhaseGridMarking } from './PhaseGridMarking';
+import { PhaseMouseRepulsion } from './PhaseMouseRepulsion';
+import { PhaseForceFields } from './PhaseForceFields';
+import { PhaseScrollWind } from './PhaseScrollWind';
+import { PhaseSpeedLimit } from './PhaseSpeedLimit';
+import { PhaseWander } from './PhaseWander';
+import { PhaseFlocking } from './PhaseFlocking';
+import { PhaseLayerAttraction } from './PhaseLayerAttraction';
+import { PhaseFormation } from './PhaseFormation';
+import { PhaseOrbInteraction } from './PhaseOrbInteraction';
+import { PhaseWallCollision } from './PhaseWallCollision';
+import { PhaseBoundaries } from './PhaseBoundaries';
+import { PhaseObstacles } from './PhaseObstacles';
+import { PhaseExpiration } from './PhaseExpiration';
+import { PhaseContinuousSpawn } from './PhaseContinuousSpawn';
+import { type PhysicsPhase } from './types';
+
+/**
+ * Names of the built-in phases, for use as placement anchors.
+ */
+export const BUILT_IN_PHASE_NAMES = {
+	markInitial: 'markInitial',
+	mouseRepulsion: 'mouseRepulsion',
+	forceFields: 'forceFields',
+	scrollWind: 'scrollWind',
+	speedLimit: 'speedLimit',
+	wander: 'wander',
+	flocking: 'flocking',
+	layerAttraction: 'layerAttraction',
+	formation: 'formation',
+	orbInteraction: 'orbInteraction',
+	obstacleAvoidance: 'obstacleAvoidance',
+	wallCollision: 'wallCollision',
+	boundaries: 'boundaries',
+	markFinal: 'markFinal',
+	expiration: 'expiration',
+	continuousSpawn: 'continuousSpawn',
+} as const;
+
+/**
+ * Built-in phases in their default run order.
+ */
+export const BUILT_IN_PHASES: readonly PhysicsPhase[] = [
+	{
+		// Phase 1: Mark all orbs at current positions
+		name: BUILT_IN_PHASE_NAMES.markInitial,
+		label: 'Grid Marking',
+		description: 'Mark orbs at start positions',
+		execute: ({ orbs, grid, vpc }) => PhaseGridMarking.markInitial(orbs, grid, vpc),
+	},
+	{
+		// Phase 2: Apply pointer repulsion and wake (adjust positions for per-layer parallax)
+		name: BUILT_IN_PHASE_NAMES.mouseRepulsion,
+		label: 'Pointer Repulsion',
+		description: 'Push orbs from every pointer, drag them along its wake',
+		execute: ({ orbs, inputs, parallax, flags, deltaTime }) =>
+			PhaseMouseRepulsion.execute(orbs, inputs.mousePos, inputs.pointers, deltaTime, flags.disableAvoidance, parallax),
+	},
+	{
+		// Phase 2.5: Apply force fields
+		name: BUILT_IN_PHASE_NAMES.forceFields,
+		label: 'Force Fields',
+		description: 'Attractors, repulsors and vortices',
+		execute: ({ orbs, forceFields, deltaTime }) => PhaseForceFields.execute(orbs, forceFields, deltaTime),
+	},
+	{
+		// Phase 2.6: Apply scroll and swipe momentum as wind
+		name: BUILT_IN_PHASE_NAMES.scrollWind,
+		label: 'Scroll Wind',
+		description: 'Push orbs along with card navigation',
+		execute: ({ orbs, grid, inputs, deltaTime }) => PhaseScrollWind.execute(orbs, inputs.wind, grid.config.layers, deltaTime),
+	},
+	{
+		// Phase 3: Apply speed limits
+		name: BUILT_IN_PHASE_NAMES.speedLimit,
+		label: 'Speed Limit',
+		description: 'Decelerate orbs above max speed',
+		execute: ({ orbs, species, deltaTime }) => PhaseSpeedLimit.execute(orbs, deltaTime, species),
+	},
+	{
+		// Phase 4: Apply wander behavior
+		name: BUILT_IN_PHASE_NAMES.wander,
+		label: 'Wander',
+		description: 'Random drift steering',
+		execute: ({ orbs, deltaTime }) => PhaseWander.execute(orbs, deltaTime),
+	},
+	{
+		// Phase 4.5: Apply flocking (off until enabled)
+		name: BUILT_IN_PHASE_NAMES.flocking,
+		label: 'Flocking',
+		description: 'School with orbs on nearby layers',
+		enabledByDefault: false,
+		execute: ({ orbs, vpc, spatialHash, flocking, deltaTime }) =>
+			PhaseFlocking.execute(orbs, vpc, spatialHash, deltaTime, flocking),
+	},
+	{
+		// Phase 5: Apply layer attraction
+		name: BUILT_IN_PHASE_NAMES.layerAttraction,
+		label: 'Layer Attraction',
+		description: 'Pull orbs toward preferred depth',
+		execute: ({ orbs, grid, species, deltaTime }) => PhaseLayerAttraction.execute(orbs, grid.config.layers, deltaTime, species),
+	},
+	{
+		// Phase 5.2: Pull formed orbs toward their shape targets
+		name: BUILT_IN_PHASE_NAMES.formation,
+		label: 'Formation',
+		description: 'Spring orbs into text or SVG shapes',
+		execute: ({ orbs, grid, formation, deltaTime }) => PhaseFormation.execute(orbs, formation, grid.config.layers, deltaTime),
+	},
+	{
+		// Phase 5.5-5.6: Apply orb-orb interactions
+		name: BUILT_IN_PHASE_NAMES.orbInteraction,
+		label: 'Orb Interaction',
+		description: 'Avoidance and collisions between orbs',
+		execute: ({ orbs, vpc, deltaTime, flags, spatialHash, random, events, species }) =>
+			PhaseOrbInteraction.execute(orbs, vpc, deltaTime, flags.disableAvoidance, flags.disableCollisions, spatialHash, random, events, species),
+	},
+	{
+		// Phase 5.7: Flow around content obstacles (cards)
+		name: BUILT_IN_PHASE_NAMES.obstacleAvoidance,
+		label: 'Obstacle Avoidance',
+		description: 'Stream orbs around cards',
+		execute: ({ orbs, grid, vpc, inputs, parallax, deltaTime }) =>
+			PhaseObstacles.execute(orbs, inputs.obstacles, parallax, grid.config.layers, vpc, deltaTime),
+	},
+	{
+		// Phase 6-6.5: Check wall collisions and unstick
+		name: BUILT_IN_PHASE_NAMES.wallCollision,
+		label: 'Wall Collision',
+		description: 'Bounce off borders, move orbs',
+		execute: ({ orbs, grid, vpc, deltaTime, random, events }) => PhaseWallCollision.execute(orbs, grid, vpc, deltaTime, random, events),
+	},
+	{
+		// Phase 6.7: Wrap, absorb or spring back orbs at open edges
+		name: BUILT_IN_PHASE_NAMES.boundaries,
+		label: 'Boundaries',
+		description: 'Wrap, absorb or soften the field edges',
+		execute: ({ orbs, grid, vpc, boundaries, now, deltaTime, events, notifyOrbsChanged }) => {
+			// Absorbed orbs leave here, even while despawning is disabled
+			const removed = PhaseBoundaries.execute(orbs, boundaries, grid, vpc, now, deltaTime, events);
+			if (removed > 0) notifyOrbsChanged();
+		},
+	},
+	{
+		// Phase 8: Re-mark at new positions
+		name: BUILT_IN_PHASE_NAMES.markFinal,
+		label: 'Grid Re-marking',
+		description: 'Mark orbs at end positions',
+		execute: ({ orbs, grid, vpc }) => PhaseGridMarking.markFinal(orbs, grid, vpc),
+	},
+	{
+		// Phase 9: Remove expired orbs
+		name: BUILT_IN_PHASE_NAMES.expiration,
+		label: 'Expiration',
+		description: 'Remove orbs past their lifetime',
+		execute: ({ orbs, grid, vpc, now, flags, notifyOrbsChanged, events }) => {
+			const removed = PhaseExpiration.execute(orbs, grid, vpc, now, flags.enableOrbDespawning, events);
+			if (removed > 0) notifyOrbsChanged();
+		},
+	},
+	{
+		// Phase 10: Continuous spawning
+		name: BUILT_IN_PHASE_NAMES.continuousSpawn,
+		label: 'Continuous Spawn',
+		description: 'Top up to the target orb count',
+		execute: ({ orbs, windowSize, now, burstTime, inputs, flags, spawnRandomOrbs, deltaTime, random }) =>
+			PhaseContinuousSpawn.execute(
+				orbs.length,
+				windowSize,
+				now,
+				burstTime,
+				inputs.isPageVisible,
+				flags.enableOrbSpawning,
+				inputs.orbCountScale,
+				spawnRandomOrbs,
+				deltaTime,
+				random
+			),
+	},
+];
@@ -3,11 +3,26 @@
 // =============================================================================
 
 export { PhaseMouseRepulsion } from './PhaseMouseRepulsion';
+export { PhaseForceFields } from './PhaseForceFields';
+export { PhaseScrollWind } from './PhaseScrollWind';
 export { PhaseSpeedLimit } from './PhaseSpeedLimit';
 export { PhaseWander } from './PhaseWander';
+export { PhaseFlocking } from './PhaseFlocking';
 export { PhaseLayerAttraction } from './PhaseLayerAttraction';
+export { PhaseFormation } from './PhaseFormation';
 export { PhaseOrbInteraction } from './PhaseOrbInteraction';
 export { PhaseWallCollision } from './PhaseWallCollision';
+export { PhaseBoundaries } from './PhaseBoundaries';
+export { PhaseObstacles } from './PhaseObstacles';
 export { PhaseGridMarking } from './PhaseGridMarking';
 export { PhaseExpiration } from './PhaseExpiration';
 export { PhaseContinuousSpawn } from './PhaseContinuousSpawn';
+export { PhysicsPipeline } from './PhysicsPipeline';
+export { BUILT_IN_PHASES, BUILT_IN_PHASE_NAMES } from './builtInPhases';
+export type {
+	PhysicsPhase,
+	PhysicsPhaseContext,
+	PhysicsPhasePlacement,
+	PhysicsPhaseInfo,
+	PhysicsPipelineListener,
+} from './types';
@@ -0,0 +1,118 @@
+// =============================================================================
+// Physics Types - Shared contract for pluggable physics phases
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type ViewportCells } from '../grid/types';
+import { type WindowSize } from '../shared/types';
+import { type RandomSource } from '../shared/random';
+import { type LayerParallax } from '../shared/parallax';
+import { OrbSpatialHash } from '../collision';
+import { type ForceField } from '../force-field';
+import { type ActiveFormation } from '../formation';
+import { type OrbBoundaries } from '../boundary';
+import { type FlockingConfig } from '../flocking';
+import { type OrbSpeciesTable } from '../species';
+import { type OrbEventBus } from '../events';
+import { type OrbSimulationInputs, type OrbSimulationFlags } from '../simulation/types';
+
+/**
+ * Everything a phase may read or mutate during one simulation step.
+ * Built once per step and passed to every enabled phase in order.
+ */
+export interface PhysicsPhaseContext {
+	/** Live orbs array. Mutate in place; never replace. */
+	orbs: Orb[];
+	/** Spatial grid for cell state queries and marking. */
+	grid: SpatialGrid;
+	/** Viewport cells for coordinate conversion. */
+	vpc: ViewportCells;
+	/** Viewport dimensions in pixels. */
+	windowSize: WindowSize;
+	/** Step duration in seconds. */
+	deltaTime: number;
+	/** Clock time at the start of the step in milliseconds. */
+	now: number;
+	/** Pointer, scroll offset and page visibility. */
+	inputs: Readonly<OrbSimulationInputs>;
+	/** Scroll offset with its per-layer scale, for converting screen-space inputs. */
+	parallax: Readonly<LayerParallax>;
+	/** Feature flags from the debug menu. */
+	flags: Readonly<OrbSimulationFlags>;
+	/** Attractors, repulsors, lines and vortices acting on orbs. */
+	forceFields: readonly ForceField[];
+	/** Shape formation in progress, or null. */
+	formation: ActiveFormation | null;
+	/** What happens to orbs at the field edges, per axis. */
+	boundaries: Readonly<OrbBoundaries>;
+	/** Weights and ranges for the flocking phase. */
+	flocking: Readonly<FlockingConfig>;
+	/** Species profiles by kind (speed limits, mass and depth band). */
+	species: OrbSpeciesTable;
+	/** Simulation random source. Use instead of Math.random to stay deterministic. */
+	random: RandomSource;
+	/** Broad-phase hash shared by neighbour queries. */
+	spatialHash: OrbSpatialHash;
+	/** Clock time when the burst was spawned, or null if not yet. */
+	burstTime: number | null;
+	/** Spawns orbs at random positions; returns how many were spawned. */
+	spawnRandomOrbs: (count: number) => number;
+	/** Tells subscribers that orbs were added or removed outside spawnRandomOrbs. */
+	notifyOrbsChanged: () => void;
+	/** Lifecycle events; check has() before building a payload. */
+	events: OrbEventBus;
+}
+
+/**
+ * A single named stage of the simulation step.
+ *
+ * Phases are plain objects so behaviours can ship as separate modules and
+ * be registered on a simulation's pipeline without editing the loop.
+ */
+export interface PhysicsPhase {
+	/** Unique name used for ordering, toggling and removal. */
+	readonly name: string;
+	/** Human-readable label for the debug menu (defaults to name). */
+	readonly label?: string;
+	/** Short description for the debug menu. */
+	readonly description?: string;
+	/** Whether the phase runs when first registered (default true). */
+	readonly enabledByDefault?: boolean;
+	/**
+	 * Runs the phase for one step.
+	 *
+	 * @param context - Shared per-step simulation context.
+	 */
+	execute(context: PhysicsPhaseContext): void;
+}
+
+/**
+ * Position of a phase relative to an existing one.
+ * With neither field set the phase goes to the end of the pipeline.
+ */
+export interface PhysicsPhasePlacement {
+	/** Insert directly before the phase with this name. */
+	before?: string;
+	/** Insert directly after the phase with this name. */
+	after?: string;
+}
+
+/**
+ * Read-only description of a registered phase.
+ */
+export interface PhysicsPhaseInfo {
+	/** Unique phase name. */
+	name: string;
+	/** Human-readable label. */
+	label: string;
+	/** Short description, if any. */
+	description?: string;
+	/** Whether the phase runs on each step. */
+	enabled: boolean;
+}
+
+/**
+ * Listener notified when phases are added, removed, reordered or toggled.
+ */
+export type PhysicsPipelineListener = () => void;
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { QualityGovernor } from './QualityGovernor';
+import { type QualityGovernorConfig } from './config';
+
+/** Short windows so a few hundred frames cover every threshold. */
+const CONFIG: Partial<QualityGovernorConfig> = {
+	sampleWindow: 10,
+	downgradeFrameMs: 24,
+	upgradeFrameMs: 17.5,
+	downgradeAfterMs: 500,
+	upgradeAfterMs: 2000,
+	cooldownMs: 300,
+	retryAfterMs: 10000,
+	maxFrameGapMs: 250,
+};
+
+/**
+ * Feeds frames of a fixed duration and returns the time after the last.
+ */
+function feed(governor: QualityGovernor, frameMs: number, durationMs: number, start: number): number {
+	let now = start;
+	while (now < start + durationMs) {
+		now += frameMs;
+		governor.sample(frameMs, now);
+	}
+	return now;
+}
+
+describe('QualityGovernor', () => {
+	it('steps down after sustained slow frames, one tier at a time', () => {
+		const governor = new QualityGovernor(CONFIG, 'high');
+
+		let now = feed(governor, 30, 400, 0);
+		expect(governor.tier.name).toBe('high');
+
+		now = feed(governor, 30, 400, now);
+		expect(governor.tier.name).toBe('medium');
+
+		feed(governor, 30, 1200, now);
+		expect(governor.tier.name).toBe('low');
+	});
+
+	it('ignores frames inside the hysteresis band', () => {
+		const governor = new QualityGovernor(CONFIG, 'medium');
+
+		feed(governor, 20, 10000, 0);
+
+		expect(governor.tier.name).toBe('medium');
+	});
+
+	it('steps up after sustained fast frames, but not into a tier it just left', () => {
+		const governor = new QualityGovernor(CONFIG, 'high');
+		let now = feed(governor, 30, 1000, 0);
+		expect(governor.tier.name).toBe('medium');
+
+		now = feed(governor, 10, 5000, now);
+		expect(governor.tier.name).toBe('medium');
+
+		feed(governor, 10, 10000, now);
+		expect(governor.tier.name).toBe('high');
+	});
+
+	it('ignores frame gaps such as a resumed background tab', () => {
+		const governor = new QualityGovernor(CONFIG, 'high');
+
+		feed(governor, 1000, 20000, 0);
+
+		expect(governor.tier.name).toBe('high');
+		expect(governor.status.averageFrameMs).toBeNull();
+	});
+
+	it('pins an overridden tier until set back to auto', () => {
+		const governor = new QualityGovernor(CONFIG, 'high');
+		let changes = 0;
+		governor.subscribe(() => changes++);
+
+		governor.setOverride('low', 0);
+		const now = feed(governor, 5, 5000, 0);
+		expect(governor.tier.name).toBe('low');
+		expect(governor.status.override).toBe('low');
+
+		governor.setOverride('auto', now);
+		feed(governor, 5, 3000, now);
+		expect(governor.tier.name).toBe('medium');
+		expect(changes).toBe(3);
+	});
+});
@@ -0,0 +1,202 @@
+// =============================================================================
+// QualityGovernor - Steps quality tiers up or down from measured frame times
+// =============================================================================
+
+import { DEFAULT_ORB_VISUAL_CONFIG, type OrbVisualConfig } from '../orb/visuals/OrbVisualConfig';
+import {
+	DEFAULT_QUALITY_GOVERNOR_CONFIG,
+	DEFAULT_QUALITY_TIER,
+	QUALITY_TIERS,
+	type QualityGovernorConfig,
+} from './config';
+import { type QualityOverride, type QualityStatus, type QualityTier, type QualityTierName } from './types';
+
+/** Visual configs per tier, derived once from the default config. */
+const visualConfigs = new WeakMap<QualityTier, OrbVisualConfig>();
+
+/**
+ * Listener notified when the tier, override or reason changes.
+ */
+export type QualityListener = () => void;
+
+/**
+ * Samples frame times and moves between QUALITY_TIERS with hysteresis:
+ * quality drops after frames stay over budget for a short while, and
+ * rises only after they stay well under budget for much longer. A tier
+ * that was just left for being too slow is not retried for a while.
+ *
+ * An override pins a tier and stops automatic changes.
+ *
+ * Single Responsibility: Quality tier selection only.
+ */
+export class QualityGovernor {
+	private readonly config: QualityGovernorConfig;
+	private readonly samples: Float64Array;
+	private sampleHead = 0;
+	private sampleCount = 0;
+	private sampleSum = 0;
+
+	private tierIndex: number;
+	private override: QualityOverride = 'auto';
+	private reason = 'Initial tier';
+	private slowSince: number | null = null;
+	private fastSince: number | null = null;
+	private cooldownUntil = -Infinity;
+	private readonly retryAt = new Map<number, number>();
+	private readonly listeners = new Set<QualityListener>();
+
+	/**
+	 * Creates a governor.
+	 *
+	 * @param config - Threshold overrides.
+	 * @param initialTier - Tier to start in (default DEFAULT_QUALITY_TIER).
+	 */
+	constructor(config: Partial<QualityGovernorConfig> = {}, initialTier: QualityTierName = DEFAULT_QUALITY_TIER) {
+		this.config = { ...DEFAULT_QUALITY_GOVERNOR_CONFIG, ...config };
+		this.samples = new Float64Array(Math.max(1, this.config.sampleWindow));
+		this.tierIndex = QualityGovernor.indexOf(initialTier);
+	}
+
+	/**
+	 * Active tier.
+	 */
+	get tier(): QualityTier {
+		return QUALITY_TIERS[this.tierIndex];
+	}
+
+	/**
+	 * Snapshot of the governor for display.
+	 */
+	get status(): QualityStatus {
+		return {
+			tier: this.tier.name,
+			override: this.override,
+			reason: this.reason,
+			averageFrameMs: this.sampleCount > 0 ? this.sampleSum / this.sampleCount : null,
+		};
+	}
+
+	/**
+	 * Records one frame and changes tier when the average has stayed out
+	 * of budget long enough.
+	 *
+	 * @param frameMs - Time since the previous frame in milliseconds.
+	 * @param now - Current time in milliseconds.
+	 * @returns True if the tier changed.
+	 */
+	sample(frameMs: number, now: number): boolean {
+		const { sampleWindow, downgradeFrameMs, upgradeFrameMs, downgradeAfterMs, upgradeAfterMs, retryAfterMs, maxFrameGapMs } = this.config;
+		if (!(frameMs > 0) || frameMs > maxFrameGapMs) return false;
+
+		this.sampleSum += frameMs - (this.sampleCount === this.samples.length ? this.samples[this.sampleHead] : 0);
+		this.samples[this.sampleHead] = frameMs;
+		this.sampleHead = (this.sampleHead + 1) % this.samples.length;
+		this.sampleCount = Math.min(this.sampleCount + 1, this.samples.length);
+
+		if (this.override !== 'auto' || now < this.cooldownUntil || this.sampleCount < sampleWindow) return false;
+
+		const average = this.sampleSum / this.sampleCount;
+		const canUpgrade = this.tierIndex < QUALITY_TIERS.length - 1
+			&& now >= (this.retryAt.get(this.tierIndex + 1) ?? -Infinity);
+
+		if (average > downgradeFrameMs && this.tierIndex > 0) {
+			this.fastSince = null;
+			this.slowSince ??= now;
+			if (now - this.slowSince >= downgradeAfterMs) {
+				this.retryAt.set(this.tierIndex, now + retryAfterMs);
+				this.change(this.tierIndex - 1, now, `Frames averaged ${average.toFixed(1)} ms (budget ${downgradeFrameMs} ms)`);
+				return true;
+			}
+		} else if (average < upgradeFrameMs && canUpgrade) {
+			this.slowSince = null;
+			this.fastSince ??= now;
+			if (now - this.fastSince >= upgradeAfterMs) {
+				this.change(this.tierIndex + 1, now, `Frames averaged ${average.toFixed(1)} ms (under ${upgradeFrameMs} ms)`);
+				return true;
+			}
+		} else {
+			this.slowSince = null;
+			this.fastSince = null;
+		}
+		return false;
+	}
+
+	/**
+	 * Pins a tier, or returns to automatic selection from the current tier.
+	 *
+	 * @param override - Tier to pin, or 'auto'.
+	 * @param now - Current time in milliseconds.
+	 */
+	setOverride(override: QualityOverride, now: number): void {
+		this.override = override;
+		if (override === 'auto') {
+			this.change(this.tierIndex, now, 'Automatic');
+		} else {
+			this.change(QualityGovernor.indexOf(override), now, `Set to ${QualityGovernor.tierOf(override).label}`);
+		}
+	}
+
+	/**
+	 * Registers a listener called when the tier, override or reason changes.
+	 *
+	 * @param listener - Callback to invoke.
+	 * @returns Function that unregisters the listener.
+	 */
+	subscribe(listener: QualityListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Looks up a tier by name.
+	 *
+	 * @param name - Tier name.
+	 * @returns The tier, or the richest tier for an unknown name.
+	 */
+	static tierOf(name: QualityTierName): QualityTier {
+		return QUALITY_TIERS[QualityGovernor.indexOf(name)];
+	}
+
+	/**
+	 * Orb visual configuration for a tier (gradient stops and glow).
+	 *
+	 * @param tier - Quality tier.
+	 * @returns Cached configuration derived from DEFAULT_ORB_VISUAL_CONFIG.
+	 */
+	static visualConfig(tier: QualityTier): OrbVisualConfig {
+		let config = visualConfigs.get(tier);
+		if (!config) {
+			config = {
+				...DEFAULT_ORB_VISUAL_CONFIG,
+				gradientStopCount: tier.gradientStopCount,
+				glowEnabled: tier.glow,
+			};
+			visualConfigs.set(tier, config);
+		}
+		return config;
+	}
+
+	/**
+	 * Moves to a tier and restarts measurement.
+	 */
+	private change(tierIndex: number, now: number, reason: string): void {
+		this.tierIndex = tierIndex;
+		this.reason = reason;
+		this.cooldownUntil = now + this.config.cooldownMs;
+		this.slowSince = null;
+		this.fastSince = null;
+		this.sampleHead = 0;
+		this.sampleCount = 0;
+		this.sampleSum = 0;
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+
+	private static indexOf(name: QualityTierName): number {
+		const index = QUALITY_TIERS.findIndex(tier => tier.name === name);
+		return index === -1 ? QUALITY_TIERS.length - 1 : index;
+	}
+}
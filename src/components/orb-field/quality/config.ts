@@ -0,0 +1,86 @@
+// =============================================================================
+// Quality Configuration - Tier table and governor thresholds
+// =============================================================================
+
+import { DEFAULT_ORB_VISUAL_CONFIG } from '../orb/visuals/OrbVisualConfig';
+import { DEFAULT_FIXED_TIMESTEP_CONFIG } from '../shared/config';
+import { type QualityTier, type QualityTierName } from './types';
+
+/**
+ * Configuration for the adaptive quality governor.
+ *
+ * The gap between the downgrade and upgrade frame times, and the longer
+ * wait before upgrading, keep the tier from flapping at the boundary.
+ */
+export interface QualityGovernorConfig {
+	/** Number of recent frames averaged. */
+	sampleWindow: number;
+	/** Mean frame time above which quality steps down (ms). */
+	downgradeFrameMs: number;
+	/** Mean frame time below which quality steps up (ms). */
+	upgradeFrameMs: number;
+	/** How long frames must stay slow before stepping down (ms). */
+	downgradeAfterMs: number;
+	/** How long frames must stay fast before stepping up (ms). */
+	upgradeAfterMs: number;
+	/** Time after a change during which samples are ignored while the new tier settles (ms). */
+	cooldownMs: number;
+	/** Wait before retrying a tier that was just left for being too slow (ms). */
+	retryAfterMs: number;
+	/** Frame gaps above this are ignored, e.g. after a background tab resumes (ms). */
+	maxFrameGapMs: number;
+}
+
+/**
+ * Default governor configuration: step down below ~42 fps sustained for
+ * 2 seconds, step up above ~57 fps sustained for 10 seconds.
+ */
+export const DEFAULT_QUALITY_GOVERNOR_CONFIG: QualityGovernorConfig = {
+	sampleWindow: 90,
+	downgradeFrameMs: 24,
+	upgradeFrameMs: 17.5,
+	downgradeAfterMs: 2000,
+	upgradeAfterMs: 10000,
+	cooldownMs: 3000,
+	retryAfterMs: 60000,
+	maxFrameGapMs: 250,
+};
+
+/**
+ * Quality tiers from cheapest to richest. High matches the unthrottled
+ * defaults.
+ */
+export const QUALITY_TIERS: readonly QualityTier[] = [
+	{
+		name: 'low',
+		label: 'Low',
+		orbCountScale: 0.35,
+		gradientStopCount: 5,
+		glow: false,
+		resolutionScale: 0.5,
+		maxSubsteps: 2,
+	},
+	{
+		name: 'medium',
+		label: 'Medium',
+		orbCountScale: 0.65,
+		gradientStopCount: 7,
+		glow: true,
+		resolutionScale: 0.75,
+		maxSubsteps: 3,
+	},
+	{
+		name: 'high',
+		label: 'High',
+		orbCountScale: 1,
+		gradientStopCount: DEFAULT_ORB_VISUAL_CONFIG.gradientStopCount,
+		glow: true,
+		resolutionScale: 1,
+		maxSubsteps: DEFAULT_FIXED_TIMESTEP_CONFIG.maxSubsteps,
+	},
+];
+
+/**
+ * Tier the governor starts in.
+ */
+export const DEFAULT_QUALITY_TIER: QualityTierName = 'high';
@@ -0,0 +1,17 @@
+// =============================================================================
+// Quality - Exports for the adaptive quality governor
+// =============================================================================
+
+export { QualityGovernor, type QualityListener } from './QualityGovernor';
+export {
+	QUALITY_TIERS,
+	DEFAULT_QUALITY_TIER,
+	DEFAULT_QUALITY_GOVERNOR_CONFIG,
+	type QualityGovernorConfig,
+} from './config';
+export type {
+	QualityTierName,
+	QualityOverride,
+	QualityTier,
+	QualityStatus,
+} from './types';
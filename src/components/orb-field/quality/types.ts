@@ -0,0 +1,47 @@
+// =============================================================================
+// Quality Types - Type definitions for rendering and physics quality tiers
+// =============================================================================
+
+/**
+ * Name of a quality tier, from cheapest to richest.
+ */
+export type QualityTierName = 'low' | 'medium' | 'high';
+
+/**
+ * Fixed tier chosen by the user, or 'auto' to let the governor decide.
+ */
+export type QualityOverride = QualityTierName | 'auto';
+
+/**
+ * Everything one quality tier sets.
+ */
+export interface QualityTier {
+	/** Tier name. */
+	name: QualityTierName;
+	/** Name shown in the debug menu. */
+	label: string;
+	/** Multiplier on the continuous spawn target orb count. */
+	orbCountScale: number;
+	/** Gradient color stops per orb (see OrbVisualConfig.gradientStopCount). */
+	gradientStopCount: number;
+	/** Whether orbs draw their wide glow halo, or only core and blur. */
+	glow: boolean;
+	/** Backing-store resolution of the orb canvas relative to CSS pixels (0-1). */
+	resolutionScale: number;
+	/** Most physics steps run per frame; the backlog beyond is dropped. */
+	maxSubsteps: number;
+}
+
+/**
+ * Governor state shown in the debug menu.
+ */
+export interface QualityStatus {
+	/** Active tier. */
+	tier: QualityTierName;
+	/** User override, or 'auto'. */
+	override: QualityOverride;
+	/** Why the tier last changed. */
+	reason: string;
+	/** Mean frame time over the sample window in milliseconds, or null before enough samples. */
+	averageFrameMs: number | null;
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecorder } from './SessionRecorder';
+import { OrbSimulation } from '../simulation/OrbSimulation';
+import { ManualClock } from '../shared/clock';
+
+const STEP_MS = 1000 / 60;
+
+/**
+ * Seeded simulation with a configured viewport and a burst.
+ */
+function createSimulation(clock: ManualClock): OrbSimulation {
+	const simulation = new OrbSimulation({ seed: 5, clock });
+	simulation.configureViewport({ width: 640, height: 360 }, 1);
+	simulation.spawnBurst();
+	return simulation;
+}
+
+describe('SessionRecorder', () => {
+	it('records only the input fields that changed', () => {
+		const clock = new ManualClock();
+		const simulation = createSimulation(clock);
+		const recorder = new SessionRecorder(simulation);
+
+		for (let i = 0; i < 10; i++) {
+			clock.advance(STEP_MS);
+			simulation.setInputs({
+				pointers: [{ id: 1, x: i < 5 ? 100 : 200, y: 150, vx: 0, vy: 0 }],
+				scrollOffset: { x: 0, y: 0 },
+				isPageVisible: true,
+			});
+			simulation.step(STEP_MS / 1000);
+		}
+
+		const inputs = recorder.stop().commands
+			.map(({ command }) => command)
+			.filter(command => command.type === 'setInputs')
+			.map(command => command.inputs);
+		expect(inputs).toEqual([
+			{ pointers: [{ id: 1, x: 100, y: 150, vx: 0, vy: 0 }] },
+			{ pointers: [{ id: 1, x: 200, y: 150, vx: 0, vy: 0 }] },
+		]);
+	});
+
+	it('copies recorded inputs so later changes to the caller objects are not recorded', () => {
+		const clock = new ManualClock();
+		const simulation = createSimulation(clock);
+		const recorder = new SessionRecorder(simulation);
+
+		const scrollOffset = { x: 0, y: 10 };
+		simulation.setInputs({ scrollOffset });
+		scrollOffset.y = 20;
+		simulation.setInputs({ scrollOffset });
+
+		const recorded = recorder.stop().commands.map(({ command }) => command);
+		expect(recorded).toEqual([
+			{ type: 'setInputs', inputs: { scrollOffset: { x: 0, y: 10 } } },
+			{ type: 'setInputs', inputs: { scrollOffset: { x: 0, y: 20 } } },
+		]);
+	});
+});
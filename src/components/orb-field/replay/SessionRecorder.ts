@@ -0,0 +1,148 @@
+// =============================================================================
+// SessionRecorder - Records simulation commands for deterministic replay
+// =============================================================================
+
+import { type OrbSimulation } from '../simulation/OrbSimulation';
+import { type OrbSimulationCheckpoint, type OrbSimulationCommand, type OrbSimulationInputs } from '../simulation/types';
+import { DEFAULT_REPLAY_CONFIG, type ReplayConfig } from './config';
+import { RECORDING_FORMAT, RECORDING_VERSION } from './schema';
+import { type RecordedCommand, type SessionRecording } from './types';
+
+/**
+ * Structural equality for plain data: primitives, arrays and plain objects.
+ */
+function isSameValue(a: unknown, b: unknown): boolean {
+	if (Object.is(a, b)) return true;
+	if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+	if (Array.isArray(a) || Array.isArray(b)) {
+		return Array.isArray(a) && Array.isArray(b) && a.length === b.length
+			&& a.every((item, i) => isSameValue(item, b[i]));
+	}
+
+	const recordA = a as Record<string, unknown>;
+	const recordB = b as Record<string, unknown>;
+	const keys = Object.keys(recordA);
+	return keys.length === Object.keys(recordB).length && keys.every(key => isSameValue(recordA[key], recordB[key]));
+}
+
+/**
+ * Records a running simulation from a checkpoint onward.
+ *
+ * Everything that reaches the simulation - pointer and scroll inputs,
+ * resizes, debug flags, phase toggles, spawns and deletions - passes
+ * through its commands, so recording the commands with their clock times
+ * is enough to reproduce the session exactly with a seeded PRNG. Inputs
+ * are set every frame but rarely all change, so only the fields that
+ * differ from the previously recorded value are kept.
+ *
+ * Single Responsibility: Command capture only.
+ */
+export class SessionRecorder {
+	private readonly checkpoint: OrbSimulationCheckpoint;
+	private readonly seed: number;
+	private readonly recordedAt = new Date().toISOString();
+	private readonly commands: RecordedCommand[] = [];
+	private readonly maxSteps: number;
+	/** Inputs as of the last recorded command. */
+	private readonly inputs: OrbSimulationInputs;
+	private unsubscribe: (() => void) | null;
+	private stepCount = 0;
+
+	/**
+	 * Starts recording.
+	 *
+	 * @param simulation - Simulation to record. Must use the built-in seeded PRNG.
+	 * @param config - Recording limits.
+	 */
+	constructor(simulation: OrbSimulation, config: ReplayConfig = DEFAULT_REPLAY_CONFIG) {
+		if (simulation.seed === null) {
+			throw new Error('Only simulations with a seeded random source can be recorded');
+		}
+		this.seed = simulation.seed;
+		this.maxSteps = config.maxSteps;
+		this.checkpoint = simulation.createCheckpoint();
+		this.inputs = structuredClone(this.checkpoint.inputs);
+		this.unsubscribe = simulation.onCommand((command, time) => this.record(command, time));
+	}
+
+	/**
+	 * Number of steps recorded so far.
+	 */
+	get steps(): number {
+		return this.stepCount;
+	}
+
+	/**
+	 * Whether commands are still being recorded (false after stop() or at the step limit).
+	 */
+	get isRecording(): boolean {
+		return this.unsubscribe !== null;
+	}
+
+	/**
+	 * Stops recording.
+	 *
+	 * @returns The recording so far.
+	 */
+	stop(): SessionRecording {
+		this.unsubscribe?.();
+		this.unsubscribe = null;
+
+		return {
+			format: RECORDING_FORMAT,
+			version: RECORDING_VERSION,
+			recordedAt: this.recordedAt,
+			seed: this.seed,
+			checkpoint: this.checkpoint,
+			commands: [...this.commands],
+			stepCount: this.stepCount,
+		};
+	}
+
+	/**
+	 * Serializes a recording to compact JSON (recordings are too large to indent).
+	 */
+	static serialize(recording: SessionRecording): string {
+		return JSON.stringify(recording);
+	}
+
+	private record(command: OrbSimulationCommand, time: number): void {
+		if (command.type === 'step') {
+			if (this.stepCount >= this.maxSteps) {
+				this.unsubscribe?.();
+				this.unsubscribe = null;
+				return;
+			}
+			this.stepCount++;
+		}
+
+		if (command.type === 'setInputs') {
+			const changed = this.changedInputs(command.inputs);
+			if (changed) this.commands.push({ time, command: { type: 'setInputs', inputs: changed } });
+			return;
+		}
+
+		// Commands carry live references (e.g. the scroll offset), so copy them
+		this.commands.push({ time, command: structuredClone(command) });
+	}
+
+	/**
+	 * Copies the input fields that differ from the last recorded inputs.
+	 *
+	 * @returns The changed fields, or null if nothing changed.
+	 */
+	private changedInputs(inputs: Partial<OrbSimulationInputs>): Partial<OrbSimulationInputs> | null {
+		const changed: Partial<OrbSimulationInputs> = {};
+		let hasChanges = false;
+		for (const key of Object.keys(inputs) as (keyof OrbSimulationInputs)[]) {
+			if (isSameValue(inputs[key], this.inputs[key])) continue;
+			Object.assign(changed, { [key]: structuredClone(inputs[key]) });
+			hasChanges = true;
+		}
+		if (!hasChanges) return null;
+
+		// Neither copy is mutated later, so the recorded fields can be shared
+		Object.assign(this.inputs, changed);
+		return changed;
+	}
+}
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SessionRecorder } from './SessionRecorder';
+import { SessionReplayer } from './SessionReplayer';
+import { type SessionRecording } from './types';
+import { OrbSimulation } from '../simulation/OrbSimulation';
+import { ManualClock } from '../shared/clock';
+
+const STEP_MS = 1000 / 60;
+const STEPS = 120;
+
+/**
+ * Orb state that must match exactly between a session and its replay.
+ */
+function orbState(simulation: OrbSimulation): number[][] {
+	return simulation.orbs.map(orb => [orb.pxX, orb.pxY, orb.z, orb.vx, orb.vy, orb.createdAt]);
+}
+
+/**
+ * Records a session with a moving pointer, scrolling and a click spawn.
+ */
+function recordSession(): { recording: SessionRecording; live: OrbSimulation } {
+	const clock = new ManualClock();
+	const live = new OrbSimulation({ seed: 21, clock });
+	live.configureViewport({ width: 640, height: 360 }, 1);
+	live.spawnBurst();
+
+	const recorder = new SessionRecorder(live);
+	for (let i = 0; i < STEPS; i++) {
+		clock.advance(STEP_MS);
+		live.setInputs({
+			pointers: [{ id: 1, x: 100 + i * 2, y: 150, vx: 180, vy: 0 }],
+			scrollOffset: { x: 0, y: -i / 4 },
+		});
+		if (i === 30) live.createOrb(320, 180, 10, 2);
+		live.step(STEP_MS / 1000);
+	}
+	return { recording: recorder.stop(), live };
+}
+
+describe('SessionReplayer', () => {
+	it('reproduces the recorded session exactly', () => {
+		const { recording, live } = recordSession();
+		expect(recording.stepCount).toBe(STEPS);
+
+		const replayer = new SessionReplayer(recording);
+		expect(replayer.advance(STEPS + 10)).toBe(STEPS);
+
+		expect(orbState(replayer.simulation)).toEqual(orbState(live));
+	});
+
+	it('reaches the same state when seeking back and forth', () => {
+		const { recording } = recordSession();
+		const replayer = new SessionReplayer(recording);
+
+		replayer.seek(75);
+		const forward = orbState(replayer.simulation);
+
+		replayer.seek(STEPS);
+		replayer.seek(10);
+		replayer.seek(75);
+
+		expect(replayer.step).toBe(75);
+		expect(orbState(replayer.simulation)).toEqual(forward);
+	});
+
+	it('replays a serialized recording', () => {
+		const { recording, live } = recordSession();
+		const parsed = SessionReplayer.parse(SessionRecorder.serialize(recording));
+		if (!parsed.ok) throw new Error(parsed.error);
+
+		const replayer = new SessionReplayer(parsed.recording);
+		replayer.seek(STEPS);
+
+		expect(orbState(replayer.simulation)).toEqual(orbState(live));
+	});
+});
@@ -0,0 +1,231 @@
+// =============================================================================
+// SessionReplayer - Re-runs a recorded session and seeks along its timeline
+// =============================================================================
+
+import { z } from 'zod';
+import { OrbSimulation } from '../simulation/OrbSimulation';
+import { type OrbSimulationCheckpoint, type OrbSimulationCommand } from '../simulation/types';
+import { ManualClock } from '../shared/clock';
+import { DEFAULT_REPLAY_CONFIG, type ReplayConfig } from './config';
+import { SessionRecordingSchema, RECORDING_VERSION } from './schema';
+import { type RecordingParseResult, type SessionRecording } from './types';
+
+/**
+ * Keyframe: simulation state after a number of steps, and the index of the
+ * first command not yet applied.
+ */
+interface Keyframe {
+	checkpoint: OrbSimulationCheckpoint;
+	cursor: number;
+}
+
+/**
+ * Plays a recording back in its own simulation, driven by a manual clock
+ * set to each command's recorded time.
+ *
+ * The timeline position is the number of steps applied. Seeking forward
+ * runs the recorded commands; seeking backward restores the nearest
+ * earlier keyframe and runs forward from there. Keyframes are stored
+ * while playing, so a position once reached is cheap to return to.
+ *
+ * Replays use the built-in physics pipeline; phases registered on the
+ * recorded simulation's pipeline are not part of the recording.
+ *
+ * Single Responsibility: Recorded command playback and seeking only.
+ */
+export class SessionReplayer {
+	/** Simulation re-running the recording. Read its orbs; do not drive it. */
+	readonly simulation: OrbSimulation;
+
+	/** Recording being played. */
+	readonly recording: SessionRecording;
+
+	private readonly clock: ManualClock;
+	private readonly keyframeInterval: number;
+	private readonly keyframes = new Map<number, Keyframe>();
+	private cursor = 0;
+	private position = 0;
+
+	/**
+	 * Creates a replayer positioned at the start of the recording.
+	 *
+	 * @param recording - Recording to play.
+	 * @param config - Keyframe spacing.
+	 */
+	constructor(recording: SessionRecording, config: ReplayConfig = DEFAULT_REPLAY_CONFIG) {
+		this.recording = recording;
+		this.keyframeInterval = Math.max(1, config.keyframeInterval);
+		this.clock = new ManualClock(recording.checkpoint.time);
+		this.simulation = new OrbSimulation({ seed: recording.seed, clock: this.clock });
+		this.simulation.restoreCheckpoint(recording.checkpoint);
+		this.keyframes.set(0, { checkpoint: recording.checkpoint, cursor: 0 });
+	}
+
+	/**
+	 * Number of steps applied so far.
+	 */
+	get step(): number {
+		return this.position;
+	}
+
+	/**
+	 * Total number of steps in the recording.
+	 */
+	get stepCount(): number {
+		return this.recording.stepCount;
+	}
+
+	/**
+	 * Step size of the recording in seconds (of its first step).
+	 */
+	get stepSeconds(): number {
+		const first = this.recording.commands.find(entry => entry.command.type === 'step');
+		return first?.command.type === 'step' ? first.command.deltaTime : 1 / 60;
+	}
+
+	/**
+	 * Clock time of the replayed simulation in milliseconds.
+	 */
+	get time(): number {
+		return this.clock.now();
+	}
+
+	/**
+	 * Applies recorded commands up to and including the next steps.
+	 *
+	 * @param steps - Number of steps to advance.
+	 * @returns Number of steps actually applied (fewer at the end).
+	 */
+	advance(steps: number): number {
+		const { commands } = this.recording;
+		let applied = 0;
+
+		while (applied < steps && this.cursor < commands.length) {
+			const { time, command } = commands[this.cursor++];
+			this.clock.set(time);
+			this.apply(command);
+
+			if (command.type === 'step') {
+				applied++;
+				this.position++;
+				if (this.position % this.keyframeInterval === 0 && !this.keyframes.has(this.position)) {
+					this.keyframes.set(this.position, {
+						checkpoint: this.simulation.createCheckpoint(),
+						cursor: this.cursor,
+					});
+				}
+			}
+		}
+		return applied;
+	}
+
+	/**
+	 * Moves to a position on the timeline.
+	 *
+	 * @param step - Number of steps that should have been applied (clamped to the recording).
+	 */
+	seek(step: number): void {
+		const target = Math.max(0, Math.min(this.stepCount, Math.round(step)));
+
+		// Jump to the closest stored keyframe at or before the target,
+		// unless the current position is already closer
+		let keyStep = Math.floor(target / this.keyframeInterval) * this.keyframeInterval;
+		while (keyStep > 0 && !this.keyframes.has(keyStep)) keyStep -= this.keyframeInterval;
+
+		if (target < this.position || keyStep > this.position) {
+			const keyframe = this.keyframes.get(keyStep)!;
+			this.clock.set(keyframe.checkpoint.time);
+			this.simulation.restoreCheckpoint(keyframe.checkpoint);
+			this.cursor = keyframe.cursor;
+			this.position = keyStep;
+		}
+
+		this.advance(target - this.position);
+	}
+
+	/**
+	 * Parses and validates recording JSON.
+	 *
+	 * @param json - Recording file contents.
+	 * @returns The recording, or a readable error.
+	 */
+	static parse(json: string): RecordingParseResult {
+		let data: unknown;
+		try {
+			data = JSON.parse(json);
+		} catch {
+			return { ok: false, error: 'Not valid JSON' };
+		}
+
+		if (typeof data === 'object' && data !== null && 'version' in data && data.version !== RECORDING_VERSION) {
+			return { ok: false, error: `Unsupported recording version ${String(data.version)} (expected ${RECORDING_VERSION})` };
+		}
+
+		const result = SessionRecordingSchema.safeParse(data);
+		if (!result.success) {
+			return { ok: false, error: z.prettifyError(result.error) };
+		}
+		return { ok: true, recording: result.data };
+	}
+
+	private apply(command: OrbSimulationCommand): void {
+		const simulation = this.simulation;
+
+		switch (command.type) {
+			case 'configureGrid':
+				simulation.configureGrid(command.config, command.windowSize);
+				break;
+			case 'setInputs':
+				simulation.setInputs(command.inputs);
+				break;
+			case 'setFlags':
+				simulation.setFlags(command.flags);
+				break;
+			case 'setForceFields':
+				simulation.setForceFields(command.fields);
+				break;
+			case 'setFormation':
+				simulation.setFormation(command.formation);
+				break;
+			case 'setBoundaries':
+				simulation.setBoundaries(command.boundaries);
+				break;
+			case 'setFlocking':
+				simulation.setFlocking(command.config);
+				break;
+			case 'setSpecies':
+				simulation.setSpecies(command.species);
+				break;
+			case 'setDisabledPhases':
+				for (const { name } of simulation.pipeline.getPhases()) {
+					simulation.pipeline.setEnabled(name, !command.names.includes(name));
+				}
+				break;
+			case 'step':
+				simulation.step(command.deltaTime);
+				break;
+			case 'spawnBurst':
+				simulation.spawnBurst(command.centerX, command.centerY);
+				break;
+			case 'spawnRandomOrbs':
+				simulation.spawnRandomOrbs(command.count);
+				break;
+			case 'createOrb':
+				simulation.createOrb(command.pxX, command.pxY, command.z, command.size);
+				break;
+			case 'deleteOrb':
+				simulation.deleteOrb(command.id);
+				break;
+			case 'setBurstTime':
+				simulation.setBurstTime(command.time);
+				break;
+			// Orbs are mutated by later steps, so keep the recording's copies intact
+			case 'replaceOrbs':
+				simulation.replaceOrbs(command.orbs.map(orb => ({ ...orb })));
+				break;
+			case 'restore':
+				simulation.restore(command.orbs.map(orb => ({ ...orb })), command.burstTime);
+				break;
+		}
+	}
+}
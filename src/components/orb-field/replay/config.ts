@@ -0,0 +1,23 @@
+// =============================================================================
+// Replay Configuration - Limits for session recording and seeking
+// =============================================================================
+
+/**
+ * Configuration for session recording and replay.
+ */
+export interface ReplayConfig {
+	/** Steps after which a recording stops by itself (bounds memory and file size). */
+	maxSteps: number;
+	/** Steps between stored keyframes. Smaller values seek faster but use more memory. */
+	keyframeInterval: number;
+}
+
+/**
+ * Default replay configuration.
+ * At 60 steps per second this records up to ten minutes and keeps a
+ * keyframe every five seconds of simulation.
+ */
+export const DEFAULT_REPLAY_CONFIG: ReplayConfig = {
+	maxSteps: 36000,
+	keyframeInterval: 300,
+};
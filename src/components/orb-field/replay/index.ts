@@ -0,0 +1,14 @@
+// =============================================================================
+// Replay - Exports for session recording and replay modules
+// =============================================================================
+
+export { SessionRecorder } from './SessionRecorder';
+export { SessionReplayer } from './SessionReplayer';
+export { SessionRecordingSchema, RECORDING_FORMAT, RECORDING_VERSION } from './schema';
+export { DEFAULT_REPLAY_CONFIG, type ReplayConfig } from './config';
+export type {
+	RecordedCommand,
+	SessionRecording,
+	RecordingParseResult,
+	ReplayStatus,
+} from './types';
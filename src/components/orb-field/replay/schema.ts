@@ -0,0 +1,200 @@
+// =============================================================================
+// Replay Schema - zod schema validating serialized session recordings
+// =============================================================================
+
+import { z } from 'zod';
+import { OrbSchema, GridConfigSchema } from '../snapshot/schema';
+import { type SessionRecording } from './types';
+
+/** Identifies recording files among other JSON. */
+export const RECORDING_FORMAT = 'orb-field-recording';
+
+/** Current recording version. Bump when the shape changes. */
+export const RECORDING_VERSION = 7;
+
+const PointSchema = z.object({
+	x: z.number(),
+	y: z.number(),
+});
+
+const LayerRangeSchema = z.object({
+	min: z.number(),
+	max: z.number(),
+});
+
+const WindowSizeSchema = z.object({
+	width: z.number().nonnegative(),
+	height: z.number().nonnegative(),
+});
+
+const InputsSchema = z.object({
+	mousePos: PointSchema.nullable(),
+	pointers: z.array(z.object({
+		id: z.number(),
+		x: z.number(),
+		y: z.number(),
+		vx: z.number(),
+		vy: z.number(),
+	})),
+	obstacles: z.array(z.object({
+		x: z.number(),
+		y: z.number(),
+		width: z.number(),
+		height: z.number(),
+		layers: LayerRangeSchema.optional(),
+	})),
+	scrollOffset: PointSchema,
+	parallaxDepth: z.object({
+		nearLayerScale: z.number(),
+		farLayerScale: z.number(),
+		layerScaleExponent: z.number(),
+	}),
+	isPageVisible: z.boolean(),
+	wind: PointSchema,
+	orbCountScale: z.number().nonnegative(),
+});
+
+const FlagsSchema = z.object({
+	disableCollisions: z.boolean(),
+	disableAvoidance: z.boolean(),
+	enableOrbSpawning: z.boolean(),
+	enableOrbDespawning: z.boolean(),
+});
+
+const ForceFieldBaseShape = {
+	id: z.string(),
+	x: z.number(),
+	y: z.number(),
+	radius: z.number(),
+	strength: z.number(),
+	falloff: z.enum(['constant', 'linear', 'quadratic', 'smooth']),
+	layers: LayerRangeSchema.optional(),
+};
+
+const ForceFieldSchema = z.discriminatedUnion('kind', [
+	z.object({ ...ForceFieldBaseShape, kind: z.enum(['attractor', 'repulsor']) }),
+	z.object({ ...ForceFieldBaseShape, kind: z.literal('line'), x2: z.number(), y2: z.number() }),
+	z.object({ ...ForceFieldBaseShape, kind: z.literal('vortex') }),
+]);
+
+const FormationSchema = z.object({
+	points: z.array(PointSchema),
+	layer: z.number().optional(),
+	holdMs: z.number().optional(),
+});
+
+const BoundaryModeSchema = z.enum(['bounce', 'wrap', 'absorb', 'soft']);
+
+const BoundariesSchema = z.object({
+	x: BoundaryModeSchema,
+	y: BoundaryModeSchema,
+	z: BoundaryModeSchema,
+	depthRange: LayerRangeSchema.nullable(),
+});
+
+const FlockingSchema = z.object({
+	neighbourRadiusPx: z.number().nonnegative(),
+	layerRadius: z.number().nonnegative(),
+	alignmentWeight: z.number(),
+	cohesionWeight: z.number(),
+	separationWeight: z.number(),
+	separationRadiusPx: z.number().nonnegative(),
+});
+
+const RangeSchema = z.object({
+	min: z.number(),
+	max: z.number(),
+});
+
+const SpeciesProfileSchema = z.object({
+	label: z.string(),
+	color: z.object({
+		hue: z.number(),
+		saturation: z.number(),
+		lightness: z.number(),
+	}),
+	glowIntensity: z.number(),
+	glowSpread: z.number().nonnegative(),
+	wander: z.object({
+		minWanderStrength: z.number(),
+		maxWanderStrength: z.number(),
+		minWanderSpeed: z.number(),
+		maxWanderSpeed: z.number(),
+		minModulationSpeed: z.number(),
+		maxModulationSpeed: z.number(),
+	}),
+	baseMaxSpeed: z.number().nonnegative(),
+	minMaxSpeed: z.number().nonnegative(),
+	massMultiplier: z.number().positive(),
+	layerBand: RangeSchema,
+	lifetimeMs: RangeSchema,
+});
+
+const SpeciesSchema = z.object({
+	profiles: z.record(z.string(), SpeciesProfileSchema),
+	burstWeights: z.record(z.string(), z.number()),
+	continuousWeights: z.record(z.string(), z.number()),
+});
+
+/**
+ * Every simulation command, discriminated by `type`.
+ */
+const CommandSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('configureGrid'), config: GridConfigSchema, windowSize: WindowSizeSchema }),
+	z.object({ type: z.literal('setInputs'), inputs: InputsSchema.partial() }),
+	z.object({ type: z.literal('setFlags'), flags: FlagsSchema.partial() }),
+	z.object({ type: z.literal('setForceFields'), fields: z.array(ForceFieldSchema) }),
+	z.object({ type: z.literal('setFormation'), formation: FormationSchema.nullable() }),
+	z.object({ type: z.literal('setBoundaries'), boundaries: BoundariesSchema.partial() }),
+	z.object({ type: z.literal('setFlocking'), config: FlockingSchema.partial() }),
+	z.object({ type: z.literal('setSpecies'), species: SpeciesSchema.partial() }),
+	z.object({ type: z.literal('setDisabledPhases'), names: z.array(z.string()) }),
+	z.object({ type: z.literal('step'), deltaTime: z.number().positive() }),
+	z.object({ type: z.literal('spawnBurst'), centerX: z.number(), centerY: z.number() }),
+	z.object({ type: z.literal('spawnRandomOrbs'), count: z.number().int().nonnegative() }),
+	z.object({ type: z.literal('createOrb'), pxX: z.number(), pxY: z.number(), z: z.number(), size: z.number() }),
+	z.object({ type: z.literal('deleteOrb'), id: z.string() }),
+	z.object({ type: z.literal('setBurstTime'), time: z.number().nullable() }),
+	z.object({ type: z.literal('replaceOrbs'), orbs: z.array(OrbSchema) }),
+	z.object({ type: z.literal('restore'), orbs: z.array(OrbSchema), burstTime: z.number().nullable() }),
+]);
+
+/**
+ * Full simulation state at the start of a recording.
+ */
+const CheckpointSchema = z.object({
+	time: z.number(),
+	randomState: z.number().int().nullable(),
+	gridConfig: GridConfigSchema.nullable(),
+	windowSize: WindowSizeSchema,
+	orbs: z.array(OrbSchema),
+	burstTime: z.number().nullable(),
+	inputs: InputsSchema,
+	flags: FlagsSchema,
+	forceFields: z.array(ForceFieldSchema),
+	formation: z.object({
+		formation: FormationSchema,
+		startedAt: z.number(),
+		owners: z.array(z.string().nullable()),
+	}).nullable(),
+	boundaries: BoundariesSchema,
+	flocking: FlockingSchema,
+	species: SpeciesSchema,
+	disabledPhases: z.array(z.string()),
+});
+
+/**
+ * Version 7 session recording.
+ */
+export const SessionRecordingSchema = z.object({
+	format: z.literal(RECORDING_FORMAT),
+	version: z.literal(RECORDING_VERSION),
+	recordedAt: z.string(),
+	seed: z.number().int(),
+	checkpoint: CheckpointSchema,
+	commands: z.array(z.object({
+		time: z.number(),
+		command: CommandSchema,
+	})),
+	stepCount: z.number().int().nonnegative(),
+}) satisfies z.ZodType<SessionRecording>;
@@ -0,0 +1,49 @@
+// =============================================================================
+// Replay Types - Type definitions for session recording and replay
+// =============================================================================
+
+import { type OrbSimulationCheckpoint, type OrbSimulationCommand } from '../simulation/types';
+
+/**
+ * Simulation command with the clock time it was issued at.
+ */
+export interface RecordedCommand {
+	/** Clock time of the call in milliseconds. */
+	time: number;
+	/** The command. */
+	command: OrbSimulationCommand;
+}
+
+/**
+ * A recorded session: the simulation state when recording started and
+ * every command issued after it.
+ */
+export interface SessionRecording {
+	format: 'orb-field-recording';
+	version: 7;
+	/** ISO timestamp of the start of recording, for humans. */
+	recordedAt: string;
+	/** Seed of the recorded simulation's PRNG. */
+	seed: number;
+	/** State when recording started. */
+	checkpoint: OrbSimulationCheckpoint;
+	/** Commands in the order they were issued. */
+	commands: RecordedCommand[];
+	/** Number of step commands in `commands`. */
+	stepCount: number;
+}
+
+/**
+ * Outcome of parsing recording JSON.
+ */
+export type RecordingParseResult =
+	| { ok: true; recording: SessionRecording }
+	| { ok: false; error: string };
+
+/**
+ * What the session replay hook is doing, for the debug menu.
+ */
+export type ReplayStatus =
+	| { mode: 'idle'; hasRecording: boolean }
+	| { mode: 'recording'; steps: number; maxSteps: number }
+	| { mode: 'replaying'; step: number; stepCount: number; playing: boolean };
@@ -0,0 +1,59 @@
+// =============================================================================
+// Clock - Injectable time sources for the orb simulation
+// =============================================================================
+
+/**
+ * Source of the current time in milliseconds.
+ * Used for orb creation timestamps, lifetimes and spawn scheduling.
+ */
+export interface SimulationClock {
+	/** Returns the current time in milliseconds. */
+	now(): number;
+}
+
+/**
+ * Clock backed by performance.now().
+ * Default for browser use.
+ */
+export const performanceClock: SimulationClock = {
+	now: () => performance.now(),
+};
+
+/**
+ * Clock whose time only moves when advanced explicitly.
+ * Use it in tests, workers and replays to get fully reproducible runs.
+ */
+export class ManualClock implements SimulationClock {
+	private currentTime: number;
+
+	/**
+	 * Creates a manual clock.
+	 *
+	 * @param startTime - Initial time in milliseconds (default 0).
+	 */
+	constructor(startTime: number = 0) {
+		this.currentTime = startTime;
+	}
+
+	now(): number {
+		return this.currentTime;
+	}
+
+	/**
+	 * Moves the clock forward.
+	 *
+	 * @param ms - Milliseconds to advance by.
+	 */
+	advance(ms: number): void {
+		this.currentTime += ms;
+	}
+
+	/**
+	 * Sets the clock to an absolute time.
+	 *
+	 * @param ms - New time in milliseconds.
+	 */
+	set(ms: number): void {
+		this.currentTime = ms;
+	}
+}
@@ -2,6 +2,9 @@
 // Grid System Configuration
 // =============================================================================
 
+import { type GridStorage } from '../grid/types';
+import { type OrbBlendMode, type OrbFieldTheme } from './types';
+
 /**
  * Configuration for grid geometry calculations.
  */
@@ -14,6 +17,8 @@ export interface GridSystemConfig {
 	layers: number;
 	/** Baseline DPI assumption for 1x displays. */
 	baseDpi: number;
+	/** Backing store for grid cells (sparse scales with occupied cells, not volume). */
+	storage: GridStorage;
 }
 
 /**
@@ -38,6 +43,8 @@ export interface GridRevealConfig {
 export interface GridStyleConfig {
 	/** Base RGB color values for the grey grid lines. */
 	lineColorGrey: { r: number; g: number; b: number };
+	/** RGB color values for the lines at the reveal edge, fading to lineColorGrey. */
+	lineColorReveal: { r: number; g: number; b: number };
 	/** Opacity for the grey lines. */
 	baseAlpha: number;
 	/** Opacity for the white lines at the reveal edge. */
@@ -66,6 +73,8 @@ export interface OrbFieldConfig {
 	canvasZIndex: number;
 	/** Z-index for the debug panel container. */
 	debugPanelZIndex: number;
+	/** Simulation speed (0 to 1) while reduced motion is on. */
+	reducedMotionTimeScale: number;
 }
 
 /**
@@ -76,6 +85,7 @@ export const DEFAULT_GRID_CONFIG: GridSystemConfig = {
 	extensionMultiplier: 1,
 	layers: 100,
 	baseDpi: 96,
+	storage: 'sparse',
 };
 
 /**
@@ -94,6 +104,7 @@ export const DEFAULT_REVEAL_CONFIG: GridRevealConfig = {
  */
 export const DEFAULT_STYLE_CONFIG: GridStyleConfig = {
 	lineColorGrey: { r: 100, g: 100, b: 130 },
+	lineColorReveal: { r: 255, g: 255, b: 255 },
 	baseAlpha: 0.35,
 	whiteAlpha: 0.7,
 	lineWidth: 0.5,
@@ -103,6 +114,27 @@ export const DEFAULT_STYLE_CONFIG: GridStyleConfig = {
 	filledCellColor: 'rgba(255, 80, 80, 0.6)',
 };
 
+/**
+ * Visual style changes per page theme, applied over DEFAULT_STYLE_CONFIG.
+ * White reveal lines vanish on a light page, so they turn near-black.
+ */
+export const THEME_STYLE_CONFIG: Readonly<Record<OrbFieldTheme, Partial<GridStyleConfig>>> = {
+	dark: {},
+	light: {
+		lineColorReveal: { r: 40, g: 30, b: 35 },
+		baseAlpha: 0.45,
+		whiteAlpha: 0.6,
+	},
+};
+
+/**
+ * Orb blend mode per page theme ('screen' only shows on a dark page).
+ */
+export const THEME_BLEND_MODES: Readonly<Record<OrbFieldTheme, OrbBlendMode>> = {
+	dark: 'screen',
+	light: 'multiply',
+};
+
 /**
  * Default configuration for OrbField component behavior.
  */
@@ -111,12 +143,28 @@ export const DEFAULT_ORBFIELD_CONFIG: OrbFieldConfig = {
 	fadeOutStart: 0.8,
 	canvasZIndex: 2,      // Debug canvas above homepage content
 	debugPanelZIndex: 3,  // Debug panels above everything
+	reducedMotionTimeScale: 0.1,  // Orbs drift at a tenth of normal speed
 };
 
+/**
+ * How much of the parallax offset each layer moves by.
+ * The scale runs from the near value at z = 0 to the far value on the
+ * last layer, so near orbs slide past faster than distant ones.
+ */
+export interface ParallaxDepthCurve {
+	/** Offset multiplier on the nearest layer (z = 0). */
+	nearLayerScale: number;
+	/** Offset multiplier on the farthest layer. */
+	farLayerScale: number;
+	/** Shape of the curve with depth (1 = linear, higher = stays near the near scale for longer). */
+	layerScaleExponent: number;
+}
+
 /**
  * Configuration for parallax offset behavior.
+ * Scroll and device tilt offsets are scaled per layer by the depth curve.
  */
-export interface ParallaxConfig {
+export interface ParallaxConfig extends ParallaxDepthCurve {
 	/** Pixels of grid/orb movement per viewport unit of scroll progress. */
 	scrollOffsetPxPerUnit: number;
 	/** Reference scroll progress where offset is zero (first resting point). */
@@ -135,4 +183,126 @@ export const DEFAULT_PARALLAX_CONFIG: ParallaxConfig = {
 	scrollOffsetReference: 0.75,
 	scrollOffsetSmoothing: 0.08,
 	deviceTiltOffsetPx: 30,
+	nearLayerScale: 1.4,
+	farLayerScale: 0.3,
+	layerScaleExponent: 1,
+};
+
+/**
+ * Depth curve moving every layer by the full offset, as one flat plane.
+ */
+export const UNIFORM_PARALLAX_DEPTH: ParallaxDepthCurve = {
+	nearLayerScale: 1,
+	farLayerScale: 1,
+	layerScaleExponent: 1,
+};
+
+/**
+ * Configuration for the optional Web Worker simulation mode.
+ */
+export interface OrbWorkerConfig {
+	/** Interval between orb snapshots sent back to the main thread (ms). */
+	snapshotIntervalMs: number;
+	/** Snapshot interval while debug mode is on (ms, 0 = every frame). */
+	debugSnapshotIntervalMs: number;
+}
+
+/**
+ * Default configuration for worker mode.
+ * Snapshots only feed the debug panels and orb counts, so they are sparse
+ * outside debug mode.
+ */
+export const DEFAULT_ORB_WORKER_CONFIG: OrbWorkerConfig = {
+	snapshotIntervalMs: 250,
+	debugSnapshotIntervalMs: 0,
+};
+
+/**
+ * Configuration for the fixed-timestep physics loop.
+ */
+export interface FixedTimestepConfig {
+	/** Physics steps per second. */
+	stepHz: number;
+	/** Maximum physics steps per rendered frame. Excess time is dropped. */
+	maxSubsteps: number;
+}
+
+/**
+ * Default configuration for the fixed-timestep physics loop.
+ * 60 Hz matches most displays; the substep cap stops the simulation from
+ * spiralling after tab switches or long stalls.
+ */
+export const DEFAULT_FIXED_TIMESTEP_CONFIG: FixedTimestepConfig = {
+	stepHz: 60,
+	maxSubsteps: 5,
+};
+
+/**
+ * Configuration for pointer tracking and pointer-driven orb forces.
+ */
+export interface PointerConfig {
+	/** Weight of the newest velocity sample (0-1, lower = smoother). */
+	velocitySmoothing: number;
+	/** Pointer speed cap in pixels per second (filters jumps between events). */
+	maxSpeed: number;
+	/** Velocity is treated as zero once a pointer has not moved for this long (ms). */
+	idleResetMs: number;
+	/** Radius of the velocity wake in pixels. */
+	wakeRadius: number;
+	/** Fraction of pointer velocity transferred to an orb per second at the pointer. */
+	wakeStrength: number;
+}
+
+/**
+ * Default configuration for pointer tracking.
+ * Every active pointer repels orbs; its velocity drags nearby orbs along
+ * in a wake so flicks sweep the field rather than just parting it.
+ */
+export const DEFAULT_POINTER_CONFIG: PointerConfig = {
+	velocitySmoothing: 0.5,
+	maxSpeed: 3000,
+	idleResetMs: 80,
+	wakeRadius: 180,
+	wakeStrength: 2,
+};
+
+/**
+ * Configuration for content obstacles (cards and other marked elements).
+ */
+export interface ObstacleConfig {
+	/** CSS selector of elements whose bounding boxes become obstacles. */
+	selector: string;
+	/** Distance in pixels outside an obstacle where orbs start being pushed away. */
+	avoidanceMargin: number;
+	/** Push acceleration at the obstacle edge in pixels per second squared. */
+	avoidanceStrength: number;
+}
+
+/**
+ * Default configuration for content obstacles.
+ * Components opt in by rendering a data-orb-obstacle attribute while visible.
+ */
+export const DEFAULT_OBSTACLE_CONFIG: ObstacleConfig = {
+	selector: '[data-orb-obstacle]',
+	avoidanceMargin: 60,
+	avoidanceStrength: 250,
+};
+
+/**
+ * Configuration for scroll momentum pushing on orbs.
+ */
+export interface ScrollWindConfig {
+	/** Wind acceleration in pixels per second squared at full scroll velocity (|scrollDelta| = 1). */
+	strength: number;
+	/** Fraction of the wind felt on the farthest layer (the nearest layer feels all of it). */
+	farLayerScale: number;
+}
+
+/**
+ * Default configuration for scroll wind.
+ * Card navigation pushes near orbs noticeably and barely moves far ones.
+ */
+export const DEFAULT_SCROLL_WIND_CONFIG: ScrollWindConfig = {
+	strength: 500,
+	farLayerScale: 0.15,
 };
@@ -0,0 +1,21 @@
+import { describe, expect, it } from 'vitest';
+import { ParallaxDepth } from './parallax';
+import { type ParallaxDepthCurve } from './config';
+
+const CURVE: ParallaxDepthCurve = { nearLayerScale: 1, farLayerScale: 0.25, layerScaleExponent: 2 };
+
+describe('ParallaxDepth', () => {
+	it('gives the nearest layer the near scale and the last layer the far scale', () => {
+		expect(ParallaxDepth.scaleAt(0, 10, CURVE)).toBe(1);
+		expect(ParallaxDepth.scaleAt(9, 10, CURVE)).toBe(0.25);
+	});
+
+	it('clamps depths outside the layer range', () => {
+		expect(ParallaxDepth.scaleAt(-1, 10, CURVE)).toBe(1);
+		expect(ParallaxDepth.scaleAt(12, 10, CURVE)).toBe(0.25);
+	});
+
+	it('keeps a single layer at the near scale', () => {
+		expect(ParallaxDepth.scaleAt(0, 1, CURVE)).toBe(1);
+	});
+});
@@ -0,0 +1,65 @@
+// =============================================================================
+// Parallax - Per-layer parallax offsets
+// =============================================================================
+
+import { UNIFORM_PARALLAX_DEPTH, type ParallaxDepthCurve } from './config';
+
+/**
+ * Parallax offset of a layered field: the base offset from scroll and
+ * device tilt, and how much of it each layer moves by.
+ */
+export interface LayerParallax {
+	/** Base offset in pixels (scale 1). */
+	offset: { x: number; y: number };
+	/** Total number of z-layers. */
+	layers: number;
+	/** Per-layer scale of the offset. */
+	depth: ParallaxDepthCurve;
+}
+
+/**
+ * No offset on any layer: screen space and physics space coincide.
+ */
+export const NO_PARALLAX: LayerParallax = {
+	offset: { x: 0, y: 0 },
+	layers: 1,
+	depth: UNIFORM_PARALLAX_DEPTH,
+};
+
+/**
+ * Scales the parallax offset with depth.
+ *
+ * An orb at physics position (x, y) and depth z is drawn at
+ * (x + offset.x * scale, y + offset.y * scale). Anything converting between
+ * screen and physics space - rendering, pointers, obstacles, spawning -
+ * must use the scale at the same depth so they stay aligned.
+ *
+ * Single Responsibility: Parallax scale per depth only.
+ */
+export class ParallaxDepth {
+	/**
+	 * Returns the offset multiplier at a depth.
+	 *
+	 * @param z - Z-position (0 = closest, layers - 1 = farthest, fractional between layers).
+	 * @param layers - Total number of z-layers.
+	 * @param curve - Near/far scales and curve exponent.
+	 * @returns Multiplier on the base offset.
+	 */
+	static scaleAt(z: number, layers: number, curve: ParallaxDepthCurve): number {
+		const { nearLayerScale, farLayerScale, layerScaleExponent } = curve;
+		// Same normalisation as the scroll wind, so the last layer gets the far scale
+		const t = Math.max(0, Math.min(1, z / Math.max(1, layers - 1)));
+		return nearLayerScale + (farLayerScale - nearLayerScale) * Math.pow(t, layerScaleExponent);
+	}
+
+	/**
+	 * Returns the offset multiplier of a field's parallax at a depth.
+	 *
+	 * @param parallax - Offset, layer count and depth curve.
+	 * @param z - Z-position (0 = closest).
+	 * @returns Multiplier on parallax.offset.
+	 */
+	static scaleOf(parallax: LayerParallax, z: number): number {
+		return this.scaleAt(z, parallax.layers, parallax.depth);
+	}
+}
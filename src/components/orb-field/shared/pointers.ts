@@ -0,0 +1,112 @@
+// =============================================================================
+// Pointers - Per-pointer position and velocity tracking
+// =============================================================================
+
+import { DEFAULT_POINTER_CONFIG, type PointerConfig } from './config';
+import { type PointerState } from './types';
+
+/**
+ * Tracked pointer with the time of its last sample.
+ */
+interface TrackedPointer extends PointerState {
+	/** Time of the last sample in milliseconds. */
+	time: number;
+}
+
+/**
+ * Tracks every active pointer by ID and estimates its velocity from
+ * successive samples. Framework-free: feed it from pointer events and
+ * read it once per frame.
+ *
+ * Positions are in viewport pixels; the physics phase converts them to
+ * physics space with the parallax offset, like the single mouse position.
+ *
+ * Single Responsibility: Pointer position and velocity bookkeeping only.
+ */
+export class PointerTracker {
+	private readonly config: PointerConfig;
+	private readonly pointers = new Map<number, TrackedPointer>();
+
+	/**
+	 * Creates a new tracker.
+	 *
+	 * @param config - Overrides for smoothing, speed cap and idle reset.
+	 */
+	constructor(config: Partial<PointerConfig> = {}) {
+		this.config = { ...DEFAULT_POINTER_CONFIG, ...config };
+	}
+
+	/**
+	 * Records a pointer sample, adding the pointer if it is new.
+	 *
+	 * @param id - Pointer ID.
+	 * @param x - X position in viewport pixels.
+	 * @param y - Y position in viewport pixels.
+	 * @param time - Sample time in milliseconds, on the same clock as getPointers().
+	 */
+	update(id: number, x: number, y: number, time: number): void {
+		const pointer = this.pointers.get(id);
+		if (!pointer) {
+			this.pointers.set(id, { id, x, y, vx: 0, vy: 0, time });
+			return;
+		}
+
+		const elapsed = (time - pointer.time) / 1000;
+		if (elapsed > 0) {
+			const { velocitySmoothing, maxSpeed, idleResetMs } = this.config;
+
+			// Start fresh after a pause so old motion does not leak into the estimate
+			const idle = time - pointer.time > idleResetMs;
+			let vx = (x - pointer.x) / elapsed;
+			let vy = (y - pointer.y) / elapsed;
+
+			const speed = Math.sqrt(vx * vx + vy * vy);
+			if (speed > maxSpeed) {
+				vx *= maxSpeed / speed;
+				vy *= maxSpeed / speed;
+			}
+
+			pointer.vx = idle ? vx : pointer.vx + (vx - pointer.vx) * velocitySmoothing;
+			pointer.vy = idle ? vy : pointer.vy + (vy - pointer.vy) * velocitySmoothing;
+			pointer.time = time;
+		}
+		pointer.x = x;
+		pointer.y = y;
+	}
+
+	/**
+	 * Stops tracking a pointer (e.g. a finger lifted).
+	 */
+	remove(id: number): void {
+		this.pointers.delete(id);
+	}
+
+	/**
+	 * Stops tracking all pointers.
+	 */
+	clear(): void {
+		this.pointers.clear();
+	}
+
+	/**
+	 * Returns the active pointers. Pointers that have not moved recently
+	 * report zero velocity, since no event arrives when motion stops.
+	 *
+	 * @param time - Current time in milliseconds, on the same clock as update().
+	 * @returns New array of pointer states.
+	 */
+	getPointers(time: number): PointerState[] {
+		const result: PointerState[] = [];
+		for (const pointer of this.pointers.values()) {
+			const idle = time - pointer.time > this.config.idleResetMs;
+			result.push({
+				id: pointer.id,
+				x: pointer.x,
+				y: pointer.y,
+				vx: idle ? 0 : pointer.vx,
+				vy: idle ? 0 : pointer.vy,
+			});
+		}
+		return result;
+	}
+}
@@ -0,0 +1,78 @@
+// =============================================================================
+// Random - Seedable random sources for reproducible simulations
+// =============================================================================
+
+/**
+ * A source of uniformly distributed numbers in [0, 1).
+ * Math.random satisfies this signature, as do the seeded generators below.
+ */
+export type RandomSource = () => number;
+
+/**
+ * Seeded random source whose internal state can be read and restored,
+ * so a simulation can be checkpointed and resumed mid-sequence.
+ */
+export interface SeededRandomSource extends RandomSource {
+	/** Returns the generator state (a 32-bit integer). */
+	getState(): number;
+	/** Restores a state returned by getState(). */
+	setState(state: number): void;
+}
+
+/**
+ * Creates a seeded pseudo-random generator (mulberry32).
+ *
+ * The same seed always yields the same sequence, which makes the orb
+ * simulation reproducible in tests, workers and replays.
+ *
+ * @param seed - 32-bit integer seed (fractional values are truncated).
+ * @returns A SeededRandomSource producing values in [0, 1).
+ */
+export function createSeededRandom(seed: number): SeededRandomSource {
+	let state = seed >>> 0;
+	const next = () => {
+		state = (state + 0x6D2B79F5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+	return Object.assign(next, {
+		getState: () => state,
+		setState: (value: number) => {
+			state = value >>> 0;
+		},
+	});
+}
+
+/**
+ * Creates a random 32-bit seed using Math.random.
+ * Use this when no seed is supplied but the seed should still be recorded.
+ */
+export function createRandomSeed(): number {
+	return Math.floor(Math.random() * 4294967296) >>> 0;
+}
+
+/**
+ * Generates a UUID v4-formatted identifier from a random source.
+ * Unlike crypto.randomUUID(), the result is reproducible with a seeded source.
+ *
+ * @param random - Random source to draw from.
+ * @returns A UUID-formatted string.
+ */
+export function createRandomId(random: RandomSource): string {
+	const hex = '0123456789abcdef';
+	let id = '';
+	for (let i = 0; i < 36; i++) {
+		if (i === 8 || i === 13 || i === 18 || i === 23) {
+			id += '-';
+		} else if (i === 14) {
+			id += '4';
+		} else if (i === 19) {
+			id += hex[8 + ((random() * 4) | 0)];
+		} else {
+			id += hex[(random() * 16) | 0];
+		}
+	}
+	return id;
+}
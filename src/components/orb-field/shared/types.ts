@@ -21,6 +21,9 @@ export const CELL_FILLED = 1 << 1;     // 0b00000010 = 2
 /** Cell is a permanent border wall that blocks movement. */
 export const CELL_BORDER = 1 << 2;     // 0b00000100 = 4
 
+/** Cell is inside an obstacle volume (e.g. a card) that blocks movement like a wall. */
+export const CELL_OBSTACLE = 1 << 3;   // 0b00001000 = 8
+
 /**
  * Checks if a cell has a specific flag set.
  * 
@@ -61,3 +64,56 @@ export interface WindowSize {
 	width: number;
 	height: number;
 }
+
+/**
+ * A rectangular obstacle (e.g. a card's bounding box) in viewport pixels.
+ * Orbs bounce off and flow around it.
+ */
+export interface OrbObstacle {
+	/** Left edge in viewport pixels. */
+	x: number;
+	/** Top edge in viewport pixels. */
+	y: number;
+	/** Width in pixels. */
+	width: number;
+	/** Height in pixels. */
+	height: number;
+	/** Inclusive Z layer range the obstacle occupies (default: all layers). */
+	layers?: { min: number; max: number };
+}
+
+/**
+ * A tracked pointer (mouse, pen or finger) in viewport pixels.
+ */
+export interface PointerState {
+	/** Pointer ID from the browser, unique among active pointers. */
+	id: number;
+	/** X position in viewport pixels. */
+	x: number;
+	/** Y position in viewport pixels. */
+	y: number;
+	/** Smoothed X velocity in pixels per second. */
+	vx: number;
+	/** Smoothed Y velocity in pixels per second. */
+	vy: number;
+}
+
+/**
+ * 2D rendering context of either an on-screen or an offscreen canvas.
+ * Orb renderers accept both so they can draw from a Web Worker.
+ */
+export type Canvas2DContext = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D;
+
+/**
+ * Page theme the field is drawn over.
+ * - 'light': Light page; orbs darken it and the reveal edge is near-black
+ * - 'dark': Dark page; orbs lighten it and the reveal edge is white
+ */
+export type OrbFieldTheme = 'light' | 'dark';
+
+/**
+ * How overlapping orbs combine.
+ * - 'screen': Lightens, for dark pages (additive blending in WebGL)
+ * - 'multiply': Darkens, for light pages (normal blending in WebGL; the canvas multiplies onto the page)
+ */
+export type OrbBlendMode = 'screen' | 'multiply';
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { FixedStepAccumulator } from './FixedStepAccumulator';
+
+describe('FixedStepAccumulator', () => {
+	it('releases whole steps and carries the remainder', () => {
+		const accumulator = new FixedStepAccumulator({ stepHz: 100, maxSubsteps: 5 });
+
+		const first = accumulator.advance(0.025);
+		expect(first.steps).toBe(2);
+		expect(first.stepSeconds).toBeCloseTo(0.01);
+		expect(first.alpha).toBeCloseTo(0.5);
+
+		const second = accumulator.advance(0.005);
+		expect(second.steps).toBe(1);
+		expect(second.alpha).toBeCloseTo(0);
+	});
+
+	it('drops the backlog past the substep cap', () => {
+		const accumulator = new FixedStepAccumulator({ stepHz: 100, maxSubsteps: 3 });
+
+		expect(accumulator.advance(1).steps).toBe(3);
+		expect(accumulator.advance(0.005).steps).toBe(0);
+	});
+
+	it('ignores negative and non-finite frame times', () => {
+		const accumulator = new FixedStepAccumulator({ stepHz: 100, maxSubsteps: 5 });
+
+		expect(accumulator.advance(-1).steps).toBe(0);
+		expect(accumulator.advance(NaN).steps).toBe(0);
+		expect(accumulator.advance(Infinity).steps).toBe(0);
+		expect(accumulator.advance(0.01).steps).toBe(1);
+	});
+
+	it('discards accumulated time on reset', () => {
+		const accumulator = new FixedStepAccumulator({ stepHz: 100, maxSubsteps: 5 });
+
+		accumulator.advance(0.009);
+		accumulator.reset();
+		expect(accumulator.advance(0.009).steps).toBe(0);
+	});
+});
@@ -0,0 +1,103 @@
+// =============================================================================
+// FixedStepAccumulator - Converts frame time into fixed physics steps
+// =============================================================================
+
+import { DEFAULT_FIXED_TIMESTEP_CONFIG, type FixedTimestepConfig } from '../shared/config';
+
+/**
+ * Result of advancing the accumulator by one rendered frame.
+ */
+export interface FixedStepTiming {
+	/** Number of fixed physics steps to run this frame. */
+	steps: number;
+	/** Duration of each physics step in seconds. */
+	stepSeconds: number;
+	/**
+	 * Fraction (0 to 1) of a step left over after stepping.
+	 * Renderers blend previous and current positions by this amount.
+	 */
+	alpha: number;
+}
+
+/**
+ * Accumulates variable frame time and releases it as whole fixed steps.
+ *
+ * Running physics with a constant step makes collision and avoidance
+ * results independent of display refresh rate and reproducible. Leftover
+ * time is exposed as an interpolation factor for rendering.
+ *
+ * Single Responsibility: Fixed-step time bookkeeping only.
+ */
+export class FixedStepAccumulator {
+	/** Duration of one physics step in seconds. */
+	readonly stepSeconds: number;
+
+	/** Maximum steps released per frame. */
+	private substepCap: number;
+
+	/** Unconsumed time in seconds. */
+	private accumulator = 0;
+
+	/**
+	 * Creates a new accumulator.
+	 *
+	 * @param config - Step rate and substep cap overrides.
+	 */
+	constructor(config: Partial<FixedTimestepConfig> = {}) {
+		const { stepHz, maxSubsteps } = { ...DEFAULT_FIXED_TIMESTEP_CONFIG, ...config };
+		this.stepSeconds = 1 / stepHz;
+		this.substepCap = maxSubsteps;
+	}
+
+	/**
+	 * Maximum steps released per frame.
+	 */
+	get maxSubsteps(): number {
+		return this.substepCap;
+	}
+
+	/**
+	 * Changes the substep cap, e.g. to shed physics load on slow devices.
+	 *
+	 * @param maxSubsteps - New cap (at least 1).
+	 */
+	setMaxSubsteps(maxSubsteps: number): void {
+		this.substepCap = Math.max(1, Math.floor(maxSubsteps));
+	}
+
+	/**
+	 * Adds frame time and returns how many steps to run.
+	 *
+	 * When more than maxSubsteps are pending, the backlog is dropped so a
+	 * long stall never triggers a burst of catch-up steps.
+	 *
+	 * @param frameSeconds - Time since the previous frame in seconds.
+	 * @returns Steps to run, step size, and interpolation factor.
+	 */
+	advance(frameSeconds: number): FixedStepTiming {
+		if (frameSeconds > 0 && isFinite(frameSeconds)) {
+			this.accumulator += frameSeconds;
+		}
+
+		let steps = Math.floor(this.accumulator / this.stepSeconds);
+		if (steps > this.maxSubsteps) {
+			steps = this.maxSubsteps;
+			this.accumulator = 0;
+		} else {
+			this.accumulator -= steps * this.stepSeconds;
+		}
+
+		return {
+			steps,
+			stepSeconds: this.stepSeconds,
+			alpha: Math.min(1, this.accumulator / this.stepSeconds),
+		};
+	}
+
+	/**
+	 * Discards any accumulated time.
+	 */
+	reset(): void {
+		this.accumulator = 0;
+	}
+}
@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { OrbSimulation } from './OrbSimulation';
+import { ManualClock } from '../shared/clock';
+import { DEFAULT_CONTINUOUS_SPAWN_CONFIG } from '../orb/config';
+
+const STEP_MS = 1000 / 60;
+
+/**
+ * Creates a seeded simulation on a manual clock and fires the burst.
+ */
+function createSimulation(clock: ManualClock): OrbSimulation {
+	const simulation = new OrbSimulation({ seed: 7, clock });
+	simulation.configureViewport({ width: 1920, height: 1080 }, 1);
+	simulation.spawnBurst();
+	return simulation;
+}
+
+/**
+ * Advances the clock and steps the simulation for a duration.
+ */
+function run(simulation: OrbSimulation, clock: ManualClock, durationMs: number): void {
+	for (let elapsed = 0; elapsed < durationMs; elapsed += STEP_MS) {
+		clock.advance(STEP_MS);
+		simulation.step(STEP_MS / 1000);
+	}
+}
+
+describe('OrbSimulation', () => {
+	it('starts continuous spawning after a burst at clock time 0', () => {
+		const clock = new ManualClock();
+		const simulation = createSimulation(clock);
+		const burstCount = simulation.orbs.length;
+		expect(burstCount).toBeGreaterThan(0);
+
+		run(simulation, clock, DEFAULT_CONTINUOUS_SPAWN_CONFIG.delayAfterBurstMs + 3000);
+
+		expect(simulation.orbs.length).toBeGreaterThan(burstCount);
+	});
+
+	it('replays identically from the same seed', () => {
+		const clockA = new ManualClock();
+		const clockB = new ManualClock();
+		const a = createSimulation(clockA);
+		const b = createSimulation(clockB);
+
+		run(a, clockA, 2000);
+		run(b, clockB, 2000);
+
+		expect(b.orbs.map(orb => [orb.id, orb.pxX, orb.pxY, orb.z])).toEqual(a.orbs.map(orb => [orb.id, orb.pxX, orb.pxY, orb.z]));
+	});
+
+	it('restores phase toggles from a checkpoint without reporting commands', () => {
+		const clock = new ManualClock();
+		const simulation = createSimulation(clock);
+		const [first, second] = simulation.pipeline.getPhases();
+		simulation.pipeline.setEnabled(first.name, false);
+		const checkpoint = simulation.createCheckpoint();
+		simulation.pipeline.setEnabled(first.name, true);
+		simulation.pipeline.setEnabled(second.name, false);
+
+		const commands: string[] = [];
+		simulation.onCommand(command => commands.push(command.type));
+		simulation.restoreCheckpoint(checkpoint);
+
+		expect(commands).toEqual([]);
+		expect(checkpoint.disabledPhases).toContain(first.name);
+		expect(simulation.pipeline.getDisabledNames()).toEqual(checkpoint.disabledPhases);
+
+		simulation.pipeline.setEnabled(second.name, false);
+		expect(commands).toEqual(['setDisabledPhases']);
+	});
+});
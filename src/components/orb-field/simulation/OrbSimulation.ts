@@ -0,0 +1,624 @@
+// =============================================================================
+// OrbSimulation - Framework-free orb physics simulation
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { OrbGridMarking, OrbMovement } from '../orb/core';
+import { OrbSpawner } from '../orb/utils';
+import {
+	DEFAULT_ORB_SPAWN_CONFIG,
+	DEFAULT_ORB_BURST_CONFIG,
+	DEFAULT_CONTINUOUS_SPAWN_CONFIG,
+	type OrbSpawnConfig,
+	type OrbBurstConfig,
+	type ContinuousSpawnConfig,
+} from '../orb/config';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { GridConfigFactory } from '../grid/core/GridConfigFactory';
+import { ViewportCellsFactory } from '../grid/core/ViewportCellsFactory';
+import { type GridConfig, type ViewportCells } from '../grid/types';
+import { UNIFORM_PARALLAX_DEPTH, type GridSystemConfig } from '../shared/config';
+import { type LayerParallax } from '../shared/parallax';
+import { type WindowSize } from '../shared/types';
+import { createSeededRandom, createRandomSeed, type RandomSource, type SeededRandomSource } from '../shared/random';
+import { performanceClock, type SimulationClock } from '../shared/clock';
+import { OrbSpatialHash } from '../collision';
+import { type ForceField } from '../force-field';
+import { FormationPhysics, type ActiveFormation, type OrbFormation } from '../formation';
+import { BoundaryPhysics, DEFAULT_ORB_BOUNDARIES, type OrbBoundaries } from '../boundary';
+import { DEFAULT_FLOCKING_CONFIG, type FlockingConfig } from '../flocking';
+import { DEFAULT_SPECIES_CONFIG, type OrbSpeciesConfig } from '../species';
+import { OrbEventBus, type OrbSpawnSource } from '../events';
+import { PhaseGridMarking, PhaseObstacles, PhysicsPipeline, BUILT_IN_PHASES } from '../physics';
+import {
+	type OrbSimulationOptions,
+	type OrbSimulationInputs,
+	type OrbSimulationFlags,
+	type OrbSimulationState,
+	type OrbSimulationListener,
+	type OrbSimulationCheckpoint,
+	type OrbSimulationCommand,
+	type OrbSimulationCommandListener,
+} from './types';
+
+/**
+ * Headless orb simulation.
+ *
+ * Owns the orbs array, spatial grid, broad-phase hash, random source and
+ * clock, and runs the phases of its physics pipeline in order on each
+ * step(). Custom phases are registered on `pipeline`. Has no
+ * dependency on React or the DOM, so the same simulation runs in the
+ * browser, a worker, or Node.
+ *
+ * With a seeded random source and a manual clock, identical inputs and
+ * step sizes produce identical orb states.
+ *
+ * Single Responsibility: Simulation state ownership and phase orchestration.
+ */
+export class OrbSimulation {
+	/** Live orbs array. Mutated in place, never replaced. */
+	readonly orbs: Orb[] = [];
+
+	/** Time source for orb timestamps and spawn scheduling. */
+	readonly clock: SimulationClock;
+
+	/** Random source for every random decision in the simulation. */
+	readonly random: RandomSource;
+
+	/** Seed of the built-in PRNG, or null when a custom random source is used. */
+	readonly seed: number | null;
+
+	/** Ordered physics phases run by step(). */
+	readonly pipeline: PhysicsPipeline;
+
+	/** Lifecycle events: spawn, expire, collide, wallHit and burst. */
+	readonly events = new OrbEventBus();
+
+	private readonly spawnConfig: OrbSpawnConfig;
+	private readonly burstConfig: OrbBurstConfig;
+	private readonly continuousConfig: ContinuousSpawnConfig;
+
+	private grid: SpatialGrid | null = null;
+	private vpc: ViewportCells | null = null;
+	private windowSize: WindowSize = { width: 0, height: 0 };
+	private burstTime: number | null = null;
+	private forceFields: readonly ForceField[] = [];
+	private formation: ActiveFormation | null = null;
+	private boundaries: OrbBoundaries = DEFAULT_ORB_BOUNDARIES;
+	private flocking: FlockingConfig = DEFAULT_FLOCKING_CONFIG;
+	private species: OrbSpeciesConfig;
+
+	private readonly spatialHash = new OrbSpatialHash();
+	private readonly listeners = new Set<OrbSimulationListener>();
+	private readonly commandListeners = new Set<OrbSimulationCommandListener>();
+	/** True while restoreCheckpoint() applies phase toggles, which are not commands. */
+	private restoringCheckpoint = false;
+
+	/** Built-in PRNG, kept for checkpoints; null with a custom random source. */
+	private readonly seededRandom: SeededRandomSource | null;
+
+	// Bound once so building the phase context allocates no closures per step
+	private readonly spawnRandomOrbsCallback = (count: number) => this.spawnRandom(count);
+	private readonly notifyCallback = () => this.notify();
+
+	private inputs: OrbSimulationInputs = {
+		mousePos: null,
+		pointers: [],
+		obstacles: [],
+		scrollOffset: { x: 0, y: 0 },
+		parallaxDepth: UNIFORM_PARALLAX_DEPTH,
+		isPageVisible: true,
+		wind: { x: 0, y: 0 },
+		orbCountScale: 1,
+	};
+
+	private flags: OrbSimulationFlags = {
+		disableCollisions: false,
+		disableAvoidance: false,
+		enableOrbSpawning: true,
+		enableOrbDespawning: true,
+	};
+
+	/**
+	 * Creates a new simulation. Call configureViewport() or configureGrid()
+	 * before stepping or spawning.
+	 *
+	 * @param options - Random source, clock and spawn configuration overrides.
+	 */
+	constructor(options: OrbSimulationOptions = {}) {
+		if (options.random) {
+			this.random = options.random;
+			this.seed = null;
+			this.seededRandom = null;
+		} else {
+			this.seed = options.seed ?? createRandomSeed();
+			this.seededRandom = createSeededRandom(this.seed);
+			this.random = this.seededRandom;
+		}
+		this.clock = options.clock ?? performanceClock;
+		this.pipeline = new PhysicsPipeline(options.phases ?? BUILT_IN_PHASES);
+		this.spawnConfig = { ...DEFAULT_ORB_SPAWN_CONFIG, ...options.spawnConfig };
+		this.burstConfig = { ...DEFAULT_ORB_BURST_CONFIG, ...options.burstConfig };
+		this.continuousConfig = { ...DEFAULT_CONTINUOUS_SPAWN_CONFIG, ...options.continuousConfig };
+		this.species = { ...DEFAULT_SPECIES_CONFIG, ...options.species };
+
+		// Phase toggles go straight to the pipeline, so report them from here
+		this.pipeline.subscribe(() => {
+			if (this.restoringCheckpoint) return;
+			this.emit({ type: 'setDisabledPhases', names: this.pipeline.getDisabledNames() });
+		});
+	}
+
+	/**
+	 * Whether a grid has been configured for a non-empty viewport.
+	 */
+	get isReady(): boolean {
+		return this.grid !== null && this.vpc !== null && this.windowSize.width > 0;
+	}
+
+	/**
+	 * Builds the grid for a viewport size.
+	 *
+	 * @param windowSize - Viewport dimensions in CSS pixels.
+	 * @param devicePixelRatio - Device pixel ratio (default 1).
+	 * @param options - Grid configuration overrides.
+	 * @returns The created grid configuration.
+	 */
+	configureViewport(
+		windowSize: WindowSize,
+		devicePixelRatio: number = 1,
+		options: Partial<GridSystemConfig> = {}
+	): GridConfig {
+		const config = GridConfigFactory.createFromSize(windowSize.width, windowSize.height, devicePixelRatio, options);
+		this.configureGrid(config, windowSize);
+		return config;
+	}
+
+	/**
+	 * Replaces the grid with one built from an existing configuration.
+	 * Existing orbs are kept and re-marked on the next step.
+	 *
+	 * @param config - Grid configuration.
+	 * @param windowSize - Viewport dimensions in CSS pixels.
+	 */
+	configureGrid(config: GridConfig, windowSize: WindowSize): void {
+		this.emit({ type: 'configureGrid', config, windowSize });
+		this.buildGrid(config, windowSize);
+	}
+
+	/**
+	 * Updates external inputs (pointer, scroll offset, page visibility).
+	 *
+	 * @param inputs - Inputs to change; omitted fields keep their value.
+	 */
+	setInputs(inputs: Partial<OrbSimulationInputs>): void {
+		this.emit({ type: 'setInputs', inputs });
+		this.inputs = { ...this.inputs, ...inputs };
+	}
+
+	/**
+	 * Updates feature flags for optional phases.
+	 *
+	 * @param flags - Flags to change; omitted fields keep their value.
+	 */
+	setFlags(flags: Partial<OrbSimulationFlags>): void {
+		this.emit({ type: 'setFlags', flags });
+		this.flags = { ...this.flags, ...flags };
+	}
+
+	/**
+	 * Replaces the force fields acting on orbs.
+	 *
+	 * @param fields - New force fields (copied).
+	 */
+	setForceFields(fields: readonly ForceField[]): void {
+		this.emit({ type: 'setForceFields', fields });
+		this.forceFields = [...fields];
+	}
+
+	/**
+	 * Starts assembling orbs into a shape, replacing any current formation,
+	 * or releases them back into free wander with null. Formations with a
+	 * hold time release themselves.
+	 *
+	 * @param formation - Target points in physics-space pixels, or null.
+	 */
+	setFormation(formation: OrbFormation | null): void {
+		this.emit({ type: 'setFormation', formation });
+		this.formation = formation ? FormationPhysics.start(formation, this.clock.now()) : null;
+	}
+
+	/**
+	 * Changes what happens to orbs at the field edges. Axes that do not
+	 * bounce open the grid's border walls on that axis.
+	 *
+	 * @param boundaries - Policies to change; omitted fields keep their value.
+	 */
+	setBoundaries(boundaries: Partial<OrbBoundaries>): void {
+		this.emit({ type: 'setBoundaries', boundaries });
+		this.boundaries = { ...this.boundaries, ...boundaries };
+		this.grid?.setWalls(BoundaryPhysics.gridWalls(this.boundaries));
+	}
+
+	/**
+	 * Tunes the flocking phase. Flocking itself is toggled on the pipeline
+	 * (`pipeline.setEnabled('flocking', true)`); it is off by default.
+	 *
+	 * @param config - Weights and ranges to change; omitted fields keep their value.
+	 */
+	setFlocking(config: Partial<FlockingConfig>): void {
+		this.emit({ type: 'setFlocking', config });
+		this.flocking = { ...this.flocking, ...config };
+	}
+
+	/**
+	 * Changes the species profiles or spawn weights. Orbs keep their kind;
+	 * a kind without a profile falls back to DEFAULT_ORB_KIND.
+	 *
+	 * @param species - Fields to change; omitted fields keep their value.
+	 */
+	setSpecies(species: Partial<OrbSpeciesConfig>): void {
+		this.emit({ type: 'setSpecies', species });
+		this.species = { ...this.species, ...species };
+	}
+
+	/**
+	 * Advances the simulation by one step.
+	 *
+	 * Call with a constant deltaTime (see FixedStepAccumulator) for results
+	 * that do not depend on frame rate.
+	 *
+	 * @param deltaTime - Time elapsed since the previous step in seconds.
+	 */
+	step(deltaTime: number): void {
+		const grid = this.grid;
+		const vpc = this.vpc;
+		if (!grid || !vpc) return;
+		this.emit({ type: 'step', deltaTime });
+
+		// Phase 0: Remember positions for render interpolation
+		for (const orb of this.orbs) {
+			OrbMovement.storePreviousPosition(orb);
+		}
+
+		// Phase 0.5: Move obstacle volumes to where the content is now
+		const parallax: LayerParallax = {
+			offset: this.inputs.scrollOffset,
+			layers: grid.config.layers,
+			depth: this.inputs.parallaxDepth,
+		};
+		PhaseObstacles.syncGrid(grid, vpc, this.inputs.obstacles, parallax);
+
+		// Phase 0.6: Release a formation whose hold time is over
+		const now = this.clock.now();
+		if (this.formation && FormationPhysics.isExpired(this.formation, now)) {
+			this.formation = null;
+		}
+
+		this.pipeline.run({
+			orbs: this.orbs,
+			grid,
+			vpc,
+			windowSize: this.windowSize,
+			deltaTime,
+			now,
+			inputs: this.inputs,
+			parallax,
+			flags: this.flags,
+			forceFields: this.forceFields,
+			formation: this.formation,
+			boundaries: this.boundaries,
+			flocking: this.flocking,
+			species: this.species.profiles,
+			random: this.random,
+			spatialHash: this.spatialHash,
+			burstTime: this.burstTime,
+			spawnRandomOrbs: this.spawnRandomOrbsCallback,
+			notifyOrbsChanged: this.notifyCallback,
+			events: this.events,
+		});
+	}
+
+	/**
+	 * Marks all orbs on the grid without moving them.
+	 * Use while paused so grid-based rendering stays correct.
+	 */
+	markGrid(): void {
+		if (!this.grid || !this.vpc) return;
+		PhaseGridMarking.markInitial(this.orbs, this.grid, this.vpc);
+	}
+
+	/**
+	 * Spawns the initial orb burst and starts the continuous spawn timer.
+	 *
+	 * @param centerX - Burst center X in pixels (default viewport center).
+	 * @param centerY - Burst center Y in pixels (default viewport center).
+	 * @returns Number of orbs spawned (0 if the grid is not configured).
+	 */
+	spawnBurst(
+		centerX: number = this.windowSize.width / 2,
+		centerY: number = this.windowSize.height / 2
+	): number {
+		if (!this.grid || !this.vpc) return 0;
+		this.emit({ type: 'spawnBurst', centerX, centerY });
+
+		const now = this.clock.now();
+		const newOrbs = OrbSpawner.spawnBurst(centerX, centerY, this.grid, this.vpc, this.burstConfig, this.species, this.random, now);
+		this.burstTime = now;
+		this.addOrbs(newOrbs, 'burst');
+		if (this.events.has('burst')) this.events.emit('burst', { x: centerX, y: centerY, count: newOrbs.length });
+		return newOrbs.length;
+	}
+
+	/**
+	 * Spawns orbs at random positions across the viewport.
+	 *
+	 * @param count - Number of orbs to attempt to spawn.
+	 * @returns Number of orbs actually spawned.
+	 */
+	spawnRandomOrbs(count: number): number {
+		if (!this.grid || !this.vpc) return 0;
+		this.emit({ type: 'spawnRandomOrbs', count });
+		return this.spawnRandom(count);
+	}
+
+	/**
+	 * Creates a single immortal orb at a position, if the space is free.
+	 *
+	 * @param pxX - X position in pixels.
+	 * @param pxY - Y position in pixels.
+	 * @param z - Z layer.
+	 * @param size - Orb size in cells.
+	 * @returns The new orb, or null if blocked or not configured.
+	 */
+	createOrb(pxX: number, pxY: number, z: number, size: number): Orb | null {
+		if (!this.grid || !this.vpc) return null;
+		this.emit({ type: 'createOrb', pxX, pxY, z, size });
+
+		const newOrb = OrbSpawner.createAt(pxX, pxY, z, size, this.grid, this.vpc, this.spawnConfig, this.species, this.random, this.clock.now());
+		if (newOrb) this.addOrbs([newOrb], 'manual');
+		return newOrb;
+	}
+
+	/**
+	 * Removes an orb by ID.
+	 *
+	 * @param id - ID of the orb to remove.
+	 * @returns True if an orb was removed.
+	 */
+	deleteOrb(id: string): boolean {
+		const index = this.orbs.findIndex(o => o.id === id);
+		if (index === -1) return false;
+		this.emit({ type: 'deleteOrb', id });
+
+		const orb = this.orbs[index];
+		if (this.grid && this.vpc) {
+			OrbGridMarking.clearOrbCircular(this.grid, orb, this.vpc.startCellX, this.vpc.startCellY, this.vpc.invCellSizeXPx, this.vpc.invCellSizeYPx);
+		}
+		this.orbs.splice(index, 1);
+		this.notify();
+		return true;
+	}
+
+	/**
+	 * Sets when the burst happened. Continuous spawning starts after the
+	 * configured delay. Used when handing a running simulation to a worker.
+	 *
+	 * @param time - Clock time of the burst, or null if none happened yet.
+	 */
+	setBurstTime(time: number | null): void {
+		this.emit({ type: 'setBurstTime', time });
+		this.burstTime = time;
+	}
+
+	/**
+	 * Replaces all orbs, e.g. with a snapshot from a worker simulation.
+	 * The array identity is kept; listeners are notified only if the set of
+	 * orb IDs changed. Grid marks are refreshed on the next step or markGrid().
+	 *
+	 * @param orbs - New orbs (copied into the live array).
+	 */
+	replaceOrbs(orbs: readonly Orb[]): void {
+		this.emit({ type: 'replaceOrbs', orbs });
+		this.setOrbs(orbs);
+	}
+
+	/**
+	 * Replaces all orbs and the burst time, e.g. from an imported snapshot,
+	 * and re-marks the grid so cell states match the new orbs at once.
+	 *
+	 * @param orbs - New orbs (copied into the live array).
+	 * @param burstTime - Clock time of the burst, or null if none happened yet.
+	 */
+	restore(orbs: readonly Orb[], burstTime: number | null): void {
+		this.emit({ type: 'restore', orbs, burstTime });
+		this.setOrbs(orbs);
+		this.burstTime = burstTime;
+		this.markGrid();
+	}
+
+	/**
+	 * Captures everything needed to resume this simulation exactly: orbs,
+	 * grid, inputs, flags, boundaries, flocking, species, phase toggles and the PRNG position.
+	 *
+	 * @returns A deep copy that later steps do not change.
+	 */
+	createCheckpoint(): OrbSimulationCheckpoint {
+		return structuredClone({
+			time: this.clock.now(),
+			randomState: this.seededRandom?.getState() ?? null,
+			gridConfig: this.grid?.config ?? null,
+			windowSize: this.windowSize,
+			orbs: this.orbs,
+			burstTime: this.burstTime,
+			inputs: this.inputs,
+			flags: this.flags,
+			forceFields: [...this.forceFields],
+			formation: this.formation && {
+				formation: this.formation.formation,
+				startedAt: this.formation.startedAt,
+				owners: this.formation.ownerOf,
+			},
+			boundaries: this.boundaries,
+			flocking: this.flocking,
+			species: this.species,
+			disabledPhases: this.pipeline.getDisabledNames(),
+		});
+	}
+
+	/**
+	 * Resumes from a checkpoint. The grid is rebuilt and re-marked; the
+	 * clock is left alone, so set it to `checkpoint.time` first for an
+	 * exact resume. Not reported to command listeners.
+	 *
+	 * @param checkpoint - Checkpoint from createCheckpoint().
+	 */
+	restoreCheckpoint(checkpoint: OrbSimulationCheckpoint): void {
+		const copy = structuredClone(checkpoint);
+
+		if (copy.randomState !== null) this.seededRandom?.setState(copy.randomState);
+		this.boundaries = copy.boundaries;
+		if (copy.gridConfig) this.buildGrid(copy.gridConfig, copy.windowSize);
+
+		this.setOrbs(copy.orbs);
+		this.burstTime = copy.burstTime;
+		this.inputs = copy.inputs;
+		this.flags = copy.flags;
+		this.forceFields = copy.forceFields;
+		this.flocking = copy.flocking;
+		this.species = copy.species;
+		this.formation = copy.formation
+			? FormationPhysics.resume(copy.formation.formation, copy.formation.startedAt, copy.formation.owners)
+			: null;
+
+		this.restoringCheckpoint = true;
+		try {
+			for (const { name } of this.pipeline.getPhases()) {
+				this.pipeline.setEnabled(name, !copy.disabledPhases.includes(name));
+			}
+		} finally {
+			this.restoringCheckpoint = false;
+		}
+		this.markGrid();
+	}
+
+	/**
+	 * Returns a read-only view of the current simulation state.
+	 */
+	getState(): OrbSimulationState {
+		return {
+			orbs: this.orbs,
+			grid: this.grid,
+			viewportCells: this.vpc,
+			windowSize: this.windowSize,
+			burstTime: this.burstTime,
+			time: this.clock.now(),
+			seed: this.seed,
+			disabledPhases: this.pipeline.getDisabledNames(),
+			forceFields: this.forceFields,
+			formation: this.formation?.formation ?? null,
+			boundaries: this.boundaries,
+			flocking: this.flocking,
+			species: this.species,
+		};
+	}
+
+	/**
+	 * Registers a listener called whenever orbs are added or removed.
+	 *
+	 * @param listener - Callback to invoke.
+	 * @returns Function that unregisters the listener.
+	 */
+	subscribe(listener: OrbSimulationListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Registers a listener called with every state-changing command before
+	 * it is applied, e.g. to record a session for replay.
+	 *
+	 * @param listener - Callback to invoke.
+	 * @returns Function that unregisters the listener.
+	 */
+	onCommand(listener: OrbSimulationCommandListener): () => void {
+		this.commandListeners.add(listener);
+		return () => {
+			this.commandListeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Creates the grid without reporting a command.
+	 */
+	private buildGrid(config: GridConfig, windowSize: WindowSize): void {
+		const grid = new SpatialGrid(config);
+		grid.initializeBorder();
+		grid.setWalls(BoundaryPhysics.gridWalls(this.boundaries));
+		// Save clean state for fast clearDynamic() - restores borders directly
+		// instead of checking every cell for the border flag
+		grid.saveCleanState();
+
+		this.grid = grid;
+		this.vpc = ViewportCellsFactory.create(config);
+		this.windowSize = { width: windowSize.width, height: windowSize.height };
+	}
+
+	private spawnRandom(count: number): number {
+		if (!this.grid || !this.vpc) return 0;
+
+		const newOrbs = OrbSpawner.spawnRandom(
+			count,
+			this.windowSize.width,
+			this.windowSize.height,
+			this.grid,
+			this.vpc,
+			this.burstConfig,
+			this.continuousConfig,
+			this.species,
+			this.random,
+			this.clock.now()
+		);
+		this.addOrbs(newOrbs, 'random');
+		return newOrbs.length;
+	}
+
+	/**
+	 * Copies orbs into the live array, notifying only if the set of IDs changed.
+	 */
+	private setOrbs(orbs: readonly Orb[]): void {
+		const membershipChanged = orbs.length !== this.orbs.length
+			|| orbs.some((orb, i) => orb.id !== this.orbs[i].id);
+
+		this.orbs.length = 0;
+		this.orbs.push(...orbs);
+
+		if (membershipChanged) this.notify();
+	}
+
+	private addOrbs(newOrbs: Orb[], source: OrbSpawnSource): void {
+		if (newOrbs.length === 0) return;
+		this.orbs.push(...newOrbs);
+		this.notify();
+
+		if (this.events.has('spawn')) {
+			for (const orb of newOrbs) this.events.emit('spawn', { orb, source });
+		}
+	}
+
+	private emit(command: OrbSimulationCommand): void {
+		if (this.commandListeners.size === 0) return;
+		const time = this.clock.now();
+		for (const listener of this.commandListeners) {
+			listener(command, time);
+		}
+	}
+
+	private notify(): void {
+		for (const listener of this.listeners) {
+			listener();
+		}
+	}
+}
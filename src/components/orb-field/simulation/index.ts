@@ -0,0 +1,16 @@
+// =============================================================================
+// Simulation - Exports for the headless orb simulation
+// =============================================================================
+
+export { OrbSimulation } from './OrbSimulation';
+export { FixedStepAccumulator, type FixedStepTiming } from './FixedStepAccumulator';
+export type {
+	OrbSimulationOptions,
+	OrbSimulationInputs,
+	OrbSimulationFlags,
+	OrbSimulationState,
+	OrbSimulationListener,
+	OrbSimulationCheckpoint,
+	OrbSimulationCommand,
+	OrbSimulationCommandListener,
+} from './types';
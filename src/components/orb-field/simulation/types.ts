@@ -0,0 +1,184 @@
+// =============================================================================
+// Simulation Types - Type definitions for the headless orb simulation
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type GridConfig, type ViewportCells } from '../grid/types';
+import { type WindowSize, type PointerState, type OrbObstacle } from '../shared/types';
+import { type RandomSource } from '../shared/random';
+import { type SimulationClock } from '../shared/clock';
+import { type ParallaxDepthCurve } from '../shared/config';
+import { type OrbSpawnConfig, type OrbBurstConfig, type ContinuousSpawnConfig } from '../orb/config';
+import { type PhysicsPhase } from '../physics/types';
+import { type ForceField } from '../force-field';
+import { type OrbFormation } from '../formation';
+import { type OrbBoundaries } from '../boundary';
+import { type FlockingConfig } from '../flocking';
+import { type OrbSpeciesConfig } from '../species';
+
+/**
+ * Options for constructing an OrbSimulation.
+ */
+export interface OrbSimulationOptions {
+	/** Seed for the built-in PRNG. Ignored when `random` is given. Random when omitted. */
+	seed?: number;
+	/** Custom random source. Overrides `seed`. */
+	random?: RandomSource;
+	/** Time source for orb timestamps and spawn scheduling (default performance clock). */
+	clock?: SimulationClock;
+	/** Overrides for manual orb spawning. */
+	spawnConfig?: Partial<OrbSpawnConfig>;
+	/** Overrides for burst spawning. */
+	burstConfig?: Partial<OrbBurstConfig>;
+	/** Overrides for continuous spawning. */
+	continuousConfig?: Partial<ContinuousSpawnConfig>;
+	/** Species profiles and spawn weights (default DEFAULT_SPECIES_CONFIG). */
+	species?: Partial<OrbSpeciesConfig>;
+	/** Phases to run instead of the built-in pipeline. */
+	phases?: readonly PhysicsPhase[];
+}
+
+/**
+ * External inputs read by the simulation each step.
+ */
+export interface OrbSimulationInputs {
+	/** Pointer position in viewport pixels, or null if not over the field. */
+	mousePos: { x: number; y: number } | null;
+	/** Every active pointer with velocity, in viewport pixels. Takes precedence over mousePos. */
+	pointers: readonly PointerState[];
+	/** Content obstacles (e.g. card bounding boxes) in viewport pixels. */
+	obstacles: readonly OrbObstacle[];
+	/** Current scroll/parallax offset in pixels, before per-layer scaling. */
+	scrollOffset: { x: number; y: number };
+	/** How much of the scroll offset each layer moves by. */
+	parallaxDepth: ParallaxDepthCurve;
+	/** Whether the page is visible and focused (continuous spawning pauses otherwise). */
+	isPageVisible: boolean;
+	/** Scroll momentum as acceleration on the nearest layer, in pixels per second squared. */
+	wind: { x: number; y: number };
+	/** Multiplier on the continuous-spawn target count (quality tiers lower it). */
+	orbCountScale: number;
+}
+
+/**
+ * Feature flags for optional simulation phases.
+ */
+export interface OrbSimulationFlags {
+	/** Skip orb-orb collision resolution. */
+	disableCollisions: boolean;
+	/** Skip orb-orb and mouse avoidance. */
+	disableAvoidance: boolean;
+	/** Spawn new orbs to maintain the target count. */
+	enableOrbSpawning: boolean;
+	/** Remove orbs whose lifetime has elapsed. */
+	enableOrbDespawning: boolean;
+}
+
+/**
+ * Read-only view of the simulation returned by getState().
+ *
+ * `orbs` and `grid` are live references, not copies - copy them if the
+ * values must survive the next step().
+ */
+export interface OrbSimulationState {
+	/** Live orbs array. */
+	orbs: readonly Orb[];
+	/** Spatial grid, or null before configureViewport(). */
+	grid: SpatialGrid | null;
+	/** Viewport cell metrics, or null before configureViewport(). */
+	viewportCells: ViewportCells | null;
+	/** Viewport dimensions in pixels. */
+	windowSize: WindowSize;
+	/** Clock time when the burst was spawned, or null if not yet. */
+	burstTime: number | null;
+	/** Current clock time in milliseconds. */
+	time: number;
+	/** Seed of the built-in PRNG, or null when a custom random source is used. */
+	seed: number | null;
+	/** Names of pipeline phases that are currently disabled. */
+	disabledPhases: string[];
+	/** Force fields acting on orbs. */
+	forceFields: readonly ForceField[];
+	/** Shape orbs are assembling into, or null when they wander freely. */
+	formation: OrbFormation | null;
+	/** What happens to orbs at the field edges, per axis. */
+	boundaries: Readonly<OrbBoundaries>;
+	/** Weights and ranges for the flocking phase. */
+	flocking: Readonly<FlockingConfig>;
+	/** Species profiles and spawn weights. */
+	species: Readonly<OrbSpeciesConfig>;
+}
+
+/**
+ * Listener notified when orbs are added to or removed from the simulation.
+ */
+export type OrbSimulationListener = () => void;
+
+/**
+ * Complete internal state of a simulation - enough to resume it exactly
+ * with restoreCheckpoint() (the clock is the caller's to set).
+ */
+export interface OrbSimulationCheckpoint {
+	/** Clock time of the capture in milliseconds. */
+	time: number;
+	/** State of the built-in PRNG, or null when a custom random source is used. */
+	randomState: number | null;
+	/** Grid configuration, or null before configureViewport(). */
+	gridConfig: GridConfig | null;
+	/** Viewport dimensions in pixels. */
+	windowSize: WindowSize;
+	/** Copies of all orbs. */
+	orbs: Orb[];
+	/** Clock time when the burst was spawned, or null if not yet. */
+	burstTime: number | null;
+	/** Last external inputs. */
+	inputs: OrbSimulationInputs;
+	/** Feature flags. */
+	flags: OrbSimulationFlags;
+	/** Force fields acting on orbs. */
+	forceFields: ForceField[];
+	/** Formation in progress with its target owners, or null. */
+	formation: { formation: OrbFormation; startedAt: number; owners: (string | null)[] } | null;
+	/** Boundary policy per axis. */
+	boundaries: OrbBoundaries;
+	/** Flocking weights and ranges. */
+	flocking: FlockingConfig;
+	/** Species profiles and spawn weights. */
+	species: OrbSpeciesConfig;
+	/** Names of pipeline phases that are disabled. */
+	disabledPhases: string[];
+}
+
+/**
+ * A call that changed simulation state from outside, as reported to
+ * command listeners. Replaying the same commands at the same clock times
+ * from the same checkpoint reproduces the same run.
+ */
+export type OrbSimulationCommand =
+	| { type: 'configureGrid'; config: GridConfig; windowSize: WindowSize }
+	| { type: 'setInputs'; inputs: Partial<OrbSimulationInputs> }
+	| { type: 'setFlags'; flags: Partial<OrbSimulationFlags> }
+	| { type: 'setForceFields'; fields: readonly ForceField[] }
+	| { type: 'setFormation'; formation: OrbFormation | null }
+	| { type: 'setBoundaries'; boundaries: Partial<OrbBoundaries> }
+	| { type: 'setFlocking'; config: Partial<FlockingConfig> }
+	| { type: 'setSpecies'; species: Partial<OrbSpeciesConfig> }
+	| { type: 'setDisabledPhases'; names: string[] }
+	| { type: 'step'; deltaTime: number }
+	| { type: 'spawnBurst'; centerX: number; centerY: number }
+	| { type: 'spawnRandomOrbs'; count: number }
+	| { type: 'createOrb'; pxX: number; pxY: number; z: number; size: number }
+	| { type: 'deleteOrb'; id: string }
+	| { type: 'setBurstTime'; time: number | null }
+	| { type: 'replaceOrbs'; orbs: readonly Orb[] }
+	| { type: 'restore'; orbs: readonly Orb[]; burstTime: number | null };
+
+/**
+ * Listener notified before each command is applied.
+ * Arguments are live references; copy them to keep them.
+ *
+ * @param command - The command.
+ * @param time - Clock time of the call in milliseconds.
+ */
+export type OrbSimulationCommandListener = (command: OrbSimulationCommand, time: number) => void;
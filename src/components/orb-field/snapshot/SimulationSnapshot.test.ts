@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationSnapshot } from './SimulationSnapshot';
+import { type SnapshotCaptureContext } from './types';
+import { OrbSimulation } from '../simulation/OrbSimulation';
+import { ManualClock } from '../shared/clock';
+
+const CONTEXT: SnapshotCaptureContext = {
+	effectiveTime: 5000,
+	scrollOffset: { x: 0, y: -80 },
+	debugToggles: {
+		showCollisionArea: false,
+		showAvoidanceArea: false,
+		enableSpawnOnClick: true,
+		showGraphics: true,
+		showCards: true,
+		showArrowVector: false,
+		showTruePosition: false,
+		showGrid: false,
+		enableOrbSpawning: true,
+		enableOrbDespawning: true,
+		pausePhysics: false,
+		disableCollisions: false,
+		disableAvoidance: false,
+	},
+};
+
+/**
+ * Creates a simulation that has burst and run for a second.
+ */
+function createSimulation(): OrbSimulation {
+	const clock = new ManualClock();
+	const simulation = new OrbSimulation({ seed: 11, clock });
+	simulation.configureViewport({ width: 640, height: 360 }, 1);
+	simulation.spawnBurst();
+	for (let i = 0; i < 60; i++) {
+		clock.advance(1000 / 60);
+		simulation.step(1 / 60);
+	}
+	return simulation;
+}
+
+describe('SimulationSnapshot', () => {
+	it('round-trips through JSON unchanged', () => {
+		const snapshot = SimulationSnapshot.capture(createSimulation().getState(), CONTEXT);
+		expect(snapshot).not.toBeNull();
+		expect(snapshot!.orbs.length).toBeGreaterThan(0);
+
+		const parsed = SimulationSnapshot.parse(SimulationSnapshot.serialize(snapshot!));
+
+		expect(parsed).toEqual({ ok: true, snapshot });
+	});
+
+	it('returns null before a grid is configured', () => {
+		const simulation = new OrbSimulation({ seed: 11, clock: new ManualClock() });
+
+		expect(SimulationSnapshot.capture(simulation.getState(), CONTEXT)).toBeNull();
+	});
+
+	it('rejects other versions and invalid orbs with a readable error', () => {
+		const snapshot = SimulationSnapshot.capture(createSimulation().getState(), CONTEXT)!;
+
+		const wrongVersion = SimulationSnapshot.parse(JSON.stringify({ ...snapshot, version: 99 }));
+		expect(wrongVersion).toEqual({ ok: false, error: expect.stringContaining('version 99') });
+
+		const badOrb = SimulationSnapshot.parse(JSON.stringify({ ...snapshot, orbs: [{ ...snapshot.orbs[0], size: -1 }] }));
+		expect(badOrb.ok).toBe(false);
+
+		expect(SimulationSnapshot.parse('{')).toEqual({ ok: false, error: 'Not valid JSON' });
+	});
+
+	it('shifts orb and burst times onto the importing clock', () => {
+		const snapshot = SimulationSnapshot.capture(createSimulation().getState(), CONTEXT)!;
+
+		const { orbs, burstTime } = SimulationSnapshot.rebase(snapshot, 12000);
+
+		expect(burstTime).toBe(snapshot.burstTime! + 7000);
+		expect(orbs[0].createdAt).toBe(snapshot.orbs[0].createdAt + 7000);
+		expect(orbs[0].pxX).toBe(snapshot.orbs[0].pxX);
+	});
+});
@@ -0,0 +1,118 @@
+// =============================================================================
+// SimulationSnapshot - Captures, validates and rebases simulation snapshots
+// =============================================================================
+
+import { z } from 'zod';
+import { type Orb } from '../orb/types';
+import { type GridConfig } from '../grid/types';
+import { type OrbSimulationState } from '../simulation/types';
+import { OrbFieldSnapshotSchema, SNAPSHOT_FORMAT, SNAPSHOT_VERSION } from './schema';
+import {
+	type OrbFieldSnapshot,
+	type SnapshotCaptureContext,
+	type SnapshotParseResult,
+} from './types';
+
+/**
+ * Converts between live simulation state and versioned snapshot JSON.
+ *
+ * Snapshots store orb timestamps in the effective time of the capturing
+ * page. Restoring shifts them onto the importing page's clock, so every
+ * orb keeps its age and lifetime progress.
+ *
+ * Single Responsibility: Snapshot format conversion only.
+ */
+export class SimulationSnapshot {
+	/**
+	 * Captures the simulation state.
+	 *
+	 * @param state - Simulation state (see OrbSimulation.getState()).
+	 * @param context - Time, parallax offset and debug toggles.
+	 * @returns The snapshot, or null before a grid is configured.
+	 */
+	static capture(state: OrbSimulationState, context: SnapshotCaptureContext): OrbFieldSnapshot | null {
+		if (!state.grid) return null;
+
+		return {
+			format: SNAPSHOT_FORMAT,
+			version: SNAPSHOT_VERSION,
+			capturedAt: new Date().toISOString(),
+			seed: state.seed,
+			effectiveTime: context.effectiveTime,
+			burstTime: state.burstTime,
+			windowSize: { ...state.windowSize },
+			scrollOffset: { ...context.scrollOffset },
+			gridConfig: { ...state.grid.config },
+			debugToggles: { ...context.debugToggles },
+			orbs: state.orbs.map(orb => ({ ...orb })),
+		};
+	}
+
+	/**
+	 * Serializes a snapshot to indented JSON.
+	 */
+	static serialize(snapshot: OrbFieldSnapshot): string {
+		return JSON.stringify(snapshot, null, '\t');
+	}
+
+	/**
+	 * Parses and validates snapshot JSON.
+	 *
+	 * @param json - Snapshot file or clipboard contents.
+	 * @returns The snapshot, or a readable error.
+	 */
+	static parse(json: string): SnapshotParseResult {
+		let data: unknown;
+		try {
+			data = JSON.parse(json);
+		} catch {
+			return { ok: false, error: 'Not valid JSON' };
+		}
+
+		// Name the version mismatch instead of listing every field
+		if (typeof data === 'object' && data !== null && 'version' in data && data.version !== SNAPSHOT_VERSION) {
+			return { ok: false, error: `Unsupported snapshot version ${String(data.version)} (expected ${SNAPSHOT_VERSION})` };
+		}
+
+		const result = OrbFieldSnapshotSchema.safeParse(data);
+		if (!result.success) {
+			return { ok: false, error: z.prettifyError(result.error) };
+		}
+		return { ok: true, snapshot: result.data };
+	}
+
+	/**
+	 * Returns the snapshot's orbs and burst time shifted onto a new clock.
+	 *
+	 * @param snapshot - Snapshot to restore.
+	 * @param effectiveTime - Effective time of the importing page in milliseconds.
+	 */
+	static rebase(snapshot: OrbFieldSnapshot, effectiveTime: number): { orbs: Orb[]; burstTime: number | null } {
+		const shift = effectiveTime - snapshot.effectiveTime;
+		return {
+			orbs: snapshot.orbs.map(orb => ({ ...orb, createdAt: orb.createdAt + shift })),
+			burstTime: snapshot.burstTime === null ? null : snapshot.burstTime + shift,
+		};
+	}
+
+	/**
+	 * Describes how the live grid differs from the captured one.
+	 * Orbs are stored in pixels, so a different grid still imports, but
+	 * walls and cell marks no longer line up with the capture.
+	 *
+	 * @returns One warning per difference (empty when the grids match).
+	 */
+	static compareGrid(captured: GridConfig, current: GridConfig): string[] {
+		const warnings: string[] = [];
+		if (captured.cellsX !== current.cellsX || captured.cellsY !== current.cellsY || captured.layers !== current.layers) {
+			warnings.push(
+				`Grid is ${current.cellsX}x${current.cellsY}x${current.layers}, ` +
+				`snapshot was ${captured.cellsX}x${captured.cellsY}x${captured.layers}`
+			);
+		}
+		if (Math.abs(captured.pixelsPerCm - current.pixelsPerCm) > 1e-6) {
+			warnings.push('Cell size in pixels differs from the snapshot');
+		}
+		return warnings;
+	}
+}
@@ -0,0 +1,20 @@
+// =============================================================================
+// Snapshot - Exports for simulation snapshot modules
+// =============================================================================
+
+export { SimulationSnapshot } from './SimulationSnapshot';
+export {
+	OrbFieldSnapshotSchema,
+	OrbSchema,
+	GridConfigSchema,
+	DebugTogglesSchema,
+	SNAPSHOT_FORMAT,
+	SNAPSHOT_VERSION,
+} from './schema';
+export type {
+	OrbFieldSnapshot,
+	SnapshotDebugToggles,
+	SnapshotCaptureContext,
+	SnapshotParseResult,
+	SnapshotImportResult,
+} from './types';
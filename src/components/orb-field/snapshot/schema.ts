@@ -0,0 +1,113 @@
+// =============================================================================
+// Snapshot Schema - zod schemas validating serialized simulation snapshots
+// =============================================================================
+
+import { z } from 'zod';
+import { type Orb } from '../orb/types';
+import { type GridConfig } from '../grid/types';
+import { DEFAULT_ORB_KIND } from '../species';
+
+/** Identifies snapshot files among other JSON. */
+export const SNAPSHOT_FORMAT = 'orb-field-snapshot';
+
+/** Current snapshot version. Bump when the shape changes. */
+export const SNAPSHOT_VERSION = 1;
+
+const PointSchema = z.object({
+	x: z.number(),
+	y: z.number(),
+});
+
+/**
+ * Every field of an Orb. Orbs saved before species existed get the default kind,
+ * and orbs saved before palettes existed the middle tint.
+ */
+export const OrbSchema = z.object({
+	id: z.string().min(1),
+	pxX: z.number(),
+	pxY: z.number(),
+	z: z.number(),
+	vx: z.number(),
+	vy: z.number(),
+	vz: z.number(),
+	prevPxX: z.number(),
+	prevPxY: z.number(),
+	prevZ: z.number(),
+	speed: z.number().nonnegative(),
+	angle: z.number(),
+	size: z.number().positive(),
+	kind: z.string().min(1).default(DEFAULT_ORB_KIND),
+	tint: z.number().min(0).max(1).default(0.5),
+	createdAt: z.number(),
+	lifetimeMs: z.number().nonnegative(),
+	spawnAnimDurationMs: z.number().nonnegative(),
+	despawnAnimDurationMs: z.number().nonnegative(),
+	wanderStrength: z.number(),
+	wanderPhase: z.number(),
+	wanderSpeed: z.number(),
+	wanderModulationSpeed: z.number(),
+	wanderModulationPhase: z.number(),
+}) satisfies z.ZodType<Orb>;
+
+/**
+ * Every field of a GridConfig.
+ */
+export const GridConfigSchema = z.object({
+	cellsX: z.number().int().positive(),
+	cellsY: z.number().int().positive(),
+	layers: z.number().int().positive(),
+	cellSizeXCm: z.number().positive(),
+	cellSizeYCm: z.number().positive(),
+	minXCm: z.number(),
+	minYCm: z.number(),
+	viewportMinXCm: z.number(),
+	viewportMaxXCm: z.number(),
+	viewportMinYCm: z.number(),
+	viewportMaxYCm: z.number(),
+	pixelsPerCm: z.number().positive(),
+	cmPerPixel: z.number().positive(),
+	storage: z.enum(['dense', 'sparse']),
+}) satisfies z.ZodType<GridConfig>;
+
+/**
+ * Debug menu toggles (every DebugState option except `enabled`).
+ */
+export const DebugTogglesSchema = z.object({
+	showCollisionArea: z.boolean(),
+	showAvoidanceArea: z.boolean(),
+	enableSpawnOnClick: z.boolean(),
+	showGraphics: z.boolean(),
+	showCards: z.boolean(),
+	showArrowVector: z.boolean(),
+	showTruePosition: z.boolean(),
+	showGrid: z.boolean(),
+	enableOrbSpawning: z.boolean(),
+	enableOrbDespawning: z.boolean(),
+	pausePhysics: z.boolean(),
+	disableCollisions: z.boolean(),
+	disableAvoidance: z.boolean(),
+});
+
+/**
+ * Version 1 snapshot of an OrbField.
+ */
+export const OrbFieldSnapshotSchema = z.object({
+	format: z.literal(SNAPSHOT_FORMAT),
+	version: z.literal(SNAPSHOT_VERSION),
+	/** ISO timestamp of the capture, for humans. */
+	capturedAt: z.string(),
+	/** Seed of the simulation PRNG, or null for a custom random source. */
+	seed: z.number().int().nullable(),
+	/** Effective (pause-aware) time of the capture in milliseconds. */
+	effectiveTime: z.number(),
+	/** Effective time of the burst, or null if it had not happened. */
+	burstTime: z.number().nullable(),
+	windowSize: z.object({
+		width: z.number().nonnegative(),
+		height: z.number().nonnegative(),
+	}),
+	scrollOffset: PointSchema,
+	gridConfig: GridConfigSchema,
+	debugToggles: DebugTogglesSchema,
+	orbs: z.array(OrbSchema),
+});
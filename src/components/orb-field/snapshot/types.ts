@@ -0,0 +1,51 @@
+// =============================================================================
+// Snapshot Types - Type definitions for simulation snapshots
+// =============================================================================
+
+import { type z } from 'zod';
+import { type OrbFieldSnapshotSchema, type DebugTogglesSchema } from './schema';
+
+/**
+ * Serializable capture of an OrbField: orbs, grid, parallax offset,
+ * effective time and debug toggles.
+ */
+export type OrbFieldSnapshot = z.infer<typeof OrbFieldSnapshotSchema>;
+
+/**
+ * Debug menu toggles stored in a snapshot.
+ */
+export type SnapshotDebugToggles = z.infer<typeof DebugTogglesSchema>;
+
+/**
+ * Values captured alongside the simulation state.
+ */
+export interface SnapshotCaptureContext {
+	/** Effective (pause-aware) time in milliseconds. */
+	effectiveTime: number;
+	/** Current parallax offset in pixels. */
+	scrollOffset: { x: number; y: number };
+	/** Current debug menu toggles. */
+	debugToggles: SnapshotDebugToggles;
+}
+
+/**
+ * Outcome of parsing snapshot JSON.
+ */
+export type SnapshotParseResult =
+	| { ok: true; snapshot: OrbFieldSnapshot }
+	| { ok: false; error: string };
+
+/**
+ * Outcome of importing a snapshot into an OrbField.
+ */
+export type SnapshotImportResult =
+	| {
+		ok: true;
+		/** Toggles to apply to the debug menu. */
+		debugToggles: SnapshotDebugToggles;
+		/** Number of orbs restored. */
+		orbCount: number;
+		/** Non-fatal differences from the captured field (e.g. grid size). */
+		warnings: string[];
+	}
+	| { ok: false; error: string };
@@ -0,0 +1,65 @@
+// =============================================================================
+// OrbSpecies - Profile lookup and weighted species selection
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type RandomSource } from '../shared/random';
+import { DEFAULT_ORB_KIND, DEFAULT_ORB_SPECIES } from './config';
+import { type OrbKind, type OrbSpeciesProfile, type OrbSpeciesTable, type OrbSpeciesWeights } from './types';
+
+/**
+ * Resolves orb kinds to their profiles and picks kinds for new orbs.
+ *
+ * Single Responsibility: Species lookup and selection only.
+ */
+export class OrbSpecies {
+	/**
+	 * Gets the profile of a kind, falling back to the default kind.
+	 *
+	 * @param kind - Orb kind.
+	 * @param profiles - Species profiles by kind.
+	 */
+	static profileOf(kind: OrbKind, profiles: OrbSpeciesTable = DEFAULT_ORB_SPECIES): OrbSpeciesProfile {
+		return profiles[kind] ?? profiles[DEFAULT_ORB_KIND] ?? DEFAULT_ORB_SPECIES[DEFAULT_ORB_KIND];
+	}
+
+	/**
+	 * Mass of an orb for collisions and avoidance (size times the species multiplier).
+	 *
+	 * @param orb - The orb.
+	 * @param profiles - Species profiles by kind.
+	 */
+	static massOf(orb: Orb, profiles: OrbSpeciesTable = DEFAULT_ORB_SPECIES): number {
+		return orb.size * this.profileOf(orb.kind, profiles).massMultiplier;
+	}
+
+	/**
+	 * Picks a kind at random by weight. Always draws one random number,
+	 * so the random sequence does not depend on the weights.
+	 *
+	 * @param weights - Relative weight per kind.
+	 * @param profiles - Species profiles; kinds without one are skipped.
+	 * @param random - Random source.
+	 * @returns The chosen kind, or DEFAULT_ORB_KIND if no weight is positive.
+	 */
+	static pick(weights: OrbSpeciesWeights, profiles: OrbSpeciesTable, random: RandomSource): OrbKind {
+		const roll = random();
+
+		let total = 0;
+		for (const kind in weights) {
+			if (profiles[kind] && weights[kind] > 0) total += weights[kind];
+		}
+		if (total <= 0) return DEFAULT_ORB_KIND;
+
+		let target = roll * total;
+		let last = DEFAULT_ORB_KIND;
+		for (const kind in weights) {
+			if (!profiles[kind] || !(weights[kind] > 0)) continue;
+			last = kind;
+			target -= weights[kind];
+			if (target < 0) return kind;
+		}
+		return last;
+	}
+
+}
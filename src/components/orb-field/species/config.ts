@@ -0,0 +1,86 @@
+// =============================================================================
+// Species Configuration - Default species profiles and spawn weights
+// =============================================================================
+
+import { DEFAULT_WANDER_CONFIG, DEFAULT_SPEED_LIMIT_CONFIG, DEFAULT_ORB_BURST_CONFIG } from '../orb/config';
+import { DEFAULT_ORB_VISUAL_CONFIG } from '../orb/visuals/OrbVisualConfig';
+import { type OrbKind, type OrbSpeciesConfig, type OrbSpeciesTable } from './types';
+
+/**
+ * Kind given to orbs without one, and used for unknown kinds.
+ */
+export const DEFAULT_ORB_KIND: OrbKind = 'ember';
+
+/**
+ * Default species.
+ * - ember: the original maroon orb, across all depths
+ * - spark: small, bright and quick, near the front, short-lived
+ * - drifter: dark, heavy and slow, toward the back, long-lived
+ */
+export const DEFAULT_ORB_SPECIES: OrbSpeciesTable = {
+	ember: {
+		label: 'Ember',
+		color: {
+			hue: DEFAULT_ORB_VISUAL_CONFIG.baseHue,
+			saturation: DEFAULT_ORB_VISUAL_CONFIG.baseSaturation,
+			lightness: DEFAULT_ORB_VISUAL_CONFIG.baseLightness,
+		},
+		glowIntensity: DEFAULT_ORB_VISUAL_CONFIG.glowIntensity,
+		glowSpread: DEFAULT_ORB_VISUAL_CONFIG.glowSpread,
+		wander: DEFAULT_WANDER_CONFIG,
+		baseMaxSpeed: DEFAULT_SPEED_LIMIT_CONFIG.baseMaxSpeed,
+		minMaxSpeed: DEFAULT_SPEED_LIMIT_CONFIG.minMaxSpeed,
+		massMultiplier: 1,
+		layerBand: { min: 0, max: 1 },
+		lifetimeMs: { min: DEFAULT_ORB_BURST_CONFIG.minLifetimeMs, max: DEFAULT_ORB_BURST_CONFIG.maxLifetimeMs },
+	},
+	spark: {
+		label: 'Spark',
+		color: { hue: 18, saturation: 95, lightness: 26 },
+		glowIntensity: 1.0,
+		glowSpread: 2.8,       // Tighter glow reads as a brighter point
+		wander: {
+			minWanderStrength: 0.1,
+			maxWanderStrength: 0.3,
+			minWanderSpeed: 0.2,
+			maxWanderSpeed: 0.5,
+			minModulationSpeed: 0.05,
+			maxModulationSpeed: 0.15,
+		},
+		baseMaxSpeed: 320,
+		minMaxSpeed: 80,
+		massMultiplier: 0.6,
+		layerBand: { min: 0, max: 0.4 },
+		lifetimeMs: { min: 6000, max: 40000 },
+	},
+	drifter: {
+		label: 'Drifter',
+		color: { hue: 345, saturation: 70, lightness: 11 },
+		glowIntensity: 0.85,
+		glowSpread: 4.2,       // Wide, dim haze
+		wander: {
+			minWanderStrength: 0.01,
+			maxWanderStrength: 0.04,
+			minWanderSpeed: 0.02,
+			maxWanderSpeed: 0.08,
+			minModulationSpeed: 0.005,
+			maxModulationSpeed: 0.02,
+		},
+		baseMaxSpeed: 120,
+		minMaxSpeed: 35,
+		massMultiplier: 1.8,
+		layerBand: { min: 0.5, max: 1 },
+		lifetimeMs: { min: 60000, max: 240000 },
+	},
+};
+
+/**
+ * Default species configuration: mostly embers, with sparks and drifters
+ * mixed in. Continuous spawning favours sparks slightly, since they
+ * expire sooner.
+ */
+export const DEFAULT_SPECIES_CONFIG: OrbSpeciesConfig = {
+	profiles: DEFAULT_ORB_SPECIES,
+	burstWeights: { ember: 0.75, spark: 0.15, drifter: 0.1 },
+	continuousWeights: { ember: 0.7, spark: 0.2, drifter: 0.1 },
+};
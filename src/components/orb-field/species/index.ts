@@ -0,0 +1,19 @@
+// =============================================================================
+// Species - Exports for orb species profiles
+// =============================================================================
+
+export { OrbSpecies } from './OrbSpecies';
+export {
+	DEFAULT_ORB_KIND,
+	DEFAULT_ORB_SPECIES,
+	DEFAULT_SPECIES_CONFIG,
+} from './config';
+export type {
+	OrbKind,
+	OrbColor,
+	OrbRange,
+	OrbSpeciesProfile,
+	OrbSpeciesTable,
+	OrbSpeciesWeights,
+	OrbSpeciesConfig,
+} from './types';
@@ -0,0 +1,81 @@
+// =============================================================================
+// Species Types - Type definitions for orb species and their profiles
+// =============================================================================
+
+import { type OrbWanderConfig } from '../orb/config';
+
+/**
+ * Key of an orb's species profile (e.g. 'ember').
+ * Unknown kinds fall back to DEFAULT_ORB_KIND.
+ */
+export type OrbKind = string;
+
+/**
+ * Base orb colour in HSL.
+ */
+export interface OrbColor {
+	/** Hue (0-360). */
+	hue: number;
+	/** Saturation percentage (0-100). */
+	saturation: number;
+	/** Lightness percentage (0-100). */
+	lightness: number;
+}
+
+/**
+ * Inclusive range between two numbers.
+ */
+export interface OrbRange {
+	/** Lower bound. */
+	min: number;
+	/** Upper bound. */
+	max: number;
+}
+
+/**
+ * Everything that sets one species apart: looks, motion and lifespan.
+ */
+export interface OrbSpeciesProfile {
+	/** Name shown in the debug panels. */
+	label: string;
+	/** Base colour of the glow. */
+	color: OrbColor;
+	/** Intensity of the glow effect (0-1). */
+	glowIntensity: number;
+	/** Multiplier for glow radius relative to orb size. */
+	glowSpread: number;
+	/** Wander ranges; each orb draws its own values at spawn. */
+	wander: OrbWanderConfig;
+	/** Max speed for size 1 orbs (pixels/second). */
+	baseMaxSpeed: number;
+	/** Max speed floor for the largest orbs (pixels/second). */
+	minMaxSpeed: number;
+	/** Multiplier on size when used as mass in collisions and avoidance. */
+	massMultiplier: number;
+	/** Part of the depth orbs settle in, as fractions (0 = front, 1 = back). */
+	layerBand: OrbRange;
+	/** Lifetime range in milliseconds for burst and continuous spawns. */
+	lifetimeMs: OrbRange;
+}
+
+/**
+ * Species profiles by kind.
+ */
+export type OrbSpeciesTable = Readonly<Record<OrbKind, OrbSpeciesProfile>>;
+
+/**
+ * Relative spawn weight per kind. Kinds without a profile are skipped.
+ */
+export type OrbSpeciesWeights = Readonly<Record<OrbKind, number>>;
+
+/**
+ * Species available to a simulation and how often each spawns.
+ */
+export interface OrbSpeciesConfig {
+	/** Profiles by kind. */
+	profiles: OrbSpeciesTable;
+	/** Spawn weights for the initial burst. */
+	burstWeights: OrbSpeciesWeights;
+	/** Spawn weights for continuous spawning. */
+	continuousWeights: OrbSpeciesWeights;
+}
@@ -0,0 +1,314 @@
+// =============================================================================
+// OrbWorkerHost - Main-thread handle for the orb simulation worker
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type OrbSimulationState } from '../simulation';
+import { SpatialGrid } from '../grid/core/SpatialGrid';
+import { type ForceField } from '../force-field';
+import { type OrbFormation } from '../formation';
+import { type OrbBoundaries } from '../boundary';
+import { type FlockingConfig } from '../flocking';
+import { type OrbSpeciesConfig } from '../species';
+import { type OrbFieldEvent, type OrbFieldEventType } from '../events';
+import { type OrbWorkerFrame, type OrbWorkerRequest, type OrbWorkerResponse } from './types';
+
+/**
+ * Owns the worker that runs physics and orb rendering on an OffscreenCanvas.
+ *
+ * A canvas can only hand control to one OffscreenCanvas, ever. Hosts are
+ * therefore shared per canvas element and reference counted, and the worker
+ * is terminated on the next tick after the last release. This lets React
+ * StrictMode unmount and remount effects without losing the canvas.
+ *
+ * The canvas is only transferred once the worker reports that it loaded,
+ * so a worker that never starts leaves the canvas to the main thread. If
+ * the worker fails at any point, the host terminates it and calls onError.
+ *
+ * Single Responsibility: Worker lifecycle and message transport only.
+ */
+export class OrbWorkerHost {
+	/** Hosts keyed by the canvas whose control they own. */
+	private static hosts = new WeakMap<HTMLCanvasElement, OrbWorkerHost>();
+
+	/** Called with the latest orbs whenever the worker sends a snapshot. */
+	onSnapshot: ((orbs: Orb[]) => void) | null = null;
+
+	/** Called with the events the worker simulation emitted since its last message. */
+	onEvents: ((events: OrbFieldEvent[]) => void) | null = null;
+
+	/** Called once the worker has loaded and taken over the canvas. */
+	onReady: (() => void) | null = null;
+
+	/** Called when the worker fails to load, start or read a message. The host is terminated by then. */
+	onError: (() => void) | null = null;
+
+	private readonly worker: Worker;
+	private readonly canvas: HTMLCanvasElement;
+	private readonly getState: () => OrbSimulationState;
+	private ready = false;
+	private refCount = 0;
+	private terminated = false;
+	private configuredGrid: SpatialGrid | null = null;
+	private nextRequestId = 1;
+	private pendingCreates = new Map<number, (orb: Orb | null) => void>();
+
+	/**
+	 * Checks whether worker mode can run in this browser.
+	 * Requires Worker, OffscreenCanvas and canvas control transfer.
+	 */
+	static isSupported(): boolean {
+		return typeof Worker !== 'undefined'
+			&& typeof OffscreenCanvas !== 'undefined'
+			&& typeof HTMLCanvasElement !== 'undefined'
+			&& 'transferControlToOffscreen' in HTMLCanvasElement.prototype;
+	}
+
+	/**
+	 * Returns the host for a canvas, starting a worker on first use.
+	 * Every acquire() must be paired with a release().
+	 *
+	 * The worker starts from the main-thread state at the moment it reports
+	 * ready, so orbs spawned on the main thread before then carry over.
+	 *
+	 * @param canvas - Visual canvas to transfer to the worker once it is ready.
+	 * @param getState - Returns the main-thread simulation state to start from.
+	 * @returns The shared host, or null if the worker could not be created or
+	 *          the canvas's worker has since been terminated.
+	 */
+	static acquire(canvas: HTMLCanvasElement, getState: () => OrbSimulationState): OrbWorkerHost | null {
+		let host = OrbWorkerHost.hosts.get(canvas);
+		if (host?.terminated) return null;
+
+		if (!host) {
+			try {
+				host = new OrbWorkerHost(canvas, getState);
+			} catch {
+				// e.g. blocked by a Content Security Policy
+				return null;
+			}
+			OrbWorkerHost.hosts.set(canvas, host);
+		}
+
+		host.refCount++;
+		return host;
+	}
+
+	private constructor(canvas: HTMLCanvasElement, getState: () => OrbSimulationState) {
+		this.canvas = canvas;
+		this.getState = getState;
+		this.worker = new Worker(new URL('./orbField.worker.ts', import.meta.url), { type: 'module' });
+		this.worker.addEventListener('message', this.handleMessage);
+		this.worker.addEventListener('error', this.fail);
+		this.worker.addEventListener('messageerror', this.fail);
+	}
+
+	/** Whether the worker has loaded and owns the canvas. */
+	get isReady(): boolean {
+		return this.ready;
+	}
+
+	/**
+	 * Releases one reference. The worker stops once no references remain.
+	 */
+	release(): void {
+		this.refCount--;
+		setTimeout(() => {
+			if (this.refCount > 0 || this.terminated) return;
+			this.terminate();
+		}, 0);
+	}
+
+	/**
+	 * Hands the canvas and the current main-thread state to the worker.
+	 */
+	private start(): void {
+		let offscreen: OffscreenCanvas;
+		try {
+			offscreen = this.canvas.transferControlToOffscreen();
+		} catch {
+			// The main thread already drew on the canvas
+			this.fail();
+			return;
+		}
+
+		const state = this.getState();
+		const init: OrbWorkerRequest = {
+			type: 'init',
+			canvas: offscreen,
+			seed: state.seed,
+			orbs: [...state.orbs],
+			burstTime: state.burstTime,
+			disabledPhases: state.disabledPhases,
+			forceFields: [...state.forceFields],
+			formation: state.formation,
+			boundaries: { ...state.boundaries },
+			flocking: { ...state.flocking },
+			species: { ...state.species },
+		};
+		this.worker.postMessage(init, [offscreen]);
+		this.ready = true;
+		this.onReady?.();
+	}
+
+	/**
+	 * Stops the worker and settles pending requests.
+	 */
+	private terminate(): void {
+		this.terminated = true;
+		this.worker.terminate();
+		for (const resolve of this.pendingCreates.values()) resolve(null);
+		this.pendingCreates.clear();
+	}
+
+	/**
+	 * Sends one frame of inputs to the worker.
+	 * Forwards the grid configuration first whenever the main-thread grid changed.
+	 *
+	 * @param frame - Per-frame inputs and flags.
+	 * @param state - Main-thread simulation state (source of grid configuration).
+	 */
+	postFrame(frame: OrbWorkerFrame, state: OrbSimulationState): void {
+		this.syncGrid(state);
+		this.post({ type: 'frame', frame });
+	}
+
+	/**
+	 * Spawns the orb burst in the worker simulation.
+	 *
+	 * @param centerX - Burst center X in pixels.
+	 * @param centerY - Burst center Y in pixels.
+	 * @param state - Main-thread simulation state (grid must exist before the burst).
+	 */
+	spawnBurst(centerX: number, centerY: number, state: OrbSimulationState): void {
+		this.syncGrid(state);
+		this.post({ type: 'burst', centerX, centerY });
+	}
+
+	/**
+	 * Creates an orb in the worker simulation.
+	 *
+	 * @returns Promise resolving to the created orb, or null if blocked.
+	 */
+	createOrb(pxX: number, pxY: number, z: number, size: number): Promise<Orb | null> {
+		if (this.terminated) return Promise.resolve(null);
+		const requestId = this.nextRequestId++;
+		return new Promise(resolve => {
+			this.pendingCreates.set(requestId, resolve);
+			this.post({ type: 'createOrb', requestId, pxX, pxY, z, size });
+		});
+	}
+
+	/**
+	 * Deletes an orb in the worker simulation.
+	 */
+	deleteOrb(id: string): void {
+		this.post({ type: 'deleteOrb', id });
+	}
+
+	/**
+	 * Replaces all orbs and the burst time in the worker simulation.
+	 *
+	 * @param orbs - New orbs.
+	 * @param burstTime - Clock time of the burst, or null.
+	 * @param state - Main-thread simulation state (grid must exist before re-marking).
+	 */
+	restore(orbs: readonly Orb[], burstTime: number | null, state: OrbSimulationState): void {
+		this.syncGrid(state);
+		this.post({ type: 'restore', orbs: [...orbs], burstTime });
+	}
+
+	/**
+	 * Enables or disables a built-in physics phase in the worker simulation.
+	 * Custom phases registered on the main thread do not exist in the worker.
+	 */
+	setPhaseEnabled(name: string, enabled: boolean): void {
+		this.post({ type: 'setPhaseEnabled', name, enabled });
+	}
+
+	/**
+	 * Replaces the force fields in the worker simulation.
+	 */
+	setForceFields(fields: readonly ForceField[]): void {
+		this.post({ type: 'setForceFields', fields: [...fields] });
+	}
+
+	/**
+	 * Starts or (with null) releases a shape formation in the worker simulation.
+	 */
+	setFormation(formation: OrbFormation | null): void {
+		this.post({ type: 'setFormation', formation });
+	}
+
+	/**
+	 * Changes the boundary policy of the worker simulation.
+	 */
+	setBoundaries(boundaries: Partial<OrbBoundaries>): void {
+		this.post({ type: 'setBoundaries', boundaries: { ...boundaries } });
+	}
+
+	/**
+	 * Tunes flocking in the worker simulation.
+	 */
+	setFlocking(config: Partial<FlockingConfig>): void {
+		this.post({ type: 'setFlocking', config: { ...config } });
+	}
+
+	/**
+	 * Changes species profiles or spawn weights in the worker simulation.
+	 */
+	setSpecies(species: Partial<OrbSpeciesConfig>): void {
+		this.post({ type: 'setSpecies', species: { ...species } });
+	}
+
+	/**
+	 * Sets which event types the worker forwards. Only these are collected,
+	 * so unobserved events cost nothing in the worker.
+	 */
+	setEventTypes(types: readonly OrbFieldEventType[]): void {
+		this.post({ type: 'setEventTypes', types: [...types] });
+	}
+
+	private syncGrid(state: OrbSimulationState): void {
+		if (state.grid && state.grid !== this.configuredGrid) {
+			this.configuredGrid = state.grid;
+			this.post({ type: 'configure', config: state.grid.config, windowSize: state.windowSize });
+		}
+	}
+
+	private post(message: OrbWorkerRequest): void {
+		if (this.terminated || !this.ready) return;
+		this.worker.postMessage(message);
+	}
+
+	private handleMessage = (event: MessageEvent<OrbWorkerResponse>): void => {
+		const message = event.data;
+
+		switch (message.type) {
+			case 'ready':
+				if (!this.ready && !this.terminated) this.start();
+				break;
+
+			case 'snapshot':
+				this.onSnapshot?.(message.orbs);
+				break;
+
+			case 'orbCreated': {
+				const resolve = this.pendingCreates.get(message.requestId);
+				this.pendingCreates.delete(message.requestId);
+				resolve?.(message.orb);
+				break;
+			}
+
+			case 'events':
+				this.onEvents?.(message.events);
+				break;
+		}
+	};
+
+	private fail = (): void => {
+		if (this.terminated) return;
+		this.terminate();
+		this.onError?.();
+	};
+}
@@ -0,0 +1,6 @@
+// =============================================================================
+// Worker - Exports for the off-main-thread simulation mode
+// =============================================================================
+
+export { OrbWorkerHost } from './OrbWorkerHost';
+export type { OrbWorkerFrame, OrbWorkerRequest, OrbWorkerResponse } from './types';
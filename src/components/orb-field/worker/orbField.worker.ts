@@ -0,0 +1,242 @@
+// =============================================================================
+// orbField.worker - Runs the orb simulation and orb rendering off the main thread
+// =============================================================================
+
+import { OrbSimulation } from '../simulation';
+import { Canvas2DOrbRenderer } from '../orb/renderers/Canvas2DOrbRenderer';
+import { ManualClock } from '../shared/clock';
+import { QualityGovernor } from '../quality';
+import { DEFAULT_ORB_WORKER_CONFIG } from '../shared/config';
+import { type OrbFieldEvent, type OrbFieldEventType } from '../events';
+import { type OrbPalette, type OrbPaletteBlend } from '../palette';
+import { type OrbWorkerFrame, type OrbWorkerRequest, type OrbWorkerResponse } from './types';
+
+let simulation: OrbSimulation | null = null;
+let renderer: Canvas2DOrbRenderer | null = null;
+let lastSnapshotTime = -Infinity;
+let eventTypes: OrbFieldEventType[] = [];
+let unsubscribeEvents: (() => void)[] = [];
+const pendingEvents: OrbFieldEvent[] = [];
+const palettes = new Map<string, OrbPalette>();
+
+// Time comes from the main thread so pausing stays in sync with the debug menu
+const clock = new ManualClock();
+
+/**
+ * Posts a typed message to the main thread.
+ */
+function respond(message: OrbWorkerResponse): void {
+	self.postMessage(message);
+}
+
+/**
+ * Sends the current orbs to the main thread for debug panels and counts.
+ */
+function postSnapshot(): void {
+	if (!simulation) return;
+	lastSnapshotTime = performance.now();
+	respond({ type: 'snapshot', orbs: simulation.orbs });
+}
+
+/**
+ * Collects the requested event types for forwarding to the main thread.
+ */
+function subscribeEvents(): void {
+	for (const unsubscribe of unsubscribeEvents) unsubscribe();
+	unsubscribeEvents = [];
+	if (!simulation) return;
+
+	const events = simulation.events;
+	unsubscribeEvents = eventTypes.map(type =>
+		events.on(type, (event) => {
+			pendingEvents.push({ type, event } as OrbFieldEvent);
+		})
+	);
+}
+
+/**
+ * Sends collected events to the main thread.
+ */
+function flushEvents(): void {
+	if (pendingEvents.length === 0) return;
+	respond({ type: 'events', events: pendingEvents.splice(0) });
+}
+
+/**
+ * Toggles a phase if the worker pipeline has it.
+ * Main-thread-only custom phases are ignored.
+ */
+function setPhaseEnabled(name: string, enabled: boolean): void {
+	if (simulation?.pipeline.has(name)) {
+		simulation.pipeline.setEnabled(name, enabled);
+	}
+}
+
+/**
+ * Returns the worker's copy of a palette.
+ * Palettes arrive as fresh copies every frame; reusing one object per
+ * palette keeps the sprite cache, which is keyed on palette colours, warm.
+ */
+function internPalette(palette: OrbPalette | null): OrbPalette | null {
+	if (!palette) return null;
+	const key = JSON.stringify(palette);
+	let interned = palettes.get(key);
+	if (!interned) {
+		interned = palette;
+		palettes.set(key, interned);
+	}
+	return interned;
+}
+
+/**
+ * Returns a frame's palette blend with interned palettes.
+ */
+function internBlend(blend: OrbPaletteBlend | null): OrbPaletteBlend | null {
+	if (!blend) return null;
+	return { from: internPalette(blend.from), to: internPalette(blend.to), progress: blend.progress };
+}
+
+/**
+ * Steps physics, draws orbs, and streams a snapshot when one is due.
+ */
+function runFrame(frame: OrbWorkerFrame): void {
+	if (!simulation || !renderer) return;
+
+	clock.set(frame.time);
+
+	renderer.resize(frame.windowSize, frame.quality.resolutionScale);
+
+	if (frame.easedProgress < 1) return;
+
+	// Physics
+	if (frame.pausePhysics) {
+		simulation.markGrid();
+	} else {
+		simulation.setInputs(frame.inputs);
+		simulation.setFlags(frame.flags);
+		for (let i = 0; i < frame.timing.steps; i++) {
+			simulation.step(frame.timing.stepSeconds);
+		}
+	}
+
+	// Rendering
+	const { grid, species } = simulation.getState();
+	if (frame.showGraphics && grid) {
+		renderer.draw(
+			simulation.orbs,
+			grid.config.layers,
+			frame.time,
+			frame.inputs.scrollOffset,
+			{
+				config: QualityGovernor.visualConfig(frame.quality),
+				species: species.profiles,
+				alpha: frame.pausePhysics ? 1 : frame.timing.alpha,
+				focus: frame.focus,
+				parallaxDepth: frame.inputs.parallaxDepth,
+				palette: internBlend(frame.palette),
+				blendMode: frame.blendMode,
+			}
+		);
+	} else {
+		renderer.clear();
+	}
+
+	// Snapshot stream
+	const interval = frame.isDebugMode
+		? DEFAULT_ORB_WORKER_CONFIG.debugSnapshotIntervalMs
+		: DEFAULT_ORB_WORKER_CONFIG.snapshotIntervalMs;
+	if (performance.now() - lastSnapshotTime >= interval) {
+		postSnapshot();
+	}
+	flushEvents();
+}
+
+self.addEventListener('message', (event: MessageEvent<OrbWorkerRequest>) => {
+	const message = event.data;
+
+	switch (message.type) {
+		case 'init':
+			renderer = Canvas2DOrbRenderer.create(message.canvas);
+			simulation = new OrbSimulation({
+				seed: message.seed ?? undefined,
+				clock,
+			});
+			simulation.replaceOrbs(message.orbs);
+			simulation.setBurstTime(message.burstTime);
+			// Match every toggle, including phases that start disabled
+			for (const { name } of simulation.pipeline.getPhases()) {
+				setPhaseEnabled(name, !message.disabledPhases.includes(name));
+			}
+			simulation.setForceFields(message.forceFields);
+			simulation.setFormation(message.formation);
+			simulation.setBoundaries(message.boundaries);
+			simulation.setFlocking(message.flocking);
+			simulation.setSpecies(message.species);
+			subscribeEvents();
+			break;
+
+		case 'configure':
+			simulation?.configureGrid(message.config, message.windowSize);
+			break;
+
+		case 'frame':
+			runFrame(message.frame);
+			break;
+
+		case 'burst':
+			simulation?.spawnBurst(message.centerX, message.centerY);
+			postSnapshot();
+			flushEvents();
+			break;
+
+		case 'createOrb': {
+			const orb = simulation?.createOrb(message.pxX, message.pxY, message.z, message.size) ?? null;
+			postSnapshot();
+			flushEvents();
+			respond({ type: 'orbCreated', requestId: message.requestId, orb });
+			break;
+		}
+
+		case 'deleteOrb':
+			simulation?.deleteOrb(message.id);
+			postSnapshot();
+			break;
+
+		case 'restore':
+			simulation?.restore(message.orbs, message.burstTime);
+			postSnapshot();
+			break;
+
+		case 'setPhaseEnabled':
+			setPhaseEnabled(message.name, message.enabled);
+			break;
+
+		case 'setForceFields':
+			simulation?.setForceFields(message.fields);
+			break;
+
+		case 'setFormation':
+			simulation?.setFormation(message.formation);
+			break;
+
+		case 'setBoundaries':
+			simulation?.setBoundaries(message.boundaries);
+			break;
+
+		case 'setFlocking':
+			simulation?.setFlocking(message.config);
+			break;
+
+		case 'setSpecies':
+			simulation?.setSpecies(message.species);
+			break;
+
+		case 'setEventTypes':
+			eventTypes = message.types;
+			subscribeEvents();
+			break;
+	}
+});
+
+// The host transfers the canvas only once this module has loaded
+respond({ type: 'ready' });
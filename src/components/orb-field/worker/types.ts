@@ -0,0 +1,79 @@
+// =============================================================================
+// Worker Types - Message protocol between main thread and orb worker
+// =============================================================================
+
+import { type Orb } from '../orb/types';
+import { type GridConfig } from '../grid/types';
+import { type OrbBlendMode, type WindowSize } from '../shared/types';
+import { type ForceField } from '../force-field';
+import { type OrbFormation } from '../formation';
+import { type OrbBoundaries } from '../boundary';
+import { type FlockingConfig } from '../flocking';
+import { type OrbSpeciesConfig } from '../species';
+import { type OrbFieldEvent, type OrbFieldEventType } from '../events';
+import { type QualityTier } from '../quality';
+import { type OrbFocus } from '../focus';
+import { type OrbPaletteBlend } from '../palette';
+import { type OrbSimulationInputs, type OrbSimulationFlags, type FixedStepTiming } from '../simulation';
+
+/**
+ * Per-frame message carrying all inputs the worker needs for one step.
+ */
+export interface OrbWorkerFrame {
+	/** Reveal animation progress (0 to 1) with easing applied. */
+	easedProgress: number;
+	/** Time elapsed since last frame in seconds. */
+	deltaTime: number;
+	/** Fixed physics steps to run and render interpolation factor. */
+	timing: FixedStepTiming;
+	/** Current effective (pause-aware) time in milliseconds. */
+	time: number;
+	/** Current window dimensions. */
+	windowSize: WindowSize;
+	/** Pointer, scroll offset and page visibility. */
+	inputs: OrbSimulationInputs;
+	/** Physics feature flags from the debug menu. */
+	flags: OrbSimulationFlags;
+	/** Whether physics is paused (orbs are still drawn). */
+	pausePhysics: boolean;
+	/** Whether visual orbs should be drawn. */
+	showGraphics: boolean;
+	/** Whether debug mode is on (increases snapshot rate). */
+	isDebugMode: boolean;
+	/** Quality tier (gradient detail, glow and canvas resolution). */
+	quality: QualityTier;
+	/** Focal plane; null blurs with depth. */
+	focus: OrbFocus | null;
+	/** Palettes to colour orbs from; null keeps species colours. */
+	palette: OrbPaletteBlend | null;
+	/** How overlapping orbs combine. */
+	blendMode: OrbBlendMode;
+}
+
+/**
+ * Messages sent from the main thread to the worker.
+ */
+export type OrbWorkerRequest =
+	| { type: 'init'; canvas: OffscreenCanvas; seed: number | null; orbs: Orb[]; burstTime: number | null; disabledPhases: string[]; forceFields: ForceField[]; formation: OrbFormation | null; boundaries: OrbBoundaries; flocking: FlockingConfig; species: OrbSpeciesConfig }
+	| { type: 'configure'; config: GridConfig; windowSize: WindowSize }
+	| { type: 'frame'; frame: OrbWorkerFrame }
+	| { type: 'burst'; centerX: number; centerY: number }
+	| { type: 'createOrb'; requestId: number; pxX: number; pxY: number; z: number; size: number }
+	| { type: 'deleteOrb'; id: string }
+	| { type: 'restore'; orbs: Orb[]; burstTime: number | null }
+	| { type: 'setPhaseEnabled'; name: string; enabled: boolean }
+	| { type: 'setForceFields'; fields: ForceField[] }
+	| { type: 'setFormation'; formation: OrbFormation | null }
+	| { type: 'setBoundaries'; boundaries: Partial<OrbBoundaries> }
+	| { type: 'setFlocking'; config: Partial<FlockingConfig> }
+	| { type: 'setSpecies'; species: Partial<OrbSpeciesConfig> }
+	| { type: 'setEventTypes'; types: OrbFieldEventType[] };
+
+/**
+ * Messages sent from the worker back to the main thread.
+ */
+export type OrbWorkerResponse =
+	| { type: 'ready' }
+	| { type: 'snapshot'; orbs: Orb[] }
+	| { type: 'orbCreated'; requestId: number; orb: Orb | null }
+	| { type: 'events'; events: OrbFieldEvent[] };
@@ -0,0 +1,98 @@
+"use client";
+
+import {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useMemo,
+    useSyncExternalStore,
+    type ReactNode,
+} from "react";
+import { motionStorage, type MotionPreference } from "@/lib/storage";
+
+// ============================================================================
+// System Setting
+// ============================================================================
+
+const REDUCED_MOTION_QUERY = "(prefers-reduced-motion: reduce)";
+
+function subscribeSystemMotion(callback: () => void) {
+    const media = window.matchMedia(REDUCED_MOTION_QUERY);
+    media.addEventListener("change", callback);
+    return () => media.removeEventListener("change", callback);
+}
+
+function getSystemReducedMotion() {
+    return window.matchMedia(REDUCED_MOTION_QUERY).matches;
+}
+
+function subscribePreference(callback: () => void) {
+    return motionStorage.subscribe(callback);
+}
+
+function getPreference() {
+    return motionStorage.getPreference();
+}
+
+// The server cannot know either setting; full motion until hydrated
+const getServerReducedMotion = () => false;
+const getServerPreference = (): MotionPreference => "system";
+
+// ============================================================================
+// Motion Context
+// ============================================================================
+
+type MotionContextValue = {
+    /** Whether animations should be calmed (OS setting or visitor override) */
+    reducedMotion: boolean;
+    /** Whether the OS asks for reduced motion */
+    systemReducedMotion: boolean;
+    /** Visitor choice; "system" follows the OS setting */
+    preference: MotionPreference;
+    setPreference: (preference: MotionPreference) => void;
+};
+
+const MotionContext = createContext<MotionContextValue | undefined>(undefined);
+
+export function useMotionPreference() {
+    const context = useContext(MotionContext);
+    if (!context) {
+        throw new Error("useMotionPreference must be used within a MotionProvider");
+    }
+    return context;
+}
+
+// ============================================================================
+// MotionProvider Component - prefers-reduced-motion + visitor calm mode
+// ============================================================================
+
+type MotionProviderProps = {
+    children: ReactNode;
+};
+
+export function MotionProvider({ children }: MotionProviderProps) {
+    const systemReducedMotion = useSyncExternalStore(subscribeSystemMotion, getSystemReducedMotion, getServerReducedMotion);
+    const preference = useSyncExternalStore(subscribePreference, getPreference, getServerPreference);
+    const reducedMotion = preference === "system" ? systemReducedMotion : preference === "reduced";
+
+    // Lets CSS calm transitions and keyframe animations
+    useEffect(() => {
+        document.documentElement.setAttribute("data-motion", reducedMotion ? "reduced" : "full");
+    }, [reducedMotion]);
+
+    const setPreference = useCallback((next: MotionPreference) => {
+        motionStorage.setPreference(next);
+    }, []);
+
+    const value = useMemo(
+        () => ({ reducedMotion, systemReducedMotion, preference, setPreference }),
+        [reducedMotion, systemReducedMotion, preference, setPreference]
+    );
+
+    return (
+        <MotionContext.Provider value={value}>
+            {children}
+        </MotionContext.Provider>
+    );
+}
@@ -1,13 +1,9 @@
 "use client";
 
-import {
-    createContext,
-    useContext,
-    useEffect,
-    useState,
-    type ReactNode,
-} from "react";
+import { type ReactNode } from "react";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { ThemeProvider } from "./ThemeProvider";
+import { MotionProvider } from "./MotionProvider";
 
 // ============================================================================
 // Query Client
@@ -23,29 +19,7 @@ const queryClient = new QueryClient({
 });
 
 // ============================================================================
-// Theme Context
-// ============================================================================
-
-type Theme = "light" | "dark";
-
-type ThemeContextValue = {
-    theme: Theme;
-    toggleTheme: () => void;
-    setTheme: (theme: Theme) => void;
-};
-
-const ThemeContext = createContext<ThemeContextValue | undefined>(undefined);
-
-export function useTheme() {
-    const context = useContext(ThemeContext);
-    if (!context) {
-        throw new Error("useTheme must be used within a ThemeProvider");
-    }
-    return context;
-}
-
-// ============================================================================
-// Providers Component - Theme provider + QueryClient
+// Providers Component - Theme + motion preference + QueryClient
 // ============================================================================
 
 type ProvidersProps = {
@@ -53,27 +27,11 @@ type ProvidersProps = {
 };
 
 export function Providers({ children }: ProvidersProps) {
-    // Force dark mode for now
-    const theme: Theme = "dark";
-
-    useEffect(() => {
-        document.documentElement.setAttribute("data-theme", "dark");
-    }, []);
-
-    // Disabled theme switching - always dark mode
-    const toggleTheme = () => {
-        // No-op: dark mode only for now
-    };
-
-    const setTheme = (_newTheme: Theme) => {
-        // No-op: dark mode only for now
-    };
-
     return (
         <QueryClientProvider client={queryClient}>
-            <ThemeContext.Provider value={{ theme, toggleTheme, setTheme }}>
-                {children}
-            </ThemeContext.Provider>
+            <ThemeProvider>
+                <MotionProvider>{children}</MotionProvider>
+            </ThemeProvider>
         </QueryClientProvider>
     );
 }
@@ -0,0 +1,117 @@
+"use client";
+
+import {
+    createContext,
+    useCallback,
+    useContext,
+    useEffect,
+    useMemo,
+    useSyncExternalStore,
+    type ReactNode,
+} from "react";
+import { themeStorage, type ThemePreference } from "@/lib/storage";
+import { DARK_SCHEME_QUERY, type Theme } from "./themeScript";
+
+// ============================================================================
+// System Setting
+// ============================================================================
+
+function subscribeSystemTheme(callback: () => void) {
+    const media = window.matchMedia(DARK_SCHEME_QUERY);
+    media.addEventListener("change", callback);
+    return () => media.removeEventListener("change", callback);
+}
+
+function getSystemTheme(): Theme {
+    return window.matchMedia(DARK_SCHEME_QUERY).matches ? "dark" : "light";
+}
+
+function subscribePreference(callback: () => void) {
+    return themeStorage.subscribe(callback);
+}
+
+function getPreference() {
+    return themeStorage.getPreference();
+}
+
+// The server cannot know either setting; dark (the original design) until hydrated
+const getServerSystemTheme = (): Theme => "dark";
+const getServerPreference = (): ThemePreference => "system";
+
+// False only while hydrating, when the settings above are still server guesses
+const subscribeHydration = () => () => {};
+const getHydrated = () => true;
+const getServerHydrated = () => false;
+
+// ============================================================================
+// Theme Context
+// ============================================================================
+
+type ThemeContextValue = {
+    /** Active theme (visitor choice, or the OS colour scheme) */
+    theme: Theme;
+    /** Colour scheme the OS asks for */
+    systemTheme: Theme;
+    /** Visitor choice; "system" follows the OS colour scheme */
+    preference: ThemePreference;
+    setPreference: (preference: ThemePreference) => void;
+    /** Switches to a theme, storing "system" when it matches the OS */
+    setTheme: (theme: Theme) => void;
+    toggleTheme: () => void;
+};
+
+const ThemeContext = createContext<ThemeContextValue | undefined>(undefined);
+
+export function useTheme() {
+    const context = useContext(ThemeContext);
+    if (!context) {
+        throw new Error("useTheme must be used within a ThemeProvider");
+    }
+    return context;
+}
+
+// ============================================================================
+// ThemeProvider Component - prefers-color-scheme + visitor theme choice
+// ============================================================================
+
+type ThemeProviderProps = {
+    children: ReactNode;
+};
+
+export function ThemeProvider({ children }: ThemeProviderProps) {
+    const systemTheme = useSyncExternalStore(subscribeSystemTheme, getSystemTheme, getServerSystemTheme);
+    const preference = useSyncExternalStore(subscribePreference, getPreference, getServerPreference);
+    const hydrated = useSyncExternalStore(subscribeHydration, getHydrated, getServerHydrated);
+    const theme: Theme = preference === "system" ? systemTheme : preference;
+
+    // Drives the [data-theme] styles; THEME_INIT_SCRIPT sets them before hydration,
+    // so the server guess is never applied
+    useEffect(() => {
+        if (!hydrated) return;
+        document.documentElement.setAttribute("data-theme", theme);
+        document.documentElement.style.colorScheme = theme;
+    }, [hydrated, theme]);
+
+    const setPreference = useCallback((next: ThemePreference) => {
+        themeStorage.setPreference(next);
+    }, []);
+
+    const setTheme = useCallback((next: Theme) => {
+        themeStorage.setPreference(next === systemTheme ? "system" : next);
+    }, [systemTheme]);
+
+    const toggleTheme = useCallback(() => {
+        setTheme(theme === "dark" ? "light" : "dark");
+    }, [theme, setTheme]);
+
+    const value = useMemo(
+        () => ({ theme, systemTheme, preference, setPreference, setTheme, toggleTheme }),
+        [theme, systemTheme, preference, setPreference, setTheme, toggleTheme]
+    );
+
+    return (
+        <ThemeContext.Provider value={value}>
+            {children}
+        </ThemeContext.Provider>
+    );
+}
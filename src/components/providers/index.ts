@@ -1 +1,4 @@
-export { Providers, useTheme } from "./Providers";
+export { Providers } from "./Providers";
+export { ThemeProvider, useTheme } from "./ThemeProvider";
+export { THEME_INIT_SCRIPT, type Theme } from "./themeScript";
+export { MotionProvider, useMotionPreference } from "./MotionProvider";
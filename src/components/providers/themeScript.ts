@@ -0,0 +1,26 @@
+import { THEME_PREFERENCE_KEY } from "@/lib/storage";
+
+// ============================================================================
+// Theme Script - Applies the theme before React hydrates
+// Kept out of ThemeProvider so the server layout can inline it
+// ============================================================================
+
+export type Theme = "light" | "dark";
+
+export const DARK_SCHEME_QUERY = "(prefers-color-scheme: dark)";
+
+/**
+ * Inline script for the document head. Applies the stored or OS theme
+ * before first paint, so a light-theme visitor never sees the dark page
+ * while React hydrates. Mirrors ThemeProvider's theme resolution.
+ */
+export const THEME_INIT_SCRIPT = `(function () {
+    try {
+        var stored = localStorage.getItem("${THEME_PREFERENCE_KEY}");
+        var theme = stored === "light" || stored === "dark"
+            ? stored
+            : window.matchMedia("${DARK_SCHEME_QUERY}").matches ? "dark" : "light";
+        document.documentElement.setAttribute("data-theme", theme);
+        document.documentElement.style.colorScheme = theme;
+    } catch (e) {}
+})();`;
@@ -1,5 +1,3 @@
-import Image from "next/image";
-
 type IconType = "github" | "linkedin" | "uio" | "email" | "external";
 
 type LinkIconProps = {
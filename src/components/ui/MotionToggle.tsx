@@ -0,0 +1,39 @@
+"use client";
+
+import { useMotionPreference } from "../providers/MotionProvider";
+
+/**
+ * Visitor-facing "calm mode" switch. Overrides the OS reduced-motion
+ * setting; a choice that matches the OS is stored as "system" so later
+ * OS changes still apply.
+ */
+export function MotionToggle() {
+    const { reducedMotion, systemReducedMotion, setPreference } = useMotionPreference();
+
+    const toggleMotion = () => {
+        const nextReduced = !reducedMotion;
+        setPreference(nextReduced === systemReducedMotion ? "system" : nextReduced ? "reduced" : "full");
+    };
+
+    const label = reducedMotion ? "Turn off calm mode" : "Turn on calm mode";
+
+    return (
+        <button
+            onClick={toggleMotion}
+            className="motion-toggle"
+            aria-pressed={reducedMotion}
+            aria-label={label}
+            title={label}
+        >
+            {reducedMotion ? (
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+                    <line x1="4" y1="12" x2="20" y2="12" />
+                </svg>
+            ) : (
+                <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round">
+                    <path d="M2 12c2-4 4-4 6 0s4 4 6 0 4-4 6 0" />
+                </svg>
+            )}
+        </button>
+    );
+}
@@ -10,6 +10,8 @@ interface ScrollDotIndicatorProps {
 	visible: boolean;
 	theme: "light" | "dark";
 	sectionLabels: string[];
+	/** Whether orbs in the orb field flow around the indicator (default: false) */
+	orbObstacle?: boolean;
 }
 
 /**
@@ -24,6 +26,7 @@ export function ScrollDotIndicator({
 	visible,
 	theme,
 	sectionLabels,
+	orbObstacle = false,
 }: ScrollDotIndicatorProps) {
 	// Refs for each dot button
 	const dotRefs = useRef<(HTMLButtonElement | null)[]>([]);
@@ -55,6 +58,7 @@ export function ScrollDotIndicator({
 		<nav
 			className={`${styles.dotIndicator} ${themeClass} ${visible ? styles.visible : ""}`}
 			aria-label="Section navigation"
+			data-orb-obstacle={orbObstacle ? "" : undefined}
 		>
 			{Array.from({ length: totalSections }, (_, index) => {
 				const isActive = activeSection === index;
@@ -1,16 +1,23 @@
 "use client";
 
-import { useTheme } from "../providers/Providers";
+import { useTheme } from "../providers/ThemeProvider";
 
+/**
+ * Visitor-facing light/dark switch. Overrides the OS colour scheme; a
+ * choice that matches the OS is stored as "system" so later OS changes
+ * still apply.
+ */
 export function ThemeToggle() {
     const { theme, toggleTheme } = useTheme();
 
+    const label = `Switch to ${theme === "dark" ? "light" : "dark"} mode`;
+
     return (
         <button
             onClick={toggleTheme}
             className="theme-toggle"
-            aria-label={`Switch to ${theme === "dark" ? "light" : "dark"} mode`}
-            title={`Switch to ${theme === "dark" ? "light" : "dark"} mode`}
+            aria-label={label}
+            title={label}
         >
             {theme === "dark" ? (
                 <svg viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
@@ -1,4 +1,5 @@
 export { ThemeToggle } from "./ThemeToggle";
+export { MotionToggle } from "./MotionToggle";
 export { LinkIcon } from "./LinkIcon";
 export { ScrollDotIndicator } from "./ScrollDotIndicator";
 export { Attribution } from "./Attribution";
@@ -1,2 +1,6 @@
 export { debugStorage, DEBUG_MODE_KEY, DEBUG_EVENTS } from './debugStorage';
 export type { DebugStorageAdapter } from './debugStorage';
+export { motionStorage, MOTION_PREFERENCE_KEY } from './motionStorage';
+export type { MotionStorageAdapter, MotionPreference } from './motionStorage';
+export { themeStorage, THEME_PREFERENCE_KEY } from './themeStorage';
+export type { ThemeStorageAdapter, ThemePreference } from './themeStorage';
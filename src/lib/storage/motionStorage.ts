@@ -0,0 +1,71 @@
+/**
+ * Storage abstraction for the visitor's motion preference ("calm mode")
+ * Follows Dependency Inversion Principle - components depend on this interface,
+ * not on concrete localStorage implementation
+ */
+
+/**
+ * Storage key for the motion preference
+ */
+export const MOTION_PREFERENCE_KEY = 'motion-preference';
+
+/**
+ * Visitor choice: follow the OS setting, or force reduced or full motion
+ */
+export type MotionPreference = 'system' | 'reduced' | 'full';
+
+export interface MotionStorageAdapter {
+	getPreference(): MotionPreference;
+	setPreference(preference: MotionPreference): void;
+	subscribe(callback: (preference: MotionPreference) => void): () => void;
+}
+
+function isMotionPreference(value: string | null): value is MotionPreference {
+	return value === 'system' || value === 'reduced' || value === 'full';
+}
+
+/**
+ * LocalStorage implementation of MotionStorageAdapter
+ * Caches the stored value so frequent reads stay cheap
+ */
+class LocalStorageMotionAdapter implements MotionStorageAdapter {
+	private listeners: Set<(preference: MotionPreference) => void> = new Set();
+	private cached: MotionPreference | null = null;
+
+	getPreference(): MotionPreference {
+		if (typeof window === 'undefined') return 'system';
+		if (this.cached === null) {
+			const stored = localStorage.getItem(MOTION_PREFERENCE_KEY);
+			this.cached = isMotionPreference(stored) ? stored : 'system';
+		}
+		return this.cached;
+	}
+
+	setPreference(preference: MotionPreference): void {
+		if (typeof window === 'undefined') return;
+
+		this.cached = preference;
+		if (preference === 'system') {
+			localStorage.removeItem(MOTION_PREFERENCE_KEY);
+		} else {
+			localStorage.setItem(MOTION_PREFERENCE_KEY, preference);
+		}
+
+		// Notify subscribers
+		this.listeners.forEach(listener => listener(preference));
+	}
+
+	subscribe(callback: (preference: MotionPreference) => void): () => void {
+		this.listeners.add(callback);
+
+		// Return unsubscribe function
+		return () => {
+			this.listeners.delete(callback);
+		};
+	}
+}
+
+/**
+ * Singleton instance for app-wide use
+ */
+export const motionStorage: MotionStorageAdapter = new LocalStorageMotionAdapter();
@@ -0,0 +1,72 @@
+/**
+ * Storage abstraction for the visitor's colour theme
+ * Follows Dependency Inversion Principle - components depend on this interface,
+ * not on concrete localStorage implementation
+ */
+
+/**
+ * Storage key for the theme preference
+ * Also read by the inline script that applies the theme before first paint
+ */
+export const THEME_PREFERENCE_KEY = 'theme-preference';
+
+/**
+ * Visitor choice: follow the OS colour scheme, or force light or dark
+ */
+export type ThemePreference = 'system' | 'light' | 'dark';
+
+export interface ThemeStorageAdapter {
+	getPreference(): ThemePreference;
+	setPreference(preference: ThemePreference): void;
+	subscribe(callback: (preference: ThemePreference) => void): () => void;
+}
+
+function isThemePreference(value: string | null): value is ThemePreference {
+	return value === 'system' || value === 'light' || value === 'dark';
+}
+
+/**
+ * LocalStorage implementation of ThemeStorageAdapter
+ * Caches the stored value so frequent reads stay cheap
+ */
+class LocalStorageThemeAdapter implements ThemeStorageAdapter {
+	private listeners: Set<(preference: ThemePreference) => void> = new Set();
+	private cached: ThemePreference | null = null;
+
+	getPreference(): ThemePreference {
+		if (typeof window === 'undefined') return 'system';
+		if (this.cached === null) {
+			const stored = localStorage.getItem(THEME_PREFERENCE_KEY);
+			this.cached = isThemePreference(stored) ? stored : 'system';
+		}
+		return this.cached;
+	}
+
+	setPreference(preference: ThemePreference): void {
+		if (typeof window === 'undefined') return;
+
+		this.cached = preference;
+		if (preference === 'system') {
+			localStorage.removeItem(THEME_PREFERENCE_KEY);
+		} else {
+			localStorage.setItem(THEME_PREFERENCE_KEY, preference);
+		}
+
+		// Notify subscribers
+		this.listeners.forEach(listener => listener(preference));
+	}
+
+	subscribe(callback: (preference: ThemePreference) => void): () => void {
+		this.listeners.add(callback);
+
+		// Return unsubscribe function
+		return () => {
+			this.listeners.delete(callback);
+		};
+	}
+}
+
+/**
+ * Singleton instance for app-wide use
+ */
+export const themeStorage: ThemeStorageAdapter = new LocalStorageThemeAdapter();